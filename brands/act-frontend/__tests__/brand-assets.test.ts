@@ -0,0 +1,41 @@
+// @vitest-environment node
+// jsdom's Blob has no arrayBuffer(), which hashing needs
+import { describe, it, expect, vi } from 'vitest';
+
+// The package entry creates a Supabase client from env at import time
+vi.mock('@act/auth', () => ({ uploadBrandFile: vi.fn(), uploadBrandFiles: vi.fn() }));
+
+import {
+  detectAssetType,
+  fitWithin,
+  hashFile,
+  normalizeTags,
+  toPrefixTsQuery,
+} from '../lib/brand-assets';
+
+describe('Brand Assets', () => {
+  it('should classify uploads and normalize tags', () => {
+    expect(detectAssetType({ name: 'Acme-Logo-Dark.svg', type: 'image/svg+xml' })).toBe('logo');
+    expect(detectAssetType({ name: 'hero.jpg', type: 'image/jpeg' })).toBe('image');
+    expect(detectAssetType({ name: 'Inter.woff2', type: '' })).toBe('font');
+    expect(detectAssetType({ name: 'press-kit.zip', type: 'application/zip' })).toBe('other');
+
+    expect(normalizeTags(' Campaign,  dark   background ,campaign,, ')).toEqual(['campaign', 'dark background']);
+  });
+
+  it('should build prefix searches and thumbnail sizes', () => {
+    expect(toPrefixTsQuery('Summer logo-dark!')).toBe('summer:* & logo:* & dark:*');
+    expect(toPrefixTsQuery('  & | ')).toBeNull();
+
+    expect(fitWithin(1920, 1080, 320)).toEqual({ width: 320, height: 180 });
+    expect(fitWithin(100, 400, 320)).toEqual({ width: 80, height: 320 });
+    expect(fitWithin(200, 100, 320)).toEqual({ width: 200, height: 100 });
+  });
+
+  it('should hash identical contents to the same value', async () => {
+    const hash = await hashFile(new Blob(['brand']));
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashFile(new Blob(['brand']))).toBe(hash);
+    expect(await hashFile(new Blob(['brand!']))).not.toBe(hash);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_BRAND_GUIDELINES } from '../lib/brand-guidelines';
+import { applySuggestions, checkBrandCompliance } from '../lib/brand-compliance';
+
+describe('Brand Compliance', () => {
+  const guidelines = {
+    ...EMPTY_BRAND_GUIDELINES,
+    banned_words: ['cheap'],
+    terminology: ['customers, not users'],
+    product_names: ['AcmeCloud'],
+    required_disclaimers: ['Terms apply.'],
+    spelling_variant: 'uk' as const,
+  };
+
+  it('should annotate banned terms, spelling, product names and missing disclaimers', () => {
+    const text = 'Users can customize the color of acmecloud. Cheap and fast.';
+    const result = checkBrandCompliance(text, guidelines);
+
+    const found = result.annotations.map(a => [a.category, a.start === null ? null : text.slice(a.start, a.end!), a.suggestion]);
+    expect(found).toEqual([
+      ['banned_terms', 'Users', 'Customers'],
+      ['spelling', 'customize', 'customise'],
+      ['spelling', 'color', 'colour'],
+      ['product_names', 'acmecloud', 'AcmeCloud'],
+      ['banned_terms', 'Cheap', null],
+      ['disclaimers', null, 'Terms apply.'],
+    ]);
+    expect(result.categories.map(c => c.category)).toEqual(['banned_terms', 'disclaimers', 'spelling', 'product_names']);
+    expect(result.score).toBeLessThan(100);
+  });
+
+  it('should apply suggested rewrites and append missing disclaimers', () => {
+    const text = 'Users can customize the color of acmecloud.';
+    const { annotations } = checkBrandCompliance(text, guidelines);
+
+    const rewritten = applySuggestions(text, annotations);
+    expect(rewritten).toBe('Customers can customise the colour of AcmeCloud.\n\nTerms apply.');
+    expect(checkBrandCompliance(rewritten, guidelines).score).toBe(100);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { brandGuidelinesSchema, normalizeBrandGuidelines, EMPTY_BRAND_GUIDELINES } from '../lib/brand-guidelines';
+
+describe('Brand Guidelines', () => {
+  it('should reject colours without a valid hex value', () => {
+    const result = brandGuidelinesSchema.safeParse({
+      ...EMPTY_BRAND_GUIDELINES,
+      palette: [{ name: 'Primary blue', hex: 'blue' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should normalise hex values and drop duplicates', () => {
+    const guidelines = brandGuidelinesSchema.parse({
+      ...EMPTY_BRAND_GUIDELINES,
+      palette: [
+        { name: 'Primary blue', hex: '#063ef8', usage: 'Headlines' },
+        { name: 'Blue', hex: '#063EF8' },
+        { name: 'White', hex: ' #fff ' },
+      ],
+      typography: [{ family: 'Inter', role: 'Body copy' }, { family: 'inter', role: 'body copy' }],
+      banned_words: ['cheap', 'Cheap', ' synergy '],
+    });
+
+    const normalized = normalizeBrandGuidelines(guidelines);
+    expect(normalized.palette.map(c => c.hex)).toEqual(['#063EF8', '#FFFFFF']);
+    expect(normalized.typography).toHaveLength(1);
+    expect(normalized.banned_words).toEqual(['cheap', 'synergy']);
+  });
+});
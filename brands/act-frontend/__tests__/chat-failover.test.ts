@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { APICallError } from 'ai';
+import { MODELS } from '@act/models';
+import {
+  classifyModelError,
+  getRetryDelay,
+  streamWithFailover,
+} from '../lib/chat/failover';
+
+function apiError(statusCode: number, responseHeaders?: Record<string, string>) {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+}
+
+type Part = { type: string; text?: string; error?: unknown };
+
+async function* parts(...items: Part[]): AsyncIterable<Part> {
+  for (const item of items) yield item;
+}
+
+async function collect(stream: AsyncIterable<{ type: string }>) {
+  const result: { type: string }[] = [];
+  for await (const part of stream) result.push(part);
+  return result;
+}
+
+const chain = [MODELS['claude-sonnet-4-5'], MODELS['gpt-4o']];
+const fast = { baseDelayMs: 0 };
+
+describe('Chat Failover', () => {
+  it('should retry transient errors and fail over on other provider errors', () => {
+    expect(classifyModelError(apiError(429))).toBe('retry');
+    expect(classifyModelError(apiError(529))).toBe('retry');
+    expect(classifyModelError(apiError(401))).toBe('failover');
+    expect(classifyModelError(new TypeError('fetch failed'))).toBe('retry');
+    expect(classifyModelError(new Error('boom'))).toBe('fatal');
+  });
+
+  it('should honour retry-after and cap the backoff', () => {
+    expect(getRetryDelay(0, apiError(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(getRetryDelay(10, apiError(503))).toBe(8000);
+  });
+
+  it('should retry the same model before failing over', async () => {
+    const attempts: string[] = [];
+    const result = await collect(streamWithFailover(chain, model => {
+      attempts.push(model.id);
+      return attempts.length < 3
+        ? parts({ type: 'start' }, { type: 'error', error: apiError(529) })
+        : parts({ type: 'start' }, { type: 'text-delta', text: 'Hi' });
+    }, fast));
+
+    expect(attempts).toEqual(['claude-sonnet-4-5', 'claude-sonnet-4-5', 'claude-sonnet-4-5']);
+    expect(result.map(p => p.type)).toEqual(['model', 'start', 'text-delta']);
+  });
+
+  it('should fail over to the next model and report which one answered', async () => {
+    const result = await collect(streamWithFailover(chain, model =>
+      model.id === 'claude-sonnet-4-5'
+        ? parts({ type: 'error', error: apiError(401) })
+        : parts({ type: 'text-delta', text: 'Hi' })
+    , fast));
+
+    expect(result[0]).toEqual({
+      type: 'model',
+      model: { id: 'gpt-4o', name: 'GPT-4o', provider: 'openai', fallbackFrom: 'claude-sonnet-4-5' },
+    });
+  });
+
+  it('should not fail over once the model has started answering', async () => {
+    const stream = streamWithFailover(chain, () =>
+      parts({ type: 'text-delta', text: 'Hi' }, { type: 'error', error: apiError(503) })
+    , fast);
+
+    await expect(collect(stream)).rejects.toThrow('HTTP 503');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getDisplayStatus } from '../lib/chat/assistant-message';
+import { getGenerationChannelName, toGenerationSnapshot } from '../lib/chat/generation';
+import { applyChatEvent, createChatStreamState } from '../lib/chat/stream-events';
+
+describe('Chat Generation', () => {
+  it('should snapshot the streamed reply for participants', () => {
+    const state = [
+      { type: 'reasoning', delta: 'Checking.' } as const,
+      { type: 'text', delta: 'Use the blue logo.' } as const,
+    ].reduce(applyChatEvent, createChatStreamState());
+
+    expect(getGenerationChannelName('conv-1')).toBe('chat-generation:conv-1');
+    expect(toGenerationSnapshot('msg-1', 'streaming', state)).toEqual({
+      messageId: 'msg-1',
+      status: 'streaming',
+      content: 'Use the blue logo.',
+      metadata: { reasoning: 'Checking.' },
+    });
+  });
+
+  it('should show replies whose generation died as interrupted', () => {
+    const createdAt = '2026-01-12T12:00:00.000Z';
+    const start = new Date(createdAt).getTime();
+
+    expect(getDisplayStatus('streaming', createdAt, start + 60_000)).toBe('streaming');
+    expect(getDisplayStatus('streaming', createdAt, start + 11 * 60_000)).toBe('interrupted');
+    expect(getDisplayStatus('complete', createdAt, start + 11 * 60_000)).toBe('complete');
+    expect(getDisplayStatus(null, createdAt)).toBeUndefined();
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeSourceLocation,
+  type ChatSource,
+} from '../lib/chat/sources';
+
+const source: ChatSource = {
+  type: 'project_file',
+  index: 1,
+  title: 'Guidelines [final].pdf',
+  projectId: 'project-1',
+  fileId: 'file-1',
+  chunkIndex: 2,
+  startOffset: 1600,
+  endOffset: 2600,
+  similarity: 0.82,
+};
+
+describe('Chat Sources', () => {
+  it('should describe the chunk location', () => {
+    expect(describeSourceLocation(source)).toBe('chunk 3, chars 1,600–2,600');
+    expect(describeSourceLocation({ ...source, startOffset: undefined })).toBe('chunk 3');
+    expect(describeSourceLocation({ ...source, version: 2 })).toBe('v2, chunk 3, chars 1,600–2,600');
+    expect(describeSourceLocation({ ...source, section: 'Slide 4: Pricing', startOffset: undefined }))
+      .toBe('Slide 4: Pricing, chunk 3');
+    expect(describeSourceLocation({ type: 'brand_document', index: 1, title: 'Guide', documentId: 'doc-1', similarity: 0.9 }))
+      .toBe('brand knowledge base');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyChatEvent,
+  createChatStreamState,
+  encodeChatEvent,
+  getActiveToolCall,
+  getMessageMetadata,
+  readChatEvents,
+  type ChatStreamEvent,
+} from '../lib/chat/stream-events';
+
+// Split the encoded stream at arbitrary byte boundaries, like a real network read
+function toBody(text: string, chunkSize: number): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        controller.enqueue(bytes.slice(i, i + chunkSize));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatEvents(body)) events.push(event);
+  return events;
+}
+
+const events: ChatStreamEvent[] = [
+  { type: 'reasoning', delta: 'Let me check the guidelines.' },
+  { type: 'tool-call', toolCallId: 'call-1', toolName: 'search_brand_documents', input: { query: 'logo [colour]' } },
+  { type: 'tool-result', toolCallId: 'call-1', toolName: 'search_brand_documents', output: { results: ['Blue\n\nonly'] } },
+  { type: 'sources', sources: [{ type: 'brand_document', index: 1, title: 'Guide', documentId: 'doc-1', similarity: 0.9 }] },
+  { type: 'text', delta: 'The logo is blue [1].\n\n' },
+  { type: 'text', delta: 'Never 🔴.' },
+];
+
+describe('Chat Stream Events', () => {
+  it('should read events split across network chunks', async () => {
+    const body = toBody(events.map(encodeChatEvent).join(''), 7);
+    expect(await collect(body)).toEqual(events);
+  });
+
+  it('should fold events into the streamed message', () => {
+    let state = createChatStreamState();
+    state = applyChatEvent(state, events[1]);
+    expect(getActiveToolCall(state)).toBe('search_brand_documents');
+
+    state = events.slice(2).reduce(applyChatEvent, applyChatEvent(state, events[0]));
+    expect(getActiveToolCall(state)).toBeNull();
+    expect(state.content).toBe('The logo is blue [1].\n\nNever 🔴.');
+    expect(state.reasoning).toBe('Let me check the guidelines.');
+    expect(state.toolInvocations).toEqual([{
+      toolCallId: 'call-1',
+      toolName: 'search_brand_documents',
+      args: { query: 'logo [colour]' },
+      state: 'result',
+      result: { results: ['Blue\n\nonly'] },
+    }]);
+    expect(state.sources).toHaveLength(1);
+  });
+
+  it('should record tool and stream errors', () => {
+    let state = applyChatEvent(createChatStreamState(), events[1]);
+    state = applyChatEvent(state, { type: 'tool-error', toolCallId: 'call-1', toolName: 'search_brand_documents', error: 'Timed out' });
+    state = applyChatEvent(state, { type: 'error', message: 'Overloaded' });
+
+    expect(state.toolInvocations[0]).toMatchObject({ state: 'error', errorText: 'Timed out' });
+    expect(state.error).toBe('Overloaded');
+  });
+
+  it('should keep everything but the text in the saved metadata', () => {
+    const state = [{ type: 'message', messageId: 'msg-1' } as ChatStreamEvent, ...events]
+      .reduce(applyChatEvent, createChatStreamState());
+
+    expect(state.messageId).toBe('msg-1');
+    expect(Object.keys(getMessageMetadata(state)).sort()).toEqual(['reasoning', 'sources', 'tool_invocations']);
+    expect(getMessageMetadata(createChatStreamState())).toEqual({});
+  });
+});
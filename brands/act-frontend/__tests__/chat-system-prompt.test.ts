@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { MODELS, DEFAULT_MODEL_ID } from '@act/models';
+import { EMPTY_BRAND_GUIDELINES, type BrandProfile } from '../lib/brand-guidelines';
+import { STYLE_INSTRUCTIONS, buildBrandVoiceBlock, buildChatSystemPrompt } from '../lib/chat/system-prompt';
+
+const profile: BrandProfile = {
+  id: 'profile-1',
+  brand_id: 'acme',
+  version: 3,
+  guidelines: {
+    ...EMPTY_BRAND_GUIDELINES,
+    palette: [{ name: 'Blue', hex: '#063EF8' }],
+    tone_of_voice: ['warm', 'confident, never arrogant'],
+    audience: ['Small business owners'],
+    banned_words: ['cheap'],
+    approved_taglines: ['Made for makers'],
+  },
+  source_document_id: null,
+  created_by: null,
+  created_at: '2026-01-12T12:00:00.000Z',
+};
+
+describe('Chat System Prompt', () => {
+  it('should build a compact voice block from the profile', () => {
+    const block = buildBrandVoiceBlock(profile.guidelines);
+
+    expect(block).toContain('- Tone: warm; confident, never arrogant');
+    expect(block).toContain('- Audience: Small business owners');
+    expect(block).toContain('- Never use: cheap');
+    expect(block).toContain('- Approved taglines: "Made for makers"');
+    expect(block).not.toContain('#063EF8');
+    expect(buildBrandVoiceBlock({ ...EMPTY_BRAND_GUIDELINES, palette: profile.guidelines.palette })).toBe('');
+  });
+
+  it('should place the voice before project context and style', () => {
+    const prompt = buildChatSystemPrompt({
+      model: MODELS[DEFAULT_MODEL_ID],
+      brandId: 'acme',
+      customPrompt: 'You write for Acme.',
+      projectContext: '\n\nPROJECT FILES',
+      styleInstruction: STYLE_INSTRUCTIONS.concise,
+      brandProfile: profile,
+    });
+
+    expect(prompt.startsWith('You write for Acme.\n\nBRAND VOICE')).toBe(true);
+    expect(prompt.indexOf('BRAND VOICE')).toBeLessThan(prompt.indexOf('PROJECT FILES'));
+    expect(prompt.endsWith(STYLE_INSTRUCTIONS.concise)).toBe(true);
+    expect(buildChatSystemPrompt({ model: MODELS[DEFAULT_MODEL_ID], brandId: 'acme' })).not.toContain('BRAND VOICE');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCost,
+  estimatePromptTokens,
+  toChatUsage,
+} from '../lib/chat/usage';
+
+describe('Chat Usage', () => {
+  describe('calculateCost', () => {
+    it('should price input and output tokens per million', () => {
+      expect(calculateCost('claude-sonnet-4-5', 1_000_000, 1_000_000)).toBe(18);
+      expect(calculateCost('gpt-4o-mini', 1000, 500)).toBe(0.00045);
+    });
+
+    it('should match dated model snapshots to the base model', () => {
+      expect(calculateCost('gpt-4o-2024-08-06', 1_000_000, 0)).toBe(2.5);
+      expect(calculateCost('gpt-4o-mini-2024-07-18', 1_000_000, 0)).toBe(0.15);
+    });
+
+    it('should return 0 for unknown models', () => {
+      expect(calculateCost('unknown-model', 1000, 1000)).toBe(0);
+    });
+  });
+
+  describe('toChatUsage', () => {
+    it('should fill in missing token counts', () => {
+      const usage = toChatUsage('gpt-4o', { inputTokens: 100, outputTokens: 50 });
+      expect(usage.totalTokens).toBe(150);
+      expect(usage.model).toBe('gpt-4o');
+
+      expect(toChatUsage('gpt-4o', {}).totalTokens).toBe(0);
+    });
+  });
+
+  describe('estimatePromptTokens', () => {
+    it('should count system prompt and text content only', () => {
+      const tokens = estimatePromptTokens('a'.repeat(40), [
+        { content: 'b'.repeat(40) },
+        { content: [{ type: 'text', text: 'c'.repeat(20) }, { type: 'image', image: new Uint8Array(1000) }] },
+      ]);
+      expect(tokens).toBe(25);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkDocument,
+  createLocalEmbeddingProvider,
+  indexDocument,
+  type IndexingClient,
+} from '../../../supabase/functions/_shared/indexing';
+
+// Records embedding rows per document in memory. replace_document_chunks swaps a
+// document's rows at once, or leaves them alone when `failing` is set.
+function createMemoryClient() {
+  const rows: Record<string, unknown>[] = [];
+  const state = { failing: false };
+  const client: IndexingClient = {
+    rpc: async (_fn, { p_document_id, p_rows }) => {
+      if (state.failing) return { error: { message: 'insert failed' } };
+      for (let i = rows.length - 1; i >= 0; i--) {
+        if (rows[i].document_id === p_document_id) rows.splice(i, 1);
+      }
+      rows.push(...(p_rows as Record<string, unknown>[]));
+      return { error: null };
+    },
+  };
+  return { client, rows, state };
+}
+
+describe('Document Indexing', () => {
+  it('should keep chunks within their section and under the token limit', () => {
+    // Long enough that the paragraph has to be split at sentence ends
+    const paragraph = 'Our tone is warm and direct. We write for busy people. '.repeat(10).trim();
+    const text = `# Voice\n\n${paragraph}\n\n# Colours\n\nPrimary blue is #063EF8.`;
+
+    const chunks = chunkDocument(text, { maxTokens: 100, overlapTokens: 20 });
+    const last = chunks[chunks.length - 1];
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.slice(0, -1).every(c => c.heading === 'Voice' && /[.]$/.test(c.content))).toBe(true);
+    expect(chunks.every(c => c.tokens <= 100 && text.slice(c.start, c.end) === c.content)).toBe(true);
+    // Consecutive chunks overlap by a sentence
+    expect(chunks[1].start).toBeLessThan(chunks[0].end);
+    expect(last).toMatchObject({ heading: 'Colours', content: '# Colours\n\nPrimary blue is #063EF8.' });
+  });
+
+  it('should replace earlier chunks when a document is re-indexed', async () => {
+    const { client, rows } = createMemoryClient();
+    const provider = createLocalEmbeddingProvider(64);
+    const input = {
+      table: 'document_embeddings',
+      documentColumn: 'document_id',
+      documentId: 'doc-1',
+      columns: { brand_id: 'brand-1' },
+      text: '# Intro\n\nFirst paragraph.\n\n# Details\n\nSecond paragraph.',
+    };
+
+    await indexDocument(client, provider, input);
+    const { chunkCount } = await indexDocument(client, provider, input);
+
+    expect(chunkCount).toBe(2);
+    expect(rows).toHaveLength(2);
+    expect(rows.map(r => r.chunk_index)).toEqual([0, 1]);
+    expect(rows[0].embedding).toEqual((await provider.embed(['# Intro\n\nFirst paragraph.']))[0]);
+  });
+
+  it('should keep earlier chunks when the new ones cannot be stored', async () => {
+    const { client, rows, state } = createMemoryClient();
+    const provider = createLocalEmbeddingProvider(64);
+    const input = {
+      table: 'document_embeddings',
+      documentColumn: 'document_id',
+      documentId: 'doc-1',
+      columns: { brand_id: 'brand-1' },
+      text: '# Intro\n\nFirst paragraph.',
+    };
+
+    await indexDocument(client, provider, input);
+    state.failing = true;
+    await expect(indexDocument(client, provider, { ...input, text: 'Rewritten.' })).rejects.toThrow(/insert failed/);
+
+    expect(rows.map(r => r.content)).toEqual(['# Intro\n\nFirst paragraph.']);
+  });
+});
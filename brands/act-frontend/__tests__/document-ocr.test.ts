@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { chunkDocument } from '../../../supabase/functions/_shared/indexing';
+import {
+  describeImage,
+  imageMimeType,
+  recognizePdfPages,
+  type OcrEngine,
+  type OcrImage,
+} from '../../../supabase/functions/_shared/ocr';
+
+// Reads fixture "scans" whose bytes are the text they contain
+const localOcr: OcrEngine = {
+  name: 'local',
+  recognize: async (image) => new TextDecoder().decode(image.data),
+};
+
+const scan = (text: string): OcrImage => ({ data: new TextEncoder().encode(text), mimeType: 'image/png' });
+
+describe('Document OCR', () => {
+  it('should OCR scanned pages and keep their page numbers', async () => {
+    const text = await recognizePdfPages(
+      [
+        { page: 1, text: 'Master services agreement between ACT and Northwind.', image: async () => null },
+        { page: 2, text: ' ', image: async () => scan('Payment terms: 30 days from invoice.') },
+        { page: 3, text: '', image: async () => null },
+      ],
+      localOcr
+    );
+
+    expect(text).toBe(
+      '=== Page 1 ===\nMaster services agreement between ACT and Northwind.\n\n' +
+        '=== Page 2 ===\nPayment terms: 30 days from invoice.'
+    );
+    expect(chunkDocument(text, { maxTokens: 20, overlapTokens: 0 }).map(c => c.heading)).toEqual(['Page 1', 'Page 2']);
+  });
+
+  it('should describe images with their text and an optional caption', async () => {
+    const captioner = { caption: async () => 'A moodboard of coral and navy swatches.' };
+
+    expect(imageMimeType(null, 'Moodboard.JPG')).toBe('image/jpeg');
+    expect(imageMimeType('application/pdf', 'scan.pdf')).toBeNull();
+    expect(await describeImage(scan('Summer 2026'), localOcr, captioner)).toBe(
+      '=== Image description ===\nA moodboard of coral and navy swatches.\n\n=== Text in image ===\nSummer 2026'
+    );
+    expect(await describeImage(scan(''), localOcr)).toBe('=== Text in image ===\n[No text found]');
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { toDocumentSearchRequest } from '../../../packages/auth/src/document-search';
+
+describe('Document Search', () => {
+  it('should map options and filters to the search-documents request body', () => {
+    const request = toDocumentSearchRequest({
+      brandId: 'brand-1',
+      query: 'SKU-1042 launch',
+      filters: { fileTypes: ['pdf'], tags: [], createdAfter: '2026-01-01' },
+      rerank: true,
+    });
+
+    expect(request).toEqual({
+      query: 'SKU-1042 launch',
+      brand_id: 'brand-1',
+      match_count: 5,
+      min_similarity: null,
+      filters: { file_types: ['pdf'], created_after: '2026-01-01' },
+      rerank: true,
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { diffText } from '../../../supabase/functions/_shared/text-diff';
+
+describe('Document Versions', () => {
+  it('should diff extracted text into hunks with context', () => {
+    const before = ['# Voice', 'Warm and direct.', 'No jargon.', '', '# Colours', 'Blue', 'Grey', 'White'].join('\n');
+    const after = ['# Voice', 'Warm, direct and witty.', 'No jargon.', '', '# Colours', 'Blue', 'Grey', 'White', 'Coral'].join('\n');
+
+    const diff = diffText(before, after, { context: 1 });
+
+    expect(diff).toMatchObject({ added: 2, removed: 1, truncated: false });
+    expect(diff.hunks).toEqual([
+      {
+        oldStart: 1,
+        newStart: 1,
+        lines: [
+          { type: 'context', text: '# Voice' },
+          { type: 'removed', text: 'Warm and direct.' },
+          { type: 'added', text: 'Warm, direct and witty.' },
+          { type: 'context', text: 'No jargon.' },
+        ],
+      },
+      {
+        oldStart: 8,
+        newStart: 8,
+        lines: [
+          { type: 'context', text: 'White' },
+          { type: 'added', text: 'Coral' },
+        ],
+      },
+    ]);
+  });
+
+  it('should summarise rewrites too large to diff line by line', () => {
+    const before = Array.from({ length: 50 }, (_, i) => `old line ${i}`).join('\n');
+    const after = Array.from({ length: 40 }, (_, i) => `new line ${i}`).join('\n');
+
+    expect(diffText(before, after, { maxEdits: 20 })).toEqual({ added: 40, removed: 50, hunks: [], truncated: true });
+    expect(diffText(before, before)).toEqual({ added: 0, removed: 0, hunks: [], truncated: false });
+  });
+});
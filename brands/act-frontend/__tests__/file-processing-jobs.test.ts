@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  failedJobUpdate,
+  retryDelayMs,
+  stageProgress,
+} from '../../../supabase/functions/_shared/file-jobs';
+import {
+  describeFileProcessingJob,
+  isFileProcessingJobActive,
+  type FileProcessingJob,
+} from '../lib/file-processing-jobs';
+
+const job: FileProcessingJob = {
+  id: 'job-1',
+  project_file_id: 'file-1',
+  project_id: 'project-1',
+  brand_id: 'act',
+  status: 'running',
+  stage: 'embedding',
+  progress: 73,
+  attempts: 1,
+  max_attempts: 3,
+  next_attempt_at: '2026-01-12T10:00:00.000Z',
+  locked_at: '2026-01-12T10:00:00.000Z',
+  last_error: null,
+  created_by: 'user-1',
+  created_at: '2026-01-12T10:00:00.000Z',
+  updated_at: '2026-01-12T10:00:00.000Z',
+  completed_at: null,
+};
+
+describe('File Processing Jobs', () => {
+  it('should back off exponentially and dead-letter after the last attempt', () => {
+    const now = new Date('2026-01-12T10:00:00.000Z');
+
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(retryDelayMs(20)).toBe(60 * 60_000);
+
+    expect(failedJobUpdate({ attempts: 2, max_attempts: 3 }, 'OpenAI API error', now)).toMatchObject({
+      status: 'retrying',
+      next_attempt_at: '2026-01-12T10:01:00.000Z',
+      last_error: 'OpenAI API error',
+      completed_at: null,
+    });
+    expect(failedJobUpdate({ attempts: 3, max_attempts: 3 }, 'OpenAI API error', now)).toMatchObject({
+      status: 'dead',
+      completed_at: now.toISOString(),
+    });
+  });
+
+  it('should report progress across stages', () => {
+    expect(stageProgress('downloading')).toBe(5);
+    expect(stageProgress('embedding', 0.5)).toBe(73);
+    expect(stageProgress('done', 1)).toBe(100);
+
+    expect(describeFileProcessingJob(job)).toBe('Indexing… 73%');
+    expect(describeFileProcessingJob({ ...job, status: 'retrying' })).toMatch(/^Attempt 1 of 3 failed, retrying at /);
+    expect(describeFileProcessingJob({ ...job, status: 'dead', attempts: 3, last_error: 'Failed to download file' }))
+      .toBe('Failed after 3 attempts: Failed to download file');
+    expect(isFileProcessingJobActive({ status: 'retrying' })).toBe(true);
+    expect(isFileProcessingJobActive({ status: 'dead' })).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+// @vitest-environment node
+import { describe, it, expect, vi, type Mock } from 'vitest';
+import { MCPConnectionPool, type MCPConnectionPoolOptions } from '../lib/mcp/connection-pool';
+import { MCPClientManager } from '../lib/mcp/client-manager';
+import type { MCPServerConfig } from '../lib/mcp/types';
+
+type ToolOptions = { abortSignal?: AbortSignal };
+
+// Stands in for @ai-sdk/mcp: every client lists `toolNames`, and the transport's
+// onmessage is where the real client receives server messages
+function createFakeMCP() {
+  const state = { toolNames: ['search'], failing: false, hanging: false };
+  const clients: {
+    transport: { onmessage: (message: unknown) => void };
+    tools: Mock;
+    close: Mock;
+    calls: ToolOptions[];
+  }[] = [];
+
+  const createClient = vi.fn(async () => {
+    if (state.hanging) return new Promise(() => {});
+    const calls: ToolOptions[] = [];
+    const client = {
+      transport: { onmessage: vi.fn() },
+      tools: vi.fn(async () => {
+        if (state.failing) throw new Error('Session not found');
+        return Object.fromEntries(
+          state.toolNames.map((name) => [
+            name,
+            { description: name, execute: async (_args: unknown, options: ToolOptions) => calls.push(options) },
+          ])
+        );
+      }),
+      close: vi.fn(async () => {}),
+      calls,
+    };
+    clients.push(client);
+    return client;
+  });
+
+  return { state, clients, createClient: createClient as unknown as MCPConnectionPoolOptions['createClient'] };
+}
+
+const transport = (token: string) => ({
+  type: 'http' as const,
+  url: 'https://mcp.example.com/mcp',
+  headers: { Authorization: `Bearer ${token}` },
+});
+
+describe('MCP Connection Pool', () => {
+  it('should reuse connections and cached tools until the server says they changed', async () => {
+    const mcp = createFakeMCP();
+    const pool = new MCPConnectionPool({ createClient: mcp.createClient });
+
+    const first = await pool.acquire('server-1', transport('token-a'), 1000);
+    expect(Object.keys(await first.tools())).toEqual(['search']);
+    first.release();
+
+    const second = await pool.acquire('server-1', transport('token-a'), 1000);
+    await second.tools();
+    expect(mcp.createClient).toHaveBeenCalledTimes(1);
+    expect(mcp.clients[0].tools).toHaveBeenCalledTimes(1);
+
+    mcp.state.toolNames = ['search', 'fetch'];
+    mcp.clients[0].transport.onmessage({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    expect(Object.keys(await second.tools())).toEqual(['search', 'fetch']);
+
+    // New credentials get a new connection; the old one closes once it is handed back
+    const rotated = await pool.acquire('server-1', transport('token-b'), 1000);
+    expect(mcp.createClient).toHaveBeenCalledTimes(2);
+    expect(mcp.clients[0].close).not.toHaveBeenCalled();
+    second.release();
+    expect(mcp.clients[0].close).toHaveBeenCalled();
+
+    rotated.release();
+    await pool.closeAll();
+  });
+
+  it('should close idle connections and replace ones that fail their health check', async () => {
+    const mcp = createFakeMCP();
+    let now = 0;
+    const pool = new MCPConnectionPool({
+      createClient: mcp.createClient,
+      idleTimeoutMs: 5 * 60 * 1000,
+      healthCheckIntervalMs: 60 * 1000,
+      now: () => now,
+    });
+
+    (await pool.acquire('server-1', transport('token'), 1000)).release();
+
+    // Checked again after the interval; a broken session is replaced
+    now = 2 * 60 * 1000;
+    mcp.state.failing = true;
+    const reconnecting = pool.acquire('server-1', transport('token'), 1000);
+    await vi.waitFor(() => expect(mcp.clients[0].tools).toHaveBeenCalled());
+    mcp.state.failing = false;
+    (await reconnecting).release();
+    expect(mcp.createClient).toHaveBeenCalledTimes(2);
+    expect(mcp.clients[0].close).toHaveBeenCalled();
+
+    now += 4 * 60 * 1000;
+    await pool.closeIdle();
+    expect(pool.size).toBe(1);
+
+    now += 60 * 1000;
+    await pool.closeIdle();
+    expect(pool.size).toBe(0);
+    expect(mcp.clients[1].close).toHaveBeenCalled();
+  });
+
+  it('should give up connecting after the server timeout', async () => {
+    const mcp = createFakeMCP();
+    mcp.state.hanging = true;
+    const pool = new MCPConnectionPool({ createClient: mcp.createClient });
+
+    await expect(pool.acquire('server-1', transport('token'), 20)).rejects.toThrow('Timed out connecting after 20ms');
+    expect(pool.size).toBe(0);
+  });
+
+  it('should share pooled connections between managers and time out tool calls', async () => {
+    const mcp = createFakeMCP();
+    const pool = new MCPConnectionPool({ createClient: mcp.createClient });
+    const config: MCPServerConfig = {
+      id: 'server-1',
+      brand_id: 'act',
+      name: 'Search',
+      transport_type: 'http',
+      url: 'https://mcp.example.com/mcp',
+      auth_type: 'none',
+      enabled: true,
+      priority: 0,
+      timeout_ms: 25,
+      created_at: '2026-01-12T10:00:00.000Z',
+      updated_at: '2026-01-12T10:00:00.000Z',
+    };
+
+    for (let turn = 0; turn < 2; turn++) {
+      const manager = new MCPClientManager(undefined, { pool });
+      expect((await manager.connectAll([config]))[0].connected).toBe(true);
+
+      const tools = await manager.getAllTools();
+      const { execute } = tools.search__search as { execute: (args: unknown, options: ToolOptions) => Promise<unknown> };
+      await execute({ query: 'brand' }, {});
+      await manager.disconnectAll();
+    }
+
+    expect(mcp.createClient).toHaveBeenCalledTimes(1);
+    expect(mcp.clients[0].close).not.toHaveBeenCalled();
+
+    const { abortSignal } = mcp.clients[0].calls[0];
+    expect(abortSignal?.aborted).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(abortSignal?.aborted).toBe(true);
+
+    await pool.closeAll();
+  });
+});
@@ -0,0 +1,141 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  credentialKeyVersion,
+  decryptCredential,
+  encryptCredential,
+  maskCredential,
+  parseCredentialKeyring,
+  rotateMCPCredentials,
+  toPublicMCPServer,
+  updatedCredentialColumns,
+} from '../lib/mcp/credentials';
+import type { MCPServerConfig } from '../lib/mcp/types';
+
+const KEY_1 = Buffer.alloc(32, 1).toString('base64');
+const KEY_2 = Buffer.alloc(32, 2).toString('base64');
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase client for the rotation's queries on mcp_servers.
+// `beforeUpdate` runs as each update is applied, e.g. to change the row in between.
+function createServerStore(rows: Row[], beforeUpdate?: () => void) {
+  const query = (update?: Row) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    const run = () => {
+      if (update) beforeUpdate?.();
+      const matched = rows.filter((row) => filters.every((filter) => filter(row)));
+      if (update) matched.forEach((row) => Object.assign(row, update));
+      return matched.map((row) => ({ ...row }));
+    };
+
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), builder),
+      is: (column: string, value: null) => (filters.push((row) => (row[column] ?? null) === value), builder),
+      not: (column: string, _operator: string, list: string) =>
+        (filters.push((row) => !list.slice(1, -1).split(',').includes(String(row[column]))), builder),
+      // Only the "not on the current key version" filter
+      or: (filter: string) => {
+        const version = Number(filter.split('.').pop());
+        filters.push((row) => row.credentials_key_version !== version);
+        return builder;
+      },
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: run(), error: null }),
+    };
+    return builder;
+  };
+
+  return {
+    from: () => ({ select: () => query(), update: (values: Row) => query(values) }),
+  } as unknown as SupabaseClient;
+}
+
+describe('MCP Credentials', () => {
+  it('should encrypt with the newest key and decrypt with any configured one', () => {
+    const oldKeys = parseCredentialKeyring(`1:${KEY_1}`);
+    const keys = parseCredentialKeyring(`1:${KEY_1}, 2:${KEY_2}`);
+
+    const stored = encryptCredential('sk-live-1234567890abcd', oldKeys);
+    expect(stored).not.toContain('sk-live');
+    expect(credentialKeyVersion(stored)).toBe(1);
+    expect(decryptCredential(stored, keys)).toBe('sk-live-1234567890abcd');
+
+    // Each value has its own data key
+    expect(encryptCredential('sk-live-1234567890abcd', oldKeys)).not.toBe(stored);
+
+    const rotated = updatedCredentialColumns({ auth_token_encrypted: stored, oauth_access_token: 'legacy-token' }, {}, keys);
+    expect(rotated.credentials_key_version).toBe(2);
+    expect(credentialKeyVersion(rotated.auth_token_encrypted!)).toBe(2);
+    expect(decryptCredential(rotated.auth_token_encrypted!, keys)).toBe('sk-live-1234567890abcd');
+    expect(decryptCredential(rotated.oauth_access_token!, keys)).toBe('legacy-token');
+    expect(rotated.oauth_refresh_token).toBeNull();
+
+    expect(() => decryptCredential(rotated.auth_token_encrypted!, oldKeys)).toThrow(/key version 2/);
+    expect(() => parseCredentialKeyring('1:c2hvcnQ=')).toThrow(/32 bytes/);
+  });
+
+  it('should only expose masked credentials', () => {
+    process.env.MCP_CREDENTIALS_KEYS = `1:${KEY_1}`;
+    const keys = parseCredentialKeyring(process.env.MCP_CREDENTIALS_KEYS);
+
+    const server = toPublicMCPServer({
+      id: 'server-1',
+      brand_id: 'act',
+      name: 'Weather',
+      transport_type: 'http',
+      url: 'https://weather.example.com/mcp',
+      auth_type: 'bearer',
+      auth_token_encrypted: encryptCredential('sk-live-1234567890abcd', keys),
+      oauth_access_token: encryptCredential('oauth-access', keys),
+      oauth_refresh_token: encryptCredential('oauth-refresh', keys),
+      enabled: true,
+      priority: 0,
+      timeout_ms: 30000,
+      created_at: '2026-01-12T10:00:00.000Z',
+      updated_at: '2026-01-12T10:00:00.000Z',
+    } as MCPServerConfig);
+
+    expect(server.auth_token_masked).toBe('••••abcd');
+    expect(server.oauth_connected).toBe(true);
+    expect(JSON.stringify(server)).not.toMatch(/enc:v1|sk-live|oauth-/);
+    expect(maskCredential('short')).toBe('••••••••');
+    expect(maskCredential(null)).toBeNull();
+  });
+
+  it('should not overwrite credentials that change while a row is rotated', async () => {
+    const oldKeys = parseCredentialKeyring(`1:${KEY_1}`);
+    const keys = parseCredentialKeyring(`1:${KEY_1}, 2:${KEY_2}`);
+    const rows: Row[] = [
+      {
+        id: 'server-1',
+        credentials_key_version: 1,
+        auth_token_encrypted: null,
+        oauth_client_secret: null,
+        oauth_access_token: encryptCredential('access-1', oldKeys),
+        oauth_refresh_token: encryptCredential('refresh-1', oldKeys),
+      },
+      { id: 'server-2', credentials_key_version: null, auth_token_encrypted: 'legacy-token' },
+    ];
+
+    // A token refresh saves new tokens after the rotation has read the row
+    let refreshed = false;
+    const supabase = createServerStore(rows, () => {
+      if (refreshed) return;
+      refreshed = true;
+      rows[0].oauth_access_token = encryptCredential('access-2', oldKeys);
+      rows[0].oauth_refresh_token = encryptCredential('refresh-2', oldKeys);
+    });
+
+    expect(await rotateMCPCredentials(supabase, keys)).toEqual({ rotated: 2, failed: [] });
+    expect(rows.map((row) => row.credentials_key_version)).toEqual([2, 2]);
+    expect(decryptCredential(rows[0].oauth_access_token as string, keys)).toBe('access-2');
+    expect(decryptCredential(rows[0].oauth_refresh_token as string, keys)).toBe('refresh-2');
+    expect(credentialKeyVersion(rows[0].oauth_refresh_token as string)).toBe(2);
+    expect(decryptCredential(rows[1].auth_token_encrypted as string, keys)).toBe('legacy-token');
+  });
+});
@@ -0,0 +1,185 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { decryptCredential } from '../lib/mcp/credentials';
+import {
+  buildAuthorizationUrl,
+  createPkcePair,
+  exchangeAuthorizationCode,
+  needsOAuthRefresh,
+  oauthTokenColumns,
+  prepareOAuthClient,
+  refreshMCPServerTokens,
+  safeReturnPath,
+  signOAuthState,
+  verifyOAuthState,
+} from '../lib/mcp/oauth';
+import type { MCPServerConfig } from '../lib/mcp/types';
+import { createMockAuthorizationServer } from './mocks/mcp-authorization-server';
+
+process.env.MCP_CREDENTIALS_KEYS = `1:${Buffer.alloc(32, 1).toString('base64')}`;
+
+const SECRET = 'test-state-secret';
+const REDIRECT_URI = 'https://app.example.com/api/mcp/oauth/callback';
+
+function createServer(overrides: Partial<MCPServerConfig> = {}): MCPServerConfig {
+  return {
+    id: 'server-1',
+    brand_id: 'act',
+    name: 'Docs',
+    transport_type: 'http',
+    url: 'https://mcp.example.com/mcp',
+    auth_type: 'oauth',
+    enabled: true,
+    priority: 0,
+    timeout_ms: 30000,
+    created_at: '2026-01-12T10:00:00.000Z',
+    updated_at: '2026-01-12T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// Just enough of the Supabase client for reading and updating one mcp_servers row
+function createRowStore(row: MCPServerConfig) {
+  const updates: Record<string, unknown>[] = [];
+  const supabase = {
+    from: () => ({
+      select: () => ({ eq: () => ({ single: async () => ({ data: { ...row }, error: null }) }) }),
+      update: (values: Record<string, unknown>) => {
+        updates.push(values);
+        Object.assign(row, values);
+        return { eq: async () => ({ error: null }) };
+      },
+    }),
+  } as unknown as SupabaseClient;
+  return { supabase, updates };
+}
+
+async function connectServer(authServer: ReturnType<typeof createMockAuthorizationServer>, now: number) {
+  const { metadata, client } = await prepareOAuthClient(createServer(), REDIRECT_URI, authServer.fetch);
+  const server = createServer({ oauth_client_id: client!.client_id, oauth_metadata: metadata });
+
+  const { verifier, challenge } = createPkcePair();
+  const state = signOAuthState(
+    { serverId: server.id, brandId: server.brand_id, userId: 'user-1', verifier, returnTo: '/dashboard/settings' },
+    { secret: SECRET, now }
+  );
+  const callback = authServer.authorize(buildAuthorizationUrl(metadata, client!.client_id, challenge, state));
+  const { state: verified } = verifyOAuthState(callback.searchParams.get('state')!, { secret: SECRET, now });
+  const { tokens } = await exchangeAuthorizationCode(server, callback.searchParams.get('code')!, verified!.verifier, authServer.fetch);
+
+  return { ...server, ...oauthTokenColumns(server, tokens!, now) };
+}
+
+describe('MCP OAuth', () => {
+  it('should discover, register and authorize with PKCE against the authorization server', async () => {
+    const authServer = createMockAuthorizationServer({ scopes: ['docs:read'] });
+    const now = Date.parse('2026-01-12T10:00:00.000Z');
+
+    const { metadata, client, registered } = await prepareOAuthClient(createServer(), REDIRECT_URI, authServer.fetch);
+    expect(registered).toBe(true);
+    expect(metadata).toMatchObject({
+      issuer: 'https://auth.example.com',
+      token_endpoint: 'https://auth.example.com/token',
+      resource: 'https://mcp.example.com/mcp',
+      redirect_uri: REDIRECT_URI,
+      scope: 'docs:read',
+    });
+
+    const { verifier, challenge } = createPkcePair();
+    const state = signOAuthState(
+      { serverId: 'server-1', brandId: 'act', userId: 'user-1', verifier, returnTo: '/dashboard/settings' },
+      { secret: SECRET, now }
+    );
+    // The verifier never travels in the clear
+    expect(Buffer.from(state.split('.')[0], 'base64url').toString()).not.toContain(verifier);
+
+    const callback = authServer.authorize(buildAuthorizationUrl(metadata, client!.client_id, challenge, state));
+    const { state: verified, error } = verifyOAuthState(callback.searchParams.get('state')!, { secret: SECRET, now });
+    expect(error).toBeNull();
+    expect(verified).toMatchObject({ serverId: 'server-1', userId: 'user-1', verifier });
+
+    const server = createServer({ oauth_client_id: client!.client_id, oauth_metadata: metadata });
+    const code = callback.searchParams.get('code')!;
+
+    // A different verifier is rejected, so an intercepted code is useless on its own
+    const stolen = await exchangeAuthorizationCode(server, code, createPkcePair().verifier, authServer.fetch);
+    expect(stolen.errorCode).toBe('invalid_grant');
+
+    const callbackAgain = authServer.authorize(buildAuthorizationUrl(metadata, client!.client_id, challenge, state));
+    const { tokens } = await exchangeAuthorizationCode(server, callbackAgain.searchParams.get('code')!, verifier, authServer.fetch);
+    expect(authServer.isValidAccessToken(tokens!.access_token)).toBe(true);
+
+    // The registered client is reused next time
+    const again = await prepareOAuthClient(server, REDIRECT_URI, authServer.fetch);
+    expect(again.registered).toBe(false);
+    expect(authServer.requests.filter((request) => request.url.endsWith('/register'))).toHaveLength(1);
+  });
+
+  it('should reject tampered, expired and foreign state', () => {
+    const now = Date.now();
+    const state = signOAuthState(
+      { serverId: 'server-1', brandId: 'act', userId: 'user-1', verifier: 'verifier', returnTo: '/dashboard/settings' },
+      { secret: SECRET, now }
+    );
+    const [payload, signature] = state.split('.');
+    const forged = Buffer.from(
+      Buffer.from(payload, 'base64url').toString().replace('user-1', 'user-2')
+    ).toString('base64url');
+
+    expect(verifyOAuthState(`${forged}.${signature}`, { secret: SECRET, now }).error).toBe('Invalid state parameter');
+    expect(verifyOAuthState(state, { secret: 'another-secret', now }).error).toBe('Invalid state parameter');
+    expect(verifyOAuthState(state, { secret: SECRET, now: now + 11 * 60 * 1000 }).error).toMatch(/expired/);
+    expect(verifyOAuthState('garbage', { secret: SECRET, now }).state).toBeNull();
+  });
+
+  it('should only return to paths on the app origin', () => {
+    const appUrl = 'https://app.example.com';
+
+    expect(safeReturnPath('/dashboard/settings?tab=mcp', appUrl)).toBe('/dashboard/settings?tab=mcp');
+    expect(safeReturnPath('/dashboard/../brands', appUrl)).toBe('/brands');
+    for (const returnTo of [
+      'https://evil.com',
+      '//evil.com',
+      '/\\evil.com/x',
+      '/\\/evil.com',
+      '/\t/evil.com',
+      '/\n/evil.com',
+      'javascript:alert(1)',
+      '',
+    ]) {
+      expect(safeReturnPath(returnTo, appUrl)).toBeNull();
+    }
+  });
+
+  it('should refresh expired access tokens once and save them', async () => {
+    const authServer = createMockAuthorizationServer({ expiresIn: 300 });
+    const connectedAt = Date.parse('2026-01-12T10:00:00.000Z');
+    const row = await connectServer(authServer, connectedAt);
+    const later = connectedAt + 10 * 60 * 1000;
+
+    expect(needsOAuthRefresh(row, connectedAt)).toBe(false);
+    expect(needsOAuthRefresh(row, later)).toBe(true);
+
+    const { supabase, updates } = createRowStore(row);
+    const [refreshed, concurrent] = await Promise.all([
+      refreshMCPServerTokens(supabase, row, { fetch: authServer.fetch, now: later }),
+      refreshMCPServerTokens(supabase, row, { fetch: authServer.fetch, now: later }),
+    ]);
+
+    expect(updates).toHaveLength(1);
+    expect(concurrent).toBe(refreshed);
+    expect(authServer.isValidAccessToken(decryptCredential(refreshed.oauth_access_token!))).toBe(true);
+    expect(decryptCredential(refreshed.oauth_refresh_token!)).toBe('refresh-2');
+    expect(refreshed.oauth_expires_at).toBe(new Date(later + 300 * 1000).toISOString());
+
+    // A revoked grant disconnects the server
+    authServer.revokeRefreshTokens();
+    const expiredAgain = later + 10 * 60 * 1000;
+    await expect(
+      refreshMCPServerTokens(supabase, row, { fetch: authServer.fetch, now: expiredAgain })
+    ).rejects.toThrow(/Refresh token is invalid/);
+    expect(row.oauth_access_token).toBeNull();
+    expect(row.oauth_refresh_token).toBeNull();
+  });
+});
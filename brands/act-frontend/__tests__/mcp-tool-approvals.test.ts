@@ -0,0 +1,184 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  cancelToolApprovals,
+  decideToolApproval,
+  withToolApprovals,
+  type ToolApprovalOptions,
+  type ToolApprovalUpdate,
+} from '../lib/mcp/tool-approvals';
+import { applyChatEvent, createChatStreamState } from '../lib/chat/stream-events';
+import type { MCPToolApproval } from '../lib/mcp/types';
+
+type Row = Record<string, unknown>;
+type ToolExecute = (args: unknown, options: { toolCallId: string; abortSignal?: AbortSignal }) => Promise<unknown>;
+
+// Just enough of the Supabase client for mcp_tool_approvals: insert, select and update
+// with eq/gt filters
+function createApprovalStore() {
+  const rows: Row[] = [];
+
+  const query = (action: { insert?: Row; update?: Row }) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    const run = () => {
+      if (action.insert) {
+        const row = {
+          id: crypto.randomUUID(),
+          status: 'pending',
+          decided_by: null,
+          decided_at: null,
+          created_at: new Date().toISOString(),
+          ...action.insert,
+        };
+        rows.push(row);
+        return [{ ...row }];
+      }
+      const matched = rows.filter((row) => filters.every((filter) => filter(row)));
+      if (action.update) matched.forEach((row) => Object.assign(row, action.update));
+      return matched.map((row) => ({ ...row }));
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), builder),
+      gt: (column: string, value: string) => (filters.push((row) => String(row[column]) > value), builder),
+      single: async () => ({ data: run()[0] ?? null, error: null }),
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: run(), error: null }),
+    };
+    return builder;
+  };
+
+  const supabase = {
+    from: () => ({
+      select: () => query({}),
+      insert: (row: Row) => query({ insert: row }),
+      update: (values: Row) => query({ update: values }),
+    }),
+  } as unknown as SupabaseClient;
+
+  return { supabase, rows: rows as unknown as MCPToolApproval[] };
+}
+
+function createTools(overrides: Partial<ToolApprovalOptions> = {}) {
+  const store = createApprovalStore();
+  const updates: ToolApprovalUpdate[] = [];
+  const executed: unknown[] = [];
+  const search = { description: 'search', execute: async () => 'results' };
+
+  const tools = withToolApprovals(
+    store.supabase,
+    {
+      notion__create_page: {
+        description: 'create_page',
+        execute: async (args: unknown) => {
+          executed.push(args);
+          return 'created';
+        },
+      },
+      notion__search: search,
+    },
+    {
+      brandId: 'act',
+      conversationId: 'conversation-1',
+      messageId: 'message-1',
+      requestedBy: 'user-1',
+      getToolSource: (name) => ({ serverId: 'server-1', serverName: 'Notion', toolName: name.split('__')[1] }),
+      getToolPolicy: (name) => (name === 'notion__create_page' ? 'ask' : 'auto'),
+      onUpdate: (update) => updates.push(update),
+      pollIntervalMs: 5,
+      ...overrides,
+    }
+  );
+
+  const createPage = (signal?: AbortSignal) =>
+    (tools.notion__create_page as { execute: ToolExecute }).execute(
+      { title: 'Launch plan' },
+      { toolCallId: 'call-1', abortSignal: signal }
+    );
+
+  return { ...store, tools, search, updates, executed, createPage };
+}
+
+describe('MCP Tool Approvals', () => {
+  it('should hold "ask" tool calls until they are approved, and run them with the same arguments', async () => {
+    const { supabase, rows, tools, search, updates, executed, createPage } = createTools();
+    expect(tools.notion__search).toBe(search);
+
+    const call = createPage();
+    await vi.waitFor(() => expect(updates).toHaveLength(1));
+    expect(updates[0]).toMatchObject({
+      toolCallId: 'call-1',
+      toolName: 'notion__create_page',
+      mcpSource: { serverName: 'Notion', toolName: 'create_page' },
+      input: { title: 'Launch plan' },
+      approval: { status: 'pending' },
+    });
+    expect(rows[0]).toMatchObject({ server_id: 'server-1', tool_name: 'create_page', requested_by: 'user-1' });
+    expect(executed).toHaveLength(0);
+
+    // Only the first decision counts
+    const approvalId = updates[0].approval.id;
+    const approved = await decideToolApproval(supabase, approvalId, 'approved', { decidedBy: 'owner-1' });
+    expect(approved.approval).toMatchObject({ status: 'approved', decided_by: 'owner-1' });
+    const rejected = await decideToolApproval(supabase, approvalId, 'rejected', { decidedBy: 'owner-2' });
+    expect(rejected.error).toMatch(/no longer waiting/);
+
+    expect(await call).toBe('created');
+    expect(executed).toEqual([{ title: 'Launch plan' }]);
+    expect(updates[1].approval.status).toBe('approved');
+  });
+
+  it('should not run rejected, expired or cancelled calls', async () => {
+    const rejected = createTools();
+    const rejectedCall = rejected.createPage();
+    await vi.waitFor(() => expect(rejected.updates).toHaveLength(1));
+    await decideToolApproval(rejected.supabase, rejected.updates[0].approval.id, 'rejected', { decidedBy: 'owner-1' });
+    expect(await rejectedCall).toMatch(/rejected this tool call/);
+
+    const expired = createTools({ timeoutMs: 20 });
+    expect(await expired.createPage()).toMatch(/in time/);
+    expect(expired.rows[0].status).toBe('expired');
+    const late = await decideToolApproval(expired.supabase, expired.rows[0].id, 'approved', { decidedBy: 'owner-1' });
+    expect(late.approval).toBeNull();
+
+    // Stopping the reply cancels what it waits for, as does aborting the generation
+    const stopped = createTools();
+    const stoppedCall = stopped.createPage();
+    await vi.waitFor(() => expect(stopped.updates).toHaveLength(1));
+    await cancelToolApprovals(stopped.supabase, 'message-1');
+    expect(await stoppedCall).toMatch(/cancelled/);
+
+    const aborted = createTools();
+    const generation = new AbortController();
+    const abortedCall = aborted.createPage(generation.signal);
+    await vi.waitFor(() => expect(aborted.updates).toHaveLength(1));
+    generation.abort();
+    expect(await abortedCall).toMatch(/cancelled/);
+    expect(aborted.rows[0].status).toBe('cancelled');
+
+    for (const { executed } of [rejected, expired, stopped, aborted]) {
+      expect(executed).toHaveLength(0);
+    }
+  });
+
+  it('should show the approval card even when it is streamed before the tool call', () => {
+    const approval = { id: 'approval-1', status: 'pending' as const, expiresAt: '2026-01-12T10:05:00.000Z' };
+    const call = { toolCallId: 'call-1', toolName: 'notion__create_page', input: { title: 'Launch plan' } };
+
+    let state = applyChatEvent(createChatStreamState(), { type: 'tool-approval', ...call, approval });
+    state = applyChatEvent(state, { type: 'tool-call', ...call });
+    state = applyChatEvent(state, { type: 'tool-approval', ...call, approval: { ...approval, status: 'approved' } });
+
+    expect(state.toolInvocations).toEqual([
+      {
+        toolCallId: 'call-1',
+        toolName: 'notion__create_page',
+        args: { title: 'Launch plan' },
+        state: 'call',
+        approval: { ...approval, status: 'approved' },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { MCPConnectionPool, type MCPConnectionPoolOptions } from '../lib/mcp/connection-pool';
+import { MCPClientManager } from '../lib/mcp/client-manager';
+import { findMCPToolCollisions, getMCPToolNamespaces, toMCPChatToolName } from '../lib/mcp/tool-names';
+import type { MCPServerConfig } from '../lib/mcp/types';
+
+function createServer(id: string, name: string, overrides: Partial<MCPServerConfig> = {}): MCPServerConfig {
+  return {
+    id,
+    brand_id: 'act',
+    name,
+    transport_type: 'http',
+    url: `https://${id}.example.com/mcp`,
+    auth_type: 'none',
+    enabled: true,
+    priority: 0,
+    timeout_ms: 1000,
+    created_at: '2026-01-12T10:00:00.000Z',
+    updated_at: '2026-01-12T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// Every server lists the tools given for its URL, and each tool answers with its server
+function createFakeMCP(toolsByUrl: Record<string, string[]>) {
+  const createClient = async ({ transport }: { transport: { url: string } }) => ({
+    tools: async () =>
+      Object.fromEntries(
+        toolsByUrl[transport.url].map((name) => [name, { description: name, execute: async () => transport.url }])
+      ),
+    close: async () => {},
+  });
+  return createClient as unknown as MCPConnectionPoolOptions['createClient'];
+}
+
+describe('MCP Tool Names', () => {
+  it('should namespace tools so servers with the same tool names both stay available', async () => {
+    const notion = createServer('a1b2c3d4-0000', 'Notion', { priority: 10 });
+    const linear = createServer('e5f6a7b8-0000', 'Linear');
+    const pool = new MCPConnectionPool({
+      createClient: createFakeMCP({
+        [notion.url!]: ['search', 'get_page'],
+        [linear.url!]: ['search'],
+      }),
+    });
+
+    const manager = new MCPClientManager(undefined, { pool });
+    await manager.connectAll([notion, linear]);
+    const tools = await manager.getAllTools();
+
+    expect(Object.keys(tools).sort()).toEqual(['linear__search', 'notion__get_page', 'notion__search']);
+    const execute = (name: string) => (tools[name] as { execute: (args: unknown) => Promise<unknown> }).execute({});
+    expect(await execute('notion__search')).toBe(notion.url);
+    expect(await execute('linear__search')).toBe(linear.url);
+
+    expect(manager.getToolSource('linear__search')).toEqual({
+      serverId: linear.id,
+      serverName: 'Linear',
+      toolName: 'search',
+    });
+    expect(manager.getToolSource('search')).toBeNull();
+
+    await manager.disconnectAll();
+    await pool.closeAll();
+  });
+
+  it('should keep namespaces unique, valid and independent of server order', () => {
+    const servers = [
+      createServer('a1b2c3d4-0000', 'Google Drive'),
+      createServer('e5f6a7b8-0000', 'google-drive'),
+      createServer('c9d0e1f2-0000', '123 Tools'),
+      createServer('f3a4b5c6-0000', '✨'),
+    ];
+
+    const namespaces = getMCPToolNamespaces(servers);
+    expect(Array.from(namespaces.values())).toEqual(['google_drive_a1b2c3', 'google_drive_e5f6a7', 'mcp_123_tools', 'mcp']);
+    expect(getMCPToolNamespaces([...servers].reverse())).toEqual(namespaces);
+
+    // Provider limits: [a-zA-Z0-9_-], at most 64 characters
+    expect(toMCPChatToolName('notion', 'pages.search')).toBe('notion__pages_search');
+    const long = toMCPChatToolName('google_drive_a1b2c3', `list_${'files_'.repeat(12)}a`);
+    const longer = toMCPChatToolName('google_drive_a1b2c3', `list_${'files_'.repeat(12)}b`);
+    expect(long).toHaveLength(64);
+    expect(long).toMatch(/^[a-zA-Z0-9_-]+$/);
+    expect(long).not.toBe(longer);
+  });
+
+  it('should report tool names that more than one server exposes', () => {
+    const tool = (serverId: string, serverName: string, toolName: string) => ({
+      serverId,
+      serverName,
+      toolName,
+      chatToolName: `${serverName.toLowerCase()}__${toolName}`,
+    });
+
+    expect(
+      findMCPToolCollisions([
+        tool('1', 'Notion', 'search'),
+        tool('1', 'Notion', 'get_page'),
+        tool('2', 'Linear', 'search'),
+        tool('2', 'Linear', 'get_issue'),
+      ])
+    ).toEqual([
+      {
+        toolName: 'search',
+        servers: [
+          { id: '1', name: 'Notion', chatToolName: 'notion__search' },
+          { id: '2', name: 'Linear', chatToolName: 'linear__search' },
+        ],
+      },
+    ]);
+  });
+});
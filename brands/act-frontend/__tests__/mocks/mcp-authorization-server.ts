@@ -0,0 +1,176 @@
+import { createHash } from 'crypto';
+
+interface MockAuthorizationServerOptions {
+  /** URL of the MCP server the authorization server protects */
+  resourceUrl?: string;
+  issuer?: string;
+  expiresIn?: number;
+  scopes?: string[];
+  /** Publish protected resource metadata (RFC 9728); off for servers that predate it */
+  protectedResourceMetadata?: boolean;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  challenge: string;
+  resource: string;
+}
+
+/**
+ * In-memory MCP authorization server for tests: protected resource and authorization
+ * server metadata, dynamic client registration, authorization codes with PKCE and rotating
+ * refresh tokens. Pass `fetch` wherever lib/mcp/oauth.ts takes one; `authorize` stands in
+ * for the user approving the authorization URL and returns the redirect with the code.
+ */
+export function createMockAuthorizationServer(options: MockAuthorizationServerOptions = {}) {
+  const resourceUrl = new URL(options.resourceUrl ?? 'https://mcp.example.com/mcp');
+  const issuer = options.issuer ?? 'https://auth.example.com';
+  const expiresIn = options.expiresIn ?? 3600;
+
+  const clients = new Map<string, { redirectUris: string[] }>();
+  const codes = new Map<string, PendingCode>();
+  const refreshTokens = new Map<string, { clientId: string; resource: string }>();
+  const accessTokens = new Set<string>();
+  const requests: { method: string; url: string; body?: string }[] = [];
+  let counter = 0;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  const issueTokens = (clientId: string, resource: string) => {
+    counter++;
+    const accessToken = `access-${counter}`;
+    const refreshToken = `refresh-${counter}`;
+    accessTokens.add(accessToken);
+    refreshTokens.set(refreshToken, { clientId, resource });
+    return json({ access_token: accessToken, refresh_token: refreshToken, token_type: 'Bearer', expires_in: expiresIn });
+  };
+
+  const handleToken = (params: URLSearchParams) => {
+    const clientId = params.get('client_id') ?? '';
+    if (!clients.has(clientId)) {
+      return json({ error: 'invalid_client' }, 401);
+    }
+
+    if (params.get('grant_type') === 'authorization_code') {
+      const pending = codes.get(params.get('code') ?? '');
+      codes.delete(params.get('code') ?? '');
+      const challenge = createHash('sha256').update(params.get('code_verifier') ?? '').digest('base64url');
+
+      if (
+        !pending ||
+        pending.clientId !== clientId ||
+        pending.redirectUri !== params.get('redirect_uri') ||
+        pending.resource !== params.get('resource') ||
+        pending.challenge !== challenge
+      ) {
+        return json({ error: 'invalid_grant' }, 400);
+      }
+      return issueTokens(clientId, pending.resource);
+    }
+
+    if (params.get('grant_type') === 'refresh_token') {
+      const grant = refreshTokens.get(params.get('refresh_token') ?? '');
+      refreshTokens.delete(params.get('refresh_token') ?? '');
+      if (!grant || grant.clientId !== clientId || grant.resource !== params.get('resource')) {
+        return json({ error: 'invalid_grant', error_description: 'Refresh token is invalid' }, 400);
+      }
+      return issueTokens(clientId, grant.resource);
+    }
+
+    return json({ error: 'unsupported_grant_type' }, 400);
+  };
+
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const method = init?.method ?? 'GET';
+    const body = init?.body?.toString();
+    requests.push({ method, url: url.toString(), body });
+
+    const resourcePath = resourceUrl.pathname.replace(/\/$/, '');
+    if (
+      options.protectedResourceMetadata !== false &&
+      url.origin === resourceUrl.origin &&
+      url.pathname === `/.well-known/oauth-protected-resource${resourcePath}`
+    ) {
+      return json({
+        resource: resourceUrl.toString(),
+        authorization_servers: [issuer],
+        scopes_supported: options.scopes,
+      });
+    }
+
+    if (url.origin !== new URL(issuer).origin) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    switch (`${method} ${url.pathname}`) {
+      case 'GET /.well-known/oauth-authorization-server':
+        return json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          registration_endpoint: `${issuer}/register`,
+          response_types_supported: ['code'],
+          grant_types_supported: ['authorization_code', 'refresh_token'],
+          code_challenge_methods_supported: ['S256'],
+          token_endpoint_auth_methods_supported: ['none'],
+        });
+
+      case 'POST /register': {
+        const metadata = JSON.parse(body ?? '{}') as { redirect_uris?: string[] };
+        const clientId = `client-${clients.size + 1}`;
+        clients.set(clientId, { redirectUris: metadata.redirect_uris ?? [] });
+        return json({ ...metadata, client_id: clientId, token_endpoint_auth_method: 'none' }, 201);
+      }
+
+      case 'POST /token':
+        return handleToken(new URLSearchParams(body));
+
+      default:
+        return new Response('Not found', { status: 404 });
+    }
+  };
+
+  /**
+   * Approve an authorization URL; returns the redirect back to the app
+   */
+  const authorize = (authorizationUrl: string): URL => {
+    const params = new URL(authorizationUrl).searchParams;
+    const client = clients.get(params.get('client_id') ?? '');
+    const redirectUri = params.get('redirect_uri') ?? '';
+
+    if (!client || !client.redirectUris.includes(redirectUri)) {
+      throw new Error('Unknown client or redirect URI');
+    }
+    if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+      throw new Error('PKCE is required');
+    }
+
+    const code = `code-${codes.size + 1}-${Date.now()}`;
+    codes.set(code, {
+      clientId: params.get('client_id')!,
+      redirectUri,
+      challenge: params.get('code_challenge')!,
+      resource: params.get('resource') ?? '',
+    });
+
+    const redirect = new URL(redirectUri);
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', params.get('state') ?? '');
+    return redirect;
+  };
+
+  return {
+    fetch: fetch as typeof globalThis.fetch,
+    authorize,
+    issuer,
+    resourceUrl: resourceUrl.toString(),
+    requests,
+    /** Whether an access token was issued by this server */
+    isValidAccessToken: (token: string) => accessTokens.has(token),
+    /** Revoke every refresh token, as when the user withdraws consent */
+    revokeRefreshTokens: () => refreshTokens.clear(),
+  };
+}
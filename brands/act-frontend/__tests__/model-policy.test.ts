@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getBrandModelPolicy, getModelAvailability, selectChatModel } from '../lib/chat/model-policy';
+
+const allProviders = { anthropic: true, openai: true, google: true };
+
+describe('Model Policy', () => {
+  describe('getBrandModelPolicy', () => {
+    it('should allow every selectable model when nothing is configured', () => {
+      const policy = getBrandModelPolicy(undefined);
+      expect(policy.allowedModels).toContain('claude-sonnet-4-5');
+      expect(policy.allowedModels).not.toContain('gemini-1.5-pro');
+      expect(policy.defaultModel).toBe('claude-sonnet-4-5');
+    });
+
+    it('should keep the default and fallbacks within the allow-list', () => {
+      const policy = getBrandModelPolicy({
+        allowed_models: ['gpt-4o', 'gpt-4o-mini'],
+        default_model: 'claude-sonnet-4-5',
+        fallback_models: ['claude-sonnet-4-5', 'gpt-4o-mini'],
+      });
+      expect(policy.defaultModel).toBe('gpt-4o');
+      expect(policy.fallbackModels).toEqual(['gpt-4o-mini']);
+    });
+  });
+
+  describe('selectChatModel', () => {
+    const policy = getBrandModelPolicy({
+      allowed_models: ['claude-sonnet-4-5', 'gpt-4o'],
+      fallback_models: ['claude-sonnet-4-5'],
+    });
+
+    it('should reject models the brand does not allow', () => {
+      const { selection, error } = selectChatModel('gemini-2.0-flash', policy, allProviders);
+      expect(selection).toBeNull();
+      expect(error).toMatchObject({ code: 'model_not_allowed', status: 403 });
+    });
+
+    it('should resolve legacy ids and use the brand default when none is given', () => {
+      expect(selectChatModel('gpt-5.2', policy, allProviders).selection?.model.id).toBe('gpt-4o');
+      expect(selectChatModel(undefined, policy, allProviders).selection?.model.id).toBe('claude-sonnet-4-5');
+    });
+
+    it('should follow the fallback chain when the provider is not configured', () => {
+      const providers = { anthropic: true, openai: false, google: false };
+      const { selection } = selectChatModel('gpt-4o', policy, providers);
+      expect(selection?.model.id).toBe('claude-sonnet-4-5');
+
+      const noFallback = getBrandModelPolicy({ allowed_models: ['gpt-4o'] });
+      expect(selectChatModel('gpt-4o', noFallback, providers).error?.code).toBe('model_unavailable');
+    });
+  });
+
+  it('should explain why models are unavailable', () => {
+    const policy = getBrandModelPolicy({ allowed_models: ['claude-sonnet-4-5', 'gpt-4o'] });
+    const availability = getModelAvailability(policy, { anthropic: true, openai: false, google: true });
+    expect(availability.find(m => m.id === 'claude-sonnet-4-5')?.available).toBe(true);
+    expect(availability.find(m => m.id === 'gpt-4o')?.reason).toBe('provider_not_configured');
+    expect(availability.find(m => m.id === 'gemini-2.0-flash')?.reason).toBe('not_allowed');
+  });
+});
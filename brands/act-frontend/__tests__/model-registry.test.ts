@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MODEL_ID,
+  STORED_MODEL_IDS,
+  getAvailableModels,
+  getModelByUpstreamId,
+  getModelDefinition,
+  isModelAvailable,
+  resolveModelId,
+} from '@act/models';
+
+describe('Model Registry', () => {
+  describe('resolveModelId', () => {
+    it('should resolve legacy ids to registry models', () => {
+      expect(resolveModelId('claude-4.5')).toBe('claude-sonnet-4-5');
+      expect(resolveModelId('gpt-5.2')).toBe('gpt-4o');
+      expect(resolveModelId('gemini-3.1')).toBe('gemini-2.0-flash');
+    });
+
+    it('should keep canonical ids and reject unknown ones', () => {
+      expect(resolveModelId(DEFAULT_MODEL_ID)).toBe(DEFAULT_MODEL_ID);
+      expect(resolveModelId('unknown-model')).toBeNull();
+      expect(resolveModelId(undefined)).toBeNull();
+    });
+  });
+
+  it('should look up models by dated upstream ids', () => {
+    expect(getModelByUpstreamId('gpt-4o-mini-2024-07-18')?.id).toBe('gpt-4o-mini');
+    expect(getModelByUpstreamId('gpt-4o-2024-08-06')?.id).toBe('gpt-4o');
+    expect(getModelDefinition('claude-3-sonnet')?.provider).toBe('anthropic');
+  });
+
+  describe('getAvailableModels', () => {
+    it('should hide deprecated models', () => {
+      const ids = getAvailableModels().map(m => m.id);
+      expect(ids).toContain(DEFAULT_MODEL_ID);
+      expect(ids).not.toContain('gemini-1.5-pro');
+    });
+
+    it('should apply a brand allow-list, including legacy ids', () => {
+      expect(getAvailableModels(['gpt-5.2', 'gpt-4o-mini']).map(m => m.id)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+      expect(isModelAvailable('claude-4.5', ['gpt-4o'])).toBe(false);
+      expect(isModelAvailable('claude-4.5', [])).toBe(true);
+    });
+  });
+
+  it('should store only ids that resolve to a registry model', () => {
+    expect(new Set(STORED_MODEL_IDS).size).toBe(STORED_MODEL_IDS.length);
+    for (const id of STORED_MODEL_IDS) {
+      const resolved = resolveModelId(id);
+      expect(resolved).not.toBeNull();
+      expect(getModelDefinition(resolved!)?.id).toBe(resolved);
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { chunkDocument } from '../../../supabase/functions/_shared/indexing';
+import {
+  docxToMarkdown,
+  parseDocxHeadingStyles,
+  parsePresentationSlides,
+  parseSharedStrings,
+  parseWorkbookSheets,
+  sheetToMarkdown,
+  slideToMarkdown,
+} from '../../../supabase/functions/_shared/office-markdown';
+
+const run = (text: string) => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`;
+const paragraph = (text: string, properties = '') => `<w:p>${properties && `<w:pPr>${properties}</w:pPr>`}${run(text)}</w:p>`;
+const cell = (text: string) => `<w:tc><w:tcPr/>${paragraph(text)}</w:tc>`;
+
+const shape = (placeholder: string, ...paragraphs: string[]) =>
+  `<p:sp><p:nvSpPr><p:nvPr>${placeholder}</p:nvPr></p:nvSpPr><p:txBody>` +
+  paragraphs.map(text => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`).join('') +
+  '</p:txBody></p:sp>';
+
+describe('Office Markdown', () => {
+  it('should keep headings, lists and tables of a Word document', () => {
+    const styles = parseDocxHeadingStyles(
+      '<w:styles><w:style w:type="paragraph" w:styleId="berschrift2"><w:name w:val="heading 2"/></w:style></w:styles>'
+    );
+    const documentXml =
+      '<w:document><w:body>' +
+      paragraph('Launch Brief', '<w:pStyle w:val="Title"/>') +
+      paragraph('Budget &amp; timing', '<w:pStyle w:val="berschrift2"/>') +
+      paragraph('Two channels:') +
+      paragraph('Social', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>') +
+      paragraph('Retail', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>') +
+      `<w:tbl><w:tr>${cell('Channel')}${cell('Spend')}</w:tr><w:tr>${cell('Social | paid')}${cell('€40k')}</w:tr></w:tbl>` +
+      '<w:sectPr/></w:body></w:document>';
+
+    expect(docxToMarkdown(documentXml, styles)).toBe(
+      '# Launch Brief\n\n## Budget & timing\n\nTwo channels:\n\n- Social\n- Retail\n\n' +
+        '| Channel | Spend |\n| --- | --- |\n| Social \\| paid | €40k |'
+    );
+  });
+
+  it('should write each sheet as a table under its name', () => {
+    const sharedStrings = parseSharedStrings(
+      '<sst><si><t>Region</t></si><si><r><t>Rev</t></r><r><t>enue</t></r></si><si><t>North</t></si></sst>'
+    );
+    const sheets = parseWorkbookSheets(
+      '<workbook><sheets><sheet name="Q1 &amp; Q2" sheetId="1" r:id="rId3"/></sheets></workbook>',
+      '<Relationships><Relationship Id="rId3" Type=".../worksheet" Target="worksheets/sheet7.xml"/></Relationships>'
+    );
+    const sheetXml =
+      '<worksheet><sheetData>' +
+      '<row r="2"><c r="B2" t="s"><v>0</v></c><c r="C2" t="s"><v>1</v></c></row>' +
+      '<row r="3"><c r="B3" t="s"><v>2</v></c><c r="C3"><v>1250.5</v></c><c r="D3" s="1"/></row>' +
+      '<row r="4"><c r="C4" t="inlineStr"><is><t>n/a</t></is></c></row>' +
+      '</sheetData></worksheet>';
+
+    expect(sheets).toEqual([{ name: 'Q1 & Q2', path: 'xl/worksheets/sheet7.xml' }]);
+    expect(sheetToMarkdown(sheets[0].name, sheetXml, sharedStrings)).toBe(
+      '# Sheet: Q1 & Q2\n\n| Region | Revenue |\n| --- | --- |\n| North | 1250.5 |\n|  | n/a |'
+    );
+  });
+
+  it('should write slides in presentation order with their notes', () => {
+    const slides = parsePresentationSlides(
+      '<p:presentation><p:sldIdLst><p:sldId id="257" r:id="rId9"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst></p:presentation>',
+      '<Relationships><Relationship Id="rId2" Type=".../slide" Target="slides/slide1.xml"/>' +
+        '<Relationship Id="rId9" Type=".../slide" Target="slides/slide2.xml"/></Relationships>'
+    );
+    const slideXml =
+      '<p:sld><p:cSld><p:spTree>' +
+      shape('<p:ph type="title"/>', 'Pricing') +
+      shape('<p:ph idx="1"/>', 'Starter', 'Enterprise') +
+      shape('<p:ph type="sldNum" idx="12"/>', '2') +
+      '</p:spTree></p:cSld></p:sld>';
+    const notesXml = '<p:notes>' + shape('<p:ph type="body" idx="1"/>', 'Mention the annual discount.') + '</p:notes>';
+
+    expect(slides).toEqual(['ppt/slides/slide2.xml', 'ppt/slides/slide1.xml']);
+    const markdown = slideToMarkdown(1, slideXml, notesXml);
+    expect(markdown).toBe('# Slide 1: Pricing\n\n- Starter\n- Enterprise\n\nSpeaker notes:\nMention the annual discount.');
+    expect(chunkDocument(`${markdown}\n\n${slideToMarkdown(2, shape('', 'Q&amp;A'), null)}`).map(c => c.heading))
+      .toEqual(['Slide 1: Pricing', 'Slide 2']);
+  });
+
+  it('should split large tables between rows', () => {
+    const rows = Array.from({ length: 40 }, (_, i) => `| SKU-${1000 + i} | Launch copy for product ${i} |`);
+    const text = `# Sheet: Catalogue\n\n| SKU | Copy |\n| --- | --- |\n${rows.join('\n')}`;
+
+    const chunks = chunkDocument(text, { maxTokens: 100, overlapTokens: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.heading).toBe('Sheet: Catalogue');
+      const lines = chunk.content.split('\n').filter(line => line && !line.startsWith('#'));
+      expect(lines.every(line => line.startsWith('| ') && line.endsWith(' |'))).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { generateObject } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { z } from 'zod';
+import { useQuota as consumeQuota } from '@act/auth';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { authorizeChatRequest } from '@/lib/chat/authorize';
+import { loadBrandProfile, type BrandGuidelines } from '@/lib/brand-guidelines';
+import {
+  checkBrandCompliance,
+  hasComplianceRules,
+  hasToneRules,
+  toneAssessmentSchema,
+  type ComplianceReport,
+  type ToneAssessment,
+} from '@/lib/brand-compliance';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_COPY_CHARS = 20_000;
+
+const TONE_MODEL = 'gpt-4o-mini';
+
+function buildTonePrompt(guidelines: BrandGuidelines): string {
+  const section = (label: string, items: string[]) =>
+    items.length > 0 ? `${label}:\n${items.map(item => `- ${item}`).join('\n')}` : null;
+
+  return [
+    'You review marketing copy against a brand\'s tone of voice.',
+    'Score from 0 (off-brand) to 100 (perfectly on-brand) how well the copy matches the voice below.',
+    'List each passage that is off-voice with a verbatim quote of it, why it is off-voice and an on-brand rewrite of just that passage.',
+    'Only judge tone; ignore spelling, banned words and disclaimers.',
+    section('Tone of voice', guidelines.tone_of_voice),
+    section('Audience', guidelines.audience),
+    section('Do', guidelines.voice_dos),
+    section("Don't", guidelines.voice_donts),
+  ].filter(Boolean).join('\n\n');
+}
+
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  return createClient(url, serviceKey);
+}
+
+const complianceSchema = z.object({
+  brandId: z.string().min(1),
+  // Not trimmed: annotation ranges point into the text as sent
+  text: z.string().max(MAX_COPY_CHARS).refine(value => value.trim().length > 0, 'Text is required'),
+});
+
+// POST /api/brand-compliance - Score copy against the brand profile, with inline
+// annotations and suggested rewrites
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = complianceSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid compliance check request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { brandId, text } = parsed.data;
+
+    const serviceSupabase = getSupabaseClient();
+    const { access, error: accessError } = await authorizeChatRequest(serviceSupabase, user.id, { brandId });
+    if (!access) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+
+    const { profile, error: profileError } = await loadBrandProfile(serviceSupabase, brandId);
+    if (profileError) {
+      return NextResponse.json({ error: profileError }, { status: 500 });
+    }
+    if (!profile || !hasComplianceRules(profile.guidelines)) {
+      return NextResponse.json(
+        { error: 'The brand profile has no guidelines to check copy against yet' },
+        { status: 409 }
+      );
+    }
+
+    let tone: ToneAssessment | null = null;
+    if (hasToneRules(profile.guidelines)) {
+      const { object, usage } = await generateObject({
+        model: openai(TONE_MODEL),
+        schema: toneAssessmentSchema,
+        system: buildTonePrompt(profile.guidelines),
+        prompt: text,
+      });
+      tone = object;
+
+      const totalTokens = usage.totalTokens ?? 0;
+      if (totalTokens > 0) {
+        const { error: quotaError } = await consumeQuota(serviceSupabase, brandId, 'prompt_tokens', totalTokens, {
+          description: `Brand compliance check (${TONE_MODEL})`,
+          metadata: { model: TONE_MODEL, profile_version: profile.version },
+          performedBy: user.id,
+          allowOverage: true,
+        });
+        if (quotaError) {
+          console.error('Failed to record quota usage:', quotaError);
+        }
+      }
+    }
+
+    const report: ComplianceReport = {
+      ...checkBrandCompliance(text, profile.guidelines, tone),
+      profileVersion: profile.version,
+    };
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Brand compliance check error:', error);
+    return NextResponse.json({ error: 'Failed to check copy against the brand' }, { status: 500 });
+  }
+}
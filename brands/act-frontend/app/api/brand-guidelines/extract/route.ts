@@ -0,0 +1,127 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { generateObject } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { z } from 'zod';
+import { hasPermission, useQuota as consumeQuota } from '@act/auth';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { authorizeChatRequest } from '@/lib/chat/authorize';
+import { brandGuidelinesSchema, normalizeBrandGuidelines } from '@/lib/brand-guidelines';
+
+export const dynamic = 'force-dynamic';
+
+// Long enough for a full brand book; anything past this is usually appendices
+const MAX_DOCUMENT_CHARS = 120_000;
+
+const EXTRACTION_MODEL = 'gpt-4o-mini';
+
+const EXTRACTION_PROMPT = `You extract structured brand guidelines from a brand book.
+Only include what the document states; leave a list empty when the document says nothing about it.
+- palette: every named brand colour with its hex value (convert RGB/CMYK to hex when only those are given) and what it is used for
+- typography: each typeface with its role (e.g. headings, body copy), weights and usage notes
+- logo_usage: logo rules such as clear space, minimum size, allowed backgrounds and misuse to avoid, one rule per entry
+- tone_of_voice: short descriptors of the brand voice (e.g. "warm", "confident, never arrogant")
+- banned_words: words and phrases the brand must not use
+- approved_taglines: taglines and slogans the brand approves, verbatim
+- audience: who the brand writes for, one audience per entry
+- terminology: preferred terms and spellings, e.g. "customers, not users"
+- voice_dos / voice_donts: writing guidance the document gives, one point per entry
+- required_disclaimers: legal lines or disclaimers copy must carry, verbatim
+- product_names: product and feature names exactly as the brand capitalises them
+- spelling_variant: "uk" or "us" when the document specifies British or American spelling, otherwise null
+- reading_grade: the highest school grade copy should read at when the document gives one, otherwise null`;
+
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  return createClient(url, serviceKey);
+}
+
+const extractSchema = z.object({
+  brandId: z.string().min(1),
+  documentId: z.string().uuid(),
+});
+
+// POST /api/brand-guidelines/extract - Extract structured guidelines from a processed brand
+// book into brand_documents.extracted_data. The result is a draft until saved to the profile.
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = extractSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid extraction request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { brandId, documentId } = parsed.data;
+
+    const serviceSupabase = getSupabaseClient();
+    const { access, error: accessError } = await authorizeChatRequest(serviceSupabase, user.id, { brandId });
+    if (!access) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+    if (!hasPermission(access.role, 'brand:edit')) {
+      return NextResponse.json({ error: 'Only brand owners can extract brand guidelines' }, { status: 403 });
+    }
+
+    const { data: document, error: documentError } = await serviceSupabase
+      .from('brand_documents')
+      .select('id, name, extracted_text')
+      .eq('id', documentId)
+      .eq('brand_id', brandId)
+      .maybeSingle();
+
+    if (documentError) {
+      console.error('Failed to load brand document:', documentError);
+      return NextResponse.json({ error: 'Failed to load document' }, { status: 500 });
+    }
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (!document.extracted_text?.trim()) {
+      return NextResponse.json({ error: 'The document has not been processed yet' }, { status: 409 });
+    }
+
+    const { object, usage } = await generateObject({
+      model: openai(EXTRACTION_MODEL),
+      schema: brandGuidelinesSchema,
+      system: EXTRACTION_PROMPT,
+      prompt: `Brand book "${document.name}":\n\n${document.extracted_text.slice(0, MAX_DOCUMENT_CHARS)}`,
+    });
+    const guidelines = normalizeBrandGuidelines(object);
+
+    const { error: updateError } = await serviceSupabase
+      .from('brand_documents')
+      .update({ extracted_data: guidelines, updated_at: new Date().toISOString() })
+      .eq('id', documentId);
+
+    if (updateError) {
+      console.error('Failed to save extracted guidelines:', updateError);
+      return NextResponse.json({ error: 'Failed to save extracted guidelines' }, { status: 500 });
+    }
+
+    const totalTokens = usage.totalTokens ?? 0;
+    if (totalTokens > 0) {
+      const { error: quotaError } = await consumeQuota(serviceSupabase, brandId, 'prompt_tokens', totalTokens, {
+        description: `Brand guideline extraction (${EXTRACTION_MODEL})`,
+        metadata: { document_id: documentId, model: EXTRACTION_MODEL },
+        performedBy: user.id,
+        allowOverage: true,
+      });
+      if (quotaError) {
+        console.error('Failed to record quota usage:', quotaError);
+      }
+    }
+
+    return NextResponse.json({ documentId, guidelines });
+  } catch (error) {
+    console.error('Brand guideline extraction error:', error);
+    return NextResponse.json({ error: 'Failed to extract brand guidelines' }, { status: 500 });
+  }
+}
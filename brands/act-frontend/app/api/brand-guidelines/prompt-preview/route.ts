@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { hasPermission } from '@act/auth';
+import { MODELS } from '@act/models';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { authorizeChatRequest } from '@/lib/chat/authorize';
+import { loadBrandModelPolicy } from '@/lib/chat/model-policy';
+import { buildChatSystemPrompt, type SystemPromptPreview } from '@/lib/chat/system-prompt';
+import { hasBrandVoice, loadBrandProfile } from '@/lib/brand-guidelines';
+
+export const dynamic = 'force-dynamic';
+
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  return createClient(url, serviceKey);
+}
+
+// GET /api/brand-guidelines/prompt-preview?brandId= - The system prompt a new conversation
+// would send with the brand's default model (before project excerpts and style presets)
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const brandId = new URL(req.url).searchParams.get('brandId');
+    if (!brandId) {
+      return NextResponse.json({ error: 'Brand ID is required' }, { status: 400 });
+    }
+
+    const serviceSupabase = getSupabaseClient();
+    const { access, error: accessError } = await authorizeChatRequest(serviceSupabase, user.id, { brandId });
+    if (!access) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+    if (!hasPermission(access.role, 'brand:edit')) {
+      return NextResponse.json({ error: 'Only brand owners can preview the system prompt' }, { status: 403 });
+    }
+
+    const [{ policy, error: policyError }, { profile, error: profileError }] = await Promise.all([
+      loadBrandModelPolicy(serviceSupabase, brandId),
+      loadBrandProfile(serviceSupabase, brandId),
+    ]);
+    if (!policy || profileError) {
+      return NextResponse.json({ error: policyError ?? profileError }, { status: 500 });
+    }
+
+    const brandProfile = profile && hasBrandVoice(profile.guidelines) ? profile : null;
+    const model = MODELS[policy.defaultModel];
+    const preview: SystemPromptPreview = {
+      systemPrompt: buildChatSystemPrompt({ model, brandId, brandProfile }),
+      model: model.name,
+      profileVersion: brandProfile?.version ?? null,
+    };
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error('System prompt preview error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
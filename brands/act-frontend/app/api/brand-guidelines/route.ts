@@ -0,0 +1,121 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { hasPermission } from '@act/auth';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { authorizeChatRequest } from '@/lib/chat/authorize';
+import {
+  brandGuidelinesSchema,
+  loadBrandProfile,
+  saveBrandProfile,
+  type BrandGuidelinesResponse,
+} from '@/lib/brand-guidelines';
+
+export const dynamic = 'force-dynamic';
+
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  return createClient(url, serviceKey);
+}
+
+const saveProfileSchema = z.object({
+  brandId: z.string().min(1),
+  guidelines: brandGuidelinesSchema,
+  sourceDocumentId: z.string().uuid().nullish(),
+});
+
+// GET /api/brand-guidelines?brandId= - The brand's current profile
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const brandId = new URL(req.url).searchParams.get('brandId');
+    if (!brandId) {
+      return NextResponse.json({ error: 'Brand ID is required' }, { status: 400 });
+    }
+
+    const serviceSupabase = getSupabaseClient();
+    const { access, error: accessError } = await authorizeChatRequest(serviceSupabase, user.id, { brandId });
+    if (!access) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+
+    const { profile, error } = await loadBrandProfile(serviceSupabase, brandId);
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    const response: BrandGuidelinesResponse = { profile, canEdit: hasPermission(access.role, 'brand:edit') };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Brand guidelines GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/brand-guidelines - Save reviewed guidelines as the next profile version
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = saveProfileSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid brand guidelines', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { brandId, guidelines, sourceDocumentId } = parsed.data;
+
+    const serviceSupabase = getSupabaseClient();
+    const { access, error: accessError } = await authorizeChatRequest(serviceSupabase, user.id, { brandId });
+    if (!access) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+    if (!hasPermission(access.role, 'brand:edit')) {
+      return NextResponse.json({ error: 'Only brand owners can change the brand profile' }, { status: 403 });
+    }
+
+    if (sourceDocumentId) {
+      const { data: document, error: documentError } = await serviceSupabase
+        .from('brand_documents')
+        .select('id')
+        .eq('id', sourceDocumentId)
+        .eq('brand_id', brandId)
+        .maybeSingle();
+
+      if (documentError) {
+        console.error('Failed to load source document:', documentError);
+        return NextResponse.json({ error: 'Failed to load source document' }, { status: 500 });
+      }
+      if (!document) {
+        return NextResponse.json({ error: 'Source document not found' }, { status: 404 });
+      }
+    }
+
+    const { profile, error, conflict } = await saveBrandProfile(serviceSupabase, {
+      brandId,
+      guidelines,
+      sourceDocumentId,
+      userId: user.id,
+    });
+    if (!profile) {
+      return NextResponse.json({ error }, { status: conflict ? 409 : 500 });
+    }
+
+    const response: BrandGuidelinesResponse = { profile, canEdit: true };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Brand guidelines PUT error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
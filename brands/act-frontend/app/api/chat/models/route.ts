@@ -0,0 +1,139 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { hasPermission } from '@act/auth';
+import { MODEL_IDS } from '@act/models';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { authorizeChatRequest } from '@/lib/chat/authorize';
+import {
+  getBrandModelPolicy,
+  getConfiguredProviders,
+  getModelAvailability,
+  loadBrandModelPolicy,
+  type BrandModelPolicy,
+  type ChatModelsResponse,
+} from '@/lib/chat/model-policy';
+import { invalidateBrandCache, type BrandModelSettings } from '@/lib/brand-service';
+
+export const dynamic = 'force-dynamic';
+
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  return createClient(url, serviceKey);
+}
+
+function toResponse(policy: BrandModelPolicy, canEdit: boolean): ChatModelsResponse {
+  return {
+    models: getModelAvailability(policy, getConfiguredProviders()),
+    defaultModel: policy.defaultModel,
+    allowedModels: policy.allowedModels,
+    fallbackModels: policy.fallbackModels,
+    canEdit,
+  };
+}
+
+const modelSettingsSchema = z.object({
+  brandId: z.string().min(1),
+  allowedModels: z.array(z.enum(MODEL_IDS)),
+  defaultModel: z.enum(MODEL_IDS).optional(),
+  fallbackModels: z.array(z.enum(MODEL_IDS)).default([]),
+});
+
+// GET /api/chat/models?brandId= - Models the caller may pick for a brand, with the reason for unavailable ones
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const brandId = new URL(req.url).searchParams.get('brandId');
+    if (!brandId) {
+      return NextResponse.json({ error: 'Brand ID is required' }, { status: 400 });
+    }
+
+    const serviceSupabase = getSupabaseClient();
+    const { access, error: accessError } = await authorizeChatRequest(serviceSupabase, user.id, { brandId });
+    if (!access) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+
+    const { policy, error } = await loadBrandModelPolicy(serviceSupabase, brandId);
+    if (!policy) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json(toResponse(policy, hasPermission(access.role, 'brand:edit')));
+  } catch (error) {
+    console.error('Chat models GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/chat/models - Update a brand's allowed models, default model and fallback chain
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = modelSettingsSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid model settings', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { brandId, allowedModels, defaultModel, fallbackModels } = parsed.data;
+
+    const serviceSupabase = getSupabaseClient();
+    const { access, error: accessError } = await authorizeChatRequest(serviceSupabase, user.id, { brandId });
+    if (!access) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+    if (!hasPermission(access.role, 'brand:edit')) {
+      return NextResponse.json({ error: 'Only brand owners can change model settings' }, { status: 403 });
+    }
+
+    // An empty allow-list means no restriction
+    if (defaultModel && allowedModels.length > 0 && !allowedModels.includes(defaultModel)) {
+      return NextResponse.json({ error: 'The default model must be one of the allowed models' }, { status: 400 });
+    }
+
+    const { data: brand, error: brandError } = await serviceSupabase
+      .from('brands')
+      .select('settings')
+      .eq('id', brandId)
+      .single();
+    if (brandError || !brand) {
+      console.error('Failed to load brand settings:', brandError);
+      return NextResponse.json({ error: 'Brand not found' }, { status: 404 });
+    }
+
+    const aiModels: BrandModelSettings = {
+      allowed_models: allowedModels,
+      default_model: defaultModel,
+      fallback_models: fallbackModels,
+    };
+    const { error: updateError } = await serviceSupabase
+      .from('brands')
+      .update({ settings: { ...(brand.settings || {}), ai_models: aiModels } })
+      .eq('id', brandId);
+
+    if (updateError) {
+      console.error('Failed to update brand model settings:', updateError);
+      return NextResponse.json({ error: 'Failed to save model settings' }, { status: 500 });
+    }
+
+    invalidateBrandCache(brandId);
+
+    return NextResponse.json(toResponse(getBrandModelPolicy(aiModels), true));
+  } catch (error) {
+    console.error('Chat models PUT error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -4,8 +4,34 @@ import { openai } from "@ai-sdk/openai";
 import { google } from "@ai-sdk/google";
 import { type NextRequest } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { checkQuota, useQuota as consumeQuota } from '@act/auth';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { authorizeChatRequest } from '@/lib/chat/authorize';
+import { getConfiguredProviders, loadBrandModelPolicy, selectChatModel } from '@/lib/chat/model-policy';
+import { getProjectContext } from '@/lib/chat/project-context';
+import { STYLE_INSTRUCTIONS, buildChatSystemPrompt } from '@/lib/chat/system-prompt';
+import { hasBrandVoice, loadBrandProfile, type BrandProfile } from '@/lib/brand-guidelines';
+import { streamWithFailover } from '@/lib/chat/failover';
+import {
+  CHAT_STREAM_CONTENT_TYPE,
+  applyChatEvent,
+  createChatStreamState,
+  encodeChatEvent,
+  type ChatStreamEvent,
+} from '@/lib/chat/stream-events';
+import { createGenerationSync, type GenerationSync } from '@/lib/chat/generation';
+import type { ChatSource } from '@/lib/chat/sources';
+import {
+  BRAND_DOCUMENTS_TOOL_NAME,
+  createBrandDocumentsTool,
+  hasIndexedBrandDocuments,
+  type BrandDocumentsToolOutput,
+} from '@/lib/chat/brand-documents-tool';
+import { getModelDefinition, type ModelDefinition } from '@act/models';
+import { estimatePromptTokens, toChatUsage, type ChatUsage, type QuotaExceededError } from '@/lib/chat/usage';
 // MCP imports are conditionally loaded to prevent build errors
-import type { MCPServerConfig, MCPConnectionStatus } from '@/lib/mcp/types';
+import type { MCPServerConfig, MCPConnectionStatus, MCPToolPolicy, MCPToolSource } from '@/lib/mcp/types';
+import { withToolApprovals, type ToolApprovalUpdate } from '@/lib/mcp/tool-approvals';
 
 // Tell Next.js this is a dynamic API route
 export const dynamic = 'force-dynamic';
@@ -52,23 +78,40 @@ async function getMCPServers(brandId: string, serverIds?: string[]): Promise<MCP
   }
 }
 
+interface MCPTools {
+  tools: Record<string, unknown>;
+  /** Server a (namespaced) tool belongs to */
+  getToolSource: (toolName: string) => MCPToolSource | null;
+  getToolPolicy: (toolName: string) => MCPToolPolicy;
+  cleanup: () => Promise<void>;
+}
+
+const NO_MCP_TOOLS: MCPTools = {
+  tools: {},
+  getToolSource: () => null,
+  getToolPolicy: () => 'auto',
+  cleanup: async () => {},
+};
+
 // Connect to MCP servers and get their tools
-async function getMCPTools(brandId: string, serverIds?: string[]): Promise<{ tools: Record<string, unknown>; cleanup: () => Promise<void> }> {
+async function getMCPTools(brandId: string, serverIds?: string[]): Promise<MCPTools> {
   const servers = await getMCPServers(brandId, serverIds);
   
   if (servers.length === 0) {
-    return { tools: {}, cleanup: async () => {} };
+    return NO_MCP_TOOLS;
   }
 
   console.log(`Found ${servers.length} MCP servers for brand ${brandId}`);
   
   // Debug: Log server auth info (without exposing actual tokens)
   servers.forEach(s => {
-    console.log(`MCP Server ${s.name}: auth_type=${s.auth_type}, has_token=${!!s.auth_token_encrypted}, token_length=${s.auth_token_encrypted?.length || 0}`);
+    console.log(`MCP Server ${s.name}: auth_type=${s.auth_type}, has_token=${!!s.auth_token_encrypted}`);
   });
 
   // Dynamically import MCP manager to prevent build-time bundling
   const { createMCPManager } = await import('@/lib/mcp/client-manager-loader');
+  // Connections and tool lists come from the pool shared across requests; cleanup hands
+  // the connections back instead of closing them
   const manager = await createMCPManager();
   const statuses = await manager.connectAll(servers);
 
@@ -85,73 +128,59 @@ async function getMCPTools(brandId: string, serverIds?: string[]): Promise<{ too
 
   return {
     tools,
+    getToolSource: (toolName) => manager.getToolSource(toolName),
+    getToolPolicy: (toolName) => manager.getToolPolicy(toolName),
     cleanup: async () => await manager.disconnectAll(),
   };
 }
 
-// Available models with their display names and provider info
-const MODELS = {
-  // Claude models
-  'claude-4.5': { provider: 'anthropic', modelId: 'claude-sonnet-4-5', name: 'Claude 4.5' },
-  'claude-3-sonnet': { provider: 'anthropic', modelId: 'claude-sonnet-4-5', name: 'Claude 4.5' },
-  
-  // GPT models
-  'gpt-5.2': { provider: 'openai', modelId: 'gpt-4o', name: 'GPT 5.2' },
-  'gpt-4o': { provider: 'openai', modelId: 'gpt-4o', name: 'GPT 4o' },
-  'gpt-4o-mini': { provider: 'openai', modelId: 'gpt-4o-mini', name: 'GPT 4o Mini' },
-  
-  // Gemini models
-  'gemini-3.1': { provider: 'google', modelId: 'gemini-2.0-flash', name: 'Gemini 3.1' },
-  'gemini-pro': { provider: 'google', modelId: 'gemini-1.5-pro', name: 'Gemini Pro' },
-} as const;
-
-type ModelKey = keyof typeof MODELS;
-
-// Check which API keys are available
-function checkApiKeys() {
-  return {
-    anthropic: !!process.env.ANTHROPIC_API_KEY,
-    openai: !!process.env.OPENAI_API_KEY,
-    google: !!process.env.GOOGLE_GENERATIVE_AI_API_KEY || !!process.env.GOOGLE_API_KEY,
-  };
-}
-
-// Style instructions for different writing styles
-const STYLE_INSTRUCTIONS: Record<string, string> = {
-  normal: '',
-  learning: '\n\nIMPORTANT: Explain concepts step-by-step with examples and analogies. Break down complex topics into digestible parts. Act as a patient teacher.',
-  concise: '\n\nIMPORTANT: Be extremely brief and to the point. Use short sentences and bullet points. Minimize explanations unless specifically asked.',
-  explanatory: '\n\nIMPORTANT: Provide detailed explanations with context, background, and reasoning. Include examples and clarifications. Be thorough.',
-  formal: '\n\nIMPORTANT: Use formal, professional language. Maintain a business tone with proper grammar and structure. Avoid casual expressions.',
-};
-
 // Get the AI model instance based on provider
-function getModel(modelKey: string) {
-  const modelConfig = MODELS[modelKey as ModelKey] || MODELS['claude-4.5'];
-  const keys = checkApiKeys();
-  
-  console.log('API Keys available:', keys);
-  console.log('Requested provider:', modelConfig.provider);
-  
-  // Check if the required API key exists
-  if (modelConfig.provider === 'openai' && !keys.openai) {
-    console.warn('OpenAI API key not found, falling back to Claude');
-    return anthropic('claude-sonnet-4-5');
-  }
-  if (modelConfig.provider === 'google' && !keys.google) {
-    console.warn('Google API key not found, falling back to Claude');
-    return anthropic('claude-sonnet-4-5');
-  }
-  
+function getModel(modelConfig: ModelDefinition) {
   switch (modelConfig.provider) {
     case 'anthropic':
-      return anthropic(modelConfig.modelId);
+      return anthropic(modelConfig.upstreamId);
     case 'openai':
-      return openai(modelConfig.modelId);
+      return openai(modelConfig.upstreamId);
     case 'google':
-      return google(modelConfig.modelId);
-    default:
-      return anthropic('claude-sonnet-4-5');
+      return google(modelConfig.upstreamId);
+  }
+}
+
+// Record real token usage against the brand quota and the conversation's running cost
+async function recordChatUsage(
+  brandId: string,
+  conversationId: string | undefined,
+  userId: string,
+  usage: ChatUsage
+) {
+  if (usage.totalTokens <= 0) return;
+
+  const supabase = getSupabaseClient();
+  // The tokens have already been spent, so record them even if this pushes the brand over its limit
+  const { error } = await consumeQuota(supabase, brandId, 'prompt_tokens', usage.totalTokens, {
+    description: `Chat completion (${usage.model})`,
+    metadata: {
+      conversation_id: conversationId ?? null,
+      model: usage.model,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      cost_usd: usage.costUsd,
+    },
+    performedBy: userId,
+    allowOverage: true,
+  });
+  if (error) {
+    console.error('Failed to record quota usage:', error);
+  }
+
+  if (conversationId && usage.costUsd > 0) {
+    const { error: costError } = await supabase.rpc('add_conversation_cost', {
+      p_conversation_id: conversationId,
+      p_cost_usd: usage.costUsd,
+    });
+    if (costError) {
+      console.error('Failed to update conversation cost:', costError);
+    }
   }
 }
 
@@ -196,6 +225,16 @@ async function uploadPDFToStorage(
 
 export async function POST(req: NextRequest) {
   try {
+    // Resolve the caller from their session - never trust identity from the body
+    const authClient = await createServerClient();
+    const { data: { user }, error: authError } = await authClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     const body = await req.json();
     
     // AI SDK 5 useChat sends messages in a different format
@@ -203,7 +242,7 @@ export async function POST(req: NextRequest) {
       conversationId,
       brandId, 
       projectId,
-      model = 'claude-sonnet-4-5',
+      model,
       messages = [],
       systemPrompt,
       attachments = [] as ProcessedAttachment[],
@@ -220,7 +259,6 @@ export async function POST(req: NextRequest) {
     console.log('useDeepResearch:', useDeepResearch);
     console.log('========================');
 
-    // Validate brand access (in production, verify user has access to this brand)
     if (!brandId) {
       return new Response(
         JSON.stringify({ error: 'Brand ID is required', received: Object.keys(body) }),
@@ -236,103 +274,105 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Fetch project files context if projectId is provided
+    // Verify brand membership, the ai:use permission, and that the project,
+    // conversation and MCP servers belong to the brand before loading any context
+    const { error: accessError } = await authorizeChatRequest(getSupabaseClient(), user.id, {
+      brandId,
+      projectId,
+      conversationId,
+      mcpServerIds,
+    });
+    if (accessError) {
+      return new Response(
+        JSON.stringify({ error: accessError.message }),
+        { status: accessError.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Enforce the brand's model allow-list; an unconfigured provider uses the fallback chain
+    const { policy, error: policyError } = await loadBrandModelPolicy(getSupabaseClient(), brandId);
+    if (!policy) {
+      return new Response(
+        JSON.stringify({ error: policyError }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const providers = getConfiguredProviders();
+    const { selection, error: modelError } = selectChatModel(model, policy, providers);
+    if (!selection) {
+      return new Response(
+        JSON.stringify({ error: modelError?.message, code: modelError?.code }),
+        { status: modelError?.status ?? 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    const modelConfig = selection.model;
+
+    // Retrieve the project file excerpts relevant to the latest user message
     let projectContext = '';
-    console.log('=== PROJECT FILES DEBUG ===');
-    console.log('projectId received:', projectId);
-    
+    let projectSources: ChatSource[] = [];
     if (projectId) {
       try {
-        const supabase = getSupabaseClient();
-        
-        // First, check ALL files for this project (for debugging)
-        const { data: allFiles } = await supabase
-          .from('project_files')
-          .select('id, name, status, file_type, extracted_text')
-          .eq('project_id', projectId);
-        
-        console.log('ALL files for project:', allFiles?.map(f => ({ 
-          id: f.id,
-          name: f.name, 
-          status: f.status, 
-          hasExtractedText: !!f.extracted_text,
-          textLength: f.extracted_text?.length || 0
-        })));
-        
-        // Now fetch only ready files with extracted text
-        const { data: projectFiles, error: filesError } = await supabase
-          .from('project_files')
-          .select('name, extracted_text, file_type, status')
-          .eq('project_id', projectId)
-          .eq('status', 'ready')
-          .not('extracted_text', 'is', null);
-
-        console.log('Ready files with text:', { 
-          count: projectFiles?.length || 0, 
-          files: projectFiles?.map(f => ({ name: f.name, status: f.status, hasText: !!f.extracted_text, textLength: f.extracted_text?.length })),
-          error: filesError 
-        });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const lastUserMessage = [...messages].reverse().find((m: any) => m.role === 'user');
+        const query = typeof lastUserMessage?.content === 'string'
+          ? lastUserMessage.content
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          : (lastUserMessage?.parts || []).filter((p: any) => p.type === 'text').map((p: any) => p.text).join('');
 
-        if (projectFiles && projectFiles.length > 0) {
-          projectContext = '\n\n=== PROJECT CONTEXT FILES ===\n';
-          projectContext += 'The following files have been uploaded to this project for context:\n\n';
-          
-          for (const file of projectFiles) {
-            if (file.extracted_text) {
-              // Limit each file's content to prevent token overflow
-              const maxFileLength = 10000;
-              const content = file.extracted_text.length > maxFileLength
-                ? file.extracted_text.substring(0, maxFileLength) + '\n[Content truncated...]'
-                : file.extracted_text;
-              
-              projectContext += `--- ${file.name} (${file.file_type}) ---\n`;
-              projectContext += content;
-              projectContext += '\n--- End of file ---\n\n';
-            }
-          }
-          projectContext += '=== END PROJECT CONTEXT ===\n\n';
-          projectContext += 'Use the above project files as context when answering questions. Reference specific files when relevant.\n';
-        }
+        const { context, sources } = await getProjectContext(getSupabaseClient(), brandId, projectId, query);
+        projectContext = context;
+        projectSources = sources;
+        console.log(`Project context: ${sources.length} retrieved chunks, ${context.length} chars`);
       } catch (error) {
-        console.error('Failed to fetch project files:', error);
+        console.error('Failed to build project context:', error);
       }
     }
 
-    // Fetch conversation style if conversationId exists
+    // Fetch conversation style and brand voice setting if conversationId exists
     let styleInstruction = '';
+    let brandVoiceEnabled = true;
     if (conversationId) {
       try {
         const supabase = getSupabaseClient();
         const { data: conversation } = await supabase
           .from('conversations')
-          .select('style_preset')
+          .select('style_preset, brand_voice_enabled')
           .eq('id', conversationId)
+          .eq('brand_id', brandId)
           .single();
         
         if (conversation?.style_preset) {
           styleInstruction = STYLE_INSTRUCTIONS[conversation.style_preset] || '';
         }
+        brandVoiceEnabled = conversation?.brand_voice_enabled ?? true;
       } catch (error) {
         console.error('Failed to fetch conversation style:', error);
       }
     }
 
-    // Build the system prompt with brand context
-    const modelConfig = MODELS[model as ModelKey] || MODELS['claude-4.5'];
-    const defaultSystemPrompt = `You are ${modelConfig.name}, a helpful AI assistant for brand management.
-You are assisting with brand: ${brandId}
-When asked what model you are, always say you are ${modelConfig.name} from ${modelConfig.provider}.
-Always provide helpful, accurate, and brand-appropriate responses.
-Be concise but thorough. Use markdown formatting when appropriate.${projectContext}`;
+    // The brand's voice goes into every conversation that hasn't turned it off
+    let brandProfile: BrandProfile | null = null;
+    if (brandVoiceEnabled) {
+      const { profile } = await loadBrandProfile(getSupabaseClient(), brandId);
+      brandProfile = profile && hasBrandVoice(profile.guidelines) ? profile : null;
+    }
 
-    const finalSystemPrompt = systemPrompt ? `${systemPrompt}${projectContext}${styleInstruction}` : `${defaultSystemPrompt}${styleInstruction}`;
+    // Build the system prompt with brand context (per model, since a fallback may answer)
+    const buildSystemPrompt = (candidate: ModelDefinition) => buildChatSystemPrompt({
+      model: candidate,
+      brandId,
+      customPrompt: systemPrompt,
+      projectContext,
+      styleInstruction,
+      brandProfile,
+    });
+    const finalSystemPrompt = buildSystemPrompt(modelConfig);
 
-    // Get the AI model based on the model key
     console.log('=== API MODEL DEBUG ===');
     console.log('Model received:', model);
-    console.log('Model config:', MODELS[model as ModelKey]);
-    const aiModel = getModel(model);
-    console.log('AI Model created:', aiModel);
+    console.log('Model config:', modelConfig);
+    console.log('Fallback models:', selection.fallbacks.map(m => m.id));
 
     // Extract content from messages - handle both old format (content) and new format (parts)
     // Using for...of loop to support async PDF extraction
@@ -461,11 +501,45 @@ Be concise but thorough. Use markdown formatting when appropriate.${projectConte
     console.log('Normalized messages (first 1000 chars):', JSON.stringify(normalizedMessages, null, 2).slice(0, 1000));
     console.log('=== END DEBUG ===');
 
+    // Check the brand still has prompt tokens before calling the model
+    const estimatedTokens = estimatePromptTokens(finalSystemPrompt, normalizedMessages);
+    const { hasQuota, remaining, error: quotaError } = await checkQuota(
+      getSupabaseClient(),
+      brandId,
+      'prompt_tokens',
+      estimatedTokens
+    );
+
+    if (quotaError) {
+      console.error('Failed to check quota:', quotaError);
+    }
+
+    if (!hasQuota) {
+      const body: QuotaExceededError = {
+        error: remaining > 0
+          ? `This message needs about ${estimatedTokens.toLocaleString()} tokens but your brand only has ${remaining.toLocaleString()} left. Ask a company admin to top up your quota.`
+          : 'Your brand has used all of its prompt tokens. Ask a company admin to top up your quota.',
+        code: 'quota_exceeded',
+        quotaType: 'prompt_tokens',
+        remaining: Math.max(remaining, 0),
+        requested: estimatedTokens,
+      };
+      return new Response(JSON.stringify(body), {
+        status: 402,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Get MCP tools only if the user has explicitly selected specific servers
     // If no servers selected, don't include any MCP tools (user must opt-in)
-    const { tools: mcpTools, cleanup: cleanupMCP } = mcpServerIds.length > 0
+    const {
+      tools: mcpTools,
+      getToolSource: getMCPToolSource,
+      getToolPolicy: getMCPToolPolicy,
+      cleanup: cleanupMCP,
+    } = mcpServerIds.length > 0
       ? await getMCPTools(brandId, mcpServerIds)
-      : { tools: {}, cleanup: async () => {} };
+      : NO_MCP_TOOLS;
     const hasMCPTools = Object.keys(mcpTools).length > 0;
 
     if (hasMCPTools) {
@@ -475,174 +549,289 @@ Be concise but thorough. Use markdown formatting when appropriate.${projectConte
     }
 
     try {
-      // Build streamText options
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const streamOptions: any = {
-        model: aiModel,
-        messages: normalizedMessages,
-        system: finalSystemPrompt,
-        maxOutputTokens: 4000, // AI SDK 5 uses maxOutputTokens
-        temperature: 0.7,
-      };
-
-      // Optional Deep Research / Extended Thinking mode
-      if (useDeepResearch) {
-        const modelConfig = MODELS[model as ModelKey] || MODELS['claude-4.5'];
-        
-        if (modelConfig.provider === 'anthropic') {
-          // Claude's extended thinking with interleaved tool use
-          streamOptions.providerOptions = {
-            anthropic: {
-              thinking: { type: 'enabled', budgetTokens: 15000 },
-            },
-          };
-          streamOptions.headers = {
-            'anthropic-beta': 'interleaved-thinking-2025-05-14',
-          };
-          streamOptions.maxOutputTokens = 16000; // Increase for reasoning + response
-          console.log('Deep research enabled via Claude extended thinking');
-        } else if (modelConfig.provider === 'google') {
-          // Gemini's thinking mode
-          streamOptions.providerOptions = {
-            google: {
-              thinkingConfig: {
-                includeThoughts: true,
-                thinkingLevel: 'high',
-              },
-            },
-          };
-          streamOptions.maxOutputTokens = 16000;
-          console.log('Deep research enabled via Gemini thinking mode');
-        } else if (modelConfig.provider === 'openai') {
-          // OpenAI doesn't have extended thinking in the same way
-          // Use higher temperature and more verbose system prompt instead
-          streamOptions.temperature = 0.8;
-          streamOptions.maxOutputTokens = 8000;
-          streamOptions.system = `${finalSystemPrompt}\n\nIMPORTANT: You are in deep research mode. Think through problems step-by-step, consider multiple perspectives, and provide comprehensive, well-reasoned answers. Break down complex topics and explore implications thoroughly.`;
-          console.log('Deep research enabled via enhanced prompting for OpenAI');
-        }
+      const assistantMessageId = crypto.randomUUID();
+      // Approval cards are streamed like tool calls; connected to the stream once it starts
+      let sendToolApproval: (update: ToolApprovalUpdate) => void = () => {};
+
+      // Model-independent tools. MCP tools with the "ask" policy wait for someone to approve
+      // each call, with the stream open.
+      const baseTools: Record<string, unknown> = hasMCPTools
+        ? withToolApprovals(getSupabaseClient(), mcpTools, {
+          brandId,
+          conversationId: conversationId ?? null,
+          messageId: assistantMessageId,
+          requestedBy: user.id,
+          getToolSource: getMCPToolSource,
+          getToolPolicy: getMCPToolPolicy,
+          onUpdate: (update) => sendToolApproval(update),
+        })
+        : {};
+
+      // Built-in brand knowledge base search (needs OpenAI for query embeddings)
+      if (providers.openai && await hasIndexedBrandDocuments(getSupabaseClient(), brandId)) {
+        // Knowledge base citations continue after the project context excerpts
+        let citationCount = projectSources.length;
+        baseTools[BRAND_DOCUMENTS_TOOL_NAME] = createBrandDocumentsTool(getSupabaseClient(), brandId, () => ++citationCount);
       }
 
-      // Build tools map
-      const tools: Record<string, unknown> = { ...(hasMCPTools ? mcpTools : {}) };
-
-      // Optional Web Search via native provider tools (OpenAI and Gemini only)
       console.log('=== WEB SEARCH DEBUG ===');
       console.log('useWebSearch value:', useWebSearch);
-      console.log('model:', model);
-      const modelConfig = MODELS[model as ModelKey] || MODELS['claude-4.5'];
-      console.log('modelConfig:', modelConfig);
-      
-      if (useWebSearch) {
-        if (modelConfig.provider === 'openai') {
-          // OpenAI's native web search tool
-          tools.web_search = openai.tools.webSearch({
-            searchContextSize: 'high',
-          });
-          console.log('Web search enabled via OpenAI built-in tool');
-        } else if (modelConfig.provider === 'google') {
-          // Gemini's native Google Search grounding
-          tools.google_search = google.tools.googleSearch({});
-          console.log('Web search enabled via Gemini Google Search grounding');
-          console.log('google_search tool added:', !!tools.google_search);
-          // Add instruction to use search
-          streamOptions.system = `${streamOptions.system || finalSystemPrompt}\n\nIMPORTANT: You have access to Google Search. When the user asks for current information, news, facts, or anything that would benefit from real-time web data, USE the google_search tool to find accurate, up-to-date information. Always search before answering questions about current events, recent news, or factual queries.`;
-        } else {
-          // Claude doesn't have native web search
-          console.warn(`Web search requested but model provider is ${modelConfig.provider}. Web search only available with OpenAI and Gemini models.`);
-        }
-      } else {
-        console.log('Web search NOT enabled - useWebSearch is falsy');
-      }
 
-      const hasTools = Object.keys(tools).length > 0;
-      if (hasTools) {
-        streamOptions.tools = tools;
-        streamOptions.stopWhen = stepCountIs(5);
-        streamOptions.toolChoice = 'auto';
+      // Aborted when a participant stops the generation (or the client disconnects from
+      // a chat that isn't saved, since nobody could reattach to it)
+      const generation = new AbortController();
+
+      // Build streamText options for a model; deep research and web search are provider specific
+      const buildStreamOptions = (candidate: ModelDefinition) => {
+        const candidateSystemPrompt = buildSystemPrompt(candidate);
+
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        streamOptions.onStepFinish = ({ text, toolCalls, toolResults, finishReason }: any) => {
-          console.log('=== STEP FINISHED ===');
-          console.log('Text length:', text?.length || 0);
-          console.log('Tool calls:', toolCalls?.length || 0);
-          console.log('Tool results:', toolResults?.length || 0);
-          console.log('Finish reason:', finishReason);
-          if (text) console.log('Text preview:', text.slice(0, 100) + '...');
+        const streamOptions: any = {
+          model: getModel(candidate),
+          messages: normalizedMessages,
+          system: candidateSystemPrompt,
+          maxOutputTokens: 4000, // AI SDK 5 uses maxOutputTokens
+          temperature: 0.7,
+          // Retries and failover are handled by streamWithFailover
+          maxRetries: 0,
+          abortSignal: generation.signal,
         };
-      }
 
-      const result = streamText(streamOptions);
+        // Optional Deep Research / Extended Thinking mode
+        if (useDeepResearch) {
+          if (candidate.provider === 'anthropic') {
+            // Claude's extended thinking with interleaved tool use
+            streamOptions.providerOptions = {
+              anthropic: {
+                thinking: { type: 'enabled', budgetTokens: 15000 },
+              },
+            };
+            streamOptions.headers = {
+              'anthropic-beta': 'interleaved-thinking-2025-05-14',
+            };
+            streamOptions.maxOutputTokens = 16000; // Increase for reasoning + response
+            console.log('Deep research enabled via Claude extended thinking');
+          } else if (candidate.provider === 'google' && candidate.capabilities.thinking) {
+            // Gemini's thinking mode
+            streamOptions.providerOptions = {
+              google: {
+                thinkingConfig: {
+                  includeThoughts: true,
+                  thinkingLevel: 'high',
+                },
+              },
+            };
+            streamOptions.maxOutputTokens = 16000;
+            console.log('Deep research enabled via Gemini thinking mode');
+          } else if (candidate.provider === 'openai') {
+            // OpenAI doesn't have extended thinking in the same way
+            // Use higher temperature and more verbose system prompt instead
+            streamOptions.temperature = 0.8;
+            streamOptions.maxOutputTokens = 8000;
+            streamOptions.system = `${candidateSystemPrompt}\n\nIMPORTANT: You are in deep research mode. Think through problems step-by-step, consider multiple perspectives, and provide comprehensive, well-reasoned answers. Break down complex topics and explore implications thoroughly.`;
+            console.log('Deep research enabled via enhanced prompting for OpenAI');
+          }
+        }
 
-      // Create a custom stream that includes tool call markers (for any tools)
-      if (hasTools) {
-        const encoder = new TextEncoder();
-        let toolCallsSent = new Set<string>();
-        
-        const customStream = new ReadableStream({
-          async start(controller) {
-            // Track tool calls via onChunk equivalent
-            for await (const part of result.fullStream) {
-              if (part.type === 'tool-call') {
+        const tools: Record<string, unknown> = { ...baseTools };
+
+        // Optional Web Search via native provider tools (OpenAI and Gemini only)
+        if (useWebSearch) {
+          if (!candidate.capabilities.webSearch) {
+            console.warn(`Web search requested but ${candidate.name} does not support it.`);
+          } else if (candidate.provider === 'openai') {
+            // OpenAI's native web search tool
+            tools.web_search = openai.tools.webSearch({
+              searchContextSize: 'high',
+            });
+            console.log('Web search enabled via OpenAI built-in tool');
+          } else if (candidate.provider === 'google') {
+            // Gemini's native Google Search grounding
+            tools.google_search = google.tools.googleSearch({});
+            console.log('Web search enabled via Gemini Google Search grounding');
+            // Add instruction to use search
+            streamOptions.system = `${streamOptions.system || candidateSystemPrompt}\n\nIMPORTANT: You have access to Google Search. When the user asks for current information, news, facts, or anything that would benefit from real-time web data, USE the google_search tool to find accurate, up-to-date information. Always search before answering questions about current events, recent news, or factual queries.`;
+          }
+        }
+
+        if (Object.keys(tools).length > 0) {
+          streamOptions.tools = tools;
+          streamOptions.stopWhen = stepCountIs(5);
+          streamOptions.toolChoice = 'auto';
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          streamOptions.onStepFinish = ({ text, toolCalls, toolResults, finishReason }: any) => {
+            console.log('=== STEP FINISHED ===');
+            console.log('Text length:', text?.length || 0);
+            console.log('Tool calls:', toolCalls?.length || 0);
+            console.log('Tool results:', toolResults?.length || 0);
+            console.log('Finish reason:', finishReason);
+            if (text) console.log('Text preview:', text.slice(0, 100) + '...');
+          };
+        }
+
+        return streamOptions;
+      };
+
+      // Retry transient errors, then fail over along the brand's fallback chain
+      const parts = streamWithFailover(
+        [modelConfig, ...selection.fallbacks],
+        candidate => streamText(buildStreamOptions(candidate)).fullStream
+      );
+      // Usage is billed to the model that answered, once all tool steps have run
+      let billedModelId = modelConfig.upstreamId;
+
+      // Stream typed events: text, reasoning, tool calls and results, sources, model and usage.
+      // The reply is also folded into streamState, which is saved and broadcast to the
+      // conversation's participants as it grows.
+      const encoder = new TextEncoder();
+      const toolCallsSent = new Set<string>();
+      let streamState = createChatStreamState();
+      let clientConnected = true;
+      let sync: GenerationSync | null = conversationId
+        ? createGenerationSync(getSupabaseClient(), {
+          messageId: assistantMessageId,
+          conversationId,
+          model: modelConfig.id,
+          onStopped: () => generation.abort(),
+        })
+        : null;
+
+      const customStream = new ReadableStream({
+        async start(controller) {
+          const send = (event: ChatStreamEvent) => {
+            streamState = applyChatEvent(streamState, event);
+            sync?.update(streamState);
+            if (clientConnected) {
+              controller.enqueue(encoder.encode(encodeChatEvent(event)));
+            }
+          };
+          sendToolApproval = (update) => send({ type: 'tool-approval', ...update });
+
+          try {
+            if (sync) {
+              const { error: syncError } = await sync.start(streamState);
+              if (syncError) {
+                // Still answer; the reply just can't be saved or followed by others
+                sync = null;
+              } else {
+                send({ type: 'message', messageId: assistantMessageId });
+              }
+            }
+
+            if (brandProfile) {
+              send({ type: 'brand-voice', profileVersion: brandProfile.version });
+            }
+
+            // Citable sources go first so the UI can link [n] references as text arrives
+            if (projectSources.length > 0) {
+              send({ type: 'sources', sources: projectSources });
+            }
+
+            for await (const part of parts) {
+              if (part.type === 'model') {
+                billedModelId = getModelDefinition(part.model.id)?.upstreamId ?? billedModelId;
+                send({ type: 'model', model: part.model });
+              } else if (part.type === 'tool-call') {
                 const toolCallId = part.toolCallId;
                 if (!toolCallsSent.has(toolCallId)) {
                   toolCallsSent.add(toolCallId);
-                  // Send tool call marker
-                  controller.enqueue(encoder.encode(`\n[TOOL_CALL:${part.toolName}]\n`));
+                  const mcpSource = getMCPToolSource(part.toolName);
+                  send({
+                    type: 'tool-call',
+                    toolCallId,
+                    toolName: part.toolName,
+                    ...(mcpSource ? { mcpSource } : {}),
+                    input: (part.input ?? {}) as Record<string, unknown>,
+                  });
                 }
               } else if (part.type === 'tool-result') {
-                // Send tool result marker
-                controller.enqueue(encoder.encode(`\n[TOOL_RESULT:${part.toolName}]\n`));
+                send({ type: 'tool-result', toolCallId: part.toolCallId, toolName: part.toolName, output: part.output });
+                // Knowledge base results are listed as sources under the message
+                if (part.toolName === BRAND_DOCUMENTS_TOOL_NAME) {
+                  const { sources } = part.output as BrandDocumentsToolOutput;
+                  if (sources?.length > 0) {
+                    send({ type: 'sources', sources });
+                  }
+                  continue;
+                }
                 // If webSearch, append simple sources list
                 try {
-                  // @ts-expect-error runtime chunk shape
-                  const out = part?.result || part?.output || part;
+                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                  const out = part.output as any;
                   const sources = out?.results;
                   if (Array.isArray(sources) && sources.length > 0) {
                     const lines = sources
                       .slice(0, 5)
                       .map((r: any, i: number) => `${i + 1}. ${r.title} - ${r.url}`)
                       .join('\n');
-                    controller.enqueue(encoder.encode(`\n\nSources:\n${lines}\n`));
+                    send({ type: 'text', delta: `\n\nSources:\n${lines}\n` });
                   }
                 } catch {
                   // ignore
                 }
+              } else if (part.type === 'tool-error') {
+                send({
+                  type: 'tool-error',
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  error: part.error instanceof Error ? part.error.message : String(part.error),
+                });
+              } else if (part.type === 'reasoning-delta') {
+                send({ type: 'reasoning', delta: part.text });
               } else if (part.type === 'text-delta') {
-                controller.enqueue(encoder.encode(part.text));
+                send({ type: 'text', delta: part.text });
+              } else if (part.type === 'finish') {
+                const usage = toChatUsage(billedModelId, part.totalUsage);
+                await recordChatUsage(brandId, conversationId, user.id, usage);
+                send({ type: 'usage', usage });
               }
             }
-            controller.close();
-            
+            if (clientConnected) controller.close();
+          } catch (streamError) {
+            if (generation.signal.aborted) {
+              console.log('Chat stream stopped');
+              if (clientConnected) controller.close();
+              return;
+            }
+            console.error('Chat stream error:', streamError);
+            // Report the failure in-band; the response status has already been sent
+            try {
+              send({
+                type: 'error',
+                message: streamError instanceof Error ? streamError.message : 'The model failed to respond',
+              });
+              if (clientConnected) controller.close();
+            } catch {
+              // client disconnected
+            }
+          } finally {
+            // Save the reply whether or not the client is still reading; anything cut
+            // short by a stop or an error is kept as interrupted
+            await sync?.finish(streamState, generation.signal.aborted || streamState.error ? 'interrupted' : 'complete');
+
             // Cleanup MCP (if any)
             if (hasMCPTools) {
               await cleanupMCP().catch(err => {
                 console.error('MCP cleanup error:', err);
               });
             }
-          },
-        });
-
-        return new Response(customStream, {
-          headers: { 'Content-Type': 'text/plain; charset=utf-8' },
-        });
-      }
-
-      // Clean up MCP after non-streaming when tools used
-      if (hasMCPTools) {
-        // Schedule cleanup when the text generation is complete
-        result.text.then(() => {
-          cleanupMCP().catch(err => {
-            console.error('MCP cleanup error:', err);
-          });
-        }).catch(() => {
-          cleanupMCP().catch(err => {
-            console.error('MCP cleanup error after failure:', err);
-          });
-        });
-      }
+          }
+        },
+        cancel() {
+          // Client closed the tab or lost its connection. Saved chats keep generating so
+          // participants and a reloaded page can follow the reply; stopping goes through
+          // /api/chat/stop.
+          clientConnected = false;
+          if (!sync) generation.abort();
+        },
+      });
 
-      // Return streaming response
-      return result.toTextStreamResponse();
+      return new Response(customStream, {
+        headers: {
+          'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+          'Cache-Control': 'no-cache, no-transform',
+        },
+      });
     } catch (innerError) {
       // Ensure cleanup on any error within the inner try block
       await cleanupMCP().catch(err => {
@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { authorizeChatRequest } from '@/lib/chat/authorize';
+import { stopAssistantMessage } from '@/lib/chat/assistant-message';
+import { cancelToolApprovals } from '@/lib/mcp/tool-approvals';
+
+export const dynamic = 'force-dynamic';
+
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  return createClient(url, serviceKey);
+}
+
+const stopSchema = z.object({
+  brandId: z.string().min(1),
+  conversationId: z.string().min(1),
+  messageId: z.string().min(1),
+});
+
+// POST /api/chat/stop - Stop a reply that is still generating. Any participant may stop
+// it; the generating request aborts the model and saves the partial reply as interrupted.
+// Tool calls the reply is waiting to have approved are cancelled.
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = stopSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid stop request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { brandId, conversationId, messageId } = parsed.data;
+
+    const serviceSupabase = getSupabaseClient();
+    const { access, error: accessError } = await authorizeChatRequest(serviceSupabase, user.id, {
+      brandId,
+      conversationId,
+    });
+    if (!access) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+
+    const { stopped, error } = await stopAssistantMessage(serviceSupabase, conversationId, messageId);
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    if (stopped) {
+      await cancelToolApprovals(serviceSupabase, messageId);
+    }
+
+    return NextResponse.json({ stopped });
+  } catch (error) {
+    console.error('Chat stop error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
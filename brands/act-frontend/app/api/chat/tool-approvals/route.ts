@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { hasPermission } from '@act/auth';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { authorizeChatRequest } from '@/lib/chat/authorize';
+import { decideToolApproval, getToolApproval } from '@/lib/mcp/tool-approvals';
+
+export const dynamic = 'force-dynamic';
+
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  return createClient(url, serviceKey);
+}
+
+const decisionSchema = z.object({
+  approvalId: z.string().uuid(),
+  decision: z.enum(['approved', 'rejected']),
+});
+
+// POST /api/chat/tool-approvals - Approve or reject an MCP tool call a reply is waiting
+// on. Needs the ai:approve_tool_calls permission in the call's brand; the generating
+// request picks the decision up and runs the call or tells the model it was rejected.
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = decisionSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid approval decision', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { approvalId, decision } = parsed.data;
+
+    const serviceSupabase = getSupabaseClient();
+    const { approval, error: loadError } = await getToolApproval(serviceSupabase, approvalId);
+    if (!approval) {
+      return NextResponse.json(
+        { error: loadError },
+        { status: loadError === 'Tool approval not found' ? 404 : 500 }
+      );
+    }
+
+    const { access, error: accessError } = await authorizeChatRequest(serviceSupabase, user.id, {
+      brandId: approval.brand_id,
+      conversationId: approval.conversation_id,
+    });
+    if (!access) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+
+    if (!hasPermission(access.role, 'ai:approve_tool_calls')) {
+      return NextResponse.json(
+        { error: 'Your role does not allow approving tool calls' },
+        { status: 403 }
+      );
+    }
+
+    const { approval: decided, error } = await decideToolApproval(serviceSupabase, approvalId, decision, {
+      decidedBy: user.id,
+    });
+    if (!decided) {
+      return NextResponse.json({ error }, { status: error === 'Failed to decide tool approval' ? 500 : 409 });
+    }
+
+    return NextResponse.json({ approval: decided });
+  } catch (error) {
+    console.error('Tool approval error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,129 +1,120 @@
 import { type NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import type { MCPServerConfig } from '@/lib/mcp';
+import { authorizeMCPAccess } from '@/lib/mcp/authorize';
+import { MCP_CREDENTIAL_COLUMNS } from '@/lib/mcp/credentials';
+import {
+  exchangeAuthorizationCode,
+  oauthTokenColumns,
+  safeReturnPath,
+  verifyOAuthState,
+} from '@/lib/mcp/oauth';
 
 export const dynamic = 'force-dynamic';
 
+const DEFAULT_RETURN_PATH = '/dashboard/settings';
+
 /**
- * OAuth callback handler for Smithery MCP authentication
- * 
+ * OAuth callback handler for MCP server authentication
+ *
  * Flow:
- * 1. User clicks "Connect to Smithery" in the UI
- * 2. User is redirected to Smithery to log in and configure the MCP server
- * 3. Smithery redirects back here with an authorization code
- * 4. We exchange the code for tokens and store them
+ * 1. The user clicks "Connect" on an OAuth MCP server; /api/mcp/oauth/initiate returns
+ *    the authorization URL with a signed state and PKCE challenge
+ * 2. The user signs in with the server's authorization server
+ * 3. The authorization server redirects back here with an authorization code
+ * 4. We check the state belongs to the signed-in user, who must still be a brand admin,
+ *    exchange the code with the PKCE verifier and store the encrypted tokens
  */
 export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin;
+  let returnTo = DEFAULT_RETURN_PATH;
+
+  const redirectTo = (params: Record<string, string>) => {
+    const url = new URL(returnTo, appUrl);
+    url.searchParams.set('tab', 'mcp');
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return NextResponse.redirect(url);
+  };
+
   try {
-    const { searchParams } = new URL(req.url);
     const code = searchParams.get('code');
-    const state = searchParams.get('state'); // Contains serverId and brandId
-    const error = searchParams.get('error');
-    const errorDescription = searchParams.get('error_description');
+    const { state, error: stateError } = verifyOAuthState(searchParams.get('state') ?? '');
+
+    if (!state) {
+      return redirectTo({ mcp_oauth_error: stateError ?? 'Invalid state parameter' });
+    }
+    returnTo = safeReturnPath(state.returnTo, appUrl) ?? DEFAULT_RETURN_PATH;
 
-    // Handle errors from OAuth provider
+    // Handle errors from the authorization server
+    const error = searchParams.get('error');
     if (error) {
-      console.error('OAuth error:', error, errorDescription);
-      return NextResponse.redirect(
-        new URL(`/settings?error=${encodeURIComponent(errorDescription || error)}`, req.url)
-      );
+      console.error('OAuth error:', error, searchParams.get('error_description'));
+      return redirectTo({ mcp_oauth_error: searchParams.get('error_description') || error });
     }
 
-    if (!code || !state) {
-      return NextResponse.redirect(
-        new URL('/settings?error=Missing+authorization+code', req.url)
-      );
+    if (!code) {
+      return redirectTo({ mcp_oauth_error: 'Missing authorization code' });
     }
 
-    // Parse state to get server info
-    let stateData: { serverId?: string; brandId?: string; provider?: string };
-    try {
-      stateData = JSON.parse(Buffer.from(state, 'base64').toString());
-    } catch {
-      return NextResponse.redirect(
-        new URL('/settings?error=Invalid+state+parameter', req.url)
-      );
+    // The state only completes the flow in the session of the user who started it
+    const { data: { user } } = await (await createClient()).auth.getUser();
+    if (!user || user.id !== state.userId) {
+      return redirectTo({ mcp_oauth_error: 'Authorization was started in another session' });
     }
 
-    const { serverId, brandId, provider } = stateData;
+    const supabase = createServiceClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
 
-    if (!serverId || !brandId) {
-      return NextResponse.redirect(
-        new URL('/settings?error=Missing+server+information', req.url)
-      );
+    // Checked again here, as the user may have lost admin rights since starting the flow
+    const { error: accessError } = await authorizeMCPAccess(supabase, user.id, state.brandId, { admin: true });
+    if (accessError) {
+      return redirectTo({ mcp_oauth_error: accessError.message });
     }
 
-    // Exchange code for tokens based on provider
-    let tokens: { access_token: string; refresh_token?: string; expires_in?: number } | null = null;
-
-    if (provider === 'smithery') {
-      // Exchange with Smithery
-      const tokenResponse = await fetch('https://smithery.ai/oauth/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          grant_type: 'authorization_code',
-          code,
-          redirect_uri: `${process.env.NEXT_PUBLIC_APP_URL}/api/mcp/oauth/callback`,
-          client_id: process.env.SMITHERY_CLIENT_ID,
-          client_secret: process.env.SMITHERY_CLIENT_SECRET,
-        }),
-      });
-
-      if (!tokenResponse.ok) {
-        const errorData = await tokenResponse.text();
-        console.error('Token exchange failed:', errorData);
-        return NextResponse.redirect(
-          new URL('/settings?error=Token+exchange+failed', req.url)
-        );
-      }
-
-      tokens = await tokenResponse.json();
+    const { data: server, error: serverError } = await supabase
+      .from('mcp_servers')
+      .select(`id, oauth_client_id, oauth_metadata, ${MCP_CREDENTIAL_COLUMNS.join(', ')}`)
+      .eq('id', state.serverId)
+      .eq('brand_id', state.brandId)
+      .maybeSingle();
+
+    if (serverError || !server) {
+      console.error('Failed to load MCP server:', serverError);
+      return redirectTo({ mcp_oauth_error: 'MCP server not found' });
     }
 
+    const stored = server as unknown as MCPServerConfig;
+    const { tokens, error: tokenError } = await exchangeAuthorizationCode(stored, code, state.verifier);
+
     if (!tokens) {
-      return NextResponse.redirect(
-        new URL('/settings?error=Unknown+OAuth+provider', req.url)
-      );
+      console.error('Token exchange failed:', tokenError);
+      return redirectTo({ mcp_oauth_error: 'Token exchange failed' });
     }
 
-    // Store tokens in database
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_ROLE_KEY!
-    );
-
-    const expiresAt = tokens.expires_in
-      ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
-      : null;
-
     const { error: updateError } = await supabase
       .from('mcp_servers')
       .update({
-        oauth_access_token: tokens.access_token,
-        oauth_refresh_token: tokens.refresh_token || null,
-        oauth_expires_at: expiresAt,
-        auth_type: 'smithery',
+        // A refresh token from an earlier connection doesn't belong to the new grant
+        ...oauthTokenColumns({ ...stored, oauth_refresh_token: null }, tokens),
+        auth_type: 'oauth',
       })
-      .eq('id', serverId)
-      .eq('brand_id', brandId);
+      .eq('id', state.serverId)
+      .eq('brand_id', state.brandId);
 
     if (updateError) {
       console.error('Failed to store tokens:', updateError);
-      return NextResponse.redirect(
-        new URL('/settings?error=Failed+to+store+credentials', req.url)
-      );
+      return redirectTo({ mcp_oauth_error: 'Failed to store credentials' });
     }
 
-    // Success! Redirect back to settings
-    return NextResponse.redirect(
-      new URL('/settings?success=MCP+server+connected', req.url)
-    );
+    return redirectTo({ mcp_oauth: 'connected' });
   } catch (error) {
     console.error('OAuth callback error:', error);
-    return NextResponse.redirect(
-      new URL('/settings?error=OAuth+callback+failed', req.url)
-    );
+    return redirectTo({ mcp_oauth_error: 'OAuth callback failed' });
   }
 }
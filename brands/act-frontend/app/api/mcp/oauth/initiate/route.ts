@@ -1,70 +1,129 @@
 import { type NextRequest, NextResponse } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import type { MCPServerConfig } from '@/lib/mcp';
+import { authorizeMCPAccess } from '@/lib/mcp/authorize';
+import { MCP_CREDENTIAL_COLUMNS, updatedCredentialColumns } from '@/lib/mcp/credentials';
+import {
+  MCP_OAUTH_CALLBACK_PATH,
+  buildAuthorizationUrl,
+  createPkcePair,
+  prepareOAuthClient,
+  safeReturnPath,
+  signOAuthState,
+} from '@/lib/mcp/oauth';
 
 export const dynamic = 'force-dynamic';
 
+// Create Supabase client with service role for admin operations
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  return createServiceClient(url, serviceKey);
+}
+
+const initiateSchema = z.object({
+  serverId: z.string().min(1),
+  brandId: z.string().min(1),
+  // Same-origin path to return to after the callback
+  returnTo: z.string().optional(),
+});
+
 /**
- * Initiate OAuth flow for MCP server authentication (e.g., Smithery)
- * 
- * This redirects the user to the OAuth provider to authorize access
+ * Start the OAuth flow for an MCP server
+ *
+ * Discovers the server's authorization server, registers a client with it if needed and
+ * returns the URL to send the user to. The callback finishes the flow.
  */
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json();
-    const { serverId, brandId, provider, serverUrl } = body;
-
-    if (!serverId || !brandId || !provider) {
+    const parsed = initiateSchema.safeParse(await req.json());
+    if (!parsed.success) {
       return NextResponse.json(
         { error: 'Missing required parameters' },
         { status: 400 }
       );
     }
+    const { serverId, brandId } = parsed.data;
 
-    // Create state parameter with server info
-    const state = Buffer.from(JSON.stringify({
-      serverId,
-      brandId,
-      provider,
-    })).toString('base64');
-
-    const redirectUri = `${process.env.NEXT_PUBLIC_APP_URL}/api/mcp/oauth/callback`;
-
-    let authUrl: string;
-
-    switch (provider) {
-      case 'smithery':
-        // Smithery OAuth URL
-        // Note: You need to register your app with Smithery to get client credentials
-        const smitheryClientId = process.env.SMITHERY_CLIENT_ID;
-        
-        if (!smitheryClientId) {
-          return NextResponse.json(
-            { error: 'Smithery OAuth not configured. Please set SMITHERY_CLIENT_ID.' },
-            { status: 500 }
-          );
-        }
-
-        // Extract the server path from URL if provided
-        const serverPath = serverUrl
-          ? new URL(serverUrl).pathname
-          : '/@browserbasehq/mcp-browserbase';
-
-        authUrl = `https://smithery.ai/oauth/authorize?` +
-          `client_id=${encodeURIComponent(smitheryClientId)}` +
-          `&redirect_uri=${encodeURIComponent(redirectUri)}` +
-          `&response_type=code` +
-          `&state=${encodeURIComponent(state)}` +
-          `&scope=mcp:read mcp:write` +
-          `&server=${encodeURIComponent(serverPath)}`;
-        break;
-
-      default:
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin;
+    const returnTo = safeReturnPath(parsed.data.returnTo ?? '/dashboard/settings', appUrl);
+    if (!returnTo) {
+      return NextResponse.json({ error: 'Invalid return path' }, { status: 400 });
+    }
+
+    const { data: { user } } = await (await createClient()).auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = getSupabaseClient();
+
+    // Connecting stores the brand's credentials for the server, like changing it does
+    const { error: accessError } = await authorizeMCPAccess(supabase, user.id, brandId, { admin: true });
+    if (accessError) {
+      return NextResponse.json({ error: accessError.message }, { status: accessError.status });
+    }
+
+    const { data: server, error: serverError } = await supabase
+      .from('mcp_servers')
+      .select(`id, url, oauth_client_id, oauth_metadata, ${MCP_CREDENTIAL_COLUMNS.join(', ')}`)
+      .eq('id', serverId)
+      .eq('brand_id', brandId)
+      .maybeSingle();
+
+    if (serverError || !server) {
+      return NextResponse.json({ error: 'MCP server not found' }, { status: 404 });
+    }
+
+    const stored = server as unknown as MCPServerConfig;
+    const redirectUri = `${appUrl}${MCP_OAUTH_CALLBACK_PATH}`;
+
+    let prepared: Awaited<ReturnType<typeof prepareOAuthClient>>;
+    try {
+      prepared = await prepareOAuthClient(stored, redirectUri);
+    } catch (error) {
+      console.error('MCP OAuth discovery failed:', error);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to discover the authorization server' },
+        { status: 502 }
+      );
+    }
+
+    const clientId = prepared.client?.client_id ?? stored.oauth_client_id!;
+
+    if (prepared.registered) {
+      const { error: updateError } = await supabase
+        .from('mcp_servers')
+        .update({
+          ...updatedCredentialColumns(stored, { oauth_client_secret: prepared.client?.client_secret ?? null }),
+          oauth_client_id: clientId,
+          oauth_metadata: prepared.metadata,
+        })
+        .eq('id', serverId);
+
+      if (updateError) {
+        console.error('Failed to save OAuth client:', updateError);
         return NextResponse.json(
-          { error: `Unknown OAuth provider: ${provider}` },
-          { status: 400 }
+          { error: 'Failed to initiate OAuth flow' },
+          { status: 500 }
         );
+      }
     }
 
-    return NextResponse.json({ authUrl });
+    const { verifier, challenge } = createPkcePair();
+    const state = signOAuthState({
+      serverId,
+      brandId,
+      userId: user.id,
+      verifier,
+      returnTo,
+    });
+
+    return NextResponse.json({
+      authUrl: buildAuthorizationUrl(prepared.metadata, clientId, challenge, state),
+    });
   } catch (error) {
     console.error('OAuth initiate error:', error);
     return NextResponse.json(
@@ -1,9 +1,22 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { createMCPManager, type MCPServerConfig, type MCPServerInput } from '@/lib/mcp';
+import { z } from 'zod';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import type { MCPServerConfig, MCPServerInput } from '@/lib/mcp';
+import { authorizeMCPAccess, authorizeMCPServerAdmin } from '@/lib/mcp/authorize';
+import {
+  MCP_CREDENTIAL_COLUMNS,
+  encryptCredentialColumns,
+  toPublicMCPServer,
+  updatedCredentialColumns,
+  type MCPCredentialColumn,
+} from '@/lib/mcp/credentials';
 
 export const dynamic = 'force-dynamic';
 
+// Policy per tool name, see lib/mcp/tool-approvals.ts
+const toolPoliciesSchema = z.record(z.string().min(1), z.enum(['auto', 'ask', 'deny']));
+
 // Create Supabase client with service role for admin operations
 function getSupabaseClient() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -11,9 +24,14 @@ function getSupabaseClient() {
   return createClient(url, serviceKey);
 }
 
-// GET /api/mcp/servers - List MCP servers for a brand
+// GET /api/mcp/servers - List MCP servers for a brand (brand members)
 export async function GET(req: NextRequest) {
   try {
+    const { data: { user }, error: authError } = await (await createServerClient()).auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { searchParams } = new URL(req.url);
     const brandId = searchParams.get('brandId');
 
@@ -25,9 +43,15 @@ export async function GET(req: NextRequest) {
     }
 
     const supabase = getSupabaseClient();
+
+    const { error: accessError } = await authorizeMCPAccess(supabase, user.id, brandId);
+    if (accessError) {
+      return NextResponse.json({ error: accessError.message }, { status: accessError.status });
+    }
+
     const { data, error } = await supabase
       .from('mcp_servers')
-      .select('id, brand_id, name, description, transport_type, url, auth_type, auth_header, auth_token_encrypted, enabled, priority, timeout_ms, allowed_tools, blocked_tools, created_at, updated_at')
+      .select('id, brand_id, name, description, transport_type, url, auth_type, auth_header, auth_token_encrypted, oauth_access_token, enabled, priority, timeout_ms, allowed_tools, blocked_tools, tool_policies, created_at, updated_at')
       .eq('brand_id', brandId)
       .order('priority', { ascending: false });
 
@@ -39,15 +63,8 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    // Log what we're returning
-    if (data && data.length > 0) {
-      console.log('Returning servers with auth:', data.map(s => ({
-        name: s.name,
-        auth_type: s.auth_type,
-        has_token: !!s.auth_token_encrypted,
-      })));
-    }
-    return NextResponse.json({ servers: data || [] });
+    // Tokens are only ever returned masked
+    return NextResponse.json({ servers: ((data || []) as MCPServerConfig[]).map(toPublicMCPServer) });
   } catch (error) {
     console.error('MCP servers GET error:', error);
     return NextResponse.json(
@@ -57,12 +74,16 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// POST /api/mcp/servers - Create a new MCP server
+// POST /api/mcp/servers - Create a new MCP server (brand admins)
 export async function POST(req: NextRequest) {
   try {
+    const { data: { user }, error: authError } = await (await createServerClient()).auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await req.json();
-    console.log('POST /api/mcp/servers - Raw body received:', JSON.stringify(body, null, 2));
-    const { brandId, userId, ...serverInput } = body as { brandId: string; userId: string } & MCPServerInput;
+    const { brandId, ...serverInput } = body as { brandId: string } & MCPServerInput;
 
     if (!brandId) {
       return NextResponse.json(
@@ -85,6 +106,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (serverInput.tool_policies !== undefined && !toolPoliciesSchema.safeParse(serverInput.tool_policies).success) {
+      return NextResponse.json(
+        { error: 'Tool policies must be auto, ask or deny' },
+        { status: 400 }
+      );
+    }
+
     // Validate transport requirements
     if ((serverInput.transport_type === 'http' || serverInput.transport_type === 'sse') && !serverInput.url) {
       return NextResponse.json(
@@ -105,11 +133,15 @@ export async function POST(req: NextRequest) {
       transport_type: serverInput.transport_type,
       auth_type: serverInput.auth_type,
       has_auth_token: !!serverInput.auth_token,
-      auth_token_length: serverInput.auth_token?.length || 0,
     });
 
     const supabase = getSupabaseClient();
 
+    const { error: accessError } = await authorizeMCPAccess(supabase, user.id, brandId, { admin: true });
+    if (accessError) {
+      return NextResponse.json({ error: accessError.message }, { status: accessError.status });
+    }
+
     // Create the server record
     const { data, error } = await supabase
       .from('mcp_servers')
@@ -123,14 +155,14 @@ export async function POST(req: NextRequest) {
         args: serverInput.args,
         auth_type: serverInput.auth_type || 'none',
         auth_header: serverInput.auth_header,
-        // In production, encrypt the token before storing
-        auth_token_encrypted: serverInput.auth_token,
+        ...encryptCredentialColumns({ auth_token_encrypted: serverInput.auth_token ?? null }),
         enabled: serverInput.enabled ?? true,
         priority: serverInput.priority ?? 0,
         timeout_ms: serverInput.timeout_ms ?? 30000,
         allowed_tools: serverInput.allowed_tools,
         blocked_tools: serverInput.blocked_tools,
-        created_by: userId,
+        tool_policies: serverInput.tool_policies ?? {},
+        created_by: user.id,
       })
       .select()
       .single();
@@ -143,7 +175,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    return NextResponse.json({ server: data }, { status: 201 });
+    return NextResponse.json({ server: toPublicMCPServer(data) }, { status: 201 });
   } catch (error) {
     console.error('MCP servers POST error:', error);
     return NextResponse.json(
@@ -153,9 +185,14 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// PATCH /api/mcp/servers - Update an MCP server
+// PATCH /api/mcp/servers - Update an MCP server (brand admins)
 export async function PATCH(req: NextRequest) {
   try {
+    const { data: { user }, error: authError } = await (await createServerClient()).auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await req.json();
     const { serverId, ...updates } = body;
 
@@ -168,6 +205,16 @@ export async function PATCH(req: NextRequest) {
 
     const supabase = getSupabaseClient();
 
+    const { server: stored, error: accessError } = await authorizeMCPServerAdmin<Pick<MCPServerConfig, 'url' | MCPCredentialColumn>>(
+      supabase,
+      user.id,
+      serverId,
+      `id, brand_id, url, ${MCP_CREDENTIAL_COLUMNS.join(', ')}`
+    );
+    if (!stored) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+
     // Build update object
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const updateData: any = {};
@@ -180,9 +227,35 @@ export async function PATCH(req: NextRequest) {
     if (updates.timeout_ms !== undefined) updateData.timeout_ms = updates.timeout_ms;
     if (updates.allowed_tools !== undefined) updateData.allowed_tools = updates.allowed_tools;
     if (updates.blocked_tools !== undefined) updateData.blocked_tools = updates.blocked_tools;
+    if (updates.tool_policies !== undefined) {
+      const policies = toolPoliciesSchema.safeParse(updates.tool_policies);
+      if (!policies.success) {
+        return NextResponse.json(
+          { error: 'Tool policies must be auto, ask or deny' },
+          { status: 400 }
+        );
+      }
+      updateData.tool_policies = policies.data;
+    }
     if (updates.auth_type !== undefined) updateData.auth_type = updates.auth_type;
     if (updates.auth_header !== undefined) updateData.auth_header = updates.auth_header;
-    if (updates.auth_token !== undefined) updateData.auth_token_encrypted = updates.auth_token;
+
+    if (updates.url !== undefined && updates.url !== stored.url) {
+      // Credentials stay with the server they were issued for: a new URL starts without
+      // them, so they have to be entered or connected again
+      Object.assign(
+        updateData,
+        encryptCredentialColumns({
+          auth_token_encrypted: updates.auth_token ?? null,
+          oauth_client_secret: null,
+          oauth_access_token: null,
+          oauth_refresh_token: null,
+        }),
+        { oauth_client_id: null, oauth_expires_at: null, oauth_metadata: null }
+      );
+    } else if (updates.auth_token !== undefined) {
+      Object.assign(updateData, updatedCredentialColumns(stored, { auth_token_encrypted: updates.auth_token }));
+    }
 
     const { data, error } = await supabase
       .from('mcp_servers')
@@ -199,7 +272,7 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
-    return NextResponse.json({ server: data });
+    return NextResponse.json({ server: toPublicMCPServer(data) });
   } catch (error) {
     console.error('MCP servers PATCH error:', error);
     return NextResponse.json(
@@ -209,9 +282,14 @@ export async function PATCH(req: NextRequest) {
   }
 }
 
-// DELETE /api/mcp/servers - Delete an MCP server
+// DELETE /api/mcp/servers - Delete an MCP server (brand admins)
 export async function DELETE(req: NextRequest) {
   try {
+    const { data: { user }, error: authError } = await (await createServerClient()).auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { searchParams } = new URL(req.url);
     const serverId = searchParams.get('serverId');
 
@@ -224,6 +302,11 @@ export async function DELETE(req: NextRequest) {
 
     const supabase = getSupabaseClient();
 
+    const { server, error: accessError } = await authorizeMCPServerAdmin(supabase, user.id, serverId);
+    if (!server) {
+      return NextResponse.json({ error: accessError?.message }, { status: accessError?.status ?? 403 });
+    }
+
     const { error } = await supabase
       .from('mcp_servers')
       .delete()
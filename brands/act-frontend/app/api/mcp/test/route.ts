@@ -1,13 +1,69 @@
 import { type NextRequest, NextResponse } from 'next/server';
-import { createMCPManager, type MCPServerConfig } from '@/lib/mcp';
+import { createClient } from '@supabase/supabase-js';
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { createMCPManager, type MCPServerConfig, type MCPServerInput } from '@/lib/mcp';
+import { authorizeMCPServerAdmin } from '@/lib/mcp/authorize';
+import { encryptCredential } from '@/lib/mcp/credentials';
 
 export const dynamic = 'force-dynamic';
 
+// Create Supabase client with service role for admin operations
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  return createClient(url, serviceKey);
+}
+
 // POST /api/mcp/test - Test an MCP server connection
+// Saved servers are tested by id with their stored credentials, which the browser never
+// sees, by admins of their brand; unsaved configurations are sent with a plaintext
+// auth_token.
 export async function POST(req: NextRequest) {
   try {
+    const { data: { user }, error: authError } = await (await createServerClient()).auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await req.json();
-    const { server } = body as { server: Partial<MCPServerConfig> };
+    const { serverId, brandId } = body as { serverId?: string; brandId?: string };
+    let server = (body as { server?: Partial<MCPServerConfig> & Pick<MCPServerInput, 'auth_token'> }).server;
+
+    if (serverId) {
+      if (!brandId) {
+        return NextResponse.json(
+          { error: 'Brand ID is required' },
+          { status: 400 }
+        );
+      }
+
+      const { server: stored, error: accessError } = await authorizeMCPServerAdmin<MCPServerConfig>(
+        getSupabaseClient(),
+        user.id,
+        serverId,
+        '*'
+      );
+      if (!stored || stored.brand_id !== brandId) {
+        return NextResponse.json(
+          { error: accessError?.message ?? 'MCP server not found' },
+          { status: accessError?.status ?? 404 }
+        );
+      }
+      server = stored;
+    } else if (server) {
+      server = {
+        ...server,
+        id: undefined,
+        brand_id: undefined,
+        auth_token_encrypted: server.auth_token ? encryptCredential(server.auth_token) : null,
+        oauth_client_id: null,
+        oauth_client_secret: null,
+        oauth_access_token: null,
+        oauth_refresh_token: null,
+        oauth_expires_at: null,
+        oauth_metadata: null,
+      };
+    }
 
     if (!server) {
       return NextResponse.json(
@@ -35,13 +91,13 @@ export async function POST(req: NextRequest) {
       url: server.url,
       auth_type: server.auth_type,
       has_token: !!server.auth_token_encrypted,
-      token_length: server.auth_token_encrypted?.length || 0,
     });
 
-    // Create a temporary config for testing
+    // Create a temporary config for testing. Saved servers keep their id so an expired
+    // OAuth token can be refreshed and saved.
     const testConfig: MCPServerConfig = {
-      id: 'test-connection',
-      brand_id: 'test',
+      id: server.id || 'test-connection',
+      brand_id: server.brand_id || 'test',
       name: server.name || 'Test Server',
       description: server.description || null,
       transport_type: server.transport_type,
@@ -51,6 +107,12 @@ export async function POST(req: NextRequest) {
       auth_type: server.auth_type || null,
       auth_header: server.auth_header || null,
       auth_token_encrypted: server.auth_token_encrypted || null,
+      oauth_client_id: server.oauth_client_id || null,
+      oauth_client_secret: server.oauth_client_secret || null,
+      oauth_access_token: server.oauth_access_token || null,
+      oauth_refresh_token: server.oauth_refresh_token || null,
+      oauth_expires_at: server.oauth_expires_at || null,
+      oauth_metadata: server.oauth_metadata || null,
       enabled: true,
       priority: 0,
       timeout_ms: server.timeout_ms || 10000, // 10s timeout for testing
@@ -61,19 +123,15 @@ export async function POST(req: NextRequest) {
       created_by: null,
     };
 
-    console.log('Test config auth:', {
-      auth_type: testConfig.auth_type,
-      auth_token_encrypted: testConfig.auth_token_encrypted ? '***' : null,
-    });
-
-    const manager = await createMCPManager(testConfig.timeout_ms);
+    // A connection of its own, so the test reflects the server as it is now
+    const manager = await createMCPManager(testConfig.timeout_ms, { pool: null });
     
     try {
       const status = await manager.connect(testConfig);
       
       if (status.connected) {
         // Get the tools from the connected server
-        const tools = await manager.getServerTools('test-connection');
+        const tools = await manager.getServerTools(testConfig.id);
         const toolNames = tools ? Object.keys(tools) : [];
         
         await manager.disconnectAll();
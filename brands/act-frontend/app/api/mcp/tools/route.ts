@@ -1,7 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { createClient as createServerClient } from '@/lib/supabase/server';
 import { createMCPManager } from '@/lib/mcp';
-import type { MCPServerConfig } from '@/lib/mcp/types';
+import { authorizeMCPAccess } from '@/lib/mcp/authorize';
+import type { MCPServerConfig, MCPToolInfo } from '@/lib/mcp/types';
+import { getMCPToolNamespaces, toMCPChatToolName } from '@/lib/mcp/tool-names';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,9 +15,14 @@ function getSupabaseClient() {
   return createClient(url, serviceKey);
 }
 
-// GET /api/mcp/tools - Get tools for specific MCP servers
+// GET /api/mcp/tools - Get tools for specific MCP servers (brand members)
 export async function GET(req: NextRequest) {
   try {
+    const { data: { user }, error: authError } = await (await createServerClient()).auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { searchParams } = new URL(req.url);
     const brandId = searchParams.get('brandId');
     const serverIds = searchParams.get('serverIds')?.split(',').filter(Boolean);
@@ -33,8 +41,15 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    // Fetch the MCP server configurations
     const supabase = getSupabaseClient();
+
+    // Listing connects with the brand's stored credentials
+    const { error: accessError } = await authorizeMCPAccess(supabase, user.id, brandId);
+    if (accessError) {
+      return NextResponse.json({ error: accessError.message }, { status: accessError.status });
+    }
+
+    // Fetch the MCP server configurations
     const { data: servers, error } = await supabase
       .from('mcp_servers')
       .select('*')
@@ -56,12 +71,9 @@ export async function GET(req: NextRequest) {
 
     // Connect to servers and get their tools
     const manager = await createMCPManager(10000); // 10s timeout
-    const allTools: Array<{
-      serverId: string;
-      serverName: string;
-      toolName: string;
-      description?: string;
-    }> = [];
+    const allTools: MCPToolInfo[] = [];
+    // Same namespaces the chat gives these servers' tools
+    const namespaces = getMCPToolNamespaces(servers as MCPServerConfig[]);
 
     try {
       for (const server of servers as MCPServerConfig[]) {
@@ -89,6 +101,7 @@ export async function GET(req: NextRequest) {
                 serverId: server.id,
                 serverName: server.name,
                 toolName,
+                chatToolName: toMCPChatToolName(namespaces.get(server.id)!, toolName),
                 description,
               });
             }
@@ -2,12 +2,13 @@
 
 import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
-import { Settings, Server, Bell, Shield, Palette, Users } from 'lucide-react';
+import { Settings, Server, Bot, Bell, Shield, Palette, Users } from 'lucide-react';
 import { MCPServerManager } from '@/components/mcp';
+import { ModelSettingsManager } from '@/components/models';
 import { createClient } from '@/lib/supabase/client';
 import { cn } from '@/lib/utils';
 
-type SettingsTab = 'general' | 'mcp' | 'notifications' | 'security' | 'appearance' | 'team';
+type SettingsTab = 'general' | 'models' | 'mcp' | 'notifications' | 'security' | 'appearance' | 'team';
 
 interface TabConfig {
   id: SettingsTab;
@@ -18,6 +19,7 @@ interface TabConfig {
 
 const tabs: TabConfig[] = [
   { id: 'general', label: 'General', icon: <Settings className="size-4" />, description: 'Basic brand settings' },
+  { id: 'models', label: 'AI Models', icon: <Bot className="size-4" />, description: 'Allowed and default models' },
   { id: 'mcp', label: 'MCP Servers', icon: <Server className="size-4" />, description: 'AI tool integrations' },
   { id: 'notifications', label: 'Notifications', icon: <Bell className="size-4" />, description: 'Email and push notifications' },
   { id: 'security', label: 'Security', icon: <Shield className="size-4" />, description: 'Authentication and access' },
@@ -34,6 +36,14 @@ export default function BrandSettingsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [userRole, setUserRole] = useState<string | null>(null);
 
+  // Links back from the MCP OAuth callback open the MCP tab (?tab=mcp)
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get('tab');
+    if (tabs.some((t) => t.id === tab)) {
+      setActiveTab(tab as SettingsTab);
+    }
+  }, []);
+
   // Fetch brand ID from brand name
   useEffect(() => {
     async function fetchBrandId() {
@@ -156,6 +166,16 @@ export default function BrandSettingsPage() {
               </div>
             )}
 
+            {activeTab === 'models' && (
+              <div>
+                {brandId ? (
+                  <ModelSettingsManager brandId={brandId} />
+                ) : (
+                  <p className="text-muted-foreground">Unable to load model settings.</p>
+                )}
+              </div>
+            )}
+
             {activeTab === 'mcp' && (
               <div>
                 {!isAdmin ? (
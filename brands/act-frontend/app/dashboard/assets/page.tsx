@@ -0,0 +1,271 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState, type DragEvent } from 'react';
+import { FolderOpen, Loader2, Search, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { createClient } from '@/lib/supabase/client';
+import { BrandAssetDetailsDialog, BrandAssetTile } from '@/components/brand';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  BRAND_ASSET_ACCEPT,
+  BRAND_ASSET_PAGE_SIZE,
+  BRAND_ASSET_TYPE_LABELS,
+  getBrandAssetPreviewUrls,
+  listBrandAssetTags,
+  searchBrandAssets,
+  uploadBrandAssets,
+  type BrandAsset,
+  type BrandAssetType,
+} from '@/lib/brand-assets';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+const FILTER_TYPES: BrandAssetType[] = ['logo', 'image', 'font', 'training_image', 'other'];
+
+export default function AssetLibraryPage() {
+  const supabase = useMemo(() => createClient(), []);
+  const [brandId, setBrandId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [types, setTypes] = useState<BrandAssetType[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [availableTags, setAvailableTags] = useState<{ tag: string; count: number }[]>([]);
+  const [assets, setAssets] = useState<BrandAsset[]>([]);
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [openAsset, setOpenAsset] = useState<BrandAsset | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    async function init() {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) return;
+      setUserId(session.user.id);
+      const { data: membership } = await supabase
+        .from('brand_users')
+        .select('brand_id')
+        .eq('user_id', session.user.id)
+        .limit(1)
+        .maybeSingle();
+      setBrandId(membership?.brand_id || null);
+    }
+    init();
+  }, [supabase]);
+
+  const loadTags = useCallback(async () => {
+    if (!brandId) return;
+    const { tags: found } = await listBrandAssetTags(supabase, brandId);
+    setAvailableTags(found);
+  }, [supabase, brandId]);
+
+  const loadAssets = useCallback(async (nextPage: number) => {
+    if (!brandId) return;
+    setIsLoading(true);
+    const { assets: found, error: searchError } = await searchBrandAssets(supabase, brandId, { query, types, tags }, nextPage);
+    const urls = await getBrandAssetPreviewUrls(supabase, found);
+    setAssets((prev) => (nextPage === 0 ? found : [...prev, ...found]));
+    setPreviewUrls((prev) => (nextPage === 0 ? urls : { ...prev, ...urls }));
+    setPage(nextPage);
+    setHasMore(found.length === BRAND_ASSET_PAGE_SIZE);
+    if (searchError) setError(searchError);
+    setIsLoading(false);
+  }, [supabase, brandId, query, types, tags]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => loadAssets(0), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [loadAssets]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const handleUpload = async (files: File[]) => {
+    if (!brandId || !userId || files.length === 0) return;
+    setError(null);
+    setStatus(null);
+    setIsUploading(true);
+    try {
+      const { assets: uploaded, duplicates, errors } = await uploadBrandAssets(supabase, { brandId, userId, files });
+      const messages = [`${uploaded.length} of ${files.length} ${files.length === 1 ? 'file' : 'files'} added to the library.`];
+      if (duplicates.length > 0) {
+        messages.push(
+          `Already in the library: ${duplicates
+            .map(({ name, existingName }) => (name === existingName ? name : `${name} (as ${existingName})`))
+            .join(', ')}.`
+        );
+      }
+      setStatus(messages.join(' '));
+      if (errors.length > 0) setError(`Some files could not be uploaded. ${errors.join('; ')}`);
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      loadAssets(0);
+      loadTags();
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleUpload(Array.from(e.dataTransfer.files));
+  };
+
+  const toggleType = (type: BrandAssetType) =>
+    setTypes((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]));
+
+  const toggleTag = (tag: string) =>
+    setTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+
+  const handleSaved = (saved: BrandAsset) => {
+    setAssets((prev) => prev.map((asset) => (asset.id === saved.id ? saved : asset)));
+    loadTags();
+  };
+
+  const handleDeleted = (deleted: BrandAsset) => {
+    setAssets((prev) => prev.filter((asset) => asset.id !== deleted.id));
+    loadTags();
+  };
+
+  return (
+    <main
+      className="flex-1 overflow-auto p-4 md:p-6"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold mb-2">Asset Library</h1>
+            <p className="text-muted-foreground">
+              Logos, images and fonts for your brand. Drop files anywhere on the page to upload them.
+            </p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={BRAND_ASSET_ACCEPT}
+            onChange={(e) => handleUpload(Array.from(e.target.files || []))}
+            className="hidden"
+          />
+          <Button onClick={() => fileInputRef.current?.click()} disabled={isUploading || !brandId}>
+            {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Upload files
+          </Button>
+        </div>
+
+        {!brandId && (
+          <div className="rounded-md border p-4 bg-muted/40 text-sm mb-4">
+            We couldn't detect your brand. Please ensure your account is linked to a brand.
+          </div>
+        )}
+
+        {status && (
+          <div className="rounded-md border border-green-300 bg-green-50 text-green-800 p-3 text-sm mb-4">
+            {status}
+          </div>
+        )}
+        {error && (
+          <div className="rounded-md border border-destructive/30 bg-destructive/10 text-destructive p-3 text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-4 space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, description or tag"
+              className="pl-9"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {FILTER_TYPES.map((type) => (
+              <Button
+                key={type}
+                size="sm"
+                variant={types.includes(type) ? 'default' : 'outline'}
+                onClick={() => toggleType(type)}
+              >
+                {BRAND_ASSET_TYPE_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+          {availableTags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {availableTags.map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  className={cn(
+                    'rounded-full border px-2.5 py-0.5 text-xs transition-colors',
+                    tags.includes(tag) ? 'border-[#889def] bg-[#889def]/15' : 'hover:bg-muted'
+                  )}
+                >
+                  #{tag} <span className="text-muted-foreground">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className={cn('rounded-lg', isDragging && 'outline-dashed outline-2 outline-offset-4 outline-[#889def]')}>
+          {assets.length === 0 && !isLoading ? (
+            <div className="flex flex-col items-center justify-center rounded-lg border border-dashed py-16 text-center">
+              <FolderOpen className="h-8 w-8 text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">
+                {query || types.length > 0 || tags.length > 0
+                  ? 'No assets match these filters.'
+                  : 'No assets yet. Upload logos, images and fonts to get started.'}
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-5">
+              {assets.map((asset) => (
+                <BrandAssetTile
+                  key={asset.id}
+                  asset={asset}
+                  previewUrl={previewUrls[asset.id]}
+                  onClick={() => setOpenAsset(asset)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {(isLoading || hasMore) && (
+          <div className="mt-6 flex justify-center">
+            <Button variant="outline" onClick={() => loadAssets(page + 1)} disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isLoading ? 'Loading…' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <BrandAssetDetailsDialog
+        asset={openAsset}
+        previewUrl={openAsset ? previewUrls[openAsset.id] : undefined}
+        onOpenChange={(open) => !open && setOpenAsset(null)}
+        onSaved={handleSaved}
+        onDeleted={handleDeleted}
+      />
+    </main>
+  );
+}
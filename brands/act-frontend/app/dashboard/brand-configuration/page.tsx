@@ -1,8 +1,22 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
-import { Upload, FileText, Image as ImageIcon, Type } from 'lucide-react';
+import { FileText, History, Image as ImageIcon, Type } from 'lucide-react';
+import { BrandGuidelinesEditor, type BrandGuidelinesDraft } from '@/components/brand';
+import { DocumentVersionsDialog } from '@/components/chat/document-versions-dialog';
+import { Button } from '@/components/ui/button';
+import { uploadBrandAssets } from '@/lib/brand-assets';
+
+const DOCUMENT_ACCEPT = '.pdf,.doc,.docx,.txt,.md';
+
+interface BrandDocument {
+  id: string;
+  name: string;
+  status: string;
+  created_at: string;
+}
 
 export default function BrandConfigurationPage() {
   const supabase = useMemo(() => createClient(), []);
@@ -11,6 +25,9 @@ export default function BrandConfigurationPage() {
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [draft, setDraft] = useState<BrandGuidelinesDraft | null>(null);
+  const [documents, setDocuments] = useState<BrandDocument[]>([]);
+  const [versionsDocument, setVersionsDocument] = useState<BrandDocument | null>(null);
 
   useEffect(() => {
     async function init() {
@@ -28,6 +45,24 @@ export default function BrandConfigurationPage() {
     init();
   }, [supabase]);
 
+  const loadDocuments = useCallback(async () => {
+    if (!brandId) return;
+    const { data, error: loadError } = await supabase
+      .from('brand_documents')
+      .select('id, name, status, created_at')
+      .eq('brand_id', brandId)
+      .order('created_at', { ascending: false });
+    if (loadError) {
+      console.error('Failed to load brand documents:', loadError);
+      return;
+    }
+    setDocuments(data || []);
+  }, [supabase, brandId]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
   const uploadDocument = async (file: File) => {
     if (!brandId || !userId) return;
     setError(null);
@@ -39,7 +74,7 @@ export default function BrandConfigurationPage() {
         .from('brand-documents')
         .upload(path, file);
       if (upErr) throw upErr;
-      const { error: dbErr } = await supabase
+      const { data: document, error: dbErr } = await supabase
         .from('brand_documents')
         .insert({
           brand_id: brandId,
@@ -50,41 +85,56 @@ export default function BrandConfigurationPage() {
           file_type: file.type || 'application/octet-stream',
           file_size: file.size,
           status: 'pending',
-        });
+        })
+        .select('id')
+        .single();
       if (dbErr) throw dbErr;
-      setStatus('Brand book uploaded. We will process it shortly.');
+
+      // Index the brand book, then pull structured guidelines out of its text
+      setStatus('Brand book uploaded. Reading the document…');
+      const { error: processErr } = await supabase.functions.invoke('process-document', {
+        body: { document_id: document.id, brand_id: brandId },
+      });
+      if (processErr) throw new Error('We could not read this document. Try a PDF, DOCX or TXT file.');
+
+      setStatus('Extracting colours, fonts and tone of voice…');
+      const res = await fetch('/api/brand-guidelines/extract', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ brandId, documentId: document.id }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to extract brand guidelines');
+
+      setDraft({ documentId: document.id, documentName: file.name, guidelines: data.guidelines });
+      setStatus('Brand guidelines extracted. Review them below and save to update your brand profile.');
     } catch (e: any) {
       setError(e?.message || 'Upload failed');
     } finally {
       setIsUploading(false);
+      loadDocuments();
     }
   };
 
-  const uploadAsset = async (file: File, kind: 'logos' | 'fonts', assetType: 'logo' | 'font') => {
+  const uploadAsset = async (file: File, assetType: 'logo' | 'font') => {
     if (!brandId || !userId) return;
     setError(null);
     setStatus(null);
     setIsUploading(true);
     try {
-      const path = `${brandId}/${kind}/${Date.now()}-${file.name}`;
-      const { error: upErr } = await supabase.storage
-        .from('brand-assets')
-        .upload(path, file);
-      if (upErr) throw upErr;
-      const { error: dbErr } = await supabase
-        .from('brand_assets')
-        .insert({
-          brand_id: brandId,
-          user_id: userId,
-          name: file.name,
-          description: assetType === 'logo' ? 'Brand logo' : 'Brand font',
-          asset_type: assetType,
-          file_url: path,
-          file_type: file.type || 'application/octet-stream',
-          file_size: file.size,
-        });
-      if (dbErr) throw dbErr;
-      setStatus(`${assetType === 'logo' ? 'Logo' : 'Font'} uploaded successfully.`);
+      const { assets, duplicates, errors } = await uploadBrandAssets(supabase, {
+        brandId,
+        userId,
+        files: [file],
+        assetType,
+        description: assetType === 'logo' ? 'Brand logo' : 'Brand font',
+      });
+      if (errors.length > 0) throw new Error(errors[0]);
+      if (duplicates.length > 0) {
+        setStatus(`This file is already in the asset library as ${duplicates[0].existingName}.`);
+      } else if (assets.length > 0) {
+        setStatus(`${assetType === 'logo' ? 'Logo' : 'Font'} uploaded successfully.`);
+      }
     } catch (e: any) {
       setError(e?.message || 'Upload failed');
     } finally {
@@ -99,6 +149,11 @@ export default function BrandConfigurationPage() {
           <h1 className="text-2xl font-bold mb-2">Brand Configuration</h1>
           <p className="text-muted-foreground">
             Upload your brand book and identity assets so AI tools can generate on‑brand content.
+            Logos and fonts are kept in the{' '}
+            <Link href="/dashboard/assets" className="underline underline-offset-2">
+              asset library
+            </Link>
+            .
           </p>
         </div>
 
@@ -130,11 +185,30 @@ export default function BrandConfigurationPage() {
             </p>
             <input
               type="file"
-              accept=".pdf,.doc,.docx,.txt,.md"
+              accept={DOCUMENT_ACCEPT}
               onChange={(e) => e.target.files?.[0] && uploadDocument(e.target.files[0])}
               disabled={isUploading || !brandId}
               className="block w-full rounded-md border bg-background p-2"
             />
+            {documents.length > 0 && (
+              <ul className="mt-4 divide-y rounded-md border">
+                {documents.map((brandDocument) => (
+                  <li key={brandDocument.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{brandDocument.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {brandDocument.status === 'processed' ? 'Indexed' : brandDocument.status} ·{' '}
+                        {new Date(brandDocument.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setVersionsDocument(brandDocument)}>
+                      <History className="mr-2 h-4 w-4" />
+                      Versions
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </section>
 
           <section className="rounded-lg border bg-card p-5">
@@ -148,7 +222,7 @@ export default function BrandConfigurationPage() {
             <input
               type="file"
               accept=".png,.jpg,.jpeg,.webp,.svg"
-              onChange={(e) => e.target.files?.[0] && uploadAsset(e.target.files[0], 'logos', 'logo')}
+              onChange={(e) => e.target.files?.[0] && uploadAsset(e.target.files[0], 'logo')}
               disabled={isUploading || !brandId}
               className="block w-full rounded-md border bg-background p-2"
             />
@@ -165,23 +239,30 @@ export default function BrandConfigurationPage() {
             <input
               type="file"
               accept=".ttf,.otf,.woff,.woff2"
-              onChange={(e) => e.target.files?.[0] && uploadAsset(e.target.files[0], 'fonts', 'font')}
+              onChange={(e) => e.target.files?.[0] && uploadAsset(e.target.files[0], 'font')}
               disabled={isUploading || !brandId}
               className="block w-full rounded-md border bg-background p-2"
             />
           </section>
 
-          <section className="rounded-lg border bg-card p-5">
-            <div className="flex items-center gap-2 mb-3">
-              <Upload className="h-5 w-5 text-[#889def]" />
-              <h2 className="text-lg font-medium">Colors & Tone (coming soon)</h2>
-            </div>
-            <p className="text-sm text-muted-foreground">
-              Define your color palette and tone of voice, or let us extract it from the brand book.
-            </p>
-          </section>
+          {brandId && (
+            <section className="rounded-lg border bg-card p-5">
+              <BrandGuidelinesEditor brandId={brandId} draft={draft} />
+            </section>
+          )}
         </div>
       </div>
+
+      {brandId && versionsDocument && (
+        <DocumentVersionsDialog
+          open={!!versionsDocument}
+          onOpenChange={(open) => !open && setVersionsDocument(null)}
+          document={{ kind: 'brand_document', id: versionsDocument.id, brandId }}
+          title={versionsDocument.name}
+          accept={DOCUMENT_ACCEPT}
+          onChanged={loadDocuments}
+        />
+      )}
     </main>
   );
 }
@@ -4,6 +4,27 @@ import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import { ChatContainer } from '@/components/chat/chat-container';
 import { type ModelId, type Attachment } from '@/components/chat/chat-input';
+import { DEFAULT_MODEL_ID, isModelAvailable, resolveModelId } from '@act/models';
+import { type ChatMessageMetadata } from '@/components/chat/chat-message';
+import type { QuotaExceededError } from '@/lib/chat/usage';
+import type { ChatModelsResponse } from '@/lib/chat/model-policy';
+import {
+  applyChatEvent,
+  createChatStreamState,
+  getActiveToolCall,
+  getMessageMetadata,
+  readChatEvents,
+} from '@/lib/chat/stream-events';
+import { getDisplayStatus, type AssistantMessageStatus } from '@/lib/chat/assistant-message';
+import type { GenerationSnapshot } from '@/lib/chat/generation';
+import { useGenerationStream } from '@/hooks/use-generation-stream';
+import { listDocumentVersionPaths } from '@/lib/document-versions';
+import {
+  enqueueFileProcessing,
+  listFileProcessingJobs,
+  retryFileProcessingJob,
+  type FileProcessingJob,
+} from '@/lib/file-processing-jobs';
 import { useRouter, useSearchParams } from 'next/navigation';
 
 // Helper to convert file to base64
@@ -62,6 +83,7 @@ interface Conversation {
   model: string;
   system_prompt: string | null;
   style_preset?: string;
+  brand_voice_enabled?: boolean;
   last_message_at: string;
   created_at: string;
   last_message_preview?: string;
@@ -108,10 +130,11 @@ export default function ChatPage() {
   const [input, setInput] = useState('');
   
   // Model selection state
-  const [selectedModel, setSelectedModel] = useState<ModelId>('claude-4.5');
+  const [selectedModel, setSelectedModel] = useState<ModelId>(DEFAULT_MODEL_ID);
   
   // Style preset state for new conversations
   const [pendingStylePreset, setPendingStylePreset] = useState<string>('normal');
+  const [pendingBrandVoiceEnabled, setPendingBrandVoiceEnabled] = useState(true);
   
   // Pending project ID for new conversations (doesn't affect UI navigation)
   const [pendingProjectId, setPendingProjectId] = useState<string | null>(null);
@@ -151,23 +174,43 @@ export default function ChatPage() {
     sender_email?: string;
     is_current_user?: boolean;
     created_at?: string;
-    metadata?: { type?: string; user_name?: string };
+    metadata?: ChatMessageMetadata;
+    status?: AssistantMessageStatus;
   }
   const [aiMessages, setAiMessages] = useState<ChatMessage[]>([]);
   const [isCollaborativeChat, setIsCollaborativeChat] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingContent, setStreamingContent] = useState('');
+  const [streamingMetadata, setStreamingMetadata] = useState<ChatMessageMetadata>({});
   const [activeToolCall, setActiveToolCall] = useState<string | null>(null);
   const [isDeepResearchActive, setIsDeepResearchActive] = useState(false);
   const [pendingAutoSend, setPendingAutoSend] = useState<string | null>(null);
+  const [quotaError, setQuotaError] = useState<QuotaExceededError | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Id of the reply this tab is streaming; its broadcasts and saved row are already shown locally
+  const localStreamingIdRef = useRef<string | null>(null);
 
   const stop = useCallback(() => {
+    // Saved chats keep generating on the server after the request closes, so stop it there too
+    const messageId = localStreamingIdRef.current;
+    const conversationId = conversationRef.current?.id;
+    if (messageId && conversationId) {
+      fetch('/api/chat/stop', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ brandId: brandIdRef.current, conversationId, messageId }),
+      }).catch(err => console.error('Failed to stop generation:', err));
+    }
     abortControllerRef.current?.abort();
     setIsStreaming(false);
   }, []);
 
   // Custom sendMessage that actually works
+  // Realtime may deliver the saved reply before the stream has been read to the end
+  const addAssistantMessage = useCallback((message: ChatMessage) => {
+    setAiMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+  }, []);
+
   const sendMessage = useCallback(async (text: string, attachments?: Attachment[], options?: { useWebSearch?: boolean; useDeepResearch?: boolean; mcpServerIds?: string[] }) => {
     console.log('=== SENDING MESSAGE ===');
     console.log('Using model:', selectedModel);
@@ -207,8 +250,11 @@ export default function ChatPage() {
     console.log('userMsg with attachments:', userMsg.attachments?.length, userMsg.attachments?.map(a => ({ name: a.name, previewLength: a.preview?.length })));
     setAiMessages(prev => [...prev, userMsg]);
     setStreamingContent('');
+    setStreamingMetadata({});
     setIsStreaming(true);
     setIsDeepResearchActive(options?.useDeepResearch === true);
+    setQuotaError(null);
+    let streamState = createChatStreamState();
     
     try {
       abortControllerRef.current = new AbortController();
@@ -291,6 +337,11 @@ export default function ChatPage() {
         let errorMessage = `API error: ${response.status}`;
         try {
           const errorData = await response.json();
+          // Out of tokens - show the quota banner above the input instead of an error reply
+          if (response.status === 402 && errorData.code === 'quota_exceeded') {
+            setQuotaError(errorData as QuotaExceededError);
+            return;
+          }
           if (errorData.error) {
             errorMessage = errorData.error;
           } else if (errorData.details) {
@@ -307,111 +358,63 @@ export default function ChatPage() {
         throw new Error('No response body');
       }
       
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = '';
-      
       console.log('=== STARTING STREAM READ ===');
       
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          console.log('Stream done, fullContent length:', fullContent.length);
-          break;
+      for await (const event of readChatEvents(response.body)) {
+        streamState = applyChatEvent(streamState, event);
+        if (event.type === 'message') {
+          localStreamingIdRef.current = event.messageId;
         }
-        
-        const chunk = decoder.decode(value, { stream: true });
-        console.log('Received chunk:', chunk.length, 'bytes');
-        
-        // Check for tool markers in the chunk
-        if (chunk.includes('[TOOL_CALL:')) {
-          const match = chunk.match(/\[TOOL_CALL:([^\]]+)\]/);
-          if (match) {
-            setActiveToolCall(match[1]);
-            console.log('Tool call detected:', match[1]);
-          }
+        if (event.type === 'tool-call') {
+          console.log('Tool call detected:', event.toolName);
         }
-        if (chunk.includes('[TOOL_RESULT:')) {
-          setActiveToolCall(null);
-          console.log('Tool result received');
-        }
-        
-        fullContent += chunk;
-        // Show content without tool markers in the UI
-        const displayContent = fullContent
-          .replace(/\n?\[TOOL_CALL:[^\]]+\]\n?/g, '')
-          .replace(/\n?\[TOOL_RESULT:[^\]]+\]\n?/g, '');
-        setStreamingContent(displayContent);
+        setActiveToolCall(getActiveToolCall(streamState));
+        setStreamingContent(streamState.content);
+        setStreamingMetadata(getMessageMetadata(streamState));
       }
       
       console.log('=== STREAM COMPLETE ===');
-      console.log('Full content:', fullContent.slice(0, 200) + '...');
+      console.log('Full content:', streamState.content.slice(0, 200) + '...');
       
-      // Clean tool markers from final content
-      const cleanContent = fullContent
-        .replace(/\n?\[TOOL_CALL:[^\]]+\]\n?/g, '')
-        .replace(/\n?\[TOOL_RESULT:[^\]]+\]\n?/g, '');
+      // The model failed before answering - show it like any other request error
+      if (streamState.error && !streamState.content) {
+        throw new Error(streamState.error);
+      }
+
+      const cleanContent = streamState.content;
+      const metadata = getMessageMetadata(streamState);
       
-      // Add assistant message after streaming completes
+      // Add assistant message after streaming completes. The API has saved it under
+      // the announced id, so the collaborative subscription won't add it twice.
       if (cleanContent) {
         // Clear streaming content FIRST to avoid visual jump, then add message
         setStreamingContent('');
+        setStreamingMetadata({});
         setActiveToolCall(null);
-        setAiMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'assistant', content: cleanContent }]);
-        
-        // Save to DB in background (don't await to avoid UI delay)
-        if (conversationRef.current) {
-          const convId = conversationRef.current.id;
-          // Fire and forget - save in background
-          saveMessageToDb({
-            conversation_id: convId,
-            role: 'assistant',
-            content: fullContent,
-          }).then(() => {
-            supabase
-              .from('conversations')
-              .update({ last_message_at: new Date().toISOString() })
-              .eq('id', convId);
-          }).catch(err => console.error('Failed to save message:', err));
-        }
+        addAssistantMessage({
+          id: streamState.messageId ?? crypto.randomUUID(),
+          role: 'assistant',
+          content: cleanContent,
+          metadata,
+          status: streamState.error ? 'interrupted' : 'complete',
+        });
       }
     } catch (err) {
       if ((err as Error).name === 'AbortError') {
-        // User stopped generation - preserve partial content and save to DB
-        setStreamingContent(prev => {
-          if (prev && prev.trim()) {
-            // Clean tool markers from partial content
-            const cleanPartial = prev
-              .replace(/\n?\[TOOL_CALL:[^\]]+\]\n?/g, '')
-              .replace(/\n?\[TOOL_RESULT:[^\]]+\]\n?/g, '');
-            const stoppedContent = cleanPartial + '\n\n*(Generation stopped)*';
-            
-            // Add partial response as a message with indicator
-            setAiMessages(messages => [...messages, { 
-              id: crypto.randomUUID(), 
-              role: 'assistant', 
-              content: stoppedContent
-            }]);
-            
-            // Save partial response to database
-            if (conversationRef.current) {
-              const convId = conversationRef.current.id;
-              saveMessageToDb({
-                conversation_id: convId,
-                role: 'assistant',
-                content: stoppedContent,
-              }).then(() => {
-                supabase
-                  .from('conversations')
-                  .update({ last_message_at: new Date().toISOString() })
-                  .eq('id', convId);
-              }).catch(err => console.error('Failed to save partial message:', err));
-            }
-          }
-          return ''; // Clear streaming content
-        });
+        // User stopped generation - keep the partial reply; the API saves it as interrupted
+        setStreamingContent('');
+        if (streamState.content.trim()) {
+          addAssistantMessage({
+            id: streamState.messageId ?? crypto.randomUUID(),
+            role: 'assistant',
+            content: streamState.content,
+            metadata: getMessageMetadata(streamState),
+            status: 'interrupted',
+          });
+        }
       } else {
         console.error('Chat error:', err);
+        setStreamingContent('');
         // Show error as assistant message
         const errorMessage = (err as Error).message || 'An error occurred while processing your request.';
         setAiMessages(prev => [...prev, { 
@@ -421,11 +424,13 @@ export default function ChatPage() {
         }]);
       }
     } finally {
+      localStreamingIdRef.current = null;
       setIsStreaming(false);
       setIsDeepResearchActive(false);
       setActiveToolCall(null);
+      setStreamingMetadata({});
     }
-  }, [aiMessages, selectedModel, supabase, userId, userName, userEmail]);
+  }, [aiMessages, selectedModel, supabase, userId, userName, userEmail, addAssistantMessage]);
 
   // Fetch user session and brand info
   useEffect(() => {
@@ -784,6 +789,7 @@ export default function ChatPage() {
             is_current_user: m.is_current_user,
             created_at: m.created_at,
             metadata: m.metadata,
+            status: getDisplayStatus(m.status, m.created_at),
           }));
         });
       }
@@ -809,6 +815,11 @@ export default function ChatPage() {
         return;
       }
 
+      // Skip the reply this tab is streaming (already shown)
+      if (newMessage.id === localStreamingIdRef.current) {
+        return;
+      }
+
       // Fetch sender info for the new message
       let senderName = 'User';
       let senderEmail = '';
@@ -840,6 +851,7 @@ export default function ChatPage() {
         is_current_user: false,
         created_at: newMessage.created_at,
         metadata: newMessage.metadata,
+        status: getDisplayStatus(newMessage.status, newMessage.created_at),
       };
 
       console.log('Adding real-time message to chat:', enrichedMessage);
@@ -875,6 +887,40 @@ export default function ChatPage() {
     };
   }, [currentConversation?.id, isCollaborativeChat, userId, supabase, setAiMessages]);
 
+  // Follow replies generating in this conversation - started by a collaborator, or by
+  // this user before a reload - as they stream in
+  const handleGenerationSnapshot = useCallback((snapshot: GenerationSnapshot) => {
+    if (snapshot.messageId === localStreamingIdRef.current) return;
+
+    setAiMessages(current => {
+      // Nothing was generated - the reply was discarded
+      if (!snapshot.content.trim() && snapshot.status !== 'streaming') {
+        return current.filter(m => m.id !== snapshot.messageId);
+      }
+
+      const existing = current.find(m => m.id === snapshot.messageId);
+      const message: ChatMessage = {
+        ...existing,
+        id: snapshot.messageId,
+        role: 'assistant',
+        content: snapshot.content,
+        sender_name: 'Assistant',
+        is_current_user: false,
+        metadata: snapshot.metadata,
+        status: snapshot.status,
+      };
+      return existing
+        ? current.map(m => (m.id === snapshot.messageId ? message : m))
+        : [...current, message];
+    });
+  }, []);
+
+  useGenerationStream({
+    supabase,
+    conversationId: currentConversation?.id,
+    onSnapshot: handleGenerationSnapshot,
+  });
+
   // Handle initial message from dashboard
   const initialMessageHandled = useRef(false);
   const pendingDashboardMessage = useRef<string | null>(null);
@@ -960,15 +1006,17 @@ export default function ChatPage() {
     role: string;
     content: string;
     user_id?: string; // For collaborative chats - track who sent the message
+    tokens_used?: number;
+    metadata?: Record<string, unknown>;
   }) => {
     const model = currentConversation?.model || 'claude-3-sonnet';
     const { data, error } = await supabase
       .from('messages')
       .insert({
         ...message,
-        tokens_used: 0,
+        tokens_used: message.tokens_used ?? 0,
         model,
-        metadata: {},
+        metadata: message.metadata ?? {},
         // Include user_id for user messages in collaborative chats
         user_id: message.role === 'user' ? (message.user_id || userId) : null,
       })
@@ -993,6 +1041,7 @@ export default function ChatPage() {
     setDbMessages([]);
     setAiMessages([]);
     setPendingStylePreset('normal'); // Reset pending style to normal
+    setPendingBrandVoiceEnabled(true);
     setPendingProjectId(null); // Reset pending project
     // If projectId provided, set it as current project
     if (projectId) {
@@ -1006,6 +1055,13 @@ export default function ChatPage() {
     }
   }, [setAiMessages, setInput]);
 
+  // Start new chats on the brand's default model
+  const handleModelsLoaded = useCallback((models: ChatModelsResponse) => {
+    if (!conversationRef.current) {
+      setSelectedModel(models.defaultModel);
+    }
+  }, []);
+
   // Select conversation
   const handleSelectConversation = useCallback(async (conversationId: string) => {
     const conversation = conversations.find((c) => c.id === conversationId);
@@ -1013,21 +1069,12 @@ export default function ChatPage() {
       setCurrentConversation(conversation);
       // Reset pending style when selecting an existing conversation
       setPendingStylePreset(conversation.style_preset || 'normal');
+      setPendingBrandVoiceEnabled(conversation.brand_voice_enabled ?? true);
       setPendingProjectId(null); // Reset pending project
       // Sync model selector with conversation's model
-      // Map legacy model names to new ones
-      const modelMap: Record<string, ModelId> = {
-        'claude-4.5': 'claude-4.5',
-        'gpt-5.2': 'gpt-5.2',
-        'gemini-3.1': 'gemini-3.1',
-        // Legacy mappings
-        'claude-3-sonnet': 'claude-4.5',
-        'claude-3-opus': 'claude-4.5',
-        'gpt-4o': 'gpt-5.2',
-        'gpt-4': 'gpt-5.2',
-      };
-      const mappedModel = modelMap[conversation.model];
-      if (mappedModel) {
+      // Legacy model names resolve to their registry model
+      const mappedModel = resolveModelId(conversation.model);
+      if (mappedModel && isModelAvailable(mappedModel)) {
         setSelectedModel(mappedModel);
       }
     }
@@ -1229,6 +1276,29 @@ export default function ChatPage() {
     );
   }, [currentConversation, supabase]);
 
+  const handleBrandVoiceChange = useCallback(async (enabled: boolean) => {
+    if (!currentConversation) {
+      // No conversation yet - store for when conversation is created
+      setPendingBrandVoiceEnabled(enabled);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({ brand_voice_enabled: enabled })
+      .eq('id', currentConversation.id);
+
+    if (error) {
+      console.error('Failed to update brand voice:', error.message);
+      return;
+    }
+
+    setCurrentConversation(prev => prev ? { ...prev, brand_voice_enabled: enabled } : prev);
+    setConversations(prev =>
+      prev.map(c => c.id === currentConversation.id ? { ...c, brand_voice_enabled: enabled } : c)
+    );
+  }, [currentConversation, supabase]);
+
   const handleCreateProject = useCallback(async (name: string, color?: string): Promise<string | undefined> => {
     if (!brandId || !userId) return undefined;
     
@@ -1303,6 +1373,8 @@ export default function ChatPage() {
 
   // Project files state
   const [projectFiles, setProjectFiles] = useState<Record<string, ProjectFile[]>>({});
+  // Latest processing job of each file, by file id
+  const [fileJobs, setFileJobs] = useState<Record<string, FileProcessingJob>>({});
 
   // Fetch project files
   useEffect(() => {
@@ -1327,6 +1399,8 @@ export default function ChatPage() {
         }, {} as Record<string, ProjectFile[]>);
         setProjectFiles(grouped);
       }
+
+      setFileJobs(await listFileProcessingJobs(supabase, projectIds));
     }
 
     fetchProjectFiles();
@@ -1392,42 +1466,13 @@ export default function ChatPage() {
         [projectId]: [data, ...(prev[projectId] || [])],
       }));
 
-      // Trigger file processing in the background
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-      console.log('=== FILE PROCESSING DEBUG ===');
-      console.log('Triggering Edge Function for file:', data.id);
-      console.log('Supabase URL:', supabaseUrl);
-      
-      const session = await supabase.auth.getSession();
-      console.log('Has auth session:', !!session.data.session);
-      
-      fetch(`${supabaseUrl}/functions/v1/process-project-file`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
-        },
-        body: JSON.stringify({ file_id: data.id }),
-      }).then(async (res) => {
-        console.log('Edge Function response status:', res.status);
-        const result = await res.json();
-        console.log('Edge Function result:', result);
-        
-        if (res.ok && result.success) {
-          // Update local state when processing completes
-          setProjectFiles((prev) => ({
-            ...prev,
-            [projectId]: (prev[projectId] || []).map((f) =>
-              f.id === data.id ? { ...f, status: 'ready' as const } : f
-            ),
-          }));
-          console.log('File status updated to ready');
-        } else {
-          console.error('Edge Function failed:', result);
-        }
-      }).catch((err) => {
-        console.error('Failed to process file:', err);
-      });
+      // Extract and index the file in the background; progress arrives over Realtime
+      const { job, error: enqueueError } = await enqueueFileProcessing(supabase, data.id);
+      if (enqueueError) {
+        alert(enqueueError);
+      } else if (job) {
+        setFileJobs((prev) => ({ ...prev, [data.id]: job }));
+      }
     }
   }, [brandId, userId, supabase]);
 
@@ -1447,10 +1492,11 @@ export default function ChatPage() {
 
     if (!fileToDelete || !projectId) return;
 
-    // Delete from storage
+    // Delete every version's upload from storage (versions go with the record)
+    const versionPaths = await listDocumentVersionPaths(supabase, 'project_file', fileId);
     const { error: storageError } = await supabase.storage
       .from('project-files')
-      .remove([fileToDelete.file_path]);
+      .remove([...new Set([fileToDelete.file_path, ...versionPaths])]);
 
     if (storageError) {
       console.error('Failed to delete file from storage:', storageError.message);
@@ -1474,6 +1520,78 @@ export default function ChatPage() {
     }));
   }, [projectFiles, supabase]);
 
+  // Reload a file after processing, or after a new version was uploaded or an earlier one
+  // restored (the file's name and type may have changed)
+  const reloadProjectFile = useCallback(async (fileId: string) => {
+    const { data, error } = await supabase
+      .from('project_files')
+      .select('*')
+      .eq('id', fileId)
+      .single();
+
+    if (error || !data) {
+      console.error('Failed to reload file:', error?.message);
+      return;
+    }
+
+    setProjectFiles((prev) => ({
+      ...prev,
+      [data.project_id]: (prev[data.project_id] || []).map((f) => (f.id === fileId ? data : f)),
+    }));
+  }, [supabase]);
+
+  // Follow file processing jobs: progress, retries and the file's final state
+  useEffect(() => {
+    if (!brandId || !userId) return;
+
+    const channel = supabase
+      .channel(`file-processing-jobs:${brandId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'file_processing_jobs',
+          filter: `brand_id=eq.${brandId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const job = payload.new as FileProcessingJob;
+          setFileJobs((prev) => ({ ...prev, [job.project_file_id]: job }));
+          if (job.status === 'succeeded' || job.status === 'dead') {
+            reloadProjectFile(job.project_file_id);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [brandId, userId, supabase, reloadProjectFile]);
+
+  // Re-enqueue a file whose processing failed
+  const handleRetryFile = useCallback(async (fileId: string) => {
+    const failedJob = fileJobs[fileId];
+    // Files that failed before processing was queued have no job yet
+    const { job, error } = failedJob
+      ? await retryFileProcessingJob(supabase, failedJob.id)
+      : await enqueueFileProcessing(supabase, fileId);
+
+    if (error || !job) {
+      alert(error);
+      return;
+    }
+
+    setFileJobs((prev) => ({ ...prev, [fileId]: job }));
+    setProjectFiles((prev) => ({
+      ...prev,
+      [job.project_id]: (prev[job.project_id] || []).map((f) =>
+        f.id === fileId && f.status === 'error' ? { ...f, status: 'pending' as const } : f
+      ),
+    }));
+  }, [fileJobs, supabase]);
+
   // Send message
   const handleSendMessage = useCallback(async (attachments?: Attachment[], options?: { useWebSearch?: boolean; useDeepResearch?: boolean; mcpServerIds?: string[] }) => {
     // Allow sending if there's input text OR attachments
@@ -1509,6 +1627,7 @@ export default function ChatPage() {
           title,
           model: selectedModel,
           style_preset: pendingStylePreset,
+          brand_voice_enabled: pendingBrandVoiceEnabled,
         })
         .select()
         .single();
@@ -1551,7 +1670,7 @@ export default function ChatPage() {
     setInput('');
     
     sendMessage(messageText, attachments, options);
-  }, [input, brandId, userId, currentConversation, currentProjectId, sendMessage, selectedModel, supabase, pendingProjectId, pendingStylePreset]);
+  }, [input, brandId, userId, currentConversation, currentProjectId, sendMessage, selectedModel, supabase, pendingProjectId, pendingStylePreset, pendingBrandVoiceEnabled]);
 
   // Regenerate last response
   const handleRegenerate = useCallback(async () => {
@@ -1591,6 +1710,7 @@ export default function ChatPage() {
     is_current_user: m.is_current_user,
     created_at: m.created_at,
     metadata: m.metadata,
+    status: m.status,
   }));
 
   if (!userId || !brandId) {
@@ -1609,6 +1729,7 @@ export default function ChatPage() {
       isLoading={isLoadingConversations || isLoadingProjects}
       isStreaming={isStreaming}
       streamingContent={streamingContent}
+      streamingMetadata={streamingMetadata}
       activeToolCall={activeToolCall}
       isDeepResearchActive={isDeepResearchActive}
       input={input}
@@ -1633,14 +1754,20 @@ export default function ChatPage() {
       onRenameProject={handleRenameProject}
       onUploadFile={handleUploadFile}
       onDeleteFile={handleDeleteFile}
+      onFileVersionChanged={reloadProjectFile}
+      fileJobs={fileJobs}
+      onRetryFile={handleRetryFile}
       onMoveConversationToProject={handleMoveConversationToProject}
       onClearProject={handleClearProject}
       onStyleChange={handleStyleChange}
       pendingStylePreset={pendingStylePreset}
+      onBrandVoiceChange={handleBrandVoiceChange}
+      pendingBrandVoiceEnabled={pendingBrandVoiceEnabled}
       pendingProjectId={pendingProjectId}
       brandId={brandId}
       selectedMcpServerIds={selectedMcpServerIds}
       onMcpServerSelectionChange={setSelectedMcpServerIds}
+      onModelsLoaded={handleModelsLoaded}
       brandName={brandName}
       currentUserId={userId}
       userName={userName}
@@ -1648,6 +1775,8 @@ export default function ChatPage() {
       jobFunction={jobFunction}
       isReadOnly={!!(currentConversation as any)?._isDirectlyShared && currentConversation?.user_id !== userId && !isCollaborativeChat}
       isCollaborativeChat={isCollaborativeChat}
+      quotaError={quotaError}
+      onDismissQuotaError={() => setQuotaError(null)}
     />
   );
 }
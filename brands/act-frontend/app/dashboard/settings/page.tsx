@@ -35,6 +35,14 @@ export default function SettingsPage() {
   const [jobFunctionError, setJobFunctionError] = useState<string | null>(null);
   const [jobFunctionSuccess, setJobFunctionSuccess] = useState(false);
 
+  // Links back from the MCP OAuth callback open the MCP tab (?tab=mcp)
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get('tab');
+    if (tabs.some((t) => t.id === tab)) {
+      setActiveTab(tab as SettingsTab);
+    }
+  }, []);
+
   useEffect(() => {
     const supabase = createClient();
     
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Download, File as FileIcon, Loader2, Trash2 } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  BRAND_ASSET_TYPE_LABELS,
+  deleteBrandAssets,
+  downloadBrandAsset,
+  normalizeTags,
+  updateBrandAsset,
+  type BrandAsset,
+  type BrandAssetType,
+} from '@/lib/brand-assets';
+
+interface BrandAssetDetailsDialogProps {
+  asset: BrandAsset | null;
+  previewUrl?: string;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (asset: BrandAsset) => void;
+  onDeleted: (asset: BrandAsset) => void;
+}
+
+function formatFileSize(bytes: number | null): string {
+  if (!bytes) return 'Unknown size';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function BrandAssetDetailsDialog({
+  asset,
+  previewUrl,
+  onOpenChange,
+  onSaved,
+  onDeleted,
+}: BrandAssetDetailsDialogProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [assetType, setAssetType] = useState<BrandAssetType>('image');
+  const [tags, setTags] = useState('');
+  const [busy, setBusy] = useState<'saving' | 'deleting' | 'downloading' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!asset) return;
+    setName(asset.name);
+    setDescription(asset.description || '');
+    setAssetType(asset.asset_type);
+    setTags((asset.tags || []).join(', '));
+    setError(null);
+  }, [asset]);
+
+  if (!asset) return null;
+
+  const handleSave = async () => {
+    setBusy('saving');
+    setError(null);
+    const { asset: saved, error: saveError } = await updateBrandAsset(supabase, asset.id, {
+      name: name.trim() || asset.name,
+      description: description.trim() || null,
+      asset_type: assetType,
+      tags: normalizeTags(tags),
+    });
+    setBusy(null);
+    if (saveError || !saved) {
+      setError(saveError);
+      return;
+    }
+    onSaved(saved);
+    onOpenChange(false);
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${asset.name}" from the asset library?`)) return;
+    setBusy('deleting');
+    setError(null);
+    const { error: deleteError } = await deleteBrandAssets(supabase, [asset]);
+    setBusy(null);
+    if (deleteError) {
+      setError(deleteError);
+      return;
+    }
+    onDeleted(asset);
+    onOpenChange(false);
+  };
+
+  const handleDownload = async () => {
+    setBusy('downloading');
+    setError(null);
+    const { file, error: downloadError } = await downloadBrandAsset(supabase, asset);
+    setBusy(null);
+    if (!file) {
+      setError(downloadError);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = asset.name;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={!!asset} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">{asset.name}</DialogTitle>
+          <DialogDescription>
+            {asset.file_type || 'File'} · {formatFileSize(asset.file_size)}
+            {asset.width && asset.height ? ` · ${asset.width} × ${asset.height}px` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-[220px_1fr]">
+          <div className="flex aspect-square items-center justify-center rounded-md border bg-muted/40">
+            {previewUrl ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={previewUrl} alt={asset.name} className="h-full w-full object-contain p-2" />
+            ) : (
+              <FileIcon className="h-12 w-12 text-muted-foreground" />
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="asset-name">Name</Label>
+              <Input id="asset-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={assetType} onValueChange={(value) => setAssetType(value as BrandAssetType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BRAND_ASSET_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="asset-tags">Tags</Label>
+              <Input
+                id="asset-tags"
+                value={tags}
+                placeholder="e.g. campaign, dark background"
+                onChange={(e) => setTags(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Separate tags with commas</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="asset-description">Description</Label>
+              <Textarea
+                id="asset-description"
+                rows={3}
+                value={description}
+                placeholder="Where and how this asset should be used"
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDownload} disabled={!!busy}>
+              {busy === 'downloading' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Download
+            </Button>
+            <Button variant="outline" onClick={handleDelete} disabled={!!busy} className="text-destructive">
+              {busy === 'deleting' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Delete
+            </Button>
+          </div>
+          <Button onClick={handleSave} disabled={!!busy}>
+            {busy === 'saving' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  downloadBrandAsset,
+  getBrandAssetPreviewUrls,
+  searchBrandAssets,
+  type BrandAsset,
+} from '@/lib/brand-assets';
+import { BrandAssetTile } from './brand-asset-tile';
+
+interface BrandAssetPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  brandId: string;
+  /** MIME types that can be picked; other assets aren't listed */
+  acceptTypes: string[];
+  /** Called with the downloaded files of the picked assets */
+  onPick: (files: File[]) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+export function BrandAssetPickerDialog({ open, onOpenChange, brandId, acceptTypes, onPick }: BrandAssetPickerDialogProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [query, setQuery] = useState('');
+  const [assets, setAssets] = useState<BrandAsset[]>([]);
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isInserting, setIsInserting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+      const { assets: found, error: searchError } = await searchBrandAssets(supabase, brandId, { query });
+      if (cancelled) return;
+      const pickable = found.filter((asset) => asset.file_type && acceptTypes.includes(asset.file_type));
+      setAssets(pickable);
+      setPreviewUrls(await getBrandAssetPreviewUrls(supabase, pickable));
+      setError(searchError);
+      setIsLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, supabase, brandId, query, acceptTypes]);
+
+  useEffect(() => {
+    if (!open) {
+      setSelectedIds([]);
+      setError(null);
+    }
+  }, [open]);
+
+  const toggleSelected = (assetId: string) =>
+    setSelectedIds((prev) => (prev.includes(assetId) ? prev.filter((id) => id !== assetId) : [...prev, assetId]));
+
+  const handleInsert = async () => {
+    setIsInserting(true);
+    setError(null);
+    const downloads = await Promise.all(
+      assets.filter((asset) => selectedIds.includes(asset.id)).map((asset) => downloadBrandAsset(supabase, asset))
+    );
+    setIsInserting(false);
+
+    const failed = downloads.find((download) => download.error);
+    if (failed) {
+      setError(failed.error);
+      return;
+    }
+    onPick(downloads.map((download) => download.file as File));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Insert from asset library</DialogTitle>
+          <DialogDescription>Attach logos and images from your brand&apos;s asset library to the message.</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name, description or tag"
+            className="pl-9"
+          />
+        </div>
+
+        <div className="max-h-[50vh] min-h-[200px] overflow-y-auto">
+          {isLoading && assets.length === 0 ? (
+            <div className="flex h-[200px] items-center justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : assets.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              {query ? 'No images match your search.' : 'The asset library has no images yet.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {assets.map((asset) => (
+                <BrandAssetTile
+                  key={asset.id}
+                  asset={asset}
+                  previewUrl={previewUrls[asset.id]}
+                  selected={selectedIds.includes(asset.id)}
+                  onClick={() => toggleSelected(asset.id)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleInsert} disabled={selectedIds.length === 0 || isInserting}>
+            {isInserting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {selectedIds.length > 1 ? `Insert ${selectedIds.length} assets` : 'Insert'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
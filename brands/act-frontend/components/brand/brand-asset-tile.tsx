@@ -0,0 +1,52 @@
+'use client';
+
+import { Check, File as FileIcon, Type } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { BrandAsset } from '@/lib/brand-assets';
+
+interface BrandAssetTileProps {
+  asset: BrandAsset;
+  /** Signed URL of the thumbnail or image; fonts and other files show an icon */
+  previewUrl?: string;
+  selected?: boolean;
+  onClick: () => void;
+}
+
+export function BrandAssetTile({ asset, previewUrl, selected = false, onClick }: BrandAssetTileProps) {
+  const PlaceholderIcon = asset.asset_type === 'font' ? Type : FileIcon;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        'group flex flex-col overflow-hidden rounded-lg border bg-card text-left transition-colors hover:border-[#889def]',
+        selected && 'border-[#889def] ring-2 ring-[#889def]/40'
+      )}
+    >
+      <div className="relative flex aspect-square items-center justify-center bg-muted/40">
+        {previewUrl ? (
+          // Signed storage URLs expire, so they don't go through the image optimizer
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={previewUrl} alt={asset.name} loading="lazy" className="h-full w-full object-contain p-2" />
+        ) : (
+          <PlaceholderIcon className="h-10 w-10 text-muted-foreground" />
+        )}
+        {selected && (
+          <span className="absolute right-2 top-2 flex h-5 w-5 items-center justify-center rounded-full bg-[#889def] text-white">
+            <Check className="h-3 w-3" />
+          </span>
+        )}
+      </div>
+      <div className="min-w-0 space-y-1 p-2">
+        <p className="truncate text-sm font-medium" title={asset.name}>{asset.name}</p>
+        <p className="truncate text-xs text-muted-foreground">
+          {asset.width && asset.height ? `${asset.width} × ${asset.height}` : asset.file_type || 'File'}
+        </p>
+        {asset.tags && asset.tags.length > 0 && (
+          <p className="truncate text-xs text-muted-foreground">{asset.tags.map((tag) => `#${tag}`).join(' ')}</p>
+        )}
+      </div>
+    </button>
+  );
+}
@@ -0,0 +1,441 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronRight, Loader2, Palette, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  EMPTY_BRAND_GUIDELINES,
+  brandGuidelinesSchema,
+  type BrandColor,
+  type BrandGuidelines,
+  type BrandGuidelinesResponse,
+  type BrandTypeface,
+} from '@/lib/brand-guidelines';
+import type { SystemPromptPreview } from '@/lib/chat/system-prompt';
+
+// Guidelines extracted from a brand book, waiting for review
+export interface BrandGuidelinesDraft {
+  documentId: string;
+  documentName: string;
+  guidelines: BrandGuidelines;
+}
+
+interface BrandGuidelinesEditorProps {
+  brandId: string;
+  draft?: BrandGuidelinesDraft | null;
+}
+
+type ListField =
+  | 'logo_usage'
+  | 'tone_of_voice'
+  | 'banned_words'
+  | 'approved_taglines'
+  | 'audience'
+  | 'terminology'
+  | 'voice_dos'
+  | 'voice_donts'
+  | 'required_disclaimers'
+  | 'product_names';
+
+const LIST_FIELDS: { key: ListField; label: string; hint: string }[] = [
+  { key: 'tone_of_voice', label: 'Tone of voice', hint: 'One descriptor per line' },
+  { key: 'audience', label: 'Audience', hint: 'Who you write for, one audience per line' },
+  { key: 'voice_dos', label: 'Do', hint: 'Writing guidance, one point per line' },
+  { key: 'voice_donts', label: "Don't", hint: 'Things to avoid, one point per line' },
+  { key: 'terminology', label: 'Terminology', hint: 'Preferred terms, e.g. "customers, not users"' },
+  { key: 'banned_words', label: 'Banned words', hint: 'One word or phrase per line' },
+  { key: 'approved_taglines', label: 'Approved taglines', hint: 'One tagline per line' },
+  { key: 'logo_usage', label: 'Logo usage', hint: 'One rule per line' },
+  { key: 'product_names', label: 'Product names', hint: 'Exact capitalisation, one name per line' },
+  { key: 'required_disclaimers', label: 'Required disclaimers', hint: 'Verbatim, one disclaimer per line' },
+];
+
+// Select values can't be empty strings
+const ANY_SPELLING = 'any';
+
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+function toListText(guidelines: BrandGuidelines): Record<ListField, string> {
+  return Object.fromEntries(
+    LIST_FIELDS.map(({ key }) => [key, toLines(guidelines[key])])
+  ) as Record<ListField, string>;
+}
+
+export function BrandGuidelinesEditor({ brandId, draft }: BrandGuidelinesEditorProps) {
+  const [response, setResponse] = useState<BrandGuidelinesResponse | null>(null);
+  const [palette, setPalette] = useState<BrandColor[]>([]);
+  const [typography, setTypography] = useState<BrandTypeface[]>([]);
+  const [lists, setLists] = useState<Record<ListField, string>>(toListText(EMPTY_BRAND_GUIDELINES));
+  const [spellingVariant, setSpellingVariant] = useState<BrandGuidelines['spelling_variant']>(null);
+  const [readingGrade, setReadingGrade] = useState('');
+  const [sourceDocumentId, setSourceDocumentId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [preview, setPreview] = useState<SystemPromptPreview | null>(null);
+  const [previewOpen, setPreviewOpen] = useState(false);
+
+  const applyGuidelines = (guidelines: BrandGuidelines) => {
+    setPalette(guidelines.palette);
+    setTypography(guidelines.typography);
+    setLists(toListText(guidelines));
+    setSpellingVariant(guidelines.spelling_variant);
+    setReadingGrade(guidelines.reading_grade?.toString() ?? '');
+  };
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(`/api/brand-guidelines?brandId=${brandId}`);
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to load brand profile');
+        }
+        setResponse(data);
+        if (data.profile) {
+          applyGuidelines(data.profile.guidelines);
+          setSourceDocumentId(data.profile.source_document_id);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load brand profile');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [brandId]);
+
+  // A freshly extracted brand book replaces the form for review
+  useEffect(() => {
+    if (!draft) return;
+    applyGuidelines(draft.guidelines);
+    setSourceDocumentId(draft.documentId);
+    setSaved(false);
+  }, [draft]);
+
+  // The preview reflects the saved profile, so refresh it whenever a version is saved
+  useEffect(() => {
+    if (!previewOpen) return;
+    const fetchPreview = async () => {
+      try {
+        const res = await fetch(`/api/brand-guidelines/prompt-preview?brandId=${brandId}`);
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to load system prompt preview');
+        }
+        setPreview(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load system prompt preview');
+      }
+    };
+
+    fetchPreview();
+  }, [brandId, previewOpen, response?.profile?.version]);
+
+  const updateColor = (index: number, patch: Partial<BrandColor>) => {
+    setPalette(prev => prev.map((color, i) => (i === index ? { ...color, ...patch } : color)));
+    setSaved(false);
+  };
+
+  const updateTypeface = (index: number, patch: Partial<BrandTypeface>) => {
+    setTypography(prev => prev.map((face, i) => (i === index ? { ...face, ...patch } : face)));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    const parsed = brandGuidelinesSchema.safeParse({
+      palette: palette.map(color => ({ ...color, usage: color.usage || undefined })),
+      typography: typography.map(face => ({ ...face, usage: face.usage || undefined })),
+      ...Object.fromEntries(LIST_FIELDS.map(({ key }) => [key, fromLines(lists[key])])),
+      spelling_variant: spellingVariant,
+      reading_grade: readingGrade.trim() ? Number(readingGrade) : null,
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      setError(`${issue.path.join(' › ')}: ${issue.message}`);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/brand-guidelines', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ brandId, guidelines: parsed.data, sourceDocumentId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save brand profile');
+      }
+      setResponse(data);
+      applyGuidelines(data.profile.guidelines);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save brand profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="size-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const canEdit = response?.canEdit ?? false;
+  const profile = response?.profile;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-medium">Brand Profile</h2>
+        <p className="text-sm text-muted-foreground">
+          {profile
+            ? `Version ${profile.version} · saved ${new Date(profile.created_at).toLocaleDateString()}`
+            : 'No brand profile yet. Upload a brand book to extract one, or fill it in below.'}
+        </p>
+      </div>
+
+      {draft && !saved && (
+        <div className="rounded-md border border-[#889def]/40 bg-[#889def]/10 p-3 text-sm">
+          Extracted from <span className="font-medium">{draft.documentName}</span>. Review the guidelines and save them to update the brand profile.
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Colour palette</Label>
+        {palette.length > 0 && (
+          <div className="border rounded-lg divide-y">
+            {palette.map((color, index) => (
+              <div key={index} className="flex items-center gap-2 p-2">
+                <span
+                  className="size-8 shrink-0 rounded-md border"
+                  style={{ backgroundColor: color.hex }}
+                />
+                <Input
+                  value={color.name}
+                  onChange={(e) => updateColor(index, { name: e.target.value })}
+                  placeholder="Name"
+                  className="w-36"
+                  disabled={!canEdit}
+                />
+                <Input
+                  value={color.hex}
+                  onChange={(e) => updateColor(index, { hex: e.target.value })}
+                  placeholder="#063EF8"
+                  className="w-28 font-mono"
+                  disabled={!canEdit}
+                />
+                <Input
+                  value={color.usage ?? ''}
+                  onChange={(e) => updateColor(index, { usage: e.target.value })}
+                  placeholder="Usage"
+                  className="flex-1"
+                  disabled={!canEdit}
+                />
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    onClick={() => {
+                      setPalette(prev => prev.filter((_, i) => i !== index));
+                      setSaved(false);
+                    }}
+                  >
+                    <X className="size-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {canEdit && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPalette(prev => [...prev, { name: '', hex: '#' }])}
+          >
+            <Palette className="size-4 mr-2" />
+            Add colour
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Typography</Label>
+        {typography.length > 0 && (
+          <div className="border rounded-lg divide-y">
+            {typography.map((face, index) => (
+              <div key={index} className="flex items-center gap-2 p-2">
+                <Input
+                  value={face.family}
+                  onChange={(e) => updateTypeface(index, { family: e.target.value })}
+                  placeholder="Typeface"
+                  className="w-40"
+                  style={face.family ? { fontFamily: face.family } : undefined}
+                  disabled={!canEdit}
+                />
+                <Input
+                  value={face.role}
+                  onChange={(e) => updateTypeface(index, { role: e.target.value })}
+                  placeholder="Role, e.g. Headings"
+                  className="w-40"
+                  disabled={!canEdit}
+                />
+                <Input
+                  value={face.weights?.join(', ') ?? ''}
+                  onChange={(e) => {
+                    const weights = e.target.value.split(',').map(w => w.trim()).filter(Boolean);
+                    updateTypeface(index, { weights: weights.length > 0 ? weights : undefined });
+                  }}
+                  placeholder="Weights"
+                  className="flex-1"
+                  disabled={!canEdit}
+                />
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    onClick={() => {
+                      setTypography(prev => prev.filter((_, i) => i !== index));
+                      setSaved(false);
+                    }}
+                  >
+                    <X className="size-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {canEdit && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setTypography(prev => [...prev, { family: '', role: '' }])}
+          >
+            <Plus className="size-4 mr-2" />
+            Add typeface
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {LIST_FIELDS.map(({ key, label, hint }) => (
+          <div key={key} className="space-y-2">
+            <Label htmlFor={`guidelines-${key}`}>{label}</Label>
+            <Textarea
+              id={`guidelines-${key}`}
+              value={lists[key]}
+              onChange={(e) => {
+                setLists(prev => ({ ...prev, [key]: e.target.value }));
+                setSaved(false);
+              }}
+              rows={5}
+              disabled={!canEdit}
+            />
+            <p className="text-xs text-muted-foreground">{hint}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Spelling</Label>
+          <Select
+            value={spellingVariant ?? ANY_SPELLING}
+            onValueChange={(value) => {
+              setSpellingVariant(value === ANY_SPELLING ? null : (value as 'uk' | 'us'));
+              setSaved(false);
+            }}
+            disabled={!canEdit}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_SPELLING}>Not specified</SelectItem>
+              <SelectItem value="uk">UK English</SelectItem>
+              <SelectItem value="us">US English</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="guidelines-reading-grade">Reading level</Label>
+          <Input
+            id="guidelines-reading-grade"
+            type="number"
+            min={1}
+            max={18}
+            value={readingGrade}
+            onChange={(e) => {
+              setReadingGrade(e.target.value);
+              setSaved(false);
+            }}
+            placeholder="e.g. 8"
+            disabled={!canEdit}
+          />
+          <p className="text-xs text-muted-foreground">Highest school grade copy should read at</p>
+        </div>
+      </div>
+
+      {canEdit && (
+        <Collapsible open={previewOpen} onOpenChange={setPreviewOpen}>
+          <CollapsibleTrigger className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ChevronRight className={`size-4 transition-transform ${previewOpen ? 'rotate-90' : ''}`} />
+            Preview system prompt
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-2 space-y-2">
+            {preview ? (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  Sent with {preview.model} in new conversations
+                  {preview.profileVersion ? ` · brand voice from version ${preview.profileVersion}` : ' · no brand voice saved yet'}.
+                  Project excerpts and style presets are added per conversation.
+                </p>
+                <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/40 p-3 text-xs">
+                  {preview.systemPrompt}
+                </pre>
+              </>
+            ) : (
+              <Loader2 className="size-4 animate-spin text-muted-foreground" />
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+
+      {canEdit ? (
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="size-4 mr-2 animate-spin" /> : null}
+            Save brand profile
+          </Button>
+          {saved && <span className="text-sm text-muted-foreground">Saved as version {profile?.version}</span>}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Only brand owners can change the brand profile.</p>
+      )}
+    </div>
+  );
+}
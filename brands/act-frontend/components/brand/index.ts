@@ -0,0 +1,4 @@
+export { BrandGuidelinesEditor, type BrandGuidelinesDraft } from './brand-guidelines-editor';
+export { BrandAssetTile } from './brand-asset-tile';
+export { BrandAssetDetailsDialog } from './brand-asset-details-dialog';
+export { BrandAssetPickerDialog } from './brand-asset-picker-dialog';
@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  COMPLIANCE_CATEGORY_LABELS,
+  applySuggestions,
+  type ComplianceAnnotation,
+  type ComplianceReport,
+} from '@/lib/brand-compliance';
+
+interface BrandComplianceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  brandId: string;
+  /** Copy to check; can be edited or replaced with pasted copy in the dialog */
+  initialText: string;
+}
+
+function scoreClass(score: number): string {
+  if (score >= 80) return 'text-green-600 dark:text-green-400';
+  if (score >= 50) return 'text-amber-600 dark:text-amber-400';
+  return 'text-red-600 dark:text-red-400';
+}
+
+// Split the text into plain and annotated segments; the first of overlapping ranges wins
+function highlightSegments(text: string, annotations: ComplianceAnnotation[]) {
+  const segments: { text: string; annotation: ComplianceAnnotation | null }[] = [];
+  let cursor = 0;
+  for (const annotation of annotations) {
+    if (annotation.start === null || annotation.end === null || annotation.start < cursor) continue;
+    segments.push({ text: text.slice(cursor, annotation.start), annotation: null });
+    segments.push({ text: text.slice(annotation.start, annotation.end), annotation });
+    cursor = annotation.end;
+  }
+  segments.push({ text: text.slice(cursor), annotation: null });
+  return segments;
+}
+
+export function BrandComplianceDialog({ open, onOpenChange, brandId, initialText }: BrandComplianceDialogProps) {
+  const [text, setText] = useState(initialText);
+  // Text the report was produced for; annotation ranges point into it
+  const [checkedText, setCheckedText] = useState('');
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runCheck = async (copy: string) => {
+    if (!copy.trim()) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/brand-compliance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ brandId, text: copy }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to check copy against the brand');
+      }
+      setReport(data);
+      setCheckedText(copy);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Failed to check copy against the brand');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // Check the message straight away when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setText(initialText);
+    setReport(null);
+    setError(null);
+    if (initialText.trim()) {
+      runCheck(initialText);
+    }
+  }, [open]);
+
+  const isStale = report !== null && text !== checkedText;
+  const segments = useMemo(
+    () => (report ? highlightSegments(checkedText, report.annotations) : []),
+    [report, checkedText]
+  );
+  const hasSuggestions = report?.annotations.some(a => a.suggestion !== null) ?? false;
+
+  const applyAndRecheck = (annotations: ComplianceAnnotation[]) => {
+    const rewritten = applySuggestions(checkedText, annotations);
+    setText(rewritten);
+    runCheck(rewritten);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Check against brand
+          </DialogTitle>
+          <DialogDescription>
+            Scores the copy against your brand profile. Edit it or paste other copy and check again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={6}
+            placeholder="Paste copy to check"
+          />
+          <div className="flex items-center gap-2">
+            <Button onClick={() => runCheck(text)} disabled={isChecking || !text.trim()}>
+              {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+              {report ? 'Check again' : 'Check'}
+            </Button>
+            {isStale && <span className="text-xs text-muted-foreground">Edited since the last check</span>}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {report && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-baseline gap-x-6 gap-y-2">
+                <div>
+                  <span className={cn('text-3xl font-semibold', scoreClass(report.score))}>{report.score}</span>
+                  <span className="text-sm text-muted-foreground"> / 100 on-brand</span>
+                </div>
+                {report.categories.map(({ category, score }) => (
+                  <div key={category} className="text-sm">
+                    <span className="text-muted-foreground">{COMPLIANCE_CATEGORY_LABELS[category]} </span>
+                    <span className={cn('font-medium', scoreClass(score))}>{score}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Reading grade {report.readingGrade} · brand profile version {report.profileVersion}
+              </p>
+
+              {report.annotations.some(a => a.start !== null) && (
+                <div className="max-h-60 overflow-y-auto whitespace-pre-wrap rounded-md border bg-muted/40 p-3 text-sm">
+                  {segments.map((segment, index) =>
+                    segment.annotation ? (
+                      <mark
+                        key={index}
+                        title={segment.annotation.message}
+                        className="rounded bg-amber-200/70 px-0.5 text-foreground dark:bg-amber-500/30"
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )}
+                </div>
+              )}
+
+              {report.annotations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No issues found.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {report.annotations.map((annotation, index) => (
+                    <li key={index} className="flex items-start justify-between gap-3 rounded-md border p-2 text-sm">
+                      <div className="min-w-0 space-y-1">
+                        <p className="text-xs font-medium text-muted-foreground">
+                          {COMPLIANCE_CATEGORY_LABELS[annotation.category]}
+                        </p>
+                        {annotation.start !== null && (
+                          <p className="truncate font-medium">
+                            &ldquo;{checkedText.slice(annotation.start, annotation.end ?? annotation.start)}&rdquo;
+                          </p>
+                        )}
+                        <p>{annotation.message}</p>
+                        {annotation.suggestion && (
+                          <p className="text-muted-foreground">
+                            {annotation.start === null ? 'Add: ' : 'Suggested: '}
+                            <span className="text-foreground">{annotation.suggestion}</span>
+                          </p>
+                        )}
+                      </div>
+                      {annotation.suggestion && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isChecking || isStale}
+                          onClick={() => applyAndRecheck([annotation])}
+                        >
+                          Apply
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {hasSuggestions && (
+                <Button
+                  variant="outline"
+                  disabled={isChecking || isStale}
+                  onClick={() => applyAndRecheck(report.annotations)}
+                >
+                  Apply all suggestions
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,9 +6,13 @@ import { ProjectSidebar } from './project-sidebar';
 import { ProjectDetailView } from './project-detail-view';
 import { MessageList } from './message-list';
 import { ChatInput, type ModelId, type Attachment, type StylePreset } from './chat-input';
-import { type MessageAttachment, type ToolInvocation } from './chat-message';
+import { type ChatMessageMetadata, type MessageAttachment, type ToolInvocation } from './chat-message';
 import { SuggestedActions, type MCPServerInfo } from './greeting';
 import { cn } from '@/lib/utils';
+import type { QuotaExceededError } from '@/lib/chat/usage';
+import type { ChatModelsResponse } from '@/lib/chat/model-policy';
+import type { AssistantMessageStatus } from '@/lib/chat/assistant-message';
+import type { FileProcessingJob } from '@/lib/file-processing-jobs';
 
 interface Message {
   id: string;
@@ -16,6 +20,7 @@ interface Message {
   content: string;
   attachments?: MessageAttachment[];
   toolInvocations?: ToolInvocation[];
+  status?: AssistantMessageStatus;
 }
 
 interface ProjectFile {
@@ -48,6 +53,7 @@ interface Conversation {
   visibility?: 'private' | 'shared' | null;
   user_id?: string;
   style_preset?: string | null;
+  brand_voice_enabled?: boolean;
 }
 
 interface ChatContainerProps {
@@ -59,6 +65,7 @@ interface ChatContainerProps {
   isStreaming: boolean;
   input: string;
   streamingContent?: string;
+  streamingMetadata?: ChatMessageMetadata;
   activeToolCall?: string | null;
   isDeepResearchActive?: boolean;
   selectedModel: ModelId;
@@ -89,12 +96,19 @@ interface ChatContainerProps {
   onRenameProject?: (id: string, name: string) => void;
   onUploadFile?: (projectId: string, file: File) => Promise<void>;
   onDeleteFile?: (fileId: string) => Promise<void>;
+  onFileVersionChanged?: (fileId: string) => void;
+  /** Latest processing job of each project file, by file id */
+  fileJobs?: Record<string, FileProcessingJob>;
+  onRetryFile?: (fileId: string) => Promise<void>;
 	// Move current conversation to a project (used by + menu)
 	onMoveConversationToProject?: (projectId: string) => void;
 	onClearProject?: () => void;
 	// Style change handler
 	onStyleChange?: (style: string) => void;
 	pendingStylePreset?: string;
+	// Brand voice toggle handler
+	onBrandVoiceChange?: (enabled: boolean) => void;
+	pendingBrandVoiceEnabled?: boolean;
 	pendingProjectId?: string | null;
 
 	// MCP server selection
@@ -103,6 +117,7 @@ interface ChatContainerProps {
 	onMcpServerSelectionChange?: (serverIds: string[]) => void;
 	mcpServers?: MCPServerInfo[];
 	onMcpServersLoaded?: (servers: MCPServerInfo[]) => void;
+	onModelsLoaded?: (models: ChatModelsResponse) => void;
 
   // User info
   brandName?: string;
@@ -116,6 +131,10 @@ interface ChatContainerProps {
   
   // Collaborative chat mode (multiple users can send messages)
   isCollaborativeChat?: boolean;
+
+  // Quota error from the last send attempt
+  quotaError?: QuotaExceededError | null;
+  onDismissQuotaError?: () => void;
 }
 
 export function ChatContainer({
@@ -126,6 +145,7 @@ export function ChatContainer({
   isStreaming,
   input,
   streamingContent,
+  streamingMetadata,
   activeToolCall,
   isDeepResearchActive,
   selectedModel,
@@ -150,6 +170,9 @@ export function ChatContainer({
   onRenameProject,
   onUploadFile,
   onDeleteFile,
+  onFileVersionChanged,
+  fileJobs,
+  onRetryFile,
   brandName,
   currentUserId,
   userName,
@@ -159,14 +182,19 @@ export function ChatContainer({
 	onClearProject,
 	onStyleChange,
 	pendingStylePreset,
+	onBrandVoiceChange,
+	pendingBrandVoiceEnabled = true,
 	pendingProjectId,
 	brandId,
 	selectedMcpServerIds,
 	onMcpServerSelectionChange,
 	mcpServers,
 	onMcpServersLoaded,
+	onModelsLoaded,
 	isReadOnly = false,
 	isCollaborativeChat = false,
+	quotaError,
+	onDismissQuotaError,
 }: ChatContainerProps) {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [isCreatingNewChat, setIsCreatingNewChat] = useState(false);
@@ -208,6 +236,10 @@ export function ChatContainer({
                   onSelectConversation={onSelectConversation}
                   onUploadFile={onUploadFile ? (file) => onUploadFile(currentProjectId, file) : undefined}
                   onDeleteFile={onDeleteFile}
+                  onFileVersionChanged={onFileVersionChanged}
+                  fileJobs={fileJobs}
+                  onRetryFile={onRetryFile}
+                  brandId={brandId}
                 />
               );
             }
@@ -244,10 +276,12 @@ export function ChatContainer({
               isLoading={isLoading}
               isStreaming={isStreaming}
               streamingContent={streamingContent}
+              streamingMetadata={streamingMetadata}
               activeToolCall={activeToolCall}
               isDeepResearchActive={isDeepResearchActive}
               userName={userName}
               isCollaborativeChat={isCollaborativeChat}
+              brandId={brandId}
             />
 
             {/* Suggested Actions - Show when no messages and input is empty */}
@@ -295,10 +329,15 @@ export function ChatContainer({
                   // Style selection
                   currentConversationStylePreset={(currentConversation?.style_preset || pendingStylePreset) as 'normal' | 'learning' | 'concise' | 'explanatory' | 'formal' | null | undefined}
                   onStyleChange={onStyleChange}
+                  brandVoiceEnabled={currentConversation?.brand_voice_enabled ?? pendingBrandVoiceEnabled}
+                  onBrandVoiceChange={onBrandVoiceChange}
                   brandId={brandId}
                   selectedMcpServerIds={selectedMcpServerIds}
                   onMcpServerSelectionChange={onMcpServerSelectionChange}
                   onMcpServersLoaded={onMcpServersLoaded}
+                  onModelsLoaded={onModelsLoaded}
+                  quotaError={quotaError}
+                  onDismissQuotaError={onDismissQuotaError}
                 />
               )}
             </div>
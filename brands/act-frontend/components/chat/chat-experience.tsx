@@ -4,6 +4,7 @@ import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import { ChatContainer } from '@/components/chat/chat-container';
 import { type ModelId, type Attachment } from '@/components/chat/chat-input';
+import { DEFAULT_MODEL_ID, isModelAvailable, resolveModelId } from '@act/models';
 import { useRouter } from 'next/navigation';
 
 // Helper to convert file to base64
@@ -130,7 +131,7 @@ export default function ChatPage() {
   const [input, setInput] = useState('');
   
   // Model selection state
-  const [selectedModel, setSelectedModel] = useState<ModelId>('claude-4.5');
+  const [selectedModel, setSelectedModel] = useState<ModelId>(DEFAULT_MODEL_ID);
   
   // Refs for dynamic body values
   const brandIdRef = useRef(brandId);
@@ -723,19 +724,9 @@ export default function ChatPage() {
     if (conversation) {
       setCurrentConversation(conversation);
       // Sync model selector with conversation's model
-      // Map legacy model names to new ones
-      const modelMap: Record<string, ModelId> = {
-        'claude-4.5': 'claude-4.5',
-        'gpt-5.2': 'gpt-5.2',
-        'gemini-3.1': 'gemini-3.1',
-        // Legacy mappings
-        'claude-3-sonnet': 'claude-4.5',
-        'claude-3-opus': 'claude-4.5',
-        'gpt-4o': 'gpt-5.2',
-        'gpt-4': 'gpt-5.2',
-      };
-      const mappedModel = modelMap[conversation.model];
-      if (mappedModel) {
+      // Legacy model names resolve to their registry model
+      const mappedModel = resolveModelId(conversation.model);
+      if (mappedModel && isModelAvailable(mappedModel)) {
         setSelectedModel(mappedModel);
       }
     }
@@ -3,6 +3,7 @@
 import { useRef, useCallback, useEffect, KeyboardEvent, useState, ChangeEvent, useMemo, ClipboardEvent } from 'react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -18,9 +19,14 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import { ArrowUp, Square, Paperclip, ChevronDown, Check, X, FileText, Image as ImageIcon, Globe, Folder, MessageSquare, GraduationCap, Minimize2, BookOpen, Briefcase, Sparkles, Server } from 'lucide-react';
+import { ArrowUp, Square, Paperclip, ChevronDown, Check, X, FileText, Image as ImageIcon, Globe, Folder, MessageSquare, GraduationCap, Minimize2, BookOpen, Briefcase, Sparkles, Server, AlertTriangle, Megaphone, ShieldCheck, Library } from 'lucide-react';
+import { BrandComplianceDialog } from './brand-compliance-dialog';
+import { BrandAssetPickerDialog } from '@/components/brand';
 import { MCPServerSelector, type MCPServer } from './mcp-server-selector';
 import Image from 'next/image';
+import type { QuotaExceededError } from '@/lib/chat/usage';
+import type { ChatModelsResponse, ModelAvailability } from '@/lib/chat/model-policy';
+import { DEFAULT_MODEL_ID, getAvailableModels, type ModelId, type ModelProvider } from '@act/models';
 
 // Provider Logo Components
 const AnthropicLogo = () => (
@@ -52,14 +58,24 @@ const GoogleLogo = () => (
   </svg>
 );
 
-// Available AI models with feature support
-export const AI_MODELS = [
-  { id: 'claude-4.5', name: 'Claude 4.5', provider: 'Anthropic', icon: AnthropicLogo, supportsWebSearch: false, supportsDeepResearch: true },
-  { id: 'gpt-5.2', name: 'GPT 5.2', provider: 'OpenAI', icon: OpenAILogo, supportsWebSearch: true, supportsDeepResearch: true },
-  { id: 'gemini-3.1', name: 'Gemini 3.1', provider: 'Google', icon: GoogleLogo, supportsWebSearch: true, supportsDeepResearch: false },
-] as const;
+const PROVIDERS: Record<ModelProvider, { name: string; icon: () => JSX.Element }> = {
+  anthropic: { name: 'Anthropic', icon: AnthropicLogo },
+  openai: { name: 'OpenAI', icon: OpenAILogo },
+  google: { name: 'Google', icon: GoogleLogo },
+};
 
-export type ModelId = typeof AI_MODELS[number]['id'];
+// Available AI models with feature support (from the shared model registry)
+export const AI_MODELS = getAvailableModels().map(model => ({
+  id: model.id,
+  name: model.name,
+  provider: PROVIDERS[model.provider].name,
+  icon: PROVIDERS[model.provider].icon,
+  supportsWebSearch: model.capabilities.webSearch,
+  // OpenAI models run deep research with an extended prompt instead of native thinking
+  supportsDeepResearch: model.capabilities.thinking || model.provider === 'openai',
+}));
+
+export type { ModelId };
 
 // Attachment types
 export interface Attachment {
@@ -447,11 +463,19 @@ interface ChatInputProps {
 	// Style selection
 	currentConversationStylePreset?: StylePreset | null;
 	onStyleChange?: (style: StylePreset) => void;
+	// Brand voice in the system prompt, per conversation
+	brandVoiceEnabled?: boolean;
+	onBrandVoiceChange?: (enabled: boolean) => void;
 	// MCP server selection
 	brandId?: string;
 	selectedMcpServerIds?: string[];
 	onMcpServerSelectionChange?: (serverIds: string[]) => void;
 	onMcpServersLoaded?: (servers: MCPServer[]) => void;
+	// Brand model settings from /api/chat/models
+	onModelsLoaded?: (models: ChatModelsResponse) => void;
+	// Quota error returned by /api/chat (402)
+	quotaError?: QuotaExceededError | null;
+	onDismissQuotaError?: () => void;
 }
 
 export function ChatInput({
@@ -463,7 +487,7 @@ export function ChatInput({
   isLoading = false,
   placeholder = 'Send a message...',
   disabled = false,
-  model = 'claude-4.5',
+  model = DEFAULT_MODEL_ID,
   onModelChange,
 	projects = [],
 	currentProjectId = null,
@@ -474,10 +498,15 @@ export function ChatInput({
 	onClearProject,
 	currentConversationStylePreset = null,
 	onStyleChange,
+	brandVoiceEnabled = true,
+	onBrandVoiceChange,
 	brandId,
 	selectedMcpServerIds = [],
 	onMcpServerSelectionChange,
 	onMcpServersLoaded,
+	onModelsLoaded,
+	quotaError = null,
+	onDismissQuotaError,
 }: ChatInputProps) {
   const [isModelMenuOpen, setIsModelMenuOpen] = useState(false);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
@@ -486,7 +515,13 @@ export function ChatInput({
 	const [useDeepResearch, setUseDeepResearch] = useState<boolean>(false);
 	const [mcpServers, setMcpServers] = useState<MCPServer[]>([]);
 	const [isMcpLoading, setIsMcpLoading] = useState(false);
+	const [modelAvailability, setModelAvailability] = useState<ModelAvailability[]>([]);
+	const [showComplianceDialog, setShowComplianceDialog] = useState(false);
+	const [showAssetPicker, setShowAssetPicker] = useState(false);
   const selectedModel = AI_MODELS.find(m => m.id === model) || AI_MODELS[0];
+  const getModelUnavailability = (modelId: ModelId) =>
+    modelAvailability.find(a => a.id === modelId && !a.available);
+  const selectedModelUnavailability = getModelUnavailability(selectedModel.id);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const predictionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -514,6 +549,26 @@ export function ChatInput({
     fetchServers();
   }, [brandId, onMcpServersLoaded]);
 
+  // Fetch which models the brand allows (and why the others can't be used)
+  useEffect(() => {
+    if (!brandId) return;
+
+    const fetchModels = async () => {
+      try {
+        const response = await fetch(`/api/chat/models?brandId=${brandId}`);
+        const data = await response.json();
+        if (response.ok && data.models) {
+          setModelAvailability(data.models);
+          onModelsLoaded?.(data as ChatModelsResponse);
+        }
+      } catch (error) {
+        console.error('Failed to fetch models:', error);
+      }
+    };
+
+    fetchModels();
+  }, [brandId, onModelsLoaded]);
+
   // Toggle MCP server selection
   const handleToggleMcpServer = (serverId: string) => {
     if (!onMcpServerSelectionChange) return;
@@ -650,6 +705,22 @@ export function ChatInput({
     }
   }, []);
 
+  // Attach images picked from the brand's asset library
+  const handleAssetsPicked = useCallback((files: File[]) => {
+    const tooLarge = files.filter((file) => file.size > MAX_IMAGE_SIZE);
+    if (tooLarge.length > 0) {
+      alert(`${tooLarge.map((file) => file.name).join(', ')} ${tooLarge.length === 1 ? 'is' : 'are'} too large to attach. Maximum size for images is ${(MAX_IMAGE_SIZE / 1024 / 1024).toFixed(0)}MB.`);
+    }
+
+    const newAttachments: Attachment[] = files.filter((file) => file.size <= MAX_IMAGE_SIZE).map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      type: 'image',
+      preview: URL.createObjectURL(file),
+    }));
+    setAttachments((prev) => [...prev, ...newAttachments]);
+  }, []);
+
   // Remove attachment
   const removeAttachment = useCallback((id: string) => {
     setAttachments((prev) => {
@@ -800,6 +871,35 @@ export function ChatInput({
         onChange={handleFileSelect}
         className="hidden"
       />
+
+      {/* Quota exhausted */}
+      {selectedModelUnavailability && (
+        <Alert className="mb-2">
+          <AlertTriangle className="size-4" />
+          <AlertTitle>{selectedModel.name} is unavailable</AlertTitle>
+          <AlertDescription>
+            {selectedModelUnavailability.message}. Choose another model to continue.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {quotaError && (
+        <Alert variant="destructive" className="mb-2 pr-10">
+          <AlertTriangle className="size-4" />
+          <AlertTitle>Token quota reached</AlertTitle>
+          <AlertDescription>{quotaError.error}</AlertDescription>
+          {onDismissQuotaError && (
+            <button
+              type="button"
+              onClick={onDismissQuotaError}
+              className="absolute right-3 top-3 rounded-md p-1 text-muted-foreground hover:text-foreground transition-colors"
+              aria-label="Dismiss"
+            >
+              <X className="size-4" />
+            </button>
+          )}
+        </Alert>
+      )}
       
       <div className="rounded-2xl border border-border bg-muted/50 overflow-hidden">
         {/* Attachment Previews */}
@@ -913,6 +1013,15 @@ export function ChatInput({
 									<Paperclip className="size-4" />
 									<span>Add files or images</span>
 								</DropdownMenuItem>
+								{brandId && (
+									<DropdownMenuItem
+										onClick={() => setShowAssetPicker(true)}
+										className="flex items-center gap-2"
+									>
+										<Library className="size-4" />
+										<span>Insert from asset library</span>
+									</DropdownMenuItem>
+								)}
 								{/* Web Search - auto-switch model if needed */}
 								<DropdownMenuItem
 									onClick={() => {
@@ -920,7 +1029,7 @@ export function ChatInput({
 											// Turning on - check if model supports it
 											if (!selectedModel.supportsWebSearch) {
 												// Find first model that supports web search
-												const webSearchModel = AI_MODELS.find(m => m.supportsWebSearch);
+												const webSearchModel = AI_MODELS.find(m => m.supportsWebSearch && !getModelUnavailability(m.id));
 												if (webSearchModel && onModelChange) {
 													onModelChange(webSearchModel.id);
 												}
@@ -945,7 +1054,7 @@ export function ChatInput({
 											// Turning on - check if model supports it
 											if (!selectedModel.supportsDeepResearch) {
 												// Find first model that supports deep research
-												const deepResearchModel = AI_MODELS.find(m => m.supportsDeepResearch);
+												const deepResearchModel = AI_MODELS.find(m => m.supportsDeepResearch && !getModelUnavailability(m.id));
 												if (deepResearchModel && onModelChange) {
 													onModelChange(deepResearchModel.id);
 												}
@@ -963,6 +1072,28 @@ export function ChatInput({
 									</div>
 									{useDeepResearch ? <Check className="size-4" /> : null}
 								</DropdownMenuItem>
+								{onBrandVoiceChange && (
+									<DropdownMenuItem
+										onClick={() => onBrandVoiceChange(!brandVoiceEnabled)}
+										className="flex items-center justify-between gap-2"
+									>
+										<div className="flex items-center gap-2">
+											<Megaphone className="size-4" />
+											<span>Brand voice</span>
+										</div>
+										{brandVoiceEnabled ? <Check className="size-4" /> : null}
+									</DropdownMenuItem>
+								)}
+								{/* Check the draft or pasted copy against the brand profile */}
+								{brandId && (
+									<DropdownMenuItem
+										onClick={() => setShowComplianceDialog(true)}
+										className="flex items-center gap-2"
+									>
+										<ShieldCheck className="size-4" />
+										<span>Check copy against brand</span>
+									</DropdownMenuItem>
+								)}
 								{/* Connections submenu - only show enabled servers */}
 								{mcpServers.filter(s => s.enabled).length > 0 && (
 									<DropdownMenuSub>
@@ -1022,13 +1153,16 @@ export function ChatInput({
 											<DropdownMenuItem
 												key={m.id}
 												onClick={() => onModelChange?.(m.id)}
+												disabled={!!getModelUnavailability(m.id)}
 												className="flex items-center justify-between gap-3"
 											>
 												<div className="flex items-center gap-3">
 													<m.icon />
 													<div className="flex flex-col">
 														<div className="font-medium text-sm">{m.name}</div>
-														<div className="text-xs text-muted-foreground">{m.provider}</div>
+														<div className="text-xs text-muted-foreground">
+															{getModelUnavailability(m.id)?.message || m.provider}
+														</div>
 													</div>
 												</div>
 												{model === m.id && <Check className="size-4 shrink-0" />}
@@ -1060,13 +1194,16 @@ export function ChatInput({
                       onModelChange?.(m.id);
                       setIsModelMenuOpen(false);
                     }}
+                    disabled={!!getModelUnavailability(m.id)}
                     className="flex items-center justify-between gap-3"
                   >
                     <div className="flex items-center gap-3">
                       <m.icon />
                       <div className="flex flex-col">
                         <div className="font-medium text-sm">{m.name}</div>
-                        <div className="text-xs text-muted-foreground">{m.provider}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {getModelUnavailability(m.id)?.message || m.provider}
+                        </div>
                       </div>
                     </div>
                     {model === m.id && <Check className="size-4 shrink-0" />}
@@ -1129,6 +1266,17 @@ export function ChatInput({
 							);
 						})()
 					)}
+					{/* Brand voice turned off chip */}
+					{!brandVoiceEnabled && onBrandVoiceChange && (
+						<button
+							onClick={() => onBrandVoiceChange(true)}
+							className="group ml-1 inline-flex items-center gap-1 rounded-full border border-border bg-muted px-2 py-0.5 text-[10px] text-foreground hover:bg-muted/80 transition-colors"
+						>
+							<Megaphone className="size-3" />
+							<span>Brand voice off</span>
+							<X className="size-3 opacity-0 group-hover:opacity-100 transition-opacity" />
+						</button>
+					)}
 					{/* Style selected chip */}
 					{currentConversationStylePreset && currentConversationStylePreset !== 'normal' && (
 						<button
@@ -1176,6 +1324,24 @@ export function ChatInput({
           </div>
         </div>
       </div>
+
+      {brandId && (
+        <BrandComplianceDialog
+          open={showComplianceDialog}
+          onOpenChange={setShowComplianceDialog}
+          brandId={brandId}
+          initialText={input}
+        />
+      )}
+      {brandId && (
+        <BrandAssetPickerDialog
+          open={showAssetPicker}
+          onOpenChange={setShowAssetPicker}
+          brandId={brandId}
+          acceptTypes={ALLOWED_IMAGE_TYPES}
+          onPick={handleAssetsPicked}
+        />
+      )}
     </div>
   );
 }
@@ -1,14 +1,15 @@
 'use client';
 
 import { cn } from '@/lib/utils';
-import { Sparkles, FileText, Copy, Check, Wrench, Loader2, CheckCircle, Share2, Users } from 'lucide-react';
+import { Sparkles, FileText, Copy, Check, Wrench, Loader2, CheckCircle, XCircle, Share2, Users, ChevronRight, BookOpen, Brain, ShieldCheck, ShieldAlert } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { useState, useCallback, ReactNode, useEffect, useRef } from 'react';
+import { useState, useCallback, ReactNode, useEffect, useRef, useId, useMemo } from 'react';
 import hljs from 'highlight.js/lib/core';
 import { motion, useSpring, useTransform } from 'motion/react';
 import { animate } from 'motion';
 import { LoadingJumpingDots } from './loading-dots';
+import { BrandComplianceDialog } from './brand-compliance-dialog';
 import {
   Dialog,
   DialogContent,
@@ -18,6 +19,11 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { describeSourceLocation, type ChatSource } from '@/lib/chat/sources';
+import type { StreamedMessageMetadata, ToolApprovalState, ToolInvocation } from '@/lib/chat/stream-events';
+import type { AssistantMessageStatus } from '@/lib/chat/assistant-message';
+import { getModelDefinition } from '@act/models';
 // Import common languages
 import javascript from 'highlight.js/lib/languages/javascript';
 import typescript from 'highlight.js/lib/languages/typescript';
@@ -147,39 +153,210 @@ export interface MessageAttachment {
   mimeType: string;
 }
 
-// Tool invocation from AI SDK
-export interface ToolInvocation {
-  toolCallId: string;
-  toolName: string;
-  args: Record<string, unknown>;
-  state: 'partial-call' | 'call' | 'result';
-  result?: unknown;
+export type { ToolInvocation };
+
+// Message metadata stored alongside the message
+export interface ChatMessageMetadata extends StreamedMessageMetadata {
+  type?: string; // For system messages
+  user_name?: string;
+}
+
+// Turn [n] citations into in-message links when a matching source exists
+function linkCitations(content: string, sources: ChatSource[], anchorPrefix: string): string {
+  if (sources.length === 0) return content;
+  const indexes = new Set(sources.map(s => s.index));
+  return content.replace(/\[(\d+)\](?![(:])/g, (match, n: string) =>
+    indexes.has(Number(n)) ? `[[${n}]](#${anchorPrefix}-${n})` : match
+  );
+}
+
+// Collapsible list of the sources an answer cites
+function MessageSources({
+  sources,
+  anchorPrefix,
+  open,
+  onOpenChange,
+}: {
+  sources: ChatSource[];
+  anchorPrefix: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Collapsible open={open} onOpenChange={onOpenChange}>
+      <CollapsibleTrigger className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors">
+        <ChevronRight className={cn('size-3.5 transition-transform', { 'rotate-90': open })} />
+        <BookOpen className="size-3.5" />
+        <span>{sources.length} {sources.length === 1 ? 'source' : 'sources'}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="mt-2 flex flex-col gap-1">
+          {sources.map((source) => (
+            <li
+              key={source.index}
+              id={`${anchorPrefix}-${source.index}`}
+              className="flex items-center gap-2 rounded-lg border border-border bg-muted/30 px-3 py-2 text-xs scroll-mt-4"
+            >
+              <span className="shrink-0 font-mono text-muted-foreground">[{source.index}]</span>
+              {source.type === 'brand_document' ? (
+                <BookOpen className="size-3.5 shrink-0 text-muted-foreground" />
+              ) : (
+                <FileText className="size-3.5 shrink-0 text-muted-foreground" />
+              )}
+              <span className="font-medium truncate">{source.title}</span>
+              <span className="text-muted-foreground shrink-0">{describeSourceLocation(source)}</span>
+              <span className="ml-auto text-muted-foreground/70 shrink-0">{Math.round(source.similarity * 100)}% match</span>
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function formatToolPayload(value: unknown): string {
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+const APPROVAL_OUTCOMES: Record<Exclude<ToolApprovalState['status'], 'pending'>, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  expired: 'Not approved in time',
+  cancelled: 'Cancelled',
+};
+
+// Approve or reject a tool call the reply is waiting on; the reply resumes once decided
+function ToolApprovalActions({ approval }: { approval: ToolApprovalState }) {
+  const [deciding, setDeciding] = useState<'approved' | 'rejected' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = async (decision: 'approved' | 'rejected') => {
+    setDeciding(decision);
+    setError(null);
+    try {
+      const response = await fetch('/api/chat/tool-approvals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approvalId: approval.id, decision }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save your decision');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your decision');
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={() => decide('approved')} disabled={deciding !== null}>
+          {deciding === 'approved' && <Loader2 className="size-3.5 mr-1 animate-spin" />}
+          Approve
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => decide('rejected')} disabled={deciding !== null}>
+          {deciding === 'rejected' && <Loader2 className="size-3.5 mr-1 animate-spin" />}
+          Reject
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Expires at {new Date(approval.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+    </div>
+  );
 }
 
-// Tool call display component
+// Tool call card; expands to show the call's input and output. Calls waiting for
+// approval stay open with the exact input and the approval buttons.
 function ToolCallDisplay({ invocation }: { invocation: ToolInvocation }) {
+  const awaitingApproval = invocation.approval?.status === 'pending';
+  const [open, setOpen] = useState(awaitingApproval);
   const isLoading = invocation.state === 'partial-call' || invocation.state === 'call';
-  const isComplete = invocation.state === 'result';
-  
+  const isError = invocation.state === 'error';
+  const hasArgs = Object.keys(invocation.args || {}).length > 0;
+
+  useEffect(() => {
+    if (awaitingApproval) setOpen(true);
+  }, [awaitingApproval]);
+
   return (
-    <div className="flex items-center gap-2 px-3 py-2 my-2 rounded-lg bg-muted/50 border border-border text-sm">
-      <div className="flex items-center gap-2 text-muted-foreground">
-        {isLoading ? (
+    <Collapsible open={open} onOpenChange={setOpen} className="my-2 rounded-lg bg-muted/50 border border-border text-sm">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-muted-foreground hover:text-foreground transition-colors">
+        <ChevronRight className={cn('size-3.5 transition-transform', { 'rotate-90': open })} />
+        {awaitingApproval ? (
+          <ShieldAlert className="size-4 text-amber-500" />
+        ) : isLoading ? (
           <Loader2 className="size-4 animate-spin text-blue-500" />
+        ) : isError ? (
+          <XCircle className="size-4 text-destructive" />
         ) : (
           <CheckCircle className="size-4 text-green-500" />
         )}
         <Wrench className="size-4" />
         <span className="font-medium">
-          {isLoading ? 'Calling' : 'Called'} <code className="bg-muted px-1 py-0.5 rounded text-xs">{invocation.toolName}</code>
+          {awaitingApproval ? 'Wants to call' : isLoading ? 'Calling' : 'Called'} <code className="bg-muted px-1 py-0.5 rounded text-xs">{invocation.mcpSource?.toolName ?? invocation.toolName}</code>
+          {invocation.mcpSource && (
+            <span className="font-normal"> on {invocation.mcpSource.serverName}</span>
+          )}
         </span>
-      </div>
-      {isComplete && (
         <span className="text-xs text-muted-foreground ml-auto">
-          ✓ Complete
+          {awaitingApproval
+            ? 'Needs approval'
+            : invocation.approval && invocation.approval.status !== 'approved'
+              ? APPROVAL_OUTCOMES[invocation.approval.status as keyof typeof APPROVAL_OUTCOMES]
+              : isLoading ? 'Running' : isError ? 'Failed' : '✓ Complete'}
         </span>
-      )}
-    </div>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="flex flex-col gap-2 px-3 pb-3">
+        {hasArgs && (
+          <div>
+            <div className="text-xs font-medium text-muted-foreground mb-1">Input</div>
+            <pre className="max-h-48 overflow-auto rounded bg-background p-2 text-xs font-mono">{formatToolPayload(invocation.args)}</pre>
+          </div>
+        )}
+        {invocation.state === 'result' && (
+          <div>
+            <div className="text-xs font-medium text-muted-foreground mb-1">Output</div>
+            <pre className="max-h-64 overflow-auto rounded bg-background p-2 text-xs font-mono">{formatToolPayload(invocation.result)}</pre>
+          </div>
+        )}
+        {isError && (
+          <div className="text-xs text-destructive">{invocation.errorText}</div>
+        )}
+        {awaitingApproval && <ToolApprovalActions approval={invocation.approval!} />}
+        {invocation.approval?.status === 'approved' && (
+          <div className="text-xs text-muted-foreground">Approved before it ran</div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+// Thinking streamed before the answer, hidden unless expanded
+function MessageReasoning({ reasoning, isStreaming }: { reasoning: string; isStreaming: boolean }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors">
+        <ChevronRight className={cn('size-3.5 transition-transform', { 'rotate-90': open })} />
+        <Brain className={cn('size-3.5', { 'animate-pulse': isStreaming })} />
+        <span>{isStreaming ? 'Thinking…' : open ? 'Hide thinking' : 'Show thinking'}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="mt-2 border-l-2 border-border pl-3 text-xs text-muted-foreground whitespace-pre-wrap">
+          {reasoning}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
   );
 }
 
@@ -191,9 +368,10 @@ interface TeamMember {
 }
 
 // Message action buttons (copy and share) for assistant messages
-function MessageActions({ content }: { content: string }) {
+function MessageActions({ content, brandId }: { content: string; brandId?: string }) {
   const [copied, setCopied] = useState(false);
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showComplianceDialog, setShowComplianceDialog] = useState(false);
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [selectedMembers, setSelectedMembers] = useState<Set<string>>(new Set());
   const [isLoadingMembers, setIsLoadingMembers] = useState(false);
@@ -294,8 +472,26 @@ function MessageActions({ content }: { content: string }) {
         >
           <Share2 className="size-4" />
         </button>
+        {brandId && (
+          <button
+            onClick={() => setShowComplianceDialog(true)}
+            className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded-md transition-colors"
+            title="Check against brand"
+          >
+            <ShieldCheck className="size-4" />
+          </button>
+        )}
       </div>
 
+      {brandId && (
+        <BrandComplianceDialog
+          open={showComplianceDialog}
+          onOpenChange={setShowComplianceDialog}
+          brandId={brandId}
+          initialText={content}
+        />
+      )}
+
       {/* Share Dialog with Team Member Selection */}
       <Dialog open={showShareDialog} onOpenChange={setShowShareDialog}>
         <DialogContent className="sm:max-w-md">
@@ -398,7 +594,10 @@ interface ChatMessageProps {
   isCurrentUser?: boolean;
   isCollaborative?: boolean;
   timestamp?: string; // ISO date string
-  metadata?: { type?: string; user_name?: string }; // For system messages
+  metadata?: ChatMessageMetadata;
+  status?: AssistantMessageStatus;
+  /** Enables the brand compliance check */
+  brandId?: string;
 }
 
 // Format timestamp for display
@@ -434,12 +633,29 @@ export function ChatMessage({
   isCollaborative = false,
   timestamp,
   metadata,
+  status,
+  brandId,
 }: ChatMessageProps) {
   const isUser = role === 'user';
   const isSystem = role === 'system';
   const hasAttachments = attachments && attachments.length > 0;
-  const hasToolCalls = toolInvocations && toolInvocations.length > 0;
+  const tools = toolInvocations ?? metadata?.tool_invocations ?? [];
+  const hasToolCalls = tools.length > 0;
   const formattedTime = formatMessageTime(timestamp);
+  const sources = useMemo(() => metadata?.sources ?? [], [metadata?.sources]);
+  const [sourcesOpen, setSourcesOpen] = useState(false);
+  const anchorPrefix = `source-${useId().replace(/:/g, '')}`;
+  const renderedContent = useMemo(
+    () => (isUser ? content : linkCitations(content, sources, anchorPrefix)),
+    [content, sources, anchorPrefix, isUser]
+  );
+
+  const scrollToSource = useCallback((anchorId: string) => {
+    setSourcesOpen(true);
+    requestAnimationFrame(() => {
+      document.getElementById(anchorId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    });
+  }, []);
   
   // Debug: Log all messages with their attachments
   console.log(`ChatMessage [${role}] content="${content?.slice(0,30)}..." hasAttachments=${hasAttachments}`);
@@ -540,15 +756,27 @@ export function ChatMessage({
             </div>
           )}
 
+          {/* Thinking */}
+          {!isUser && metadata?.reasoning && (
+            <MessageReasoning reasoning={metadata.reasoning} isStreaming={isStreaming && !content} />
+          )}
+
           {/* Tool invocations */}
           {hasToolCalls && (
             <div className="flex flex-col gap-1">
-              {toolInvocations.map((invocation) => (
+              {tools.map((invocation) => (
                 <ToolCallDisplay key={invocation.toolCallId} invocation={invocation} />
               ))}
             </div>
           )}
 
+          {/* Reply generating elsewhere that hasn't produced text yet */}
+          {!isUser && !content && status === 'streaming' && (
+            <div className="flex items-center gap-3 py-2">
+              <LoadingJumpingDots />
+            </div>
+          )}
+
           {/* Text content */}
           {content && (
             <div
@@ -612,8 +840,19 @@ export function ChatMessage({
                           {children}
                         </blockquote>
                       ),
-                      // Links
-                      a: ({ href, children }) => (
+                      // Links (citations jump to the source list below)
+                      a: ({ href, children }) => href?.startsWith(`#${anchorPrefix}-`) ? (
+                        <a
+                          href={href}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            scrollToSource(href.slice(1));
+                          }}
+                          className="text-xs align-super text-primary no-underline hover:underline"
+                        >
+                          {children}
+                        </a>
+                      ) : (
                         <a 
                           href={href} 
                           target="_blank" 
@@ -652,7 +891,7 @@ export function ChatMessage({
                       hr: () => <hr className="my-4 border-border" />,
                     }}
                   >
-                    {content}
+                    {renderedContent}
                   </ReactMarkdown>
                   {isStreaming && (
                     <span className="inline-block w-1 h-4 ml-0.5 bg-current animate-pulse" />
@@ -662,9 +901,33 @@ export function ChatMessage({
             </div>
           )}
 
+          {/* Sources cited by the answer */}
+          {!isUser && sources.length > 0 && !isStreaming && (
+            <MessageSources
+              sources={sources}
+              anchorPrefix={anchorPrefix}
+              open={sourcesOpen}
+              onOpenChange={setSourcesOpen}
+            />
+          )}
+
+          {/* Reply cut short by a stop, a dropped connection or a provider error */}
+          {!isUser && status === 'interrupted' && !isStreaming && (
+            <p className="text-xs text-muted-foreground">
+              {metadata?.error ? `Response interrupted: ${metadata.error}` : 'Response interrupted'} · use Regenerate to try again
+            </p>
+          )}
+
+          {/* Note when a fallback model answered instead of the selected one */}
+          {!isUser && metadata?.model?.fallbackFrom && !isStreaming && (
+            <p className="text-xs text-muted-foreground">
+              Answered by {metadata.model.name} ({getModelDefinition(metadata.model.fallbackFrom)?.name ?? metadata.model.fallbackFrom} was unavailable)
+            </p>
+          )}
+
           {/* Action buttons for assistant messages */}
           {!isUser && content && !isStreaming && (
-            <MessageActions content={content} />
+            <MessageActions content={content} brandId={brandId} />
           )}
         </div>
       </div>
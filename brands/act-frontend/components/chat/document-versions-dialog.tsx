@@ -0,0 +1,228 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronRight, History, Loader2, RotateCcw, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { createClient } from '@/lib/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  listDocumentVersions,
+  restoreDocumentVersion,
+  uploadDocumentVersion,
+  type DocumentTextDiff,
+  type DocumentVersion,
+  type VersionedDocument,
+} from '@/lib/document-versions';
+
+interface DocumentVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: VersionedDocument;
+  /** Shown under the title, usually the file name */
+  title: string;
+  /** File types accepted for new versions */
+  accept?: string;
+  /** Called after a new version is uploaded or an earlier one restored */
+  onChanged?: () => void;
+}
+
+function DiffView({ diff }: { diff: DocumentTextDiff }) {
+  if (diff.hunks.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {diff.added + diff.removed === 0 ? 'The extracted text is unchanged.' : 'Too many changes to show line by line.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {diff.hunks.map((hunk, i) => (
+        <pre key={i} className="overflow-x-auto rounded-md border bg-muted/30 text-xs leading-5">
+          <div className="px-2 text-muted-foreground">
+            @@ line {hunk.oldStart} → {hunk.newStart} @@
+          </div>
+          {hunk.lines.map((line, j) => (
+            <div
+              key={j}
+              className={cn(
+                'px-2 whitespace-pre-wrap break-words',
+                line.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+                line.type === 'removed' && 'bg-red-500/10 text-red-700 dark:text-red-400'
+              )}
+            >
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+              {line.text}
+            </div>
+          ))}
+        </pre>
+      ))}
+      {diff.truncated && <p className="text-xs text-muted-foreground">Only the first changes are shown.</p>}
+    </div>
+  );
+}
+
+export function DocumentVersionsDialog({
+  open,
+  onOpenChange,
+  document,
+  title,
+  accept,
+  onChanged,
+}: DocumentVersionsDialogProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    const { versions, error } = await listDocumentVersions(supabase, document.kind, document.id);
+    setVersions(versions);
+    setError(error);
+    setIsLoading(false);
+  }, [supabase, document.kind, document.id]);
+
+  useEffect(() => {
+    if (open) loadVersions();
+  }, [open, loadVersions]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const { error } = await uploadDocumentVersion(supabase, document, file);
+      if (error) {
+        setError(error);
+        return;
+      }
+      await loadVersions();
+      onChanged?.();
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleRestore = async (version: DocumentVersion) => {
+    setRestoringId(version.id);
+    setError(null);
+    try {
+      const { error } = await restoreDocumentVersion(supabase, document, version.id);
+      if (error) {
+        setError(error);
+        return;
+      }
+      await loadVersions();
+      onChanged?.();
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const isBusy = isUploading || restoringId !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version history
+          </DialogTitle>
+          <DialogDescription className="truncate">{title}</DialogDescription>
+        </DialogHeader>
+
+        <input ref={fileInputRef} type="file" className="hidden" accept={accept} onChange={handleUpload} />
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-2">
+            <Button onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+              {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Upload new version
+            </Button>
+            <span className="text-xs text-muted-foreground">Earlier versions are kept and can be restored.</span>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {isLoading && versions.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No versions yet. The file is still being processed.</p>
+          ) : (
+            <ul className="space-y-2">
+              {versions.map((version) => (
+                <li key={version.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 text-sm font-medium">
+                        Version {version.version}
+                        {version.isActive && (
+                          <span className="rounded-full bg-primary/10 px-2 py-0.5 text-xs font-normal text-primary">
+                            Active
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {version.name} · {version.uploaderName || 'Unknown uploader'} ·{' '}
+                        {new Date(version.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    {!version.isActive && (
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(version)} disabled={isBusy}>
+                        {restoringId === version.id ? (
+                          <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                        ) : (
+                          <RotateCcw className="mr-2 h-3 w-3" />
+                        )}
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+
+                  {version.text_diff ? (
+                    <>
+                      <button
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                        onClick={() => setExpandedId(expandedId === version.id ? null : version.id)}
+                      >
+                        <ChevronRight
+                          className={cn('h-3 w-3 transition-transform', expandedId === version.id && 'rotate-90')}
+                        />
+                        <span className="text-green-600 dark:text-green-400">+{version.text_diff.added}</span>
+                        <span className="text-red-600 dark:text-red-400">−{version.text_diff.removed}</span>
+                        <span>lines compared with the version it replaced</span>
+                      </button>
+                      {expandedId === version.id && <DiffView diff={version.text_diff} />}
+                    </>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">First version</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import type { MCPToolInfo } from '@/lib/mcp/types';
 
 // MCP server-based suggestions - keyed by common server name patterns
 const MCP_SUGGESTIONS: Record<string, Array<{ title: string; label: string }>> = {
@@ -245,14 +246,6 @@ function getSuggestionsForContext(
   return { suggestions: getSuggestedActionsForRole(jobFunction), source: 'role' };
 }
 
-// Tool info type
-interface MCPToolInfo {
-  serverId: string;
-  serverName: string;
-  toolName: string;
-  description?: string;
-}
-
 // Generate dynamic suggestions based on actual MCP tools - using tool names directly
 function generateToolBasedSuggestions(tools: MCPToolInfo[]): Array<{ title: string; label: string }> {
   const suggestions: Array<{ title: string; label: string }> = [];
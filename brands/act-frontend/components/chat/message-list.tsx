@@ -2,8 +2,9 @@
 
 import { useRef, useEffect, useState, useCallback } from 'react';
 import { ArrowDown, Wrench, Loader2, Sparkles } from 'lucide-react';
-import { ChatMessage, ThinkingMessage, type MessageAttachment, type ToolInvocation } from './chat-message';
+import { ChatMessage, ThinkingMessage, type MessageAttachment, type ToolInvocation, type ChatMessageMetadata } from './chat-message';
 import { Greeting } from './greeting';
+import type { AssistantMessageStatus } from '@/lib/chat/assistant-message';
 
 interface Message {
   id: string;
@@ -17,7 +18,8 @@ interface Message {
   sender_email?: string;
   is_current_user?: boolean;
   created_at?: string;
-  metadata?: { type?: string; user_name?: string };
+  metadata?: ChatMessageMetadata;
+  status?: AssistantMessageStatus;
 }
 
 interface MessageListProps {
@@ -25,10 +27,12 @@ interface MessageListProps {
   isLoading?: boolean;
   isStreaming?: boolean;
   streamingContent?: string;
+  streamingMetadata?: ChatMessageMetadata;
   activeToolCall?: string | null;
   isDeepResearchActive?: boolean;
   userName?: string;
   isCollaborativeChat?: boolean;
+  brandId?: string;
 }
 
 export function MessageList({
@@ -36,10 +40,12 @@ export function MessageList({
   isLoading = false,
   isStreaming = false,
   streamingContent,
+  streamingMetadata,
   activeToolCall,
   isDeepResearchActive = false,
   userName,
   isCollaborativeChat = false,
+  brandId,
 }: MessageListProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const endRef = useRef<HTMLDivElement>(null);
@@ -87,7 +93,7 @@ export function MessageList({
               content={message.content}
               attachments={message.attachments}
               toolInvocations={message.toolInvocations}
-              isStreaming={isStreaming && index === messages.length - 1 && message.role === 'assistant'}
+              isStreaming={message.status === 'streaming' || (isStreaming && index === messages.length - 1 && message.role === 'assistant')}
               // Collaborative chat props
               senderName={message.sender_name}
               senderEmail={message.sender_email}
@@ -95,6 +101,8 @@ export function MessageList({
               isCollaborative={isCollaborativeChat}
               timestamp={message.created_at}
               metadata={message.metadata}
+              status={message.status}
+              brandId={brandId}
             />
           ))}
 
@@ -103,6 +111,7 @@ export function MessageList({
               role="assistant"
               content={streamingContent}
               isStreaming={true}
+              metadata={streamingMetadata}
             />
           )}
 
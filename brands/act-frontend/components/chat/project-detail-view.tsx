@@ -1,9 +1,15 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { FolderOpen, Plus, File, Upload, X, Loader2, ChevronRight, FileText } from 'lucide-react';
+import { FolderOpen, Plus, File, Upload, X, Loader2, ChevronRight, FileText, History, RotateCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import {
+  describeFileProcessingJob,
+  isFileProcessingJobActive,
+  type FileProcessingJob,
+} from '@/lib/file-processing-jobs';
+import { DocumentVersionsDialog } from './document-versions-dialog';
 
 interface ProjectFile {
   id: string;
@@ -42,8 +48,17 @@ interface ProjectDetailViewProps {
   onSelectConversation: (id: string) => void;
   onUploadFile?: (file: File) => Promise<void>;
   onDeleteFile?: (fileId: string) => Promise<void>;
+  /** Called after a new version of a file is uploaded or an earlier one restored */
+  onFileVersionChanged?: (fileId: string) => void;
+  /** Latest processing job of each file, by file id */
+  fileJobs?: Record<string, FileProcessingJob>;
+  /** Re-enqueue a file whose processing failed */
+  onRetryFile?: (fileId: string) => Promise<void>;
+  brandId?: string;
 }
 
+const FILE_ACCEPT = '.txt,.md,.csv,.pdf,.json,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.png,.jpg,.jpeg,.webp,.gif';
+
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -64,10 +79,16 @@ export function ProjectDetailView({
   onSelectConversation,
   onUploadFile,
   onDeleteFile,
+  onFileVersionChanged,
+  fileJobs,
+  onRetryFile,
+  brandId,
 }: ProjectDetailViewProps) {
   const [newChatInput, setNewChatInput] = useState('');
   const [showFiles, setShowFiles] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [versionsFile, setVersionsFile] = useState<ProjectFile | null>(null);
+  const [retryingFileId, setRetryingFileId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Filter conversations for this project
@@ -85,6 +106,17 @@ export function ProjectDetailView({
     }
   };
 
+  const handleRetryFile = async (fileId: string) => {
+    if (!onRetryFile) return;
+
+    setRetryingFileId(fileId);
+    try {
+      await onRetryFile(fileId);
+    } finally {
+      setRetryingFileId(null);
+    }
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !onUploadFile) return;
@@ -116,7 +148,7 @@ export function ProjectDetailView({
         ref={fileInputRef}
         type="file"
         className="hidden"
-        accept=".txt,.md,.csv,.pdf,.json,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
+        accept={FILE_ACCEPT}
         onChange={handleFileUpload}
       />
 
@@ -231,38 +263,86 @@ export function ProjectDetailView({
                 {files.length === 0 && (
                   <p className="text-xs text-muted-foreground px-3 py-2">No files added yet</p>
                 )}
-                {files.map((file) => (
-                  <div
-                    key={file.id}
-                    className="flex items-center justify-between px-3 py-2 rounded-lg bg-muted/30 hover:bg-muted/50"
-                  >
-                    <div className="flex items-center gap-2 flex-1 min-w-0">
-                      <File className="h-4 w-4 text-muted-foreground shrink-0" />
-                      <span className="text-sm truncate">{file.name}</span>
-                      {file.status === 'processing' && (
-                        <Loader2 className="h-3 w-3 animate-spin text-muted-foreground shrink-0" />
-                      )}
-                      {file.status === 'ready' && (
-                        <span className="text-xs text-green-600 shrink-0">✓</span>
-                      )}
-                      {file.status === 'error' && (
-                        <span className="text-xs text-destructive shrink-0">!</span>
+                {files.map((file) => {
+                  const job = fileJobs?.[file.id];
+                  const isProcessing = job ? isFileProcessingJobActive(job) : file.status === 'processing';
+                  const hasFailed = !isProcessing && (job?.status === 'dead' || file.status === 'error');
+
+                  return (
+                    <div key={file.id} className="px-3 py-2 rounded-lg bg-muted/30 hover:bg-muted/50">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2 flex-1 min-w-0">
+                          <File className="h-4 w-4 text-muted-foreground shrink-0" />
+                          <span className="text-sm truncate">{file.name}</span>
+                          {isProcessing && (
+                            <Loader2 className="h-3 w-3 animate-spin text-muted-foreground shrink-0" />
+                          )}
+                          {!isProcessing && file.status === 'ready' && (
+                            <span className="text-xs text-green-600 shrink-0">✓</span>
+                          )}
+                          {hasFailed && (
+                            <span className="text-xs text-destructive shrink-0">!</span>
+                          )}
+                        </div>
+                        {hasFailed && onRetryFile && (
+                          <button
+                            className="text-muted-foreground hover:text-foreground transition-colors ml-2 disabled:opacity-50"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRetryFile(file.id);
+                            }}
+                            disabled={retryingFileId === file.id}
+                            title="Retry processing"
+                          >
+                            <RotateCw className={cn("h-4 w-4", retryingFileId === file.id && "animate-spin")} />
+                          </button>
+                        )}
+                        {brandId && (
+                          <button
+                            className="text-muted-foreground hover:text-foreground transition-colors ml-2"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setVersionsFile(file);
+                            }}
+                            title="Version history"
+                          >
+                            <History className="h-4 w-4" />
+                          </button>
+                        )}
+                        {onDeleteFile && (
+                          <button
+                            className="text-muted-foreground hover:text-destructive transition-colors ml-2"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onDeleteFile(file.id);
+                            }}
+                            title="Remove file"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                      {job && (isProcessing || hasFailed) && (
+                        <div className="ml-6 mt-1 space-y-1">
+                          <p
+                            className={cn("text-xs truncate", hasFailed ? "text-destructive" : "text-muted-foreground")}
+                            title={job.last_error ?? undefined}
+                          >
+                            {describeFileProcessingJob(job)}
+                          </p>
+                          {job.status === 'running' && (
+                            <div className="h-1 rounded-full bg-muted overflow-hidden">
+                              <div
+                                className="h-full bg-primary transition-all"
+                                style={{ width: `${job.progress}%` }}
+                              />
+                            </div>
+                          )}
+                        </div>
                       )}
                     </div>
-                    {onDeleteFile && (
-                      <button
-                        className="text-muted-foreground hover:text-destructive transition-colors ml-2"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onDeleteFile(file.id);
-                        }}
-                        title="Remove file"
-                      >
-                        <X className="h-4 w-4" />
-                      </button>
-                    )}
-                  </div>
-                ))}
+                  );
+                })}
                 
                 {/* Add file button */}
                 {onUploadFile && (
@@ -285,6 +365,17 @@ export function ProjectDetailView({
         )}
       </div>
       </div>
+
+      {brandId && versionsFile && (
+        <DocumentVersionsDialog
+          open={!!versionsFile}
+          onOpenChange={(open) => !open && setVersionsFile(null)}
+          document={{ kind: 'project_file', id: versionsFile.id, brandId, projectId: project.id }}
+          title={versionsFile.name}
+          accept={FILE_ACCEPT}
+          onChanged={() => onFileVersionChanged?.(versionsFile.id)}
+        />
+      )}
     </div>
   );
 }
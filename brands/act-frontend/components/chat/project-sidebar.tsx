@@ -1406,7 +1406,7 @@ function ProjectItem({
         ref={fileInputRef}
         type="file"
         className="hidden"
-        accept=".txt,.md,.csv,.pdf,.json,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
+        accept=".txt,.md,.csv,.pdf,.json,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.png,.jpg,.jpeg,.webp,.gif"
         onChange={handleFileUpload}
       />
 
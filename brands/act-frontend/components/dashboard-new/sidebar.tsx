@@ -46,6 +46,7 @@ import {
   Moon,
   Check,
   Plus,
+  Library,
 } from "lucide-react";
 import { useTheme } from "next-themes";
 import { NotificationBell } from "@/components/notifications";
@@ -66,6 +67,11 @@ const menuItems = [
     icon: Settings,
     href: "/dashboard/brand-configuration",
   },
+  {
+    title: "Asset Library",
+    icon: Library,
+    href: "/dashboard/assets",
+  },
 ];
 
 const folders = [
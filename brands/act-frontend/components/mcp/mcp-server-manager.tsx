@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { 
   Server, 
   Plus, 
@@ -14,7 +14,9 @@ import {
   ChevronDown,
   ChevronUp,
   ExternalLink,
-  Pencil
+  Pencil,
+  KeyRound,
+  AlertTriangle
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -35,7 +37,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { useMCPServers, type MCPServerConfig, type MCPTransportType, type MCPAuthType } from '@/lib/mcp';
+import { useMCPServers, type PublicMCPServerConfig, type MCPTransportType, type MCPAuthType, type MCPToolPolicy } from '@/lib/mcp';
+import { findMCPToolCollisions, type MCPToolCollision } from '@/lib/mcp/tool-names';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { cn } from '@/lib/utils';
 
@@ -52,14 +55,67 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
     updateServer,
     deleteServer,
     testConnection,
+    connectOAuth,
+    fetchTools,
   } = useMCPServers({ brandId });
 
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
-  const [editingServer, setEditingServer] = useState<MCPServerConfig | null>(null);
+  const [editingServer, setEditingServer] = useState<PublicMCPServerConfig | null>(null);
   const [expandedServer, setExpandedServer] = useState<string | null>(null);
   const [testingServer, setTestingServer] = useState<string | null>(null);
   const [testResults, setTestResults] = useState<Record<string, { success: boolean; message: string; tools?: string[] }>>({});
+  const [connectingServer, setConnectingServer] = useState<string | null>(null);
+  const [oauthNotice, setOauthNotice] = useState<{ success: boolean; message: string } | null>(null);
+  const [toolCollisions, setToolCollisions] = useState<MCPToolCollision[]>([]);
+  // Tool names of expanded servers, for setting their policies
+  const [serverTools, setServerTools] = useState<Record<string, string[]>>({});
+
+  // Tools with the same name on several enabled servers; the chat keeps both, namespaced by
+  // server, but admins should know the model has to pick between them
+  const enabledServerIds = servers.filter((server) => server.enabled).map((server) => server.id).join(',');
+  useEffect(() => {
+    const serverIds = enabledServerIds.split(',').filter(Boolean);
+    if (serverIds.length < 2) {
+      setToolCollisions([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchTools(serverIds).then(({ tools }) => {
+      if (!cancelled) setToolCollisions(findMCPToolCollisions(tools));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabledServerIds, fetchTools]);
+
+  // The OAuth callback redirects back here with the outcome in the query string
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const connected = params.get('mcp_oauth') === 'connected';
+    const oauthError = params.get('mcp_oauth_error');
+    if (!connected && !oauthError) return;
+
+    setOauthNotice(connected
+      ? { success: true, message: 'MCP server connected' }
+      : { success: false, message: oauthError! });
+
+    params.delete('mcp_oauth');
+    params.delete('mcp_oauth_error');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, []);
+
+  // Load the tools of a server when it is expanded; only enabled servers are listed
+  const expanded = servers.find((server) => server.id === expandedServer);
+  const expandedToolsId = expanded?.enabled && !serverTools[expanded.id] ? expanded.id : null;
+  useEffect(() => {
+    if (!expandedToolsId) return;
+    fetchTools([expandedToolsId]).then(({ tools }) => {
+      setServerTools(prev => ({ ...prev, [expandedToolsId]: tools.map((tool) => tool.toolName) }));
+    });
+  }, [expandedToolsId, fetchTools]);
 
   // Form state for new server
   const [formData, setFormData] = useState({
@@ -91,12 +147,11 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
       transport_type: formData.transport_type,
       auth_type: formData.auth_type,
       has_auth_token: !!formData.auth_token,
-      auth_token_length: formData.auth_token?.length || 0,
     });
 
     setIsSubmitting(true);
     try {
-      await createServer({
+      const server = await createServer({
         name: formData.name,
         description: formData.description || undefined,
         transport_type: formData.transport_type,
@@ -114,19 +169,28 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
         auth_type: 'none',
         auth_token: '',
       });
+      // OAuth servers are connected by signing in with their authorization server
+      if (server?.auth_type === 'oauth') {
+        await handleConnectOAuth(server);
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleTestConnection = async (server: MCPServerConfig) => {
+  const handleConnectOAuth = async (server: PublicMCPServerConfig) => {
+    setConnectingServer(server.id);
+    setOauthNotice(null);
+    const result = await connectOAuth(server.id);
+    if (result.error) {
+      setOauthNotice({ success: false, message: `${server.name}: ${result.error}` });
+      setConnectingServer(null);
+    }
+  };
+
+  const handleTestConnection = async (server: PublicMCPServerConfig) => {
     setTestingServer(server.id);
-    const result = await testConnection({
-      transport_type: server.transport_type,
-      url: server.url,
-      auth_type: server.auth_type,
-      auth_token_encrypted: server.auth_token_encrypted,
-    });
+    const result = await testConnection(server.id);
     setTestResults(prev => ({
       ...prev,
       [server.id]: {
@@ -138,11 +202,20 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
     setTestingServer(null);
   };
 
-  const handleToggleEnabled = async (server: MCPServerConfig) => {
+  const handleToolPolicyChange = async (server: PublicMCPServerConfig, toolName: string, policy: MCPToolPolicy) => {
+    // Tools without a policy run automatically
+    const policies = Object.fromEntries(
+      Object.entries(server.tool_policies ?? {}).filter(([name]) => name !== toolName)
+    );
+    if (policy !== 'auto') policies[toolName] = policy;
+    await updateServer(server.id, { tool_policies: policies });
+  };
+
+  const handleToggleEnabled = async (server: PublicMCPServerConfig) => {
     await updateServer(server.id, { enabled: !server.enabled });
   };
 
-  const handleEditServer = (server: MCPServerConfig) => {
+  const handleEditServer = (server: PublicMCPServerConfig) => {
     setEditingServer(server);
     setEditFormData({
       name: server.name,
@@ -167,7 +240,7 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
         url: editFormData.url,
         auth_type: editFormData.auth_type,
         // Only update token if a new one was entered
-        ...(editFormData.auth_token ? { auth_token_encrypted: editFormData.auth_token } : {}),
+        ...(editFormData.auth_token ? { auth_token: editFormData.auth_token } : {}),
       });
       setShowEditDialog(false);
       setEditingServer(null);
@@ -274,10 +347,16 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
                     <SelectItem value="none">None</SelectItem>
                     <SelectItem value="bearer">Bearer Token</SelectItem>
                     <SelectItem value="api_key">API Key</SelectItem>
+                    <SelectItem value="oauth">OAuth</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
-              {formData.auth_type !== 'none' && (
+              {formData.auth_type === 'oauth' && (
+                <p className="text-xs text-muted-foreground">
+                  You&apos;ll be asked to sign in with the server&apos;s provider after adding it
+                </p>
+              )}
+              {(formData.auth_type === 'bearer' || formData.auth_type === 'api_key') && (
                 <div className="space-y-2">
                   <Label htmlFor="token">
                     {formData.auth_type === 'bearer' ? 'Bearer Token' : 'API Key'}
@@ -316,6 +395,46 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
         </div>
       )}
 
+      {oauthNotice && (
+        <div className={cn(
+          "p-3 rounded-lg text-sm flex items-center gap-2",
+          oauthNotice.success
+            ? "bg-green-500/10 text-green-600"
+            : "bg-destructive/10 text-destructive"
+        )}>
+          {oauthNotice.success ? (
+            <CheckCircle className="size-4" />
+          ) : (
+            <XCircle className="size-4" />
+          )}
+          {oauthNotice.message}
+        </div>
+      )}
+
+      {toolCollisions.length > 0 && (
+        <div className="p-3 rounded-lg text-sm bg-amber-500/10 text-amber-700 dark:text-amber-400 space-y-1">
+          <div className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="size-4" />
+            Some servers have tools with the same name
+          </div>
+          <ul className="pl-6 list-disc space-y-0.5">
+            {toolCollisions.map((collision) => (
+              <li key={collision.toolName}>
+                <code className="text-xs">{collision.toolName}</code> is on{' '}
+                {collision.servers.map((server) => server.name).join(', ')}. The assistant sees them as{' '}
+                {collision.servers.map((server, index) => (
+                  <span key={server.id}>
+                    {index > 0 && ', '}
+                    <code className="text-xs">{server.chatToolName}</code>
+                  </span>
+                ))}
+                .
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {servers.length === 0 ? (
         <div className="border rounded-lg p-8 text-center">
           <Server className="size-12 mx-auto text-muted-foreground mb-4" />
@@ -348,10 +467,27 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
                     <div className="font-medium">{server.name}</div>
                     <div className="text-sm text-muted-foreground">
                       {server.transport_type.toUpperCase()} • {server.url}
+                      {server.auth_token_masked && ` • Token ${server.auth_token_masked}`}
+                      {server.auth_type === 'oauth' && (server.oauth_connected ? ' • Connected' : ' • Not connected')}
                     </div>
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
+                  {(server.auth_type === 'oauth' || server.auth_type === 'smithery') && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleConnectOAuth(server)}
+                      disabled={connectingServer === server.id}
+                      title={server.oauth_connected ? 'Reconnect' : 'Connect'}
+                    >
+                      {connectingServer === server.id ? (
+                        <Loader2 className="size-4 animate-spin" />
+                      ) : (
+                        <KeyRound className="size-4" />
+                      )}
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
@@ -445,6 +581,11 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
                       <div>{server.timeout_ms}ms</div>
                     </div>
                   </div>
+                  <ToolPolicyList
+                    server={server}
+                    toolNames={serverTools[server.id]}
+                    onChange={(toolName, policy) => handleToolPolicyChange(server, toolName, policy)}
+                  />
                   {testResults[server.id]?.tools && testResults[server.id].tools!.length > 0 && (
                     <div>
                       <div className="text-xs font-medium text-muted-foreground mb-1">Available Tools</div>
@@ -536,6 +677,11 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
                 value={editFormData.url}
                 onChange={(e) => setEditFormData({ ...editFormData, url: e.target.value })}
               />
+              {editingServer && editFormData.url !== (editingServer.url || '') && (
+                <p className="text-xs text-amber-700 dark:text-amber-400">
+                  Saving a new URL removes the saved token and OAuth connection; enter or connect them again
+                </p>
+              )}
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-auth">Authentication</Label>
@@ -550,10 +696,16 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
                   <SelectItem value="none">None</SelectItem>
                   <SelectItem value="bearer">Bearer Token</SelectItem>
                   <SelectItem value="api_key">API Key</SelectItem>
+                  <SelectItem value="oauth">OAuth</SelectItem>
                 </SelectContent>
               </Select>
             </div>
-            {editFormData.auth_type !== 'none' && (
+            {editFormData.auth_type === 'oauth' && (
+              <p className="text-xs text-muted-foreground">
+                Save, then use Connect in the server list to sign in with the server&apos;s provider
+              </p>
+            )}
+            {(editFormData.auth_type === 'bearer' || editFormData.auth_type === 'api_key') && (
               <div className="space-y-2">
                 <Label htmlFor="edit-token">
                   {editFormData.auth_type === 'bearer' ? 'Bearer Token' : 'API Key'}
@@ -561,7 +713,9 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
                 <Input
                   id="edit-token"
                   type="password"
-                  placeholder="Leave blank to keep existing token"
+                  placeholder={editingServer?.auth_token_masked
+                    ? `Leave blank to keep ${editingServer.auth_token_masked}`
+                    : 'Leave blank to keep existing token'}
                   value={editFormData.auth_token}
                   onChange={(e) => setEditFormData({ ...editFormData, auth_token: e.target.value })}
                 />
@@ -590,3 +744,54 @@ export function MCPServerManager({ brandId }: MCPServerManagerProps) {
     </div>
   );
 }
+
+// Policy per tool of a server. `toolNames` is undefined while the tools load.
+function ToolPolicyList({
+  server,
+  toolNames,
+  onChange,
+}: {
+  server: PublicMCPServerConfig;
+  toolNames?: string[];
+  onChange: (toolName: string, policy: MCPToolPolicy) => void;
+}) {
+  // Denied tools are no longer listed by the server's tools, so add them back
+  const names = Array.from(new Set([
+    ...(toolNames ?? []),
+    ...Object.keys(server.tool_policies ?? {}),
+  ])).sort();
+
+  return (
+    <div>
+      <div className="text-xs font-medium text-muted-foreground mb-1">Tool Approval</div>
+      {names.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          {!server.enabled
+            ? 'Enable the server to set policies for its tools'
+            : toolNames ? 'This server has no tools' : 'Loading tools…'}
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {names.map((toolName) => (
+            <div key={toolName} className="flex items-center justify-between gap-2">
+              <code className="text-xs truncate">{toolName}</code>
+              <Select
+                value={server.tool_policies?.[toolName] ?? 'auto'}
+                onValueChange={(value) => onChange(toolName, value as MCPToolPolicy)}
+              >
+                <SelectTrigger className="h-7 w-40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Run automatically</SelectItem>
+                  <SelectItem value="ask">Ask for approval</SelectItem>
+                  <SelectItem value="deny">Never run</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ModelSettingsManager } from './model-settings-manager';
@@ -0,0 +1,269 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bot, ChevronDown, ChevronUp, Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MODELS, getAvailableModels, type ModelId } from '@act/models';
+import type { ChatModelsResponse } from '@/lib/chat/model-policy';
+
+interface ModelSettingsManagerProps {
+  brandId: string;
+}
+
+const SELECTABLE_MODELS = getAvailableModels();
+
+export function ModelSettingsManager({ brandId }: ModelSettingsManagerProps) {
+  const [settings, setSettings] = useState<ChatModelsResponse | null>(null);
+  const [allowedModels, setAllowedModels] = useState<ModelId[]>([]);
+  const [defaultModel, setDefaultModel] = useState<ModelId | null>(null);
+  const [fallbackModels, setFallbackModels] = useState<ModelId[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const applySettings = (data: ChatModelsResponse) => {
+    setSettings(data);
+    setAllowedModels(data.allowedModels);
+    setDefaultModel(data.defaultModel);
+    setFallbackModels(data.fallbackModels);
+  };
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/chat/models?brandId=${brandId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load model settings');
+        }
+        applySettings(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load model settings');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, [brandId]);
+
+  const toggleAllowed = (modelId: ModelId, allowed: boolean) => {
+    const next = allowed
+      ? SELECTABLE_MODELS.map(m => m.id).filter(id => id === modelId || allowedModels.includes(id))
+      : allowedModels.filter(id => id !== modelId);
+    setAllowedModels(next);
+    setFallbackModels(prev => prev.filter(id => next.includes(id)));
+    if (defaultModel && !next.includes(defaultModel)) {
+      setDefaultModel(next[0] ?? null);
+    }
+    setSaved(false);
+  };
+
+  const moveFallback = (index: number, direction: -1 | 1) => {
+    setFallbackModels(prev => {
+      const next = [...prev];
+      const [model] = next.splice(index, 1);
+      next.splice(index + direction, 0, model);
+      return next;
+    });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      // Allowing every model is stored as "no restriction" so new models are picked up
+      const allowsEverything = SELECTABLE_MODELS.every(m => allowedModels.includes(m.id));
+      const response = await fetch('/api/chat/models', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          brandId,
+          allowedModels: allowsEverything ? [] : allowedModels,
+          defaultModel: defaultModel ?? undefined,
+          fallbackModels,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save model settings');
+      }
+      applySettings(data);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save model settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="size-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!settings) {
+    return (
+      <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+        {error || 'Unable to load model settings.'}
+      </div>
+    );
+  }
+
+  const canEdit = settings.canEdit;
+  const availableFallbacks = allowedModels.filter(id => !fallbackModels.includes(id));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">AI Models</h3>
+        <p className="text-sm text-muted-foreground">
+          Choose which models your team can use in chat
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Allowed models</Label>
+        <div className="border rounded-lg divide-y">
+          {SELECTABLE_MODELS.map((model) => {
+            const availability = settings.models.find(m => m.id === model.id);
+            return (
+              <label key={model.id} className="flex items-center gap-3 p-3 cursor-pointer">
+                <Checkbox
+                  checked={allowedModels.includes(model.id)}
+                  onCheckedChange={(checked) => toggleAllowed(model.id, checked === true)}
+                  disabled={!canEdit}
+                />
+                <Bot className="size-4 text-muted-foreground" />
+                <div className="flex-1">
+                  <div className="font-medium text-sm">{model.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {model.contextWindow.toLocaleString()} token context · ${model.pricing.input} / ${model.pricing.output} per 1M tokens
+                  </div>
+                </div>
+                {availability?.reason === 'provider_not_configured' && (
+                  <span className="text-xs text-muted-foreground">{availability.message}</span>
+                )}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Default model</Label>
+        <Select
+          value={defaultModel ?? undefined}
+          onValueChange={(value) => {
+            setDefaultModel(value as ModelId);
+            setSaved(false);
+          }}
+          disabled={!canEdit || allowedModels.length === 0}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Select a model" />
+          </SelectTrigger>
+          <SelectContent>
+            {allowedModels.map((id) => (
+              <SelectItem key={id} value={id}>{MODELS[id].name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">Used for new conversations</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Fallback models</Label>
+        <p className="text-xs text-muted-foreground">
+          Tried in order when the selected model&apos;s provider is unavailable or keeps failing
+        </p>
+        {fallbackModels.length > 0 && (
+          <div className="border rounded-lg divide-y">
+            {fallbackModels.map((id, index) => (
+              <div key={id} className="flex items-center gap-3 p-3">
+                <span className="text-xs text-muted-foreground w-4">{index + 1}</span>
+                <span className="flex-1 text-sm">{MODELS[id].name}</span>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" className="size-7" disabled={index === 0} onClick={() => moveFallback(index, -1)}>
+                      <ChevronUp className="size-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="size-7" disabled={index === fallbackModels.length - 1} onClick={() => moveFallback(index, 1)}>
+                      <ChevronDown className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7"
+                      onClick={() => {
+                        setFallbackModels(prev => prev.filter(m => m !== id));
+                        setSaved(false);
+                      }}
+                    >
+                      <X className="size-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {canEdit && availableFallbacks.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(value) => {
+              setFallbackModels(prev => [...prev, value as ModelId]);
+              setSaved(false);
+            }}
+          >
+            <SelectTrigger className="w-56">
+              <Plus className="size-4 mr-2" />
+              <SelectValue placeholder="Add fallback model" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableFallbacks.map((id) => (
+                <SelectItem key={id} value={id}>{MODELS[id].name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {canEdit ? (
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={isSaving || allowedModels.length === 0}>
+            {isSaving ? <Loader2 className="size-4 mr-2 animate-spin" /> : null}
+            Save
+          </Button>
+          {allowedModels.length === 0 && (
+            <span className="text-sm text-muted-foreground">Allow at least one model</span>
+          )}
+          {saved && <span className="text-sm text-muted-foreground">Saved</span>}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Only brand owners can change model settings.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  GENERATION_EVENT,
+  getGenerationChannelName,
+  type GenerationSnapshot,
+} from '@/lib/chat/generation';
+
+interface UseGenerationStreamOptions {
+  supabase: SupabaseClient;
+  conversationId: string | null | undefined;
+  /** Called with each snapshot of a reply generating in the conversation */
+  onSnapshot: (snapshot: GenerationSnapshot) => void;
+}
+
+// Follow replies generating in a conversation, whoever started them
+export function useGenerationStream({ supabase, conversationId, onSnapshot }: UseGenerationStreamOptions) {
+  const onSnapshotRef = useRef(onSnapshot);
+
+  useEffect(() => {
+    onSnapshotRef.current = onSnapshot;
+  }, [onSnapshot]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(getGenerationChannelName(conversationId), { config: { private: true } })
+      .on('broadcast', { event: GENERATION_EVENT }, ({ payload }) => {
+        onSnapshotRef.current(payload as GenerationSnapshot);
+      })
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Failed to follow generation for conversation:', conversationId);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, conversationId]);
+}
@@ -0,0 +1,437 @@
+// Brand asset library (brand_assets)
+// Assets live in the private brand-assets bucket under {brand_id}/{category}/. Uploads are
+// hashed (SHA-256) so the same file isn't stored twice per brand, and images have their
+// dimensions read and a PNG thumbnail drawn in the browser before they are saved.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { uploadBrandFile, uploadBrandFiles, type FileCategory } from '@act/auth';
+
+export type BrandAssetType = 'logo' | 'image' | 'font' | 'color_palette' | 'training_image' | 'other';
+
+export const BRAND_ASSET_TYPE_LABELS: Record<BrandAssetType, string> = {
+  logo: 'Logos',
+  image: 'Images',
+  font: 'Fonts',
+  color_palette: 'Colour palettes',
+  training_image: 'Training images',
+  other: 'Other',
+};
+
+export interface BrandAsset {
+  id: string;
+  brand_id: string;
+  user_id: string | null;
+  name: string;
+  description: string | null;
+  asset_type: BrandAssetType;
+  /** Storage path in brand-assets */
+  file_url: string;
+  file_type: string | null;
+  file_size: number | null;
+  width: number | null;
+  height: number | null;
+  tags: string[] | null;
+  content_hash: string | null;
+  /** Storage path of the PNG preview, when the file itself is too large to show */
+  thumbnail_path: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BrandAssetFilters {
+  query?: string;
+  types?: BrandAssetType[];
+  /** Assets must have all of these */
+  tags?: string[];
+}
+
+export interface BrandAssetUploadResult {
+  assets: BrandAsset[];
+  /** Files that are already in the library, with the name they were stored under */
+  duplicates: { name: string; existingName: string }[];
+  errors: string[];
+}
+
+export const BRAND_ASSET_ACCEPT = '.png,.jpg,.jpeg,.webp,.gif,.svg,.ttf,.otf,.woff,.woff2,.zip';
+
+export const BRAND_ASSET_PAGE_SIZE = 60;
+
+const BUCKET = 'brand-assets';
+const THUMBNAIL_SIZE = 320;
+const PREVIEW_URL_TTL = 60 * 60;
+
+const FONT_EXTENSIONS = ['ttf', 'otf', 'woff', 'woff2'];
+
+const STORAGE_CATEGORIES: Record<BrandAssetType, FileCategory> = {
+  logo: 'logos',
+  image: 'images',
+  font: 'fonts',
+  color_palette: 'images',
+  training_image: 'training',
+  other: 'documents',
+};
+
+/**
+ * Library type for a new upload; images named like a logo are filed as logos
+ */
+export function detectAssetType(file: { name: string; type: string }): BrandAssetType {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type.startsWith('font/') || FONT_EXTENSIONS.includes(extension)) return 'font';
+  if (file.type.startsWith('image/')) return /logo/i.test(file.name) ? 'logo' : 'image';
+  return 'other';
+}
+
+/**
+ * Tags as stored: lowercase, single-spaced and unique. Accepts a comma-separated string.
+ */
+export function normalizeTags(tags: string | string[]): string[] {
+  const list = typeof tags === 'string' ? tags.split(',') : tags;
+  const normalized = list.map((tag) => tag.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * to_tsquery expression matching every word of the search box as a prefix, so results
+ * update while a word is still being typed; null when there is nothing to search for
+ */
+export function toPrefixTsQuery(query: string): string | null {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(' & ') : null;
+}
+
+/**
+ * Size that fits width x height within max x max, keeping the aspect ratio; never upscales
+ */
+export function fitWithin(width: number, height: number, max: number): { width: number; height: number } {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Hex SHA-256 of the file's contents
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Dimensions of an image and, when it is larger than a thumbnail, a PNG preview. SVGs are
+// shown as they are. Null for other files or images the browser can't decode.
+async function readImageDetails(
+  file: File
+): Promise<{ width: number; height: number; thumbnail: Blob | null } | null> {
+  if (!file.type.startsWith('image/')) return null;
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const { naturalWidth: width, naturalHeight: height } = image;
+    if (!width || !height) return null;
+    if (file.type === 'image/svg+xml' || Math.max(width, height) <= THUMBNAIL_SIZE) {
+      return { width, height, thumbnail: null };
+    }
+
+    const size = fitWithin(width, height, THUMBNAIL_SIZE);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    canvas.getContext('2d')?.drawImage(image, 0, 0, size.width, size.height);
+    const thumbnail = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+
+    return { width, height, thumbnail };
+  } catch (error) {
+    console.error('Failed to read image:', file.name, error);
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Add files to the library. Files already in it (same contents) are skipped and reported
+ * as duplicates; the rest are uploaded with uploadBrandFiles, one batch per storage
+ * category, and saved with their hash, dimensions and thumbnail.
+ */
+export async function uploadBrandAssets(
+  supabase: SupabaseClient,
+  options: {
+    brandId: string;
+    userId: string;
+    files: File[];
+    /** Detected per file when not given */
+    assetType?: BrandAssetType;
+    description?: string;
+    tags?: string[];
+  }
+): Promise<BrandAssetUploadResult> {
+  const { brandId, userId, files } = options;
+  const result: BrandAssetUploadResult = { assets: [], duplicates: [], errors: [] };
+
+  const hashes = await Promise.all(files.map(hashFile));
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('brand_assets')
+    .select('name, content_hash')
+    .eq('brand_id', brandId)
+    .in('content_hash', Array.from(new Set(hashes)));
+
+  // The unique index on (brand_id, content_hash) still catches duplicates if this fails
+  if (lookupError) {
+    console.error('Failed to check for duplicate assets:', lookupError);
+  }
+
+  const storedNames = new Map<string, string>(
+    (existing || []).map((asset: { name: string; content_hash: string }) => [asset.content_hash, asset.name])
+  );
+
+  const batches = new Map<FileCategory, { file: File; hash: string; assetType: BrandAssetType }[]>();
+  files.forEach((file, index) => {
+    const hash = hashes[index];
+    const storedName = storedNames.get(hash);
+    if (storedName) {
+      result.duplicates.push({ name: file.name, existingName: storedName });
+      return;
+    }
+    // Later copies within the same upload are duplicates of the first
+    storedNames.set(hash, file.name);
+
+    const assetType = options.assetType ?? detectAssetType(file);
+    const category = STORAGE_CATEGORIES[assetType];
+    batches.set(category, [...(batches.get(category) || []), { file, hash, assetType }]);
+  });
+
+  for (const [category, batch] of batches) {
+    const uploads = await uploadBrandFiles(supabase, {
+      bucket: BUCKET,
+      brandId,
+      category,
+      files: batch.map(({ file }) => file),
+    });
+
+    for (const [index, upload] of uploads.entries()) {
+      const { file, hash, assetType } = batch[index];
+      if (upload.error) {
+        result.errors.push(`${file.name}: ${upload.error.message}`);
+        continue;
+      }
+
+      const details = await readImageDetails(file);
+      let thumbnailPath: string | null = null;
+      if (details?.thumbnail) {
+        const thumbnail = await uploadBrandFile(supabase, {
+          bucket: BUCKET,
+          brandId,
+          category: 'thumbnails',
+          file: new File([details.thumbnail], `${hash}.png`, { type: 'image/png' }),
+        });
+        // The grid falls back to the full image
+        if (thumbnail.error) {
+          console.error('Failed to upload thumbnail:', file.name, thumbnail.error);
+        } else {
+          thumbnailPath = thumbnail.path;
+        }
+      }
+
+      const { data: asset, error: insertError } = await supabase
+        .from('brand_assets')
+        .insert({
+          brand_id: brandId,
+          user_id: userId,
+          name: file.name,
+          description: options.description ?? null,
+          asset_type: assetType,
+          file_url: upload.path,
+          file_type: file.type || 'application/octet-stream',
+          file_size: file.size,
+          width: details?.width ?? null,
+          height: details?.height ?? null,
+          tags: normalizeTags(options.tags ?? []),
+          content_hash: hash,
+          thumbnail_path: thumbnailPath,
+        })
+        .select('*')
+        .single();
+
+      if (insertError) {
+        await supabase.storage.from(BUCKET).remove(thumbnailPath ? [upload.path, thumbnailPath] : [upload.path]);
+        if (insertError.code === '23505') {
+          // Uploaded by someone else in the meantime
+          result.duplicates.push({ name: file.name, existingName: file.name });
+        } else {
+          console.error('Failed to save asset:', file.name, insertError);
+          result.errors.push(`${file.name}: Failed to save asset`);
+        }
+        continue;
+      }
+
+      result.assets.push(asset as BrandAsset);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * A page of the brand's assets matching the filters, best matches first when searching
+ * and newest first otherwise
+ */
+export async function searchBrandAssets(
+  supabase: SupabaseClient,
+  brandId: string,
+  filters: BrandAssetFilters = {},
+  page: number = 0
+): Promise<{ assets: BrandAsset[]; error: string | null }> {
+  const { data, error } = await supabase.rpc('search_brand_assets', {
+    query_brand_id: brandId,
+    search_query: toPrefixTsQuery(filters.query ?? ''),
+    filter_asset_types: filters.types?.length ? filters.types : null,
+    filter_tags: filters.tags?.length ? filters.tags : null,
+    match_count: BRAND_ASSET_PAGE_SIZE,
+    match_offset: page * BRAND_ASSET_PAGE_SIZE,
+  });
+
+  if (error) {
+    console.error('Failed to search brand assets:', error);
+    return { assets: [], error: 'Failed to load assets' };
+  }
+
+  return { assets: (data || []) as BrandAsset[], error: null };
+}
+
+/**
+ * Tags used across the brand's assets, most used first
+ */
+export async function listBrandAssetTags(
+  supabase: SupabaseClient,
+  brandId: string
+): Promise<{ tags: { tag: string; count: number }[]; error: string | null }> {
+  const { data, error } = await supabase.rpc('list_brand_asset_tags', { query_brand_id: brandId });
+
+  if (error) {
+    console.error('Failed to load asset tags:', error);
+    return { tags: [], error: 'Failed to load tags' };
+  }
+
+  return {
+    tags: (data || []).map((row: { tag: string; asset_count: number }) => ({
+      tag: row.tag,
+      count: Number(row.asset_count),
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Signed URLs to show the assets with, by asset id: the thumbnail when there is one,
+ * otherwise the image itself. Fonts and other files have no preview.
+ */
+export async function getBrandAssetPreviewUrls(
+  supabase: SupabaseClient,
+  assets: BrandAsset[]
+): Promise<Record<string, string>> {
+  const previews = assets
+    .map((asset) => ({
+      id: asset.id,
+      path: asset.thumbnail_path ?? (asset.file_type?.startsWith('image/') ? asset.file_url : null),
+    }))
+    .filter((preview): preview is { id: string; path: string } => !!preview.path);
+
+  if (previews.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(previews.map(({ path }) => path), PREVIEW_URL_TTL);
+
+  if (error) {
+    console.error('Failed to sign asset previews:', error);
+    return {};
+  }
+
+  const urls = new Map((data || []).map((signed) => [signed.path, signed.signedUrl]));
+  return Object.fromEntries(
+    previews.flatMap(({ id, path }) => (urls.get(path) ? [[id, urls.get(path) as string]] : []))
+  );
+}
+
+/**
+ * Rename, describe, retag or reclassify an asset
+ */
+export async function updateBrandAsset(
+  supabase: SupabaseClient,
+  assetId: string,
+  changes: Partial<Pick<BrandAsset, 'name' | 'description' | 'asset_type' | 'tags'>>
+): Promise<{ asset: BrandAsset | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('brand_assets')
+    .update({
+      ...changes,
+      ...(changes.tags ? { tags: normalizeTags(changes.tags) } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', assetId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to update asset:', error);
+    return { asset: null, error: 'Failed to save changes' };
+  }
+  if (!data) {
+    return { asset: null, error: 'Only editors can change assets uploaded by others' };
+  }
+
+  return { asset: data as BrandAsset, error: null };
+}
+
+/**
+ * Remove assets and their files; only brand admins can delete
+ */
+export async function deleteBrandAssets(
+  supabase: SupabaseClient,
+  assets: BrandAsset[]
+): Promise<{ error: string | null }> {
+  const { data, error } = await supabase
+    .from('brand_assets')
+    .delete()
+    .in('id', assets.map((asset) => asset.id))
+    .select('id');
+
+  if (error) {
+    console.error('Failed to delete assets:', error);
+    return { error: 'Failed to delete assets' };
+  }
+
+  const deleted = new Set((data || []).map((row: { id: string }) => row.id));
+  const paths = assets
+    .filter((asset) => deleted.has(asset.id))
+    .flatMap((asset) => (asset.thumbnail_path ? [asset.file_url, asset.thumbnail_path] : [asset.file_url]));
+
+  if (paths.length > 0) {
+    const { error: removeError } = await supabase.storage.from(BUCKET).remove(paths);
+    if (removeError) {
+      console.error('Failed to remove asset files:', removeError);
+    }
+  }
+
+  return { error: deleted.size < assets.length ? 'Only brand admins can delete assets' : null };
+}
+
+/**
+ * The asset's file, e.g. to attach it to a chat message
+ */
+export async function downloadBrandAsset(
+  supabase: SupabaseClient,
+  asset: BrandAsset
+): Promise<{ file: File | null; error: string | null }> {
+  const { data, error } = await supabase.storage.from(BUCKET).download(asset.file_url);
+
+  if (error || !data) {
+    console.error('Failed to download asset:', error);
+    return { file: null, error: `Failed to download ${asset.name}` };
+  }
+
+  return { file: new File([data], asset.name, { type: asset.file_type || data.type }), error: null };
+}
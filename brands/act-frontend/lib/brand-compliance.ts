@@ -0,0 +1,429 @@
+// Brand compliance checks for copy
+// Scores generated or pasted copy against the brand profile. Banned terms, required
+// disclaimers, spelling variants, product names and reading level are checked here;
+// tone needs a model, so /api/brand-compliance assesses it and passes the result in.
+
+import { z } from 'zod';
+import type { BrandGuidelines } from '@/lib/brand-guidelines';
+
+export type ComplianceCategory =
+  | 'tone'
+  | 'banned_terms'
+  | 'disclaimers'
+  | 'spelling'
+  | 'product_names'
+  | 'reading_level';
+
+export const COMPLIANCE_CATEGORY_LABELS: Record<ComplianceCategory, string> = {
+  tone: 'Tone',
+  banned_terms: 'Banned terms',
+  disclaimers: 'Disclaimers',
+  spelling: 'Spelling',
+  product_names: 'Product names',
+  reading_level: 'Reading level',
+};
+
+export interface ComplianceAnnotation {
+  category: ComplianceCategory;
+  /** Character range in the checked text, null for issues with the copy as a whole */
+  start: number | null;
+  end: number | null;
+  message: string;
+  /** Replacement for the range, or text to append when the range is null */
+  suggestion: string | null;
+}
+
+export interface ComplianceCategoryScore {
+  category: ComplianceCategory;
+  /** 0-100 */
+  score: number;
+  issues: number;
+}
+
+export interface ComplianceResult {
+  /** Mean of the checked categories, 0-100 */
+  score: number;
+  /** Only the categories the brand profile has rules for */
+  categories: ComplianceCategoryScore[];
+  annotations: ComplianceAnnotation[];
+  /** Flesch-Kincaid grade of the copy */
+  readingGrade: number;
+}
+
+// Returned by /api/brand-compliance
+export interface ComplianceReport extends ComplianceResult {
+  profileVersion: number;
+}
+
+// Asked of the model for the tone category
+export const toneAssessmentSchema = z.object({
+  score: z.number().min(0).max(100),
+  issues: z
+    .array(
+      z.object({
+        /** Verbatim excerpt of the copy */
+        quote: z.string(),
+        message: z.string(),
+        suggestion: z.string(),
+      })
+    )
+    .max(20),
+});
+
+export type ToneAssessment = z.infer<typeof toneAssessmentSchema>;
+
+// Points lost per issue in the counted categories
+const ISSUE_PENALTY: Partial<Record<ComplianceCategory, number>> = {
+  banned_terms: 25,
+  spelling: 10,
+  product_names: 10,
+};
+const GRADE_PENALTY = 15;
+// Sentences longer than this are flagged when the copy reads above the target grade
+const LONG_SENTENCE_WORDS = 25;
+
+// Inflections shared by both spellings of a word
+const ISE = ['e', 'es', 'ed', 'ing', 'ation', 'ations', 'er', 'ers'];
+// "analyses" is also the plural of analysis, so -es is left out
+const YSE = ['e', 'ed', 'ing', 'er', 'ers'];
+const OUR = ['', 's', 'ed', 'ing', 'ful', 'able', 'ite', 'ites'];
+const LL = ['ed', 'ing', 'er', 'ers'];
+const PLURAL = ['', 's'];
+
+// [UK stem, US stem, suffixes]
+const SPELLING_VARIANTS: [string, string, string[]][] = [
+  ['colour', 'color', OUR],
+  ['favour', 'favor', OUR],
+  ['behaviour', 'behavior', ['', 's', 'al', 'ally']],
+  ['honour', 'honor', OUR],
+  ['labour', 'labor', OUR],
+  ['neighbour', 'neighbor', ['', 's', 'hood', 'hoods', 'ing', 'ly']],
+  ['flavour', 'flavor', OUR],
+  ['humour', 'humor', OUR],
+  ['rumour', 'rumor', PLURAL],
+  ['organis', 'organiz', ISE],
+  ['realis', 'realiz', ISE],
+  ['recognis', 'recogniz', ISE],
+  ['apologis', 'apologiz', ISE],
+  ['prioritis', 'prioritiz', ISE],
+  ['optimis', 'optimiz', ISE],
+  ['customis', 'customiz', ISE],
+  ['personalis', 'personaliz', ISE],
+  ['minimis', 'minimiz', ISE],
+  ['maximis', 'maximiz', ISE],
+  ['emphasis', 'emphasiz', ['e', 'es', 'ed', 'ing']],
+  ['summaris', 'summariz', ISE],
+  ['utilis', 'utiliz', ISE],
+  ['standardis', 'standardiz', ISE],
+  ['categoris', 'categoriz', ISE],
+  ['authoris', 'authoriz', ISE],
+  ['finalis', 'finaliz', ISE],
+  ['visualis', 'visualiz', ISE],
+  ['analys', 'analyz', YSE],
+  ['paralys', 'paralyz', YSE],
+  ['travell', 'travel', LL],
+  ['cancell', 'cancel', LL],
+  ['modell', 'model', LL],
+  ['labell', 'label', LL],
+  ['centre', 'center', PLURAL],
+  ['theatre', 'theater', PLURAL],
+  ['fibre', 'fiber', PLURAL],
+  ['litre', 'liter', PLURAL],
+  ['defence', 'defense', PLURAL],
+  ['offence', 'offense', PLURAL],
+  ['catalogue', 'catalog', PLURAL],
+  ['grey', 'gray', ['', 's', 'er', 'est', 'ish']],
+  ['jewellery', 'jewelry', ['']],
+  ['aluminium', 'aluminum', ['']],
+  ['ageing', 'aging', ['']],
+  ['fulfil', 'fulfill', ['', 's', 'ment', 'ments']],
+  ['enrol', 'enroll', ['', 's', 'ment', 'ments']],
+  ['skilful', 'skillful', ['', 'ly']],
+  ['manoeuvre', 'maneuver', ['', 's', 'd']],
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word, case-insensitive; terms may start or end with punctuation
+function termPattern(term: string): RegExp {
+  const start = /^\w/.test(term) ? '\\b' : '';
+  const end = /\w$/.test(term) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(term).replace(/\s+/g, '\\s+')}${end}`, 'gi');
+}
+
+// Give a replacement the capitalisation of the word it replaces
+function matchCase(replacement: string, original: string): string {
+  if (original.length > 1 && original === original.toUpperCase()) return replacement.toUpperCase();
+  if (original[0] === original[0].toUpperCase()) return replacement[0].toUpperCase() + replacement.slice(1);
+  return replacement;
+}
+
+function countedScore(category: ComplianceCategory, issues: number): ComplianceCategoryScore {
+  return { category, score: Math.max(0, 100 - issues * (ISSUE_PENALTY[category] ?? 0)), issues };
+}
+
+/**
+ * Terminology entries of the form "customers, not users", as [preferred, avoid]
+ */
+export function parseTerminology(terminology: string[]): [string, string][] {
+  return terminology.flatMap(entry => {
+    const match = entry.match(/^\s*"?(.+?)"?\s*,?\s+(?:not|instead of|rather than)\s+"?(.+?)"?\s*$/i);
+    return match ? [[match[1], match[2]] as [string, string]] : [];
+  });
+}
+
+function checkBannedTerms(text: string, guidelines: BrandGuidelines): ComplianceAnnotation[] {
+  const rules: { term: string; replacement: string | null }[] = [
+    ...guidelines.banned_words.map(term => ({ term, replacement: null })),
+    ...parseTerminology(guidelines.terminology).map(([preferred, avoid]) => ({ term: avoid, replacement: preferred })),
+  ];
+
+  return rules.flatMap(({ term, replacement }) =>
+    Array.from(text.matchAll(termPattern(term)), (match): ComplianceAnnotation => ({
+      category: 'banned_terms',
+      start: match.index!,
+      end: match.index! + match[0].length,
+      message: replacement ? `Say "${replacement}" instead of "${match[0]}"` : `"${match[0]}" is on the brand's banned list`,
+      suggestion: replacement ? matchCase(replacement, match[0]) : null,
+    }))
+  );
+}
+
+function checkDisclaimers(text: string, guidelines: BrandGuidelines): ComplianceAnnotation[] {
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+  const copy = normalize(text);
+
+  return guidelines.required_disclaimers
+    .filter(disclaimer => !copy.includes(normalize(disclaimer)))
+    .map((disclaimer): ComplianceAnnotation => ({
+      category: 'disclaimers',
+      start: null,
+      end: null,
+      message: `Missing required disclaimer: "${disclaimer}"`,
+      suggestion: disclaimer,
+    }));
+}
+
+function checkSpelling(text: string, variant: 'uk' | 'us'): ComplianceAnnotation[] {
+  return SPELLING_VARIANTS.flatMap(([uk, us, suffixes]) => {
+    const [wrong, right] = variant === 'uk' ? [us, uk] : [uk, us];
+    const pattern = new RegExp(`\\b${wrong}(${suffixes.join('|')})\\b`, 'gi');
+
+    return Array.from(text.matchAll(pattern), (match): ComplianceAnnotation => {
+      const suggestion = matchCase(right + match[1], match[0]);
+      return {
+        category: 'spelling',
+        start: match.index!,
+        end: match.index! + match[0].length,
+        message: `Use ${variant.toUpperCase()} spelling: "${suggestion}"`,
+        suggestion,
+      };
+    });
+  });
+}
+
+function checkProductNames(text: string, guidelines: BrandGuidelines): ComplianceAnnotation[] {
+  return guidelines.product_names.flatMap(name =>
+    Array.from(text.matchAll(termPattern(name)))
+      .filter(match => match[0] !== name)
+      .map((match): ComplianceAnnotation => ({
+        category: 'product_names',
+        start: match.index!,
+        end: match.index! + match[0].length,
+        message: `Write the product name as "${name}"`,
+        suggestion: name,
+      }))
+  );
+}
+
+/**
+ * Rough syllable count: vowel groups, less a silent final e
+ */
+export function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return 0;
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+interface Sentence {
+  start: number;
+  end: number;
+  words: string[];
+}
+
+// Markdown markers and code are left out of the words; offsets still point into the text
+function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  for (const match of text.matchAll(/[^.!?\n]+[.!?]*/g)) {
+    const words = match[0].match(/[A-Za-z][A-Za-z'’-]*/g) ?? [];
+    if (words.length === 0) continue;
+    const leading = match[0].length - match[0].trimStart().length;
+    sentences.push({ start: match.index! + leading, end: match.index! + match[0].trimEnd().length, words });
+  }
+  return sentences;
+}
+
+/**
+ * Flesch-Kincaid grade level of the text, 0 for text without words
+ */
+export function readingGrade(text: string): number {
+  const sentences = splitSentences(text);
+  const words = sentences.flatMap(s => s.words);
+  if (words.length === 0) return 0;
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences.length) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+}
+
+function checkReadingLevel(text: string, target: number, grade: number): ComplianceAnnotation[] {
+  if (grade <= target) return [];
+
+  const longSentences = splitSentences(text).filter(s => s.words.length > LONG_SENTENCE_WORDS);
+  return [
+    {
+      category: 'reading_level',
+      start: null,
+      end: null,
+      message: `Reads at grade ${grade}, above the brand's target of grade ${target}. Use shorter sentences and simpler words.`,
+      suggestion: null,
+    },
+    ...longSentences.map((s): ComplianceAnnotation => ({
+      category: 'reading_level',
+      start: s.start,
+      end: s.end,
+      message: `Long sentence (${s.words.length} words), consider splitting it`,
+      suggestion: null,
+    })),
+  ];
+}
+
+/**
+ * Map the model's quoted tone issues back to ranges in the text. Quotes that can't be
+ * found verbatim become issues with the copy as a whole.
+ */
+export function toneAnnotations(text: string, assessment: ToneAssessment): ComplianceAnnotation[] {
+  return assessment.issues.map((issue): ComplianceAnnotation => {
+    const start = issue.quote ? text.indexOf(issue.quote) : -1;
+    return start === -1
+      ? { category: 'tone', start: null, end: null, message: issue.message, suggestion: null }
+      : { category: 'tone', start, end: start + issue.quote.length, message: issue.message, suggestion: issue.suggestion || null };
+  });
+}
+
+/**
+ * Whether the guidelines describe the tone well enough for the model to assess it
+ */
+export function hasToneRules(guidelines: BrandGuidelines): boolean {
+  return [guidelines.tone_of_voice, guidelines.voice_dos, guidelines.voice_donts].some(list => list.length > 0);
+}
+
+/**
+ * Whether there is anything to check copy against
+ */
+export function hasComplianceRules(guidelines: BrandGuidelines): boolean {
+  return (
+    hasToneRules(guidelines) ||
+    guidelines.banned_words.length > 0 ||
+    parseTerminology(guidelines.terminology).length > 0 ||
+    guidelines.required_disclaimers.length > 0 ||
+    guidelines.product_names.length > 0 ||
+    guidelines.spelling_variant !== null ||
+    guidelines.reading_grade !== null
+  );
+}
+
+/**
+ * Check copy against the brand's guidelines. Categories without rules in the profile are
+ * left out of the score; tone is only scored when an assessment is passed in.
+ */
+export function checkBrandCompliance(
+  text: string,
+  guidelines: BrandGuidelines,
+  tone?: ToneAssessment | null
+): ComplianceResult {
+  const grade = readingGrade(text);
+  const categories: ComplianceCategoryScore[] = [];
+  const annotations: ComplianceAnnotation[] = [];
+
+  if (tone) {
+    const toneIssues = toneAnnotations(text, tone);
+    categories.push({ category: 'tone', score: Math.round(tone.score), issues: toneIssues.length });
+    annotations.push(...toneIssues);
+  }
+
+  if (guidelines.banned_words.length > 0 || parseTerminology(guidelines.terminology).length > 0) {
+    const issues = checkBannedTerms(text, guidelines);
+    categories.push(countedScore('banned_terms', issues.length));
+    annotations.push(...issues);
+  }
+
+  if (guidelines.required_disclaimers.length > 0) {
+    const issues = checkDisclaimers(text, guidelines);
+    const present = guidelines.required_disclaimers.length - issues.length;
+    categories.push({
+      category: 'disclaimers',
+      score: Math.round((present / guidelines.required_disclaimers.length) * 100),
+      issues: issues.length,
+    });
+    annotations.push(...issues);
+  }
+
+  if (guidelines.spelling_variant) {
+    const issues = checkSpelling(text, guidelines.spelling_variant);
+    categories.push(countedScore('spelling', issues.length));
+    annotations.push(...issues);
+  }
+
+  if (guidelines.product_names.length > 0) {
+    const issues = checkProductNames(text, guidelines);
+    categories.push(countedScore('product_names', issues.length));
+    annotations.push(...issues);
+  }
+
+  if (guidelines.reading_grade !== null) {
+    const issues = checkReadingLevel(text, guidelines.reading_grade, grade);
+    const over = Math.max(0, grade - guidelines.reading_grade);
+    categories.push({
+      category: 'reading_level',
+      score: Math.max(0, Math.round(100 - over * GRADE_PENALTY)),
+      issues: issues.length,
+    });
+    annotations.push(...issues);
+  }
+
+  const score = categories.length > 0
+    ? Math.round(categories.reduce((sum, c) => sum + c.score, 0) / categories.length)
+    : 100;
+
+  annotations.sort((a, b) => (a.start ?? Infinity) - (b.start ?? Infinity));
+  return { score, categories, annotations, readingGrade: grade };
+}
+
+/**
+ * Apply suggested rewrites to the text. Ranged suggestions replace their range (the first
+ * of any overlapping ones wins); suggestions for the copy as a whole are appended.
+ */
+export function applySuggestions(text: string, annotations: ComplianceAnnotation[]): string {
+  const ranged = annotations
+    .filter(a => a.suggestion !== null && a.start !== null && a.end !== null)
+    .sort((a, b) => a.start! - b.start!);
+
+  let result = '';
+  let cursor = 0;
+  for (const annotation of ranged) {
+    if (annotation.start! < cursor) continue;
+    result += text.slice(cursor, annotation.start!) + annotation.suggestion;
+    cursor = annotation.end!;
+  }
+  result += text.slice(cursor);
+
+  const appended = annotations
+    .filter(a => a.suggestion !== null && a.start === null)
+    .map(a => a.suggestion);
+  return appended.length > 0 ? `${result.trimEnd()}\n\n${appended.join('\n\n')}` : result;
+}
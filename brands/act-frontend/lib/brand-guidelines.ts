@@ -0,0 +1,209 @@
+// Structured brand guidelines
+// Extracted from an uploaded brand book into brand_documents.extracted_data, reviewed
+// on the brand configuration page and saved as a version of the brand's profile
+// (brand_profiles). The latest version is the authoritative brand profile.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const text = (max: number) => z.string().trim().min(1).max(max);
+
+export const brandColorSchema = z.object({
+  name: text(60),
+  hex: z.string().trim().regex(HEX_COLOR, 'Use a hex value like #063EF8'),
+  usage: z.string().trim().max(200).optional(),
+});
+
+export const brandTypefaceSchema = z.object({
+  family: text(80),
+  /** e.g. "Headings", "Body copy" */
+  role: text(60),
+  weights: z.array(text(30)).max(12).optional(),
+  usage: z.string().trim().max(200).optional(),
+});
+
+export const brandGuidelinesSchema = z.object({
+  palette: z.array(brandColorSchema).max(40),
+  typography: z.array(brandTypefaceSchema).max(20),
+  logo_usage: z.array(text(300)).max(40),
+  tone_of_voice: z.array(text(120)).max(30),
+  banned_words: z.array(text(80)).max(200),
+  approved_taglines: z.array(text(200)).max(40),
+  // Voice profile (added after the first profiles were saved, hence the defaults)
+  audience: z.array(text(200)).max(20).default([]),
+  /** Preferred terms, e.g. "customers, not users" */
+  terminology: z.array(text(200)).max(60).default([]),
+  voice_dos: z.array(text(200)).max(30).default([]),
+  voice_donts: z.array(text(200)).max(30).default([]),
+  // Copy rules checked by the brand compliance checker
+  /** Text that must appear in published copy, verbatim */
+  required_disclaimers: z.array(text(500)).max(20).default([]),
+  /** Product and feature names with their exact capitalisation */
+  product_names: z.array(text(80)).max(100).default([]),
+  spelling_variant: z.enum(['uk', 'us']).nullable().default(null),
+  /** Highest Flesch-Kincaid grade copy should read at */
+  reading_grade: z.number().int().min(1).max(18).nullable().default(null),
+});
+
+export type BrandColor = z.infer<typeof brandColorSchema>;
+export type BrandTypeface = z.infer<typeof brandTypefaceSchema>;
+export type BrandGuidelines = z.infer<typeof brandGuidelinesSchema>;
+
+export interface BrandProfile {
+  id: string;
+  brand_id: string;
+  version: number;
+  guidelines: BrandGuidelines;
+  source_document_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Returned by /api/brand-guidelines
+export interface BrandGuidelinesResponse {
+  profile: BrandProfile | null;
+  /** Whether the caller may save new versions of the profile */
+  canEdit: boolean;
+}
+
+export const EMPTY_BRAND_GUIDELINES: BrandGuidelines = {
+  palette: [],
+  typography: [],
+  logo_usage: [],
+  tone_of_voice: [],
+  banned_words: [],
+  approved_taglines: [],
+  audience: [],
+  terminology: [],
+  voice_dos: [],
+  voice_donts: [],
+  required_disclaimers: [],
+  product_names: [],
+  spelling_variant: null,
+  reading_grade: null,
+};
+
+function toSixDigitHex(hex: string): string {
+  const digits = hex.slice(1);
+  const full = digits.length === 3 ? digits.split('').map(d => d + d).join('') : digits;
+  return `#${full.toUpperCase()}`;
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item).toLowerCase();
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Canonical form of validated guidelines: six-digit uppercase hex values and no
+ * duplicate entries (case-insensitive)
+ */
+export function normalizeBrandGuidelines(guidelines: BrandGuidelines): BrandGuidelines {
+  const list = (items: string[]) => uniqueBy(items, item => item);
+  return {
+    palette: uniqueBy(
+      guidelines.palette.map(color => ({ ...color, hex: toSixDigitHex(color.hex) })),
+      color => color.hex
+    ),
+    typography: uniqueBy(guidelines.typography, face => `${face.family}:${face.role}`),
+    logo_usage: list(guidelines.logo_usage),
+    tone_of_voice: list(guidelines.tone_of_voice),
+    banned_words: list(guidelines.banned_words),
+    approved_taglines: list(guidelines.approved_taglines),
+    audience: list(guidelines.audience),
+    terminology: list(guidelines.terminology),
+    voice_dos: list(guidelines.voice_dos),
+    voice_donts: list(guidelines.voice_donts),
+    required_disclaimers: list(guidelines.required_disclaimers),
+    product_names: list(guidelines.product_names),
+    spelling_variant: guidelines.spelling_variant,
+    reading_grade: guidelines.reading_grade,
+  };
+}
+
+/**
+ * Latest version of the brand's profile, or null if none has been saved
+ */
+export async function loadBrandProfile(
+  supabase: SupabaseClient,
+  brandId: string
+): Promise<{ profile: BrandProfile | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('brand_profiles')
+    .select('*')
+    .eq('brand_id', brandId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load brand profile:', error);
+    return { profile: null, error: 'Failed to load brand profile' };
+  }
+
+  // Versions saved before a field existed get its default
+  const profile = data ? { ...data, guidelines: { ...EMPTY_BRAND_GUIDELINES, ...data.guidelines } } : null;
+  return { profile: profile as BrandProfile | null, error: null };
+}
+
+/**
+ * Whether the guidelines say anything about how the brand writes
+ */
+export function hasBrandVoice(guidelines: BrandGuidelines): boolean {
+  return [
+    guidelines.tone_of_voice,
+    guidelines.audience,
+    guidelines.terminology,
+    guidelines.voice_dos,
+    guidelines.voice_donts,
+    guidelines.banned_words,
+  ].some(list => list.length > 0);
+}
+
+/**
+ * Save guidelines as the next version of the brand's profile. `conflict` is set when
+ * another version was saved at the same time. Expects a service-role client; the
+ * caller has already been authorized to edit the brand.
+ */
+export async function saveBrandProfile(
+  supabase: SupabaseClient,
+  input: { brandId: string; guidelines: BrandGuidelines; sourceDocumentId?: string | null; userId: string }
+): Promise<{ profile: BrandProfile | null; error: string | null; conflict?: boolean }> {
+  const { profile: current, error: loadError } = await loadBrandProfile(supabase, input.brandId);
+  if (loadError) {
+    return { profile: null, error: loadError };
+  }
+
+  const { data, error } = await supabase
+    .from('brand_profiles')
+    .insert({
+      brand_id: input.brandId,
+      version: (current?.version ?? 0) + 1,
+      guidelines: normalizeBrandGuidelines(input.guidelines),
+      source_document_id: input.sourceDocumentId ?? null,
+      created_by: input.userId,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return {
+        profile: null,
+        error: 'The brand profile was just updated by someone else. Reload and try again.',
+        conflict: true,
+      };
+    }
+    console.error('Failed to save brand profile:', error);
+    return { profile: null, error: 'Failed to save brand profile' };
+  }
+
+  return { profile: data as BrandProfile, error: null };
+}
@@ -6,6 +6,7 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import type { ModelId } from '@act/models';
 
 export interface Brand {
   id: string;
@@ -25,9 +26,21 @@ export interface BrandSettings {
   accent_color?: string;
   logo_url?: string;
   favicon_url?: string;
+  ai_models?: BrandModelSettings;
   [key: string]: unknown;
 }
 
+/**
+ * Which AI models a brand's team may use (see lib/chat/model-policy.ts)
+ */
+export interface BrandModelSettings {
+  /** Empty or missing allows every model in the registry */
+  allowed_models?: ModelId[];
+  default_model?: ModelId;
+  /** Tried in order when the selected model's provider isn't available */
+  fallback_models?: ModelId[];
+}
+
 // In-memory cache for brand lookups (reduces DB queries)
 const brandCache = new Map<string, { brand: Brand | null; timestamp: number }>();
 const CACHE_TTL_MS = 60 * 1000; // 1 minute cache
@@ -0,0 +1,135 @@
+// Server-side persistence of assistant replies for /api/chat
+// The route creates the reply as `streaming` when generation starts, keeps its content
+// up to date while it runs and saves the final reply when the stream ends, so a closed
+// tab or dropped connection no longer loses it. Replies cut short are stored as
+// `interrupted`.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getMessageMetadata, type ChatStreamState } from './stream-events';
+
+export type AssistantMessageStatus = 'streaming' | 'complete' | 'interrupted';
+
+export interface AssistantMessageInput {
+  /** Generated up front and announced to the client so it can match the saved row */
+  id: string;
+  conversationId: string;
+  /** Model that answered */
+  model: string;
+  status: AssistantMessageStatus;
+  state: ChatStreamState;
+}
+
+// A reply still marked streaming after this long belongs to a generation that died
+const STALE_STREAMING_MS = 10 * 60 * 1000;
+
+function toRow({ id, conversationId, model, status, state }: AssistantMessageInput) {
+  return {
+    id,
+    conversation_id: conversationId,
+    role: 'assistant',
+    content: state.content,
+    model,
+    tokens_used: state.usage?.totalTokens ?? 0,
+    metadata: getMessageMetadata(state),
+    status,
+  };
+}
+
+/**
+ * Insert or update the reply in `messages`, and bump the conversation's last message
+ * time once it's final. Expects a service-role client; the conversation has already
+ * been authorized.
+ */
+export async function saveAssistantMessage(
+  supabase: SupabaseClient,
+  input: AssistantMessageInput
+): Promise<{ error: string | null }> {
+  const { error } = await supabase.from('messages').upsert(toRow(input));
+
+  if (error) {
+    console.error('Failed to save assistant message:', error);
+    return { error: 'Failed to save assistant message' };
+  }
+
+  if (input.status !== 'streaming') {
+    const { error: conversationError } = await supabase
+      .from('conversations')
+      .update({ last_message_at: new Date().toISOString() })
+      .eq('id', input.conversationId);
+    if (conversationError) {
+      console.error('Failed to update conversation:', conversationError);
+    }
+  }
+
+  return { error: null };
+}
+
+/**
+ * Update a reply that is still streaming. `stopped` is true when the row is no longer
+ * streaming because a participant stopped the generation.
+ */
+export async function updateStreamingMessage(
+  supabase: SupabaseClient,
+  input: AssistantMessageInput
+): Promise<{ stopped: boolean; error: string | null }> {
+  const { data, error } = await supabase
+    .from('messages')
+    .update(toRow(input))
+    .eq('id', input.id)
+    .eq('status', 'streaming')
+    .select('id');
+
+  if (error) {
+    console.error('Failed to update streaming message:', error);
+    return { stopped: false, error: 'Failed to update streaming message' };
+  }
+
+  return { stopped: (data?.length ?? 0) === 0, error: null };
+}
+
+/**
+ * Stop a running generation. The route notices on its next update and aborts the model.
+ */
+export async function stopAssistantMessage(
+  supabase: SupabaseClient,
+  conversationId: string,
+  messageId: string
+): Promise<{ stopped: boolean; error: string | null }> {
+  const { data, error } = await supabase
+    .from('messages')
+    .update({ status: 'interrupted' })
+    .eq('id', messageId)
+    .eq('conversation_id', conversationId)
+    .eq('status', 'streaming')
+    .select('id');
+
+  if (error) {
+    console.error('Failed to stop assistant message:', error);
+    return { stopped: false, error: 'Failed to stop generation' };
+  }
+
+  return { stopped: (data?.length ?? 0) > 0, error: null };
+}
+
+/**
+ * Remove the placeholder of a reply that never produced any text
+ */
+export async function deleteAssistantMessage(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from('messages').delete().eq('id', id);
+  if (error) {
+    console.error('Failed to delete empty assistant message:', error);
+  }
+}
+
+/**
+ * Status to show for a stored reply; streaming rows whose generation died are shown
+ * as interrupted
+ */
+export function getDisplayStatus(
+  status: AssistantMessageStatus | null | undefined,
+  createdAt: string | null | undefined,
+  now = Date.now()
+): AssistantMessageStatus | undefined {
+  if (status !== 'streaming' || !createdAt) return status ?? undefined;
+  return now - new Date(createdAt).getTime() > STALE_STREAMING_MS ? 'interrupted' : 'streaming';
+}
@@ -0,0 +1,112 @@
+// Authorization for /api/chat
+// The request body names a brand, project, conversation and MCP servers; none of them
+// are trusted until they've been checked against the caller's brand membership.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { hasPermission, type BrandRole } from '@act/auth';
+
+export interface ChatAccess {
+  userId: string;
+  brandId: string;
+  role: BrandRole;
+}
+
+export interface ChatAccessError {
+  message: string;
+  status: 401 | 403 | 404;
+}
+
+export interface ChatAccessRequest {
+  brandId: string;
+  projectId?: string | null;
+  conversationId?: string | null;
+  mcpServerIds?: string[];
+}
+
+/**
+ * Resolve the caller's role for a brand. Company admins (members of the ACT brand)
+ * have access to every brand.
+ */
+export async function getBrandRole(
+  supabase: SupabaseClient,
+  userId: string,
+  brandId: string
+): Promise<BrandRole | null> {
+  const { data: memberships, error } = await supabase
+    .from('brand_users')
+    .select('brand_id, role')
+    .eq('user_id', userId);
+
+  if (error || !memberships) {
+    console.error('Failed to fetch brand memberships:', error);
+    return null;
+  }
+
+  const membership = memberships.find(m => m.brand_id === brandId);
+  if (membership) {
+    return membership.role as BrandRole;
+  }
+
+  const isCompanyAdmin = memberships.some(m => m.brand_id === 'act' && m.role === 'company_admin');
+  return isCompanyAdmin ? 'company_admin' : null;
+}
+
+/**
+ * Check that every id exists in `table` and belongs to the brand
+ */
+async function belongsToBrand(
+  supabase: SupabaseClient,
+  table: 'projects' | 'conversations' | 'mcp_servers',
+  ids: string[],
+  brandId: string
+): Promise<boolean> {
+  const uniqueIds = [...new Set(ids)];
+  const { data, error } = await supabase
+    .from(table)
+    .select('id')
+    .in('id', uniqueIds)
+    .eq('brand_id', brandId);
+
+  if (error) {
+    console.error(`Failed to verify ${table} ownership:`, error);
+    return false;
+  }
+
+  return (data?.length || 0) === uniqueIds.length;
+}
+
+/**
+ * Verify the user may use AI for the brand, and that the referenced project,
+ * conversation and MCP servers all belong to it.
+ * Expects a service-role client; `userId` must come from the verified session.
+ */
+export async function authorizeChatRequest(
+  supabase: SupabaseClient,
+  userId: string,
+  request: ChatAccessRequest
+): Promise<{ access: ChatAccess | null; error: ChatAccessError | null }> {
+  const { brandId, projectId, conversationId, mcpServerIds = [] } = request;
+
+  const role = await getBrandRole(supabase, userId, brandId);
+  if (!role) {
+    return { access: null, error: { message: 'You do not have access to this brand', status: 403 } };
+  }
+
+  if (!hasPermission(role, 'ai:use')) {
+    return { access: null, error: { message: 'Your role does not allow using AI features', status: 403 } };
+  }
+
+  if (projectId && !(await belongsToBrand(supabase, 'projects', [projectId], brandId))) {
+    return { access: null, error: { message: 'Project not found', status: 404 } };
+  }
+
+  if (conversationId && !(await belongsToBrand(supabase, 'conversations', [conversationId], brandId))) {
+    return { access: null, error: { message: 'Conversation not found', status: 404 } };
+  }
+
+  if (mcpServerIds.length > 0 && !(await belongsToBrand(supabase, 'mcp_servers', mcpServerIds, brandId))) {
+    return { access: null, error: { message: 'MCP server not found', status: 404 } };
+  }
+
+  return { access: { userId, brandId, role }, error: null };
+}
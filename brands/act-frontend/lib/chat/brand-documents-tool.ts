@@ -0,0 +1,120 @@
+// Built-in chat tool for searching the brand knowledge base (hybrid_search_brand_documents)
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { searchBrandDocuments } from '@act/auth';
+import type { BrandDocumentSource } from './sources';
+
+export const BRAND_DOCUMENTS_TOOL_NAME = 'search_brand_documents';
+
+const MATCH_THRESHOLD = 0.5;
+const MATCH_COUNT = 5;
+
+interface BrandDocumentMatch {
+  id: string;
+  document_id: string;
+  document_name: string;
+  content: string;
+  metadata: { version?: number; version_id?: string } | null;
+  similarity: number;
+}
+
+export interface BrandDocumentsToolOutput {
+  documents: Array<{
+    citation: number;
+    title: string;
+    similarity: number;
+    content: string;
+  }>;
+  sources: BrandDocumentSource[];
+  error?: string;
+}
+
+/**
+ * Whether the brand has any indexed documents worth offering the tool for
+ */
+export async function hasIndexedBrandDocuments(supabase: SupabaseClient, brandId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('brand_documents')
+    .select('id', { count: 'exact', head: true })
+    .eq('brand_id', brandId)
+    .eq('is_indexed', true);
+
+  if (error) {
+    console.error('Failed to check brand documents:', error);
+    return false;
+  }
+
+  return (count || 0) > 0;
+}
+
+/**
+ * Create the search tool for a brand. `nextCitation` hands out citation numbers so
+ * results continue the numbering used by the project context in the same turn.
+ */
+export function createBrandDocumentsTool(
+  supabase: SupabaseClient,
+  brandId: string,
+  nextCitation: () => number
+) {
+  return tool({
+    description:
+      "Search the brand's knowledge base (brand guidelines, tone of voice, style guides and other uploaded brand documents). " +
+      'Use it whenever an answer should follow or reference the brand guidelines. ' +
+      'Cite results inline with their citation number in square brackets, e.g. [3].',
+    inputSchema: z.object({
+      query: z.string().min(1).describe('What to look for in the brand documents'),
+    }),
+    execute: async ({ query }): Promise<BrandDocumentsToolOutput> => {
+      try {
+        const matches = ((await searchBrandDocuments(
+          supabase,
+          brandId,
+          query,
+          MATCH_THRESHOLD,
+          MATCH_COUNT
+        )) || []) as BrandDocumentMatch[];
+
+        if (matches.length === 0) {
+          return { documents: [], sources: [] };
+        }
+
+        const results = matches.map(match => ({
+          citation: nextCitation(),
+          title: match.document_name || 'Brand document',
+          similarity: match.similarity,
+          content: match.content,
+          documentId: match.document_id,
+          version: match.metadata?.version,
+          versionId: match.metadata?.version_id,
+        }));
+
+        return {
+          documents: results.map(({ citation, title, similarity, content }) => ({ citation, title, similarity, content })),
+          sources: results.map(r => ({
+            type: 'brand_document',
+            index: r.citation,
+            title: r.title,
+            documentId: r.documentId,
+            version: r.version,
+            versionId: r.versionId,
+            similarity: r.similarity,
+          })),
+        };
+      } catch (error) {
+        console.error('Brand document search failed:', error);
+        return {
+          documents: [],
+          sources: [],
+          error: 'Brand document search is unavailable right now',
+        };
+      }
+    },
+    // Sources are for the UI; the model only needs the excerpts
+    toModelOutput: ({ documents, error }) => ({
+      type: 'text',
+      value: JSON.stringify(error ? { documents, error } : { documents }),
+    }),
+  });
+}
@@ -0,0 +1,150 @@
+// Provider failover for /api/chat
+// Retries transient provider errors (rate limits, overload, outages) with backoff and
+// then fails over to the next model in the brand's fallback chain. A model event is
+// sent in the stream so the message records which model actually answered.
+
+import { APICallError } from 'ai';
+import type { ModelDefinition, ModelProvider } from '@act/models';
+
+export interface AnsweredModel {
+  id: string;
+  name: string;
+  provider: ModelProvider;
+  /** Set when a fallback answered instead of the requested model */
+  fallbackFrom?: string;
+}
+
+export type ModelErrorAction = 'retry' | 'failover' | 'fatal';
+
+export interface FailoverOptions {
+  /** Retries per model before failing over */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+type StreamPart = { type: string };
+
+export type FailoverStreamPart<Part extends StreamPart> =
+  | Part
+  | { type: 'model'; model: AnsweredModel };
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+// Parts a stream emits before the model has produced anything. An attempt can be
+// retried up to this point; after that the client has already received output.
+const PRELUDE_PART_TYPES = new Set(['start', 'start-step']);
+
+/**
+ * Decide what to do with an error from a model call: transient provider errors are
+ * retried, other provider errors (bad key, unknown model, rejected request) move on to
+ * the next model, and anything else is a bug on our side.
+ */
+export function classifyModelError(error: unknown): ModelErrorAction {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable ? 'retry' : 'failover';
+  }
+
+  // Network failures before the provider responded
+  if (error instanceof TypeError && /fetch failed|network/i.test(error.message)) {
+    return 'retry';
+  }
+
+  return 'fatal';
+}
+
+/**
+ * Exponential backoff with jitter, honouring the provider's retry-after header
+ */
+export function getRetryDelay(attempt: number, error: unknown, options: FailoverOptions = {}): number {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  if (APICallError.isInstance(error)) {
+    const headers = error.responseHeaders || {};
+    const retryAfterMs = Number(headers['retry-after-ms']);
+    if (retryAfterMs > 0) return Math.min(retryAfterMs, maxDelayMs);
+
+    const retryAfter = Number(headers['retry-after']);
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, maxDelayMs);
+  }
+
+  const delay = baseDelayMs * 2 ** attempt;
+  return Math.min(delay + Math.random() * baseDelayMs * 0.25, maxDelayMs);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Stream from the first model in `chain` that answers. Yields a `model` part before
+ * the answering model's first output, followed by that model's stream parts.
+ * Errors after output has started can't be retried and are rethrown.
+ */
+export async function* streamWithFailover<Part extends StreamPart>(
+  chain: ModelDefinition[],
+  createStream: (model: ModelDefinition) => AsyncIterable<Part>,
+  options: FailoverOptions = {}
+): AsyncGenerator<FailoverStreamPart<Part>> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const requested = chain[0];
+  let lastError: unknown = new Error('No model available');
+
+  for (const model of chain) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const prelude: Part[] = [];
+      let started = false;
+
+      try {
+        for await (const part of createStream(model)) {
+          if (part.type === 'error') {
+            throw (part as { error?: unknown }).error;
+          }
+
+          if (!started && PRELUDE_PART_TYPES.has(part.type)) {
+            prelude.push(part);
+            continue;
+          }
+
+          if (!started) {
+            started = true;
+            yield {
+              type: 'model',
+              model: {
+                id: model.id,
+                name: model.name,
+                provider: model.provider,
+                ...(model.id !== requested.id ? { fallbackFrom: requested.id } : {}),
+              },
+            };
+            yield* prelude;
+          }
+
+          yield part;
+        }
+        return;
+      } catch (error) {
+        lastError = error;
+        const action = classifyModelError(error);
+        if (started || action === 'fatal') {
+          throw error;
+        }
+
+        if (action === 'retry' && attempt < maxRetries) {
+          const delay = getRetryDelay(attempt, error, options);
+          console.warn(`${model.name} failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms:`, error);
+          await sleep(delay);
+          continue;
+        }
+
+        console.warn(`${model.name} failed, failing over to the next model:`, error);
+        break;
+      }
+    }
+  }
+
+  throw lastError;
+}
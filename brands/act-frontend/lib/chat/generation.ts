@@ -0,0 +1,147 @@
+// Live generation state for /api/chat
+// While a reply streams, snapshots are broadcast on the conversation's private Realtime
+// channel so every participant watches the same answer come in, and the saved row is
+// kept current so a user who reloads can pick the answer up where it is.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  deleteAssistantMessage,
+  saveAssistantMessage,
+  updateStreamingMessage,
+  type AssistantMessageStatus,
+} from './assistant-message';
+import { getMessageMetadata, type ChatStreamState, type StreamedMessageMetadata } from './stream-events';
+
+export const GENERATION_EVENT = 'generation';
+
+// Sent on the conversation's channel while a reply streams and once when it ends
+export interface GenerationSnapshot {
+  messageId: string;
+  status: AssistantMessageStatus;
+  content: string;
+  metadata: StreamedMessageMetadata;
+}
+
+export interface GenerationSyncOptions {
+  messageId: string;
+  conversationId: string;
+  /** Model stored on the row until the answering model is known */
+  model: string;
+  /** Called when a participant stops the generation */
+  onStopped: () => void;
+  broadcastIntervalMs?: number;
+  persistIntervalMs?: number;
+}
+
+const DEFAULT_BROADCAST_INTERVAL_MS = 250;
+const DEFAULT_PERSIST_INTERVAL_MS = 1000;
+
+export function getGenerationChannelName(conversationId: string): string {
+  return `chat-generation:${conversationId}`;
+}
+
+export function toGenerationSnapshot(
+  messageId: string,
+  status: AssistantMessageStatus,
+  state: ChatStreamState
+): GenerationSnapshot {
+  return { messageId, status, content: state.content, metadata: getMessageMetadata(state) };
+}
+
+/**
+ * Keep a streaming reply's row and broadcast in step with the stream. Updates are
+ * throttled; `finish` flushes the final state. Expects a service-role client.
+ */
+export function createGenerationSync(supabase: SupabaseClient, options: GenerationSyncOptions) {
+  const { messageId, conversationId, onStopped } = options;
+  const broadcastIntervalMs = options.broadcastIntervalMs ?? DEFAULT_BROADCAST_INTERVAL_MS;
+  const persistIntervalMs = options.persistIntervalMs ?? DEFAULT_PERSIST_INTERVAL_MS;
+
+  const channel = supabase.channel(getGenerationChannelName(conversationId), {
+    config: { private: true },
+  });
+
+  let latest: ChatStreamState | null = null;
+  let broadcastTimer: ReturnType<typeof setTimeout> | null = null;
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+  let finished = false;
+
+  const modelOf = (state: ChatStreamState) => state.model?.id ?? options.model;
+
+  const broadcast = async (snapshot: GenerationSnapshot) => {
+    const result = await channel.httpSend(GENERATION_EVENT, snapshot);
+    if (!result.success) {
+      console.warn('Failed to broadcast generation state:', result.error);
+    }
+  };
+
+  const persist = async (state: ChatStreamState) => {
+    const { stopped } = await updateStreamingMessage(supabase, {
+      id: messageId,
+      conversationId,
+      model: modelOf(state),
+      status: 'streaming',
+      state,
+    });
+    if (stopped && !finished) {
+      console.log('Generation stopped by a participant:', messageId);
+      onStopped();
+    }
+  };
+
+  return {
+    /** Create the streaming row so participants and reloads can find the reply */
+    async start(state: ChatStreamState): Promise<{ error: string | null }> {
+      const { error } = await saveAssistantMessage(supabase, {
+        id: messageId,
+        conversationId,
+        model: options.model,
+        status: 'streaming',
+        state,
+      });
+      if (!error) {
+        await broadcast(toGenerationSnapshot(messageId, 'streaming', state));
+      }
+      return { error };
+    },
+
+    update(state: ChatStreamState) {
+      if (finished) return;
+      latest = state;
+
+      broadcastTimer ??= setTimeout(() => {
+        broadcastTimer = null;
+        if (!finished && latest) broadcast(toGenerationSnapshot(messageId, 'streaming', latest));
+      }, broadcastIntervalMs);
+
+      persistTimer ??= setTimeout(() => {
+        persistTimer = null;
+        if (!finished && latest) persist(latest);
+      }, persistIntervalMs);
+    },
+
+    /** Save the final reply (or drop it if nothing was produced) and tell participants */
+    async finish(state: ChatStreamState, status: Exclude<AssistantMessageStatus, 'streaming'>) {
+      finished = true;
+      if (broadcastTimer) clearTimeout(broadcastTimer);
+      if (persistTimer) clearTimeout(persistTimer);
+
+      if (state.content.trim()) {
+        await saveAssistantMessage(supabase, {
+          id: messageId,
+          conversationId,
+          model: modelOf(state),
+          status,
+          state,
+        });
+      } else {
+        await deleteAssistantMessage(supabase, messageId);
+      }
+
+      await broadcast(toGenerationSnapshot(messageId, state.content.trim() ? status : 'interrupted', state));
+      await supabase.removeChannel(channel);
+    },
+  };
+}
+
+export type GenerationSync = ReturnType<typeof createGenerationSync>;
@@ -0,0 +1,183 @@
+// Per-brand model policy for /api/chat
+// Combines the brand's model settings (allow-list, default, fallback chain) with the
+// providers this deployment has API keys for.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_MODEL_ID,
+  MODELS,
+  getAvailableModels,
+  resolveModelId,
+  type ModelDefinition,
+  type ModelId,
+  type ModelProvider,
+} from '@act/models';
+import type { BrandModelSettings } from '@/lib/brand-service';
+
+export type ConfiguredProviders = Record<ModelProvider, boolean>;
+
+export interface BrandModelPolicy {
+  /** Models the brand allows, in registry order */
+  allowedModels: ModelId[];
+  defaultModel: ModelId;
+  fallbackModels: ModelId[];
+}
+
+export type ModelUnavailableReason = 'not_allowed' | 'provider_not_configured';
+
+export interface ModelAvailability {
+  id: ModelId;
+  available: boolean;
+  reason?: ModelUnavailableReason;
+  /** Shown in the model picker when the model can't be selected */
+  message?: string;
+}
+
+// Returned by /api/chat/models
+export interface ChatModelsResponse extends BrandModelPolicy {
+  models: ModelAvailability[];
+  /** Whether the caller may change the brand's model settings */
+  canEdit: boolean;
+}
+
+export interface ModelSelectionError {
+  message: string;
+  code: 'unknown_model' | 'model_not_allowed' | 'model_unavailable';
+  status: 400 | 403 | 503;
+}
+
+export interface ModelSelection {
+  model: ModelDefinition<ModelId>;
+  /** Remaining models from the fallback chain that can be used, in order */
+  fallbacks: ModelDefinition<ModelId>[];
+}
+
+const UNAVAILABLE_MESSAGES: Record<ModelUnavailableReason, string> = {
+  not_allowed: 'Not enabled for this brand',
+  provider_not_configured: 'Provider not configured',
+};
+
+/**
+ * Which providers have API keys on this server
+ */
+export function getConfiguredProviders(): ConfiguredProviders {
+  return {
+    anthropic: !!process.env.ANTHROPIC_API_KEY,
+    openai: !!process.env.OPENAI_API_KEY,
+    google: !!process.env.GOOGLE_GENERATIVE_AI_API_KEY || !!process.env.GOOGLE_API_KEY,
+  };
+}
+
+function resolveModelIds(ids: readonly string[] | undefined): ModelId[] {
+  return [...new Set((ids || []).map(resolveModelId).filter((id): id is ModelId => id !== null))];
+}
+
+/**
+ * Normalize stored settings: aliases resolve, unknown and deprecated ids are dropped,
+ * and the default and fallbacks are limited to allowed models.
+ */
+export function getBrandModelPolicy(settings: BrandModelSettings | null | undefined): BrandModelPolicy {
+  const allowedModels = getAvailableModels(settings?.allowed_models).map(model => model.id);
+  const isAllowed = (id: ModelId) => allowedModels.includes(id);
+
+  const requestedDefault = resolveModelId(settings?.default_model);
+  const defaultModel = requestedDefault && isAllowed(requestedDefault)
+    ? requestedDefault
+    : isAllowed(DEFAULT_MODEL_ID) ? DEFAULT_MODEL_ID : allowedModels[0] ?? DEFAULT_MODEL_ID;
+
+  return {
+    allowedModels,
+    defaultModel,
+    fallbackModels: resolveModelIds(settings?.fallback_models).filter(isAllowed),
+  };
+}
+
+/**
+ * Load the model settings stored on the brand
+ */
+export async function loadBrandModelPolicy(
+  supabase: SupabaseClient,
+  brandId: string
+): Promise<{ policy: BrandModelPolicy | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('brands')
+    .select('settings')
+    .eq('id', brandId)
+    .single();
+
+  if (error) {
+    console.error('Failed to load brand model settings:', error);
+    return { policy: null, error: 'Failed to load brand model settings' };
+  }
+
+  return { policy: getBrandModelPolicy(data?.settings?.ai_models), error: null };
+}
+
+/**
+ * Availability of every selectable model, with the reason when it can't be used
+ */
+export function getModelAvailability(
+  policy: BrandModelPolicy,
+  providers: ConfiguredProviders
+): ModelAvailability[] {
+  return getAvailableModels().map(model => {
+    let reason: ModelUnavailableReason | undefined;
+    if (!policy.allowedModels.includes(model.id)) {
+      reason = 'not_allowed';
+    } else if (!providers[model.provider]) {
+      reason = 'provider_not_configured';
+    }
+
+    return reason
+      ? { id: model.id, available: false, reason, message: UNAVAILABLE_MESSAGES[reason] }
+      : { id: model.id, available: true };
+  });
+}
+
+/**
+ * Pick the model for a chat request. Models the brand doesn't allow are rejected;
+ * when the requested model's provider isn't configured the brand's fallback chain is
+ * used instead of silently switching to the default.
+ */
+export function selectChatModel(
+  requestedModel: string | null | undefined,
+  policy: BrandModelPolicy,
+  providers: ConfiguredProviders
+): { selection: ModelSelection | null; error: ModelSelectionError | null } {
+  const requestedId = requestedModel ? resolveModelId(requestedModel) : policy.defaultModel;
+  if (!requestedId) {
+    return {
+      selection: null,
+      error: { message: `Unknown model: ${requestedModel}`, code: 'unknown_model', status: 400 },
+    };
+  }
+
+  const requested = MODELS[requestedId];
+  if (!policy.allowedModels.includes(requestedId)) {
+    return {
+      selection: null,
+      error: { message: `${requested.name} is not enabled for this brand`, code: 'model_not_allowed', status: 403 },
+    };
+  }
+
+  const chain = [requestedId, ...policy.fallbackModels.filter(id => id !== requestedId)]
+    .map(id => MODELS[id])
+    .filter(model => providers[model.provider]);
+
+  if (chain.length === 0) {
+    return {
+      selection: null,
+      error: {
+        message: `${requested.name} is unavailable and this brand has no fallback model configured`,
+        code: 'model_unavailable',
+        status: 503,
+      },
+    };
+  }
+
+  if (chain[0].id !== requestedId) {
+    console.warn(`${requested.name} provider not configured, using fallback ${chain[0].name}`);
+  }
+
+  return { selection: { model: chain[0], fallbacks: chain.slice(1) }, error: null };
+}
@@ -0,0 +1,148 @@
+// Project file context for /api/chat
+// Retrieves the chunks of a project's files that are relevant to the latest user
+// message (see process-project-file for indexing) and formats them for the system prompt.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateEmbedding } from '@act/auth';
+import type { ProjectFileSource } from './sources';
+
+const MATCH_THRESHOLD = 0.3;
+const MATCH_COUNT = 8;
+// Files processed before chunking was introduced are inlined, truncated like before
+const MAX_UNINDEXED_FILE_LENGTH = 10000;
+
+interface ProjectFileChunk {
+  id: string;
+  file_id: string;
+  file_name: string;
+  chunk_index: number;
+  content: string;
+  metadata: {
+    start_offset?: number;
+    end_offset?: number;
+    heading?: string | null;
+    version?: number;
+    version_id?: string;
+  } | null;
+  similarity: number;
+}
+
+export interface ProjectContext {
+  context: string;
+  sources: ProjectFileSource[];
+}
+
+async function retrieveChunks(
+  supabase: SupabaseClient,
+  brandId: string,
+  projectId: string,
+  query: string
+): Promise<ProjectFileChunk[]> {
+  try {
+    const queryEmbedding = await generateEmbedding(query);
+    const { data, error } = await supabase.rpc('match_project_files', {
+      query_embedding: queryEmbedding,
+      query_brand_id: brandId,
+      query_project_id: projectId,
+      match_threshold: MATCH_THRESHOLD,
+      match_count: MATCH_COUNT,
+    });
+
+    if (error) {
+      console.error('Failed to match project files:', error);
+      return [];
+    }
+
+    return (data || []) as ProjectFileChunk[];
+  } catch (error) {
+    console.error('Failed to retrieve project file chunks:', error);
+    return [];
+  }
+}
+
+/**
+ * Build the project context block for the latest user message.
+ * Only the top-k chunks are included; each one is numbered so the model can cite it.
+ */
+export async function getProjectContext(
+  supabase: SupabaseClient,
+  brandId: string,
+  projectId: string,
+  query: string
+): Promise<ProjectContext> {
+  const { data: files, error } = await supabase
+    .from('project_files')
+    .select('id, name, file_type, chunk_count')
+    .eq('project_id', projectId)
+    .eq('brand_id', brandId)
+    .eq('status', 'ready');
+
+  if (error || !files || files.length === 0) {
+    if (error) console.error('Failed to fetch project files:', error);
+    return { context: '', sources: [] };
+  }
+
+  const indexedFiles = files.filter(f => (f.chunk_count || 0) > 0);
+  const unindexedFiles = files.filter(f => !f.chunk_count);
+
+  const chunks = indexedFiles.length > 0 && query.trim()
+    ? await retrieveChunks(supabase, brandId, projectId, query)
+    : [];
+
+  const sources: ProjectFileSource[] = chunks.map((chunk, i) => ({
+    type: 'project_file',
+    index: i + 1,
+    title: chunk.file_name,
+    projectId,
+    fileId: chunk.file_id,
+    chunkIndex: chunk.chunk_index,
+    section: chunk.metadata?.heading ?? undefined,
+    startOffset: chunk.metadata?.start_offset,
+    endOffset: chunk.metadata?.end_offset,
+    version: chunk.metadata?.version,
+    versionId: chunk.metadata?.version_id,
+    similarity: chunk.similarity,
+  }));
+
+  let context = '\n\n=== PROJECT CONTEXT FILES ===\n';
+  context += `This project contains ${files.length} file(s): ${files.map(f => f.name).join(', ')}\n\n`;
+
+  if (chunks.length > 0) {
+    context += 'The following excerpts are the most relevant to the latest message:\n\n';
+    chunks.forEach((chunk, i) => {
+      const section = chunk.metadata?.heading ? `${chunk.metadata.heading}, ` : '';
+      context += `[${i + 1}] ${chunk.file_name} (${section}chunk ${chunk.chunk_index + 1})\n`;
+      context += chunk.content;
+      context += '\n\n';
+    });
+  } else if (indexedFiles.length > 0) {
+    context += 'No excerpts from these files matched the latest message.\n\n';
+  }
+
+  if (unindexedFiles.length > 0) {
+    const { data: legacyFiles } = await supabase
+      .from('project_files')
+      .select('name, file_type, extracted_text')
+      .in('id', unindexedFiles.map(f => f.id))
+      .not('extracted_text', 'is', null);
+
+    for (const file of legacyFiles || []) {
+      const content = file.extracted_text.length > MAX_UNINDEXED_FILE_LENGTH
+        ? file.extracted_text.substring(0, MAX_UNINDEXED_FILE_LENGTH) + '\n[Content truncated...]'
+        : file.extracted_text;
+
+      context += `--- ${file.name} (${file.file_type}) ---\n`;
+      context += content;
+      context += '\n--- End of file ---\n\n';
+    }
+  }
+
+  context += '=== END PROJECT CONTEXT ===\n\n';
+  if (sources.length > 0) {
+    context += 'Use the excerpts above when answering. When you rely on an excerpt, cite it inline with its number in square brackets, e.g. [1] or [2][3]. Only cite numbers listed above.\n';
+  } else {
+    context += 'Use the above project files as context when answering questions. Reference specific files when relevant.\n';
+  }
+
+  return { context, sources };
+}
@@ -0,0 +1,48 @@
+// Sources retrieved for a chat turn
+// The model cites them inline as [1], [2], ... and the UI lists them under the message.
+
+export interface ProjectFileSource {
+  type: 'project_file';
+  /** Citation number used in the answer, e.g. [1] */
+  index: number;
+  title: string;
+  projectId: string;
+  fileId: string;
+  chunkIndex: number;
+  /** Heading path of the chunk's section, e.g. "Slide 3: Pricing" or "Sheet: Budget" */
+  section?: string;
+  /** Character range of the chunk in the file's extracted text */
+  startOffset?: number;
+  endOffset?: number;
+  /** Version of the file the chunk was indexed from (not set for files indexed before versioning) */
+  version?: number;
+  versionId?: string;
+  similarity: number;
+}
+
+export interface BrandDocumentSource {
+  type: 'brand_document';
+  index: number;
+  title: string;
+  documentId: string;
+  /** Version of the document the excerpt was indexed from */
+  version?: number;
+  versionId?: string;
+  similarity: number;
+}
+
+export type ChatSource = ProjectFileSource | BrandDocumentSource;
+
+export function describeSourceLocation(source: ChatSource): string {
+  const version = source.version === undefined ? '' : `v${source.version}, `;
+  if (source.type === 'brand_document') {
+    return `${version}brand knowledge base`;
+  }
+
+  const section = source.section ? `${source.section}, ` : '';
+  const location = `${version}${section}chunk ${source.chunkIndex + 1}`;
+  if (source.startOffset === undefined || source.endOffset === undefined) {
+    return location;
+  }
+  return `${location}, chars ${source.startOffset.toLocaleString()}–${source.endOffset.toLocaleString()}`;
+}
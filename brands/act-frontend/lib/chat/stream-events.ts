@@ -0,0 +1,234 @@
+// Typed event stream for /api/chat
+// The route sends one server-sent event per chat event; the chat UI folds them into the
+// message being streamed (text, thinking, tool cards, sources, usage).
+
+import type { AnsweredModel } from './failover';
+import type { ChatSource } from './sources';
+import type { ChatUsage } from './usage';
+import type { MCPToolApprovalStatus, MCPToolSource } from '@/lib/mcp/types';
+
+export const CHAT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+// Approval a tool call waits for before it runs
+export interface ToolApprovalState {
+  id: string;
+  status: MCPToolApprovalStatus;
+  expiresAt: string;
+}
+
+// Tool call shown as a card under the message
+export interface ToolInvocation {
+  toolCallId: string;
+  toolName: string;
+  /** MCP server the tool belongs to; toolName is then its namespaced name */
+  mcpSource?: MCPToolSource;
+  args: Record<string, unknown>;
+  /** Set for calls of tools that need approval */
+  approval?: ToolApprovalState;
+  state: 'partial-call' | 'call' | 'result' | 'error';
+  result?: unknown;
+  errorText?: string;
+}
+
+export type ChatStreamEvent =
+  | { type: 'message'; messageId: string }
+  | { type: 'text'; delta: string }
+  | { type: 'reasoning'; delta: string }
+  | { type: 'tool-call'; toolCallId: string; toolName: string; mcpSource?: MCPToolSource; input: Record<string, unknown> }
+  | {
+      // Carries the call too, in case it's sent before the tool-call event
+      type: 'tool-approval';
+      toolCallId: string;
+      toolName: string;
+      mcpSource?: MCPToolSource;
+      input: Record<string, unknown>;
+      approval: ToolApprovalState;
+    }
+  | { type: 'tool-result'; toolCallId: string; toolName: string; output: unknown }
+  | { type: 'tool-error'; toolCallId: string; toolName: string; error: string }
+  | { type: 'sources'; sources: ChatSource[] }
+  | { type: 'model'; model: AnsweredModel }
+  | { type: 'usage'; usage: ChatUsage }
+  | { type: 'brand-voice'; profileVersion: number }
+  | { type: 'error'; message: string };
+
+// Everything the UI knows about the message being streamed
+export interface ChatStreamState {
+  /** Id the reply is saved under */
+  messageId: string | null;
+  content: string;
+  reasoning: string;
+  toolInvocations: ToolInvocation[];
+  sources: ChatSource[];
+  model: AnsweredModel | null;
+  usage: ChatUsage | null;
+  /** Version of the brand profile whose voice was in the system prompt */
+  brandProfileVersion: number | null;
+  error: string | null;
+}
+
+// Everything but the text of a streamed reply, stored in the message's metadata
+export interface StreamedMessageMetadata {
+  usage?: ChatUsage;
+  sources?: ChatSource[];
+  model?: AnsweredModel; // Model that answered
+  reasoning?: string; // Thinking streamed by the model in deep research mode
+  tool_invocations?: ToolInvocation[];
+  brand_profile_version?: number; // Brand profile applied to the system prompt
+  error?: string; // Set when the stream failed after the answer started
+}
+
+/**
+ * Encode an event as an SSE frame. JSON.stringify never emits a raw newline, so each
+ * event fits on a single data line.
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+function parseFrame(frame: string): ChatStreamEvent | null {
+  const data = frame
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as ChatStreamEvent;
+  } catch {
+    console.warn('Ignoring malformed chat stream event:', data.slice(0, 100));
+    return null;
+  }
+}
+
+/**
+ * Read the events of a /api/chat response body
+ */
+export async function* readChatEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) yield event;
+        boundary = buffer.indexOf('\n\n');
+      }
+
+      if (done) break;
+    }
+
+    const event = parseFrame(buffer);
+    if (event) yield event;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function createChatStreamState(): ChatStreamState {
+  return {
+    messageId: null,
+    content: '',
+    reasoning: '',
+    toolInvocations: [],
+    sources: [],
+    model: null,
+    usage: null,
+    brandProfileVersion: null,
+    error: null,
+  };
+}
+
+/**
+ * Fold an event into the streamed message. Returns a new state so it can be stored in
+ * React state directly.
+ */
+export function applyChatEvent(state: ChatStreamState, event: ChatStreamEvent): ChatStreamState {
+  switch (event.type) {
+    case 'message':
+      return { ...state, messageId: event.messageId };
+    case 'text':
+      return { ...state, content: state.content + event.delta };
+    case 'reasoning':
+      return { ...state, reasoning: state.reasoning + event.delta };
+    case 'tool-call':
+      if (state.toolInvocations.some(t => t.toolCallId === event.toolCallId)) return state;
+      return {
+        ...state,
+        toolInvocations: [
+          ...state.toolInvocations,
+          {
+            toolCallId: event.toolCallId,
+            toolName: event.toolName,
+            ...(event.mcpSource ? { mcpSource: event.mcpSource } : {}),
+            args: event.input,
+            state: 'call',
+          },
+        ],
+      };
+    case 'tool-approval':
+      if (!state.toolInvocations.some(t => t.toolCallId === event.toolCallId)) {
+        state = applyChatEvent(state, { ...event, type: 'tool-call' });
+      }
+      return {
+        ...state,
+        toolInvocations: state.toolInvocations.map(t =>
+          t.toolCallId === event.toolCallId ? { ...t, approval: event.approval } : t
+        ),
+      };
+    case 'tool-result':
+      return {
+        ...state,
+        toolInvocations: state.toolInvocations.map(t =>
+          t.toolCallId === event.toolCallId ? { ...t, state: 'result', result: event.output } : t
+        ),
+      };
+    case 'tool-error':
+      return {
+        ...state,
+        toolInvocations: state.toolInvocations.map(t =>
+          t.toolCallId === event.toolCallId ? { ...t, state: 'error', errorText: event.error } : t
+        ),
+      };
+    case 'sources':
+      return { ...state, sources: [...state.sources, ...event.sources] };
+    case 'model':
+      return { ...state, model: event.model };
+    case 'usage':
+      return { ...state, usage: event.usage };
+    case 'brand-voice':
+      return { ...state, brandProfileVersion: event.profileVersion };
+    case 'error':
+      return { ...state, error: event.message };
+    default:
+      return state;
+  }
+}
+
+export function getMessageMetadata(state: ChatStreamState): StreamedMessageMetadata {
+  return {
+    ...(state.usage ? { usage: state.usage } : {}),
+    ...(state.sources.length > 0 ? { sources: state.sources } : {}),
+    ...(state.model ? { model: state.model } : {}),
+    ...(state.reasoning ? { reasoning: state.reasoning } : {}),
+    ...(state.toolInvocations.length > 0 ? { tool_invocations: state.toolInvocations } : {}),
+    ...(state.brandProfileVersion !== null ? { brand_profile_version: state.brandProfileVersion } : {}),
+    ...(state.error ? { error: state.error } : {}),
+  };
+}
+
+/**
+ * Tool currently running, for the "Using tool" indicator
+ */
+export function getActiveToolCall(state: ChatStreamState): string | null {
+  const running = state.toolInvocations.filter(t => t.state === 'call' || t.state === 'partial-call');
+  return running.length > 0 ? running[running.length - 1].toolName : null;
+}
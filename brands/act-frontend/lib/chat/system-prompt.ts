@@ -0,0 +1,79 @@
+// System prompt for /api/chat
+// Shared with the brand profile's prompt preview so owners see exactly what is sent.
+
+import type { ModelDefinition } from '@act/models';
+import { hasBrandVoice, type BrandGuidelines, type BrandProfile } from '../brand-guidelines';
+
+// Style instructions for different writing styles
+export const STYLE_INSTRUCTIONS: Record<string, string> = {
+  normal: '',
+  learning: '\n\nIMPORTANT: Explain concepts step-by-step with examples and analogies. Break down complex topics into digestible parts. Act as a patient teacher.',
+  concise: '\n\nIMPORTANT: Be extremely brief and to the point. Use short sentences and bullet points. Minimize explanations unless specifically asked.',
+  explanatory: '\n\nIMPORTANT: Provide detailed explanations with context, background, and reasoning. Include examples and clarifications. Be thorough.',
+  formal: '\n\nIMPORTANT: Use formal, professional language. Maintain a business tone with proper grammar and structure. Avoid casual expressions.',
+};
+
+// Keeps the block compact however long the brand book was
+const MAX_ITEMS_PER_LINE = 12;
+const MAX_BANNED_WORDS = 40;
+
+export interface SystemPromptInput {
+  model: ModelDefinition;
+  brandId: string;
+  /** Conversation's own system prompt, replaces the default one */
+  customPrompt?: string | null;
+  /** Retrieved project file excerpts */
+  projectContext?: string;
+  styleInstruction?: string;
+  /** Applied unless the conversation turned the brand voice off */
+  brandProfile?: BrandProfile | null;
+}
+
+// Returned by /api/brand-guidelines/prompt-preview
+export interface SystemPromptPreview {
+  systemPrompt: string;
+  /** Model the preview was built for (the brand's default) */
+  model: string;
+  /** Profile version whose voice is included, null when the profile has no voice yet */
+  profileVersion: number | null;
+}
+
+function voiceLine(label: string, items: string[], max = MAX_ITEMS_PER_LINE): string | null {
+  return items.length > 0 ? `- ${label}: ${items.slice(0, max).join('; ')}` : null;
+}
+
+/**
+ * Compact brand-voice block for the system prompt, or '' when the guidelines have no voice
+ */
+export function buildBrandVoiceBlock(guidelines: BrandGuidelines): string {
+  if (!hasBrandVoice(guidelines)) return '';
+
+  const lines = [
+    voiceLine('Tone', guidelines.tone_of_voice),
+    voiceLine('Audience', guidelines.audience),
+    voiceLine('Terminology', guidelines.terminology),
+    voiceLine('Do', guidelines.voice_dos),
+    voiceLine("Don't", guidelines.voice_donts),
+    voiceLine('Never use', guidelines.banned_words, MAX_BANNED_WORDS),
+    voiceLine('Approved taglines', guidelines.approved_taglines.map(t => `"${t}"`)),
+  ].filter(Boolean);
+
+  return `\n\nBRAND VOICE - write every response in this voice:\n${lines.join('\n')}`;
+}
+
+/**
+ * The system prompt sent for a conversation turn. Built per model, since a fallback
+ * model may answer.
+ */
+export function buildChatSystemPrompt(input: SystemPromptInput): string {
+  const { model, brandId, customPrompt, projectContext = '', styleInstruction = '', brandProfile } = input;
+  const brandVoice = brandProfile ? buildBrandVoiceBlock(brandProfile.guidelines) : '';
+
+  const basePrompt = customPrompt || `You are ${model.name}, a helpful AI assistant for brand management.
+You are assisting with brand: ${brandId}
+When asked what model you are, always say you are ${model.name} from ${model.provider}.
+Always provide helpful, accurate, and brand-appropriate responses.
+Be concise but thorough. Use markdown formatting when appropriate.`;
+
+  return `${basePrompt}${brandVoice}${projectContext}${styleInstruction}`;
+}
@@ -0,0 +1,69 @@
+// Chat token usage and cost accounting
+// Shared by /api/chat (quota enforcement) and the chat UI (usage event, quota errors)
+
+import { getModelByUpstreamId } from '@act/models';
+
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  model: string;
+}
+
+// Returned by /api/chat with status 402 when the brand is out of prompt tokens
+export interface QuotaExceededError {
+  error: string;
+  code: 'quota_exceeded';
+  quotaType: 'prompt_tokens';
+  remaining: number;
+  requested: number;
+}
+
+// Rough prompt size used for the pre-flight quota check (~4 chars per token)
+const CHARS_PER_TOKEN = 4;
+
+// `modelId` is the provider model id reported with the usage
+export function calculateCost(modelId: string, inputTokens: number, outputTokens: number): number {
+  const model = getModelByUpstreamId(modelId);
+  if (!model) return 0;
+
+  const { pricing } = model;
+  const cost = (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export function toChatUsage(
+  modelId: string,
+  usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number }
+): ChatUsage {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+    costUsd: calculateCost(modelId, inputTokens, outputTokens),
+    model: modelId,
+  };
+}
+
+// Only text is counted; images and PDFs are billed by the provider and show up in the recorded usage
+export function estimatePromptTokens(
+  system: string,
+  messages: Array<{ content?: unknown }>
+): number {
+  let chars = system.length;
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      chars += message.content.length;
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        if (part && typeof part === 'object' && 'text' in part && typeof part.text === 'string') {
+          chars += part.text.length;
+        }
+      }
+    }
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
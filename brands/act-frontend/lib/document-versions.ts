@@ -0,0 +1,171 @@
+// Version history of brand documents and project files (document_versions)
+// Versions are created and restored by the process-document and process-project-file
+// edge functions, which re-index the document so only the active version is searched.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type VersionedDocumentKind = 'brand_document' | 'project_file';
+
+// Mirrors TextDiff in supabase/functions/_shared/text-diff.ts
+export interface DocumentTextDiff {
+  added: number;
+  removed: number;
+  hunks: Array<{
+    oldStart: number;
+    newStart: number;
+    lines: Array<{ type: 'context' | 'added' | 'removed'; text: string }>;
+  }>;
+  truncated: boolean;
+}
+
+export interface DocumentVersion {
+  id: string;
+  version: number;
+  name: string;
+  file_path: string;
+  file_type: string;
+  file_size: number | null;
+  /** Diff against the version this one replaced, null for the first version */
+  text_diff: DocumentTextDiff | null;
+  uploaded_by: string | null;
+  uploaderName: string | null;
+  created_at: string;
+  isActive: boolean;
+}
+
+/** The document a version belongs to */
+export interface VersionedDocument {
+  kind: VersionedDocumentKind;
+  id: string;
+  brandId: string;
+  /** Project files are stored under their project's folder */
+  projectId?: string;
+}
+
+const DOCUMENT_TABLES = {
+  brand_document: { table: 'brand_documents', versionColumn: 'brand_document_id', bucket: 'brand-documents' },
+  project_file: { table: 'project_files', versionColumn: 'project_file_id', bucket: 'project-files' },
+} as const;
+
+function processingRequest(document: VersionedDocument, body: Record<string, unknown>) {
+  return document.kind === 'brand_document'
+    ? { name: 'process-document', body: { document_id: document.id, brand_id: document.brandId, ...body } }
+    : { name: 'process-project-file', body: { file_id: document.id, ...body } };
+}
+
+/**
+ * Versions of a document, newest first, with who uploaded them
+ */
+export async function listDocumentVersions(
+  supabase: SupabaseClient,
+  kind: VersionedDocumentKind,
+  documentId: string
+): Promise<{ versions: DocumentVersion[]; error: string | null }> {
+  const { table, versionColumn } = DOCUMENT_TABLES[kind];
+
+  const [{ data: document }, { data, error }] = await Promise.all([
+    supabase.from(table).select('active_version_id').eq('id', documentId).maybeSingle(),
+    supabase
+      .from('document_versions')
+      .select('id, version, name, file_path, file_type, file_size, text_diff, uploaded_by, created_at')
+      .eq(versionColumn, documentId)
+      .order('version', { ascending: false }),
+  ]);
+
+  if (error) {
+    console.error('Failed to load document versions:', error);
+    return { versions: [], error: 'Failed to load version history' };
+  }
+
+  const uploaderIds = [...new Set((data || []).map(v => v.uploaded_by).filter(Boolean))];
+  const { data: profiles } = uploaderIds.length
+    ? await supabase.from('profiles').select('id, full_name, email').in('id', uploaderIds)
+    : { data: [] };
+  const uploaders = new Map((profiles || []).map(p => [p.id, p.full_name || p.email]));
+
+  const versions = (data || []).map(v => ({
+    ...v,
+    uploaderName: (v.uploaded_by && uploaders.get(v.uploaded_by)) || null,
+    isActive: v.id === document?.active_version_id,
+  }));
+
+  return { versions: versions as DocumentVersion[], error: null };
+}
+
+/**
+ * Upload a file as the document's new version. Earlier versions keep their files so
+ * they can be restored.
+ */
+export async function uploadDocumentVersion(
+  supabase: SupabaseClient,
+  document: VersionedDocument,
+  file: File
+): Promise<{ version: number | null; error: string | null }> {
+  const { bucket } = DOCUMENT_TABLES[document.kind];
+  const folder = document.kind === 'brand_document' ? `${document.brandId}/documents` : document.projectId;
+  const filePath = `${folder}/${Date.now()}-${file.name}`;
+
+  const { error: uploadError } = await supabase.storage.from(bucket).upload(filePath, file);
+  if (uploadError) {
+    return { version: null, error: `Failed to upload file: ${uploadError.message}` };
+  }
+
+  const { name, body } = processingRequest(document, {
+    new_version: {
+      file_path: filePath,
+      name: file.name,
+      file_type: file.type || 'application/octet-stream',
+      file_size: file.size,
+    },
+  });
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    console.error('Failed to process new version:', error);
+    // The upload never became a version
+    await supabase.storage.from(bucket).remove([filePath]);
+    return { version: null, error: 'We could not read this file. Try a PDF, DOCX or TXT file.' };
+  }
+
+  return { version: data.version, error: null };
+}
+
+/**
+ * Make an earlier version the active one again; the document is re-indexed from it
+ */
+export async function restoreDocumentVersion(
+  supabase: SupabaseClient,
+  document: VersionedDocument,
+  versionId: string
+): Promise<{ error: string | null }> {
+  const { name, body } = processingRequest(document, { version_id: versionId });
+  const { error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    console.error('Failed to restore version:', error);
+    return { error: 'Failed to restore this version' };
+  }
+
+  return { error: null };
+}
+
+/**
+ * Storage paths of every version of a document, for removing them with the document
+ */
+export async function listDocumentVersionPaths(
+  supabase: SupabaseClient,
+  kind: VersionedDocumentKind,
+  documentId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select('file_path')
+    .eq(DOCUMENT_TABLES[kind].versionColumn, documentId);
+
+  if (error) {
+    console.error('Failed to load document versions:', error);
+    return [];
+  }
+
+  return (data || []).map(v => v.file_path);
+}
@@ -0,0 +1,134 @@
+// Background processing of project files (file_processing_jobs)
+// Uploading a file enqueues a job that the process-file-jobs edge function works through:
+// failed attempts are retried with backoff, and a job that runs out of attempts waits
+// (dead-lettered) until someone retries it. Progress is pushed to the page over Realtime.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type FileJobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'dead';
+
+export type FileJobStage = 'queued' | 'downloading' | 'extracting' | 'embedding' | 'saving' | 'done';
+
+// Mirrors FileProcessingJob in supabase/functions/_shared/file-jobs.ts
+export interface FileProcessingJob {
+  id: string;
+  project_file_id: string;
+  project_id: string;
+  brand_id: string;
+  status: FileJobStatus;
+  stage: FileJobStage;
+  /** Overall progress of the current attempt, 0-100 */
+  progress: number;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+const STAGE_LABELS: Record<FileJobStage, string> = {
+  queued: 'Starting',
+  downloading: 'Downloading',
+  extracting: 'Reading file',
+  embedding: 'Indexing',
+  saving: 'Saving',
+  done: 'Done',
+};
+
+/**
+ * Whether the job is still being worked on (including waiting for a retry)
+ */
+export function isFileProcessingJobActive(job: Pick<FileProcessingJob, 'status'>): boolean {
+  return job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+}
+
+/**
+ * Short status line for a file's job, e.g. "Indexing… 62%"
+ */
+export function describeFileProcessingJob(job: FileProcessingJob): string {
+  switch (job.status) {
+    case 'queued':
+      return 'Waiting to be processed';
+    case 'running':
+      return `${STAGE_LABELS[job.stage]}… ${job.progress}%`;
+    case 'retrying': {
+      const at = new Date(job.next_attempt_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      return `Attempt ${job.attempts} of ${job.max_attempts} failed, retrying at ${at}`;
+    }
+    case 'dead':
+      return `Failed after ${job.attempts} ${job.attempts === 1 ? 'attempt' : 'attempts'}` +
+        (job.last_error ? `: ${job.last_error}` : '');
+    case 'succeeded':
+      return 'Processed';
+  }
+}
+
+// Run the worker now rather than on its next schedule; the job stays queued if this fails
+function startFileProcessingWorker(supabase: SupabaseClient) {
+  supabase.functions.invoke('process-file-jobs', { body: {} }).then(({ error }) => {
+    if (error) console.error('Failed to start file processing:', error);
+  });
+}
+
+/**
+ * Queue a file for extraction and indexing. Returns the file's job in flight if it
+ * already has one.
+ */
+export async function enqueueFileProcessing(
+  supabase: SupabaseClient,
+  fileId: string
+): Promise<{ job: FileProcessingJob | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('enqueue_file_processing_job', { p_file_id: fileId });
+
+  if (error) {
+    console.error('Failed to enqueue file processing:', error);
+    return { job: null, error: 'Failed to queue the file for processing' };
+  }
+
+  startFileProcessingWorker(supabase);
+  return { job: data as FileProcessingJob, error: null };
+}
+
+/**
+ * Re-enqueue a failed job with a fresh set of attempts
+ */
+export async function retryFileProcessingJob(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<{ job: FileProcessingJob | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('retry_file_processing_job', { p_job_id: jobId });
+
+  if (error) {
+    console.error('Failed to retry file processing:', error);
+    return { job: null, error: 'Failed to retry processing this file' };
+  }
+
+  startFileProcessingWorker(supabase);
+  return { job: data as FileProcessingJob, error: null };
+}
+
+/**
+ * Latest job of each file in the projects, by file id
+ */
+export async function listFileProcessingJobs(
+  supabase: SupabaseClient,
+  projectIds: string[]
+): Promise<Record<string, FileProcessingJob>> {
+  const { data, error } = await supabase
+    .from('file_processing_jobs')
+    .select('*')
+    .in('project_id', projectIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load file processing jobs:', error);
+    return {};
+  }
+
+  // Later jobs replace earlier ones
+  return Object.fromEntries((data || []).map((job: FileProcessingJob) => [job.project_file_id, job]));
+}
@@ -0,0 +1,73 @@
+// Authorization for managing a brand's MCP servers
+// Servers carry the brand's shared credentials: whoever can change a server's URL, test
+// it or reconnect it can have those credentials sent to the server, so only brand admins
+// (the brand:edit permission) manage them. Members can list the servers to use in chat.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { hasPermission, type BrandRole } from '@act/auth';
+import { getBrandRole } from '../chat/authorize';
+
+export interface MCPAccess {
+  userId: string;
+  brandId: string;
+  role: BrandRole;
+}
+
+export interface MCPAccessError {
+  message: string;
+  status: 403 | 404 | 500;
+}
+
+/**
+ * Verify the user is a member of the brand, and a brand admin when `admin` is set.
+ * Expects a service-role client; `userId` must come from the verified session.
+ */
+export async function authorizeMCPAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  brandId: string,
+  options: { admin?: boolean } = {}
+): Promise<{ access: MCPAccess | null; error: MCPAccessError | null }> {
+  const role = await getBrandRole(supabase, userId, brandId);
+  if (!role) {
+    return { access: null, error: { message: 'You do not have access to this brand', status: 403 } };
+  }
+
+  if (options.admin && !hasPermission(role, 'brand:edit')) {
+    return { access: null, error: { message: 'Only brand admins can manage MCP servers', status: 403 } };
+  }
+
+  return { access: { userId, brandId, role }, error: null };
+}
+
+/**
+ * Load a server and verify the user is an admin of the brand it belongs to
+ */
+export async function authorizeMCPServerAdmin<T extends object = object>(
+  supabase: SupabaseClient,
+  userId: string,
+  serverId: string,
+  columns = 'id, brand_id'
+): Promise<{ server: (T & { id: string; brand_id: string }) | null; error: MCPAccessError | null }> {
+  const { data, error } = await supabase
+    .from('mcp_servers')
+    .select(columns)
+    .eq('id', serverId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load MCP server:', error);
+    return { server: null, error: { message: 'Failed to load MCP server', status: 500 } };
+  }
+  if (!data) {
+    return { server: null, error: { message: 'MCP server not found', status: 404 } };
+  }
+
+  const server = data as unknown as T & { id: string; brand_id: string };
+  const { error: accessError } = await authorizeMCPAccess(supabase, userId, server.brand_id, { admin: true });
+  if (accessError) {
+    return { server: null, error: accessError };
+  }
+
+  return { server, error: null };
+}
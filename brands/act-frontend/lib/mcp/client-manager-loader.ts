@@ -4,7 +4,8 @@
  * which causes DOMMatrix errors in Node.js environment
  */
 
-import type { MCPServerConfig, MCPConnectionStatus } from './types';
+import type { MCPServerConfig, MCPConnectionStatus, MCPToolPolicy, MCPToolSource } from './types';
+import type { MCPClientManagerOptions } from './client-manager';
 
 // Determine if we should skip MCP loading entirely
 // This must be checked at module load time, not runtime
@@ -22,6 +23,8 @@ export interface IMCPClientManager {
   disconnectAll(): Promise<void>;
   getAllTools(): Promise<Record<string, unknown>>;
   getServerTools(serverId: string): Promise<Record<string, unknown> | null>;
+  getToolSource(chatToolName: string): MCPToolSource | null;
+  getToolPolicy(chatToolName: string): MCPToolPolicy;
   getClient(serverId: string): unknown;
   isConnected(serverId: string): boolean;
   getConnectedServers(): string[];
@@ -48,6 +51,12 @@ class StubMCPManager implements IMCPClientManager {
   async getServerTools() { 
     return null; 
   }
+  getToolSource() {
+    return null;
+  }
+  getToolPolicy(): MCPToolPolicy {
+    return 'auto';
+  }
   getClient() { 
     return null; 
   }
@@ -94,10 +103,16 @@ async function loadMCPClientManager() {
 /**
  * Create an MCP Manager instance
  * This function can be safely imported at build time
+ *
+ * Connections come from a pool shared across requests unless `options.pool` is null;
+ * `timeout` applies to servers without their own timeout_ms.
  */
-export async function createMCPManager(timeout?: number): Promise<IMCPClientManager> {
+export async function createMCPManager(
+  timeout?: number,
+  options?: MCPClientManagerOptions
+): Promise<IMCPClientManager> {
   const ManagerClass = await loadMCPClientManager();
-  return new ManagerClass(timeout);
+  return new ManagerClass(timeout, options);
 }
 
 /**
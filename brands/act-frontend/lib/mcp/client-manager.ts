@@ -1,26 +1,51 @@
-import { experimental_createMCPClient as createMCPClient } from '@ai-sdk/mcp';
-import type { MCPServerConfig, MCPConnectionStatus } from './types';
-
-type MCPClient = Awaited<ReturnType<typeof createMCPClient>>;
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { MCPServerConfig, MCPConnectionStatus, MCPToolPolicy, MCPToolSource } from './types';
+import { decryptCredential } from './credentials';
+import { needsOAuthRefresh, refreshMCPServerTokens } from './oauth';
+import { MCPConnectionPool, getMCPConnectionPool, type PooledMCPConnection } from './connection-pool';
+import { getMCPToolNamespaces, toMCPChatToolName } from './tool-names';
+import { getMCPToolPolicy } from './tool-approvals';
+
+export interface MCPClientManagerOptions {
+  /** Saves refreshed OAuth tokens; a service-role client from the environment by default */
+  supabase?: SupabaseClient;
+  /** Used for OAuth token requests, e.g. to talk to a mock authorization server in tests */
+  fetch?: typeof fetch;
+  /**
+   * Where connections come from; the process-wide pool by default. null opens connections
+   * for this manager only and closes them on disconnect, e.g. to test a server as it is now.
+   */
+  pool?: MCPConnectionPool | null;
+}
 
 interface MCPClientInstance {
-  client: MCPClient;
+  connection: PooledMCPConnection;
   config: MCPServerConfig;
   connectedAt: Date;
 }
 
+type MCPToolExecute = (args: unknown, options?: { abortSignal?: AbortSignal }) => Promise<unknown>;
+
 /**
  * MCP Client Manager
- * Manages connections to multiple MCP servers and aggregates their tools
+ * Checks out connections to multiple MCP servers from the connection pool and aggregates
+ * their tools. Disconnecting hands the connections back for the next request.
  */
 export class MCPClientManager {
   private clients: Map<string, MCPClientInstance> = new Map();
-  private connectionTimeout: number = 30000; // Default 30s timeout
+  private toolSources: Map<string, MCPToolSource> = new Map();
+  private connectionTimeout: number = 30000; // Default 30s timeout, for servers without timeout_ms
+  private options: MCPClientManagerOptions;
+  private pool: MCPConnectionPool;
+  private ownsPool: boolean;
 
-  constructor(timeout?: number) {
+  constructor(timeout?: number, options: MCPClientManagerOptions = {}) {
     if (timeout) {
       this.connectionTimeout = timeout;
     }
+    this.options = options;
+    this.ownsPool = options.pool === null;
+    this.pool = options.pool ?? (this.ownsPool ? new MCPConnectionPool() : getMCPConnectionPool());
   }
 
   /**
@@ -37,8 +62,13 @@ export class MCPClientManager {
     }
 
     try {
+      // Expired OAuth access tokens are refreshed (and saved) before connecting
+      if (needsOAuthRefresh(config)) {
+        config = await refreshMCPServerTokens(this.getSupabase(), config, { fetch: this.options.fetch });
+      }
+
       // Build transport configuration based on type
-      let transport: Parameters<typeof createMCPClient>[0]['transport'];
+      let transport: Parameters<MCPConnectionPool['acquire']>[1];
 
       switch (config.transport_type) {
         case 'http':
@@ -68,22 +98,26 @@ export class MCPClientManager {
           throw new Error(`Unknown transport type: ${config.transport_type}`);
       }
 
-      // Create the MCP client
-      const client = await createMCPClient({
-        transport,
-      });
+      // Reuse a pooled connection or open one
+      const connection = await this.pool.acquire(config.id, transport, this.timeoutFor(config));
+
+      // Get tool count for status
+      let toolCount: number;
+      try {
+        toolCount = Object.keys(await connection.tools()).length;
+      } catch (error) {
+        connection.release();
+        throw error;
+      }
 
-      // Store the client instance
+      // Replace (and hand back) an earlier connection of this manager to the server
+      this.clients.get(config.id)?.connection.release();
       this.clients.set(config.id, {
-        client,
+        connection,
         config,
         connectedAt: new Date(),
       });
 
-      // Get tool count for status
-      const tools = await client.tools();
-      const toolCount = Object.keys(tools).length;
-
       return {
         serverId: config.id,
         serverName: config.name,
@@ -117,25 +151,39 @@ export class MCPClientManager {
   }
 
   /**
-   * Get all tools from all connected MCP servers
+   * Get all tools from all connected MCP servers, namespaced by server (`notion__search`)
+   * so servers exposing tools with the same name don't shadow each other. getToolSource
+   * maps the names back to servers.
    */
   async getAllTools(): Promise<Record<string, unknown>> {
     const allTools: Record<string, unknown> = {};
+    const namespaces = getMCPToolNamespaces(Array.from(this.clients.values(), (instance) => instance.config));
+    this.toolSources.clear();
 
-    // Collect tools from all connected clients
-    // Earlier (higher priority) clients' tools take precedence
     for (const [serverId, instance] of this.clients) {
       try {
-        const serverTools = await instance.client.tools();
+        const serverTools = await instance.connection.tools();
         
         // Filter tools based on allowed/blocked lists
-        const filteredTools = this.filterTools(serverTools, instance.config);
+        const filteredTools = this.withCallTimeouts(
+          this.filterTools(serverTools, instance.config),
+          this.timeoutFor(instance.config)
+        );
         
-        // Merge tools (don't override existing tools from higher priority servers)
         for (const [toolName, tool] of Object.entries(filteredTools)) {
-          if (!(toolName in allTools)) {
-            allTools[toolName] = tool;
+          const chatToolName = toMCPChatToolName(namespaces.get(serverId)!, toolName);
+          if (chatToolName in allTools) {
+            // Only when tool names differ just in characters tool names can't contain
+            console.warn(`Skipping MCP tool ${toolName} of ${instance.config.name}: ${chatToolName} is taken`);
+            continue;
           }
+
+          allTools[chatToolName] = tool;
+          this.toolSources.set(chatToolName, {
+            serverId,
+            serverName: instance.config.name,
+            toolName,
+          });
         }
       } catch (error) {
         console.error(`Failed to get tools from server ${instance.config.name}:`, error);
@@ -146,15 +194,31 @@ export class MCPClientManager {
   }
 
   /**
-   * Get tools from a specific server
+   * Server a tool returned by getAllTools belongs to, and its name there
+   */
+  getToolSource(chatToolName: string): MCPToolSource | null {
+    return this.toolSources.get(chatToolName) ?? null;
+  }
+
+  /**
+   * Policy of a tool returned by getAllTools; calls of "ask" tools need approval
+   */
+  getToolPolicy(chatToolName: string): MCPToolPolicy {
+    const source = this.toolSources.get(chatToolName);
+    const instance = source && this.clients.get(source.serverId);
+    return instance ? getMCPToolPolicy(instance.config, source.toolName) : 'auto';
+  }
+
+  /**
+   * Get tools from a specific server, under their own names
    */
   async getServerTools(serverId: string): Promise<Record<string, unknown> | null> {
     const instance = this.clients.get(serverId);
     if (!instance) return null;
 
     try {
-      const tools = await instance.client.tools();
-      return this.filterTools(tools, instance.config);
+      const tools = await instance.connection.tools();
+      return this.withCallTimeouts(this.filterTools(tools, instance.config), this.timeoutFor(instance.config));
     } catch (error) {
       console.error(`Failed to get tools from server ${instance.config.name}:`, error);
       return null;
@@ -162,17 +226,16 @@ export class MCPClientManager {
   }
 
   /**
-   * Disconnect from a specific server
+   * Disconnect from a specific server. Pooled connections stay open for the next request.
    */
   async disconnect(serverId: string): Promise<void> {
     const instance = this.clients.get(serverId);
     if (instance) {
-      try {
-        await instance.client.close();
-      } catch (error) {
-        console.error(`Error closing MCP client ${instance.config.name}:`, error);
-      }
+      instance.connection.release();
       this.clients.delete(serverId);
+      if (this.ownsPool) {
+        await this.pool.evict(serverId);
+      }
     }
   }
 
@@ -180,16 +243,15 @@ export class MCPClientManager {
    * Disconnect from all servers and cleanup
    */
   async disconnectAll(): Promise<void> {
-    const closePromises = Array.from(this.clients.values()).map(async instance => {
-      try {
-        await instance.client.close();
-      } catch (error) {
-        console.error(`Error closing MCP client ${instance.config.name}:`, error);
-      }
-    });
-
-    await Promise.all(closePromises);
+    for (const instance of this.clients.values()) {
+      instance.connection.release();
+    }
     this.clients.clear();
+    this.toolSources.clear();
+
+    if (this.ownsPool) {
+      await this.pool.closeAll();
+    }
   }
 
   /**
@@ -219,6 +281,40 @@ export class MCPClientManager {
 
   // Private helper methods
 
+  private timeoutFor(config: MCPServerConfig): number {
+    return config.timeout_ms || this.connectionTimeout;
+  }
+
+  /**
+   * Give every tool call the server's timeout, on top of any abort signal the caller
+   * passes (e.g. the chat request being cancelled)
+   */
+  private withCallTimeouts(tools: Record<string, unknown>, timeoutMs: number): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(tools).map(([name, tool]) => {
+        const execute = (tool as { execute?: MCPToolExecute }).execute;
+        if (!execute) return [name, tool];
+
+        const executeWithTimeout: MCPToolExecute = (args, options = {}) => {
+          const timeout = AbortSignal.timeout(timeoutMs);
+          return execute(args, {
+            ...options,
+            abortSignal: options.abortSignal ? AbortSignal.any([options.abortSignal, timeout]) : timeout,
+          });
+        };
+        return [name, { ...(tool as object), execute: executeWithTimeout }];
+      })
+    );
+  }
+
+  private getSupabase(): SupabaseClient {
+    this.options.supabase ??= createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+    return this.options.supabase;
+  }
+
   private buildAuthHeaders(config: MCPServerConfig): Record<string, string> {
     const headers: Record<string, string> = {};
 
@@ -228,12 +324,12 @@ export class MCPClientManager {
       auth_header: config.auth_header,
     });
 
-    // Check if we have auth configured
+    // Check if we have auth configured; stored tokens are decrypted only for the request
     const hasAuth = config.auth_type && config.auth_type !== 'none';
-    const hasToken = config.auth_token_encrypted && config.auth_token_encrypted.trim() !== '';
+    const token = config.auth_token_encrypted?.trim() ? decryptCredential(config.auth_token_encrypted.trim()).trim() : '';
+    const oauthAccessToken = config.oauth_access_token ? decryptCredential(config.oauth_access_token) : null;
 
-    if (hasAuth && hasToken) {
-      const token = config.auth_token_encrypted!.trim();
+    if (hasAuth && token) {
       const headerName = config.auth_header || 'Authorization';
 
       switch (config.auth_type) {
@@ -248,10 +344,10 @@ export class MCPClientManager {
         case 'smithery':
         case 'oauth':
           // Use OAuth access token if available
-          if (config.oauth_access_token) {
-            headers['Authorization'] = `Bearer ${config.oauth_access_token}`;
+          if (oauthAccessToken) {
+            headers['Authorization'] = `Bearer ${oauthAccessToken}`;
             console.log('Added Smithery/OAuth auth header');
-          } else if (hasToken) {
+          } else {
             // Fallback to regular token
             headers[headerName] = `Bearer ${token}`;
             console.log('Added fallback Bearer auth header');
@@ -260,8 +356,8 @@ export class MCPClientManager {
       }
     } else if (config.auth_type === 'smithery' || config.auth_type === 'oauth') {
       // For OAuth, check for access token even if auth_token_encrypted is empty
-      if (config.oauth_access_token) {
-        headers['Authorization'] = `Bearer ${config.oauth_access_token}`;
+      if (oauthAccessToken) {
+        headers['Authorization'] = `Bearer ${oauthAccessToken}`;
         console.log('Added Smithery/OAuth auth header from oauth_access_token');
       } else {
         console.log('OAuth configured but no access token available');
@@ -297,6 +393,11 @@ export class MCPClientManager {
       );
     }
 
+    // Denied tools are never offered to the model
+    filteredTools = Object.fromEntries(
+      Object.entries(filteredTools).filter(([name]) => getMCPToolPolicy(config, name) !== 'deny')
+    );
+
     return filteredTools;
   }
 }
@@ -0,0 +1,328 @@
+// Long-lived MCP connections shared across requests, so a chat turn doesn't pay for
+// connecting, initializing and listing tools on every server it uses.
+//
+// Connections are keyed by server id and a fingerprint of the transport (type, URL and auth
+// headers): saving new credentials or a new URL opens a new connection, and the old one is
+// closed as soon as no request holds it. Connections nobody has used for IDLE_TIMEOUT_MS
+// are closed. Tool lists are cached per connection and dropped when the server sends
+// notifications/tools/list_changed. Before a connection is handed out it is health-checked
+// (by listing its tools again) if it hasn't been for HEALTH_CHECK_INTERVAL_MS or it reported
+// an error, and replaced if the check fails.
+//
+// Server-only, and imports @ai-sdk/mcp: use it through createMCPManager, not directly.
+
+import { createHash } from 'crypto';
+import { experimental_createMCPClient as createMCPClient, type JSONRPCMessage } from '@ai-sdk/mcp';
+
+type MCPClient = Awaited<ReturnType<typeof createMCPClient>>;
+type MCPTransportConfig = Extract<Parameters<typeof createMCPClient>[0]['transport'], { type: 'http' | 'sse' }>;
+type MCPToolSet = Awaited<ReturnType<MCPClient['tools']>>;
+
+export interface MCPConnectionPoolOptions {
+  idleTimeoutMs?: number;
+  healthCheckIntervalMs?: number;
+  /** Opens the client; tests pass a fake */
+  createClient?: typeof createMCPClient;
+  now?: () => number;
+}
+
+export interface PooledMCPConnection {
+  client: MCPClient;
+  /** Tools of the server, from the cache while it is valid */
+  tools(): Promise<MCPToolSet>;
+  /** Hand the connection back to the pool; it stays open for the next request */
+  release(): void;
+}
+
+interface PoolEntry {
+  serverId: string;
+  fingerprint: string;
+  client: MCPClient;
+  tools: Promise<MCPToolSet> | null;
+  /** Requests holding the connection */
+  users: number;
+  lastUsedAt: number;
+  lastCheckedAt: number;
+  healthy: boolean;
+  checking: Promise<boolean> | null;
+  /** Replaced by a connection with other credentials; closed once released */
+  retired: boolean;
+}
+
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const HEALTH_CHECK_INTERVAL_MS = 60 * 1000;
+const TOOLS_LIST_CHANGED = 'notifications/tools/list_changed';
+
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  message: string,
+  onLate?: (value: T) => void
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Clean up whatever the slow operation eventually produces
+      promise.then(onLate, () => {});
+      reject(new Error(message));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Identifies a server's transport without keeping its credentials around in plain text
+ */
+function transportFingerprint(transport: MCPTransportConfig): string {
+  const headers = Object.entries(transport.headers ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify([transport.type, transport.url, headers])).digest('hex');
+}
+
+/**
+ * Call `onNotification` for notifications from the server. @ai-sdk/mcp has no hook for
+ * them (it reports them as unsupported messages), so they are taken off its transport
+ * before the client sees them.
+ */
+function watchNotifications(client: MCPClient, onNotification: (method: string) => void) {
+  const transport = (client as unknown as { transport?: { onmessage?: (message: JSONRPCMessage) => void } }).transport;
+  const handleMessage = transport?.onmessage;
+  if (!transport || !handleMessage) return;
+
+  transport.onmessage = (message) => {
+    if ('method' in message && !('id' in message)) {
+      onNotification(message.method);
+      return;
+    }
+    handleMessage(message);
+  };
+}
+
+export class MCPConnectionPool {
+  private entries: Map<string, PoolEntry> = new Map();
+  private opening: Map<string, Promise<PoolEntry>> = new Map();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private idleTimeoutMs: number;
+  private healthCheckIntervalMs: number;
+  private createClient: typeof createMCPClient;
+  private now: () => number;
+
+  constructor(options: MCPConnectionPoolOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? IDLE_TIMEOUT_MS;
+    this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? HEALTH_CHECK_INTERVAL_MS;
+    this.createClient = options.createClient ?? createMCPClient;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Check out a connection to a server, opening one if there is no healthy connection
+   * with the same transport. Connecting and listing tools give up after `timeoutMs`.
+   */
+  async acquire(serverId: string, transport: MCPTransportConfig, timeoutMs: number): Promise<PooledMCPConnection> {
+    const fingerprint = transportFingerprint(transport);
+    let entry = this.entries.get(serverId);
+
+    if (entry && entry.fingerprint !== fingerprint) {
+      void this.retire(entry);
+      entry = undefined;
+    }
+
+    if (entry && (!entry.healthy || this.now() - entry.lastCheckedAt >= this.healthCheckIntervalMs)) {
+      if (!(await this.checkHealth(entry, timeoutMs))) {
+        console.warn(`MCP connection to server ${serverId} failed its health check, reconnecting`);
+        void this.retire(entry);
+        entry = undefined;
+      }
+    }
+
+    entry ??= await this.open(serverId, fingerprint, transport, timeoutMs);
+    entry.users++;
+    entry.lastUsedAt = this.now();
+
+    const pooled = entry;
+    let released = false;
+    return {
+      client: pooled.client,
+      tools: () => this.listTools(pooled, timeoutMs),
+      release: () => {
+        if (released) return;
+        released = true;
+        pooled.users--;
+        pooled.lastUsedAt = this.now();
+        if (pooled.retired && pooled.users === 0) {
+          void this.close(pooled);
+        }
+      },
+    };
+  }
+
+  /**
+   * Close a server's connection, right away if no request holds it
+   */
+  async evict(serverId: string): Promise<void> {
+    const entry = this.entries.get(serverId);
+    if (entry) {
+      await this.retire(entry);
+    }
+  }
+
+  /**
+   * Close connections that have been idle for longer than the idle timeout
+   */
+  async closeIdle(): Promise<void> {
+    const idle = Array.from(this.entries.values()).filter(
+      (entry) => entry.users === 0 && this.now() - entry.lastUsedAt >= this.idleTimeoutMs
+    );
+    await Promise.all(idle.map((entry) => this.close(entry)));
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.entries.values()).map((entry) => this.close(entry)));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private async open(
+    serverId: string,
+    fingerprint: string,
+    transport: MCPTransportConfig,
+    timeoutMs: number
+  ): Promise<PoolEntry> {
+    // Concurrent requests for the same server share one connection attempt
+    const key = `${serverId}:${fingerprint}`;
+    const pending = this.opening.get(key);
+    if (pending) return pending;
+
+    const opening = (async () => {
+      let entry: PoolEntry | undefined;
+      const client = await withTimeout(
+        this.createClient({
+          transport,
+          onUncaughtError: (error) => {
+            console.error(`MCP server ${serverId} reported an error:`, error);
+            if (entry) entry.healthy = false;
+          },
+        }),
+        timeoutMs,
+        `Timed out connecting after ${timeoutMs}ms`,
+        (late) => void late.close().catch(() => {})
+      );
+
+      const now = this.now();
+      entry = {
+        serverId,
+        fingerprint,
+        client,
+        tools: null,
+        users: 0,
+        lastUsedAt: now,
+        lastCheckedAt: now,
+        healthy: true,
+        checking: null,
+        retired: false,
+      };
+
+      const opened = entry;
+      watchNotifications(client, (method) => {
+        if (method === TOOLS_LIST_CHANGED) {
+          opened.tools = null;
+        }
+      });
+
+      this.entries.set(serverId, opened);
+      this.startSweeping();
+      return opened;
+    })();
+
+    this.opening.set(key, opening);
+    try {
+      return await opening;
+    } finally {
+      this.opening.delete(key);
+    }
+  }
+
+  private listTools(entry: PoolEntry, timeoutMs: number): Promise<MCPToolSet> {
+    if (!entry.tools) {
+      const tools = withTimeout(entry.client.tools(), timeoutMs, `Timed out listing tools after ${timeoutMs}ms`);
+      entry.tools = tools;
+      tools.catch(() => {
+        // Don't cache the failure; the next health check decides whether to reconnect
+        if (entry.tools === tools) entry.tools = null;
+        entry.healthy = false;
+      });
+    }
+    return entry.tools;
+  }
+
+  private checkHealth(entry: PoolEntry, timeoutMs: number): Promise<boolean> {
+    entry.checking ??= (async () => {
+      entry.tools = null;
+      try {
+        await this.listTools(entry, timeoutMs);
+        entry.healthy = true;
+        entry.lastCheckedAt = this.now();
+        return true;
+      } catch {
+        return false;
+      } finally {
+        entry.checking = null;
+      }
+    })();
+    return entry.checking;
+  }
+
+  private retire(entry: PoolEntry): Promise<void> {
+    entry.retired = true;
+    if (this.entries.get(entry.serverId) === entry) {
+      this.entries.delete(entry.serverId);
+    }
+    return entry.users === 0 ? this.close(entry) : Promise.resolve();
+  }
+
+  private async close(entry: PoolEntry) {
+    entry.retired = true;
+    if (this.entries.get(entry.serverId) === entry) {
+      this.entries.delete(entry.serverId);
+    }
+    if (this.entries.size === 0) {
+      this.stopSweeping();
+    }
+
+    try {
+      await entry.client.close();
+    } catch (error) {
+      console.error(`Error closing MCP connection to server ${entry.serverId}:`, error);
+    }
+  }
+
+  private startSweeping() {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => void this.closeIdle(), Math.min(this.idleTimeoutMs, HEALTH_CHECK_INTERVAL_MS));
+    // The sweep alone shouldn't keep the process alive
+    this.sweepTimer.unref?.();
+  }
+
+  private stopSweeping() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
+
+let pool: MCPConnectionPool | null = null;
+
+/**
+ * The connection pool shared by every request in this server process
+ */
+export function getMCPConnectionPool(): MCPConnectionPool {
+  pool ??= new MCPConnectionPool();
+  return pool;
+}
@@ -0,0 +1,294 @@
+// Encryption of MCP server credentials at rest: mcp_servers.auth_token_encrypted,
+// oauth_client_secret, oauth_access_token and oauth_refresh_token.
+//
+// Envelope encryption: each value is encrypted (AES-256-GCM) with its own random data key,
+// and the data key is wrapped with a master key held only by the server. Master keys are
+// versioned: MCP_CREDENTIALS_KEYS lists "version:base64key" pairs, the highest version
+// encrypts and older ones only decrypt, until `pnpm mcp:rotate-credentials` has
+// re-encrypted every row with the current key (recorded in credentials_key_version).
+//
+// Server-only (node:crypto); not exported from lib/mcp/index.ts.
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MCPServerConfig, PublicMCPServerConfig } from './types';
+
+export const MCP_CREDENTIAL_COLUMNS = [
+  'auth_token_encrypted',
+  'oauth_client_secret',
+  'oauth_access_token',
+  'oauth_refresh_token',
+] as const;
+
+export type MCPCredentialColumn = (typeof MCP_CREDENTIAL_COLUMNS)[number];
+
+type MCPCredentialValues = Partial<Record<MCPCredentialColumn, string | null>>;
+
+export interface CredentialKeyring {
+  /** Version of the key new values are encrypted with */
+  currentVersion: number;
+  keys: Map<number, Buffer>;
+}
+
+export interface CredentialRotationResult {
+  rotated: number;
+  failed: { id: string; error: string }[];
+}
+
+// enc:v1:<key version>:<wrapped data key>:<encrypted value>, each sealed part being
+// base64 iv.tag.ciphertext
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const ROTATION_BATCH_SIZE = 200;
+// Times a row is re-read when it changed while being rotated
+const ROTATION_ATTEMPTS = 3;
+
+/**
+ * Parse master keys from "version:base64key" pairs separated by commas,
+ * e.g. "1:q3J...=,2:Zm9...="
+ */
+export function parseCredentialKeyring(value: string | undefined): CredentialKeyring {
+  if (!value?.trim()) {
+    throw new Error('MCP_CREDENTIALS_KEYS is not set');
+  }
+
+  const keys = new Map<number, Buffer>();
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const version = Number(entry.slice(0, separator));
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+    if (separator < 1 || !Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid MCP_CREDENTIALS_KEYS entry "${entry.slice(0, separator)}": expected version:base64key`);
+    }
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`MCP credentials key version ${version} must be ${KEY_BYTES} bytes, base64-encoded`);
+    }
+    keys.set(version, key);
+  }
+
+  return { currentVersion: Math.max(...keys.keys()), keys };
+}
+
+let keyring: CredentialKeyring | null = null;
+
+/**
+ * Master keys from MCP_CREDENTIALS_KEYS, parsed once
+ */
+export function getCredentialKeyring(): CredentialKeyring {
+  keyring ??= parseCredentialKeyring(process.env.MCP_CREDENTIALS_KEYS);
+  return keyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.');
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function isEncryptedCredential(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Version of the master key that wraps the value; null for plaintext
+ */
+export function credentialKeyVersion(value: string): number | null {
+  return isEncryptedCredential(value) ? Number(value.slice(ENCRYPTED_PREFIX.length).split(':')[0]) : null;
+}
+
+export function encryptCredential(plaintext: string, keys: CredentialKeyring = getCredentialKeyring()): string {
+  const dataKey = randomBytes(KEY_BYTES);
+  const wrappedKey = seal(keys.keys.get(keys.currentVersion)!, dataKey);
+  const value = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  return `${ENCRYPTED_PREFIX}${keys.currentVersion}:${wrappedKey}:${value}`;
+}
+
+/**
+ * Plaintext of a stored credential. Values saved before encryption was introduced are
+ * returned as they are until the rotation command has encrypted them.
+ */
+export function decryptCredential(stored: string, keys: CredentialKeyring = getCredentialKeyring()): string {
+  if (!isEncryptedCredential(stored)) return stored;
+
+  const [version, wrappedKey, value] = stored.slice(ENCRYPTED_PREFIX.length).split(':');
+  const masterKey = keys.keys.get(Number(version));
+  if (!masterKey) {
+    throw new Error(`MCP credential is encrypted with key version ${version}, which is not in MCP_CREDENTIALS_KEYS`);
+  }
+
+  return unseal(unseal(masterKey, wrappedKey), value).toString('utf8');
+}
+
+/**
+ * Hint for showing a credential without revealing it: the last four characters of long
+ * tokens, nothing of short ones
+ */
+export function maskCredential(plaintext: string | null | undefined): string | null {
+  if (!plaintext) return null;
+  return plaintext.length >= 12 ? `••••${plaintext.slice(-4)}` : '••••••••';
+}
+
+/**
+ * Column values to save for new or changed plaintext credentials, with the key version.
+ * Empty values clear the column.
+ */
+export function encryptCredentialColumns(
+  values: MCPCredentialValues,
+  keys: CredentialKeyring = getCredentialKeyring()
+): MCPCredentialValues & { credentials_key_version: number } {
+  const encrypted: MCPCredentialValues = {};
+  for (const column of MCP_CREDENTIAL_COLUMNS) {
+    if (values[column] === undefined) continue;
+    const value = values[column]?.trim();
+    encrypted[column] = value ? encryptCredential(value, keys) : null;
+  }
+  return { ...encrypted, credentials_key_version: keys.currentVersion };
+}
+
+/**
+ * Column values for changing some of a server's credentials. The ones not changed are
+ * re-encrypted as well, so the whole row is on the current key version.
+ */
+export function updatedCredentialColumns(
+  stored: MCPCredentialValues,
+  changes: MCPCredentialValues,
+  keys: CredentialKeyring = getCredentialKeyring()
+): MCPCredentialValues & { credentials_key_version: number } {
+  const plaintext: MCPCredentialValues = {};
+  for (const column of MCP_CREDENTIAL_COLUMNS) {
+    const storedValue = stored[column];
+    plaintext[column] = changes[column] !== undefined
+      ? changes[column]
+      : storedValue ? decryptCredential(storedValue, keys) : null;
+  }
+  return encryptCredentialColumns(plaintext, keys);
+}
+
+/**
+ * The server as the API returns it: credentials are replaced by a masked hint of the
+ * token and whether an OAuth connection is stored
+ */
+export function toPublicMCPServer(server: MCPServerConfig): PublicMCPServerConfig {
+  const {
+    auth_token_encrypted,
+    oauth_access_token,
+    oauth_client_secret: _clientSecret,
+    oauth_refresh_token: _refreshToken,
+    ...rest
+  } = server;
+
+  let authTokenMasked: string | null = null;
+  if (auth_token_encrypted) {
+    try {
+      authTokenMasked = maskCredential(decryptCredential(auth_token_encrypted));
+    } catch (error) {
+      console.error(`Failed to decrypt credentials of MCP server ${server.id}:`, error);
+      authTokenMasked = '••••••••';
+    }
+  }
+
+  return { ...rest, auth_token_masked: authTokenMasked, oauth_connected: !!oauth_access_token };
+}
+
+type RotationRow = { id: string; credentials_key_version: number | null } & MCPCredentialValues;
+
+const ROTATION_COLUMNS = `id, credentials_key_version, ${MCP_CREDENTIAL_COLUMNS.join(', ')}`;
+
+/**
+ * Re-encrypt one row, only if its credentials are still the ones that were read. A token
+ * refresh saving in between would otherwise be overwritten with the old refresh token,
+ * which authorization servers that rotate refresh tokens no longer accept. Returns
+ * whether the row was rotated; a row that someone else already moved to the current key
+ * is left alone.
+ */
+async function rotateCredentialRow(
+  supabase: SupabaseClient,
+  row: RotationRow,
+  keys: CredentialKeyring
+): Promise<boolean> {
+  let current: RotationRow | null = row;
+
+  for (let attempt = 0; attempt < ROTATION_ATTEMPTS; attempt++) {
+    if (!current || current.credentials_key_version === keys.currentVersion) return false;
+
+    let update = supabase
+      .from('mcp_servers')
+      .update(updatedCredentialColumns(current, {}, keys))
+      .eq('id', current.id);
+    for (const column of ['credentials_key_version', ...MCP_CREDENTIAL_COLUMNS] as const) {
+      const value = current[column];
+      update = value === null || value === undefined ? update.is(column, null) : update.eq(column, value);
+    }
+
+    const { data: updated, error: updateError } = await update.select('id');
+    if (updateError) throw new Error(updateError.message);
+    if ((updated?.length ?? 0) > 0) return true;
+
+    // Changed since it was read; try again with what is stored now
+    const { data: latest, error: readError } = await supabase
+      .from('mcp_servers')
+      .select(ROTATION_COLUMNS)
+      .eq('id', current.id)
+      .maybeSingle();
+    if (readError) throw new Error(readError.message);
+    current = latest as unknown as RotationRow | null;
+  }
+
+  throw new Error('Credentials kept changing during rotation');
+}
+
+/**
+ * Re-encrypt the credentials of every server not yet on the current master key,
+ * including values stored before encryption. Run after adding a key version to
+ * MCP_CREDENTIALS_KEYS; the old version can be removed once nothing failed.
+ */
+export async function rotateMCPCredentials(
+  supabase: SupabaseClient,
+  keys: CredentialKeyring = getCredentialKeyring()
+): Promise<CredentialRotationResult> {
+  const result: CredentialRotationResult = { rotated: 0, failed: [] };
+  const failedIds = new Set<string>();
+
+  for (;;) {
+    let query = supabase
+      .from('mcp_servers')
+      .select(ROTATION_COLUMNS)
+      .or(`credentials_key_version.is.null,credentials_key_version.neq.${keys.currentVersion}`)
+      .order('id')
+      .limit(ROTATION_BATCH_SIZE);
+    // Rows that failed keep their old version; skip past them
+    if (failedIds.size > 0) {
+      query = query.not('id', 'in', `(${Array.from(failedIds).join(',')})`);
+    }
+
+    const { data: rows, error } = await query;
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+    if (!rows || rows.length === 0) break;
+
+    for (const row of rows as unknown as RotationRow[]) {
+      try {
+        if (await rotateCredentialRow(supabase, row, keys)) result.rotated++;
+      } catch (rotateError) {
+        failedIds.add(row.id);
+        result.failed.push({
+          id: row.id,
+          error: rotateError instanceof Error ? rotateError.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  return result;
+}
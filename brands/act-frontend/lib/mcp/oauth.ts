@@ -0,0 +1,536 @@
+// OAuth for MCP servers, following the MCP authorization spec (OAuth 2.1):
+//
+// 1. Discovery: the server's protected resource metadata (RFC 9728) names its
+//    authorization server, whose metadata (RFC 8414 / OpenID discovery) lists the endpoints.
+//    Servers without either fall back to /authorize, /token and /register on their origin.
+// 2. Dynamic client registration (RFC 7591), once per server and redirect URI.
+// 3. Authorization code flow with PKCE (S256) and the resource parameter (RFC 8707). The
+//    state is signed with MCP_OAUTH_STATE_SECRET, expires, names the user who started the
+//    flow and carries the encrypted PKCE verifier, so nothing is kept between the requests.
+// 4. Refresh: MCPClientManager.connect refreshes expired access tokens and saves them.
+//
+// Every network call takes a fetch function so a mock authorization server can stand in
+// for tests. Server-only (node:crypto); not exported from lib/mcp/index.ts.
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MCPOAuthMetadata, MCPServerConfig } from './types';
+import { MCP_CREDENTIAL_COLUMNS, decryptCredential, encryptCredential, updatedCredentialColumns } from './credentials';
+
+type FetchFn = typeof fetch;
+
+export interface MCPAuthorizationServerDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint: string | null;
+  resource: string;
+  /** Scopes the MCP server asks for, from its protected resource metadata */
+  scope: string | null;
+}
+
+export interface MCPOAuthClientRegistration {
+  client_id: string;
+  client_secret: string | null;
+  token_endpoint_auth_method: string;
+}
+
+export interface MCPOAuthTokens {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  token_type?: string;
+  scope?: string;
+}
+
+export interface MCPOAuthTokenResult {
+  tokens: MCPOAuthTokens | null;
+  error: string | null;
+  /** OAuth error code from the token endpoint, e.g. invalid_grant for a revoked refresh token */
+  errorCode: string | null;
+}
+
+export interface MCPOAuthState {
+  serverId: string;
+  brandId: string;
+  /** User who started the flow; the callback must be made in the same user's session */
+  userId: string;
+  verifier: string;
+  /** Path to send the user back to */
+  returnTo: string;
+  expiresAt: number;
+}
+
+export const MCP_OAUTH_CALLBACK_PATH = '/api/mcp/oauth/callback';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+// Refresh a little before the token actually expires so it does not lapse mid-request
+const EXPIRY_SKEW_MS = 60 * 1000;
+const CLIENT_NAME = 'ACT';
+
+/**
+ * Canonical URI of an MCP server as the resource parameter expects it: no fragment and no
+ * trailing slash
+ */
+export function canonicalResourceUri(serverUrl: string): string {
+  const url = new URL(serverUrl);
+  url.hash = '';
+  return url.href.replace(/\/$/, '');
+}
+
+async function fetchMetadata<T>(urls: string[], fetchFn: FetchFn): Promise<T | null> {
+  for (const url of urls) {
+    const response = await fetchFn(url, { headers: { Accept: 'application/json' } });
+    if (response.ok) {
+      return (await response.json()) as T;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the authorization server of an MCP server and its endpoints
+ */
+export async function discoverAuthorizationServer(
+  serverUrl: string,
+  fetchFn: FetchFn = fetch
+): Promise<MCPAuthorizationServerDiscovery> {
+  const resourceUrl = new URL(serverUrl);
+  const resourcePath = resourceUrl.pathname.replace(/\/$/, '');
+  const resource = canonicalResourceUri(serverUrl);
+
+  const protectedResource = await fetchMetadata<{
+    authorization_servers?: string[];
+    scopes_supported?: string[];
+  }>(
+    [
+      ...(resourcePath ? [`${resourceUrl.origin}/.well-known/oauth-protected-resource${resourcePath}`] : []),
+      `${resourceUrl.origin}/.well-known/oauth-protected-resource`,
+    ],
+    fetchFn
+  );
+
+  const issuer = protectedResource?.authorization_servers?.[0] ?? resourceUrl.origin;
+  const { origin, pathname } = new URL(issuer);
+  const issuerPath = pathname.replace(/\/$/, '');
+
+  const metadata = await fetchMetadata<{
+    issuer?: string;
+    authorization_endpoint?: string;
+    token_endpoint?: string;
+    registration_endpoint?: string;
+    code_challenge_methods_supported?: string[];
+  }>(
+    [
+      `${origin}/.well-known/oauth-authorization-server${issuerPath}`,
+      `${origin}/.well-known/openid-configuration${issuerPath}`,
+      ...(issuerPath ? [`${origin}${issuerPath}/.well-known/openid-configuration`] : []),
+    ],
+    fetchFn
+  );
+
+  const scope = protectedResource?.scopes_supported?.join(' ') || null;
+
+  if (!metadata) {
+    if (protectedResource) {
+      throw new Error(`No authorization server metadata found for ${issuer}`);
+    }
+    // Servers from before protected resource metadata: default endpoints on the origin
+    return {
+      issuer: resourceUrl.origin,
+      authorization_endpoint: `${resourceUrl.origin}/authorize`,
+      token_endpoint: `${resourceUrl.origin}/token`,
+      registration_endpoint: `${resourceUrl.origin}/register`,
+      resource,
+      scope,
+    };
+  }
+
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint) {
+    throw new Error(`Authorization server ${issuer} does not list its authorization and token endpoints`);
+  }
+  if (!metadata.code_challenge_methods_supported?.includes('S256')) {
+    throw new Error(`Authorization server ${issuer} does not support PKCE (S256)`);
+  }
+
+  return {
+    issuer: metadata.issuer ?? issuer,
+    authorization_endpoint: metadata.authorization_endpoint,
+    token_endpoint: metadata.token_endpoint,
+    registration_endpoint: metadata.registration_endpoint ?? null,
+    resource,
+    scope,
+  };
+}
+
+/**
+ * Register this app as an OAuth client of the authorization server. Public client with
+ * PKCE unless the server insists on issuing a secret.
+ */
+export async function registerOAuthClient(
+  discovery: Pick<MCPAuthorizationServerDiscovery, 'issuer' | 'registration_endpoint' | 'scope'>,
+  redirectUri: string,
+  fetchFn: FetchFn = fetch
+): Promise<MCPOAuthClientRegistration> {
+  if (!discovery.registration_endpoint) {
+    throw new Error(`Authorization server ${discovery.issuer} does not support dynamic client registration`);
+  }
+
+  const response = await fetchFn(discovery.registration_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_name: CLIENT_NAME,
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+      ...(discovery.scope ? { scope: discovery.scope } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Client registration failed (${response.status}): ${await response.text()}`);
+  }
+
+  const client = (await response.json()) as {
+    client_id?: string;
+    client_secret?: string;
+    token_endpoint_auth_method?: string;
+  };
+  if (!client.client_id) {
+    throw new Error('Client registration response has no client_id');
+  }
+
+  return {
+    client_id: client.client_id,
+    client_secret: client.client_secret ?? null,
+    token_endpoint_auth_method:
+      client.token_endpoint_auth_method ?? (client.client_secret ? 'client_secret_basic' : 'none'),
+  };
+}
+
+/**
+ * Authorization server and client to start a flow with. The client registered earlier is
+ * reused while the server URL and redirect URI are unchanged; otherwise the authorization
+ * server is discovered and registered with again, and `registered` says so, so the caller
+ * saves the new client.
+ */
+export async function prepareOAuthClient(
+  server: Pick<MCPServerConfig, 'url' | 'oauth_client_id' | 'oauth_metadata'>,
+  redirectUri: string,
+  fetchFn: FetchFn = fetch
+): Promise<{ metadata: MCPOAuthMetadata; client: MCPOAuthClientRegistration | null; registered: boolean }> {
+  if (!server.url) {
+    throw new Error('MCP server has no URL');
+  }
+
+  const existing = server.oauth_metadata;
+  if (
+    existing &&
+    server.oauth_client_id &&
+    existing.redirect_uri === redirectUri &&
+    existing.resource === canonicalResourceUri(server.url)
+  ) {
+    return { metadata: existing, client: null, registered: false };
+  }
+
+  const discovery = await discoverAuthorizationServer(server.url, fetchFn);
+  const client = await registerOAuthClient(discovery, redirectUri, fetchFn);
+
+  return {
+    metadata: {
+      issuer: discovery.issuer,
+      authorization_endpoint: discovery.authorization_endpoint,
+      token_endpoint: discovery.token_endpoint,
+      registration_endpoint: discovery.registration_endpoint,
+      token_endpoint_auth_method: client.token_endpoint_auth_method,
+      redirect_uri: redirectUri,
+      resource: discovery.resource,
+      scope: discovery.scope,
+    },
+    client,
+    registered: true,
+  };
+}
+
+/**
+ * PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+}
+
+function getStateSecret(): string {
+  const secret = process.env.MCP_OAUTH_STATE_SECRET;
+  if (!secret) {
+    throw new Error('MCP_OAUTH_STATE_SECRET is not set');
+  }
+  return secret;
+}
+
+function stateSignature(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+/**
+ * Signed state parameter for the authorization request. The verifier is encrypted, as the
+ * state passes through the browser and the authorization server.
+ */
+export function signOAuthState(
+  state: Omit<MCPOAuthState, 'expiresAt'>,
+  options: { secret?: string; now?: number } = {}
+): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      ...state,
+      verifier: encryptCredential(state.verifier),
+      expiresAt: (options.now ?? Date.now()) + STATE_TTL_MS,
+    })
+  ).toString('base64url');
+
+  return `${payload}.${stateSignature(payload, options.secret ?? getStateSecret()).toString('base64url')}`;
+}
+
+/**
+ * Check the signature and expiry of a state parameter and decrypt its verifier
+ */
+export function verifyOAuthState(
+  value: string,
+  options: { secret?: string; now?: number } = {}
+): { state: MCPOAuthState | null; error: string | null } {
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature) {
+    return { state: null, error: 'Invalid state parameter' };
+  }
+
+  const expected = stateSignature(payload, options.secret ?? getStateSecret());
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { state: null, error: 'Invalid state parameter' };
+  }
+
+  try {
+    const state = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as MCPOAuthState;
+    if (state.expiresAt < (options.now ?? Date.now())) {
+      return { state: null, error: 'Authorization expired, please try again' };
+    }
+    return { state: { ...state, verifier: decryptCredential(state.verifier) }, error: null };
+  } catch {
+    return { state: null, error: 'Invalid state parameter' };
+  }
+}
+
+/**
+ * Path on the app's own origin to send the user back to after the flow, or null when
+ * `returnTo` could lead elsewhere. Browsers read backslashes as slashes and drop tabs and
+ * newlines, so "/\evil.com" is protocol-relative to them; those are rejected outright.
+ */
+export function safeReturnPath(returnTo: string, appUrl: string): string | null {
+  if (!returnTo.startsWith('/') || /[\\\p{Cc}]/u.test(returnTo)) {
+    return null;
+  }
+
+  try {
+    const origin = new URL(appUrl).origin;
+    const url = new URL(returnTo, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URL to send the user to for authorizing the app
+ */
+export function buildAuthorizationUrl(
+  metadata: MCPOAuthMetadata,
+  clientId: string,
+  codeChallenge: string,
+  state: string
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', clientId);
+  url.searchParams.set('redirect_uri', metadata.redirect_uri);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  url.searchParams.set('state', state);
+  url.searchParams.set('resource', metadata.resource);
+  if (metadata.scope) {
+    url.searchParams.set('scope', metadata.scope);
+  }
+  return url.toString();
+}
+
+async function requestTokens(
+  server: Pick<MCPServerConfig, 'oauth_client_id' | 'oauth_client_secret' | 'oauth_metadata'>,
+  params: Record<string, string>,
+  fetchFn: FetchFn
+): Promise<MCPOAuthTokenResult> {
+  const metadata = server.oauth_metadata;
+  if (!metadata || !server.oauth_client_id) {
+    return { tokens: null, error: 'MCP server has no registered OAuth client', errorCode: null };
+  }
+
+  const clientSecret = server.oauth_client_secret ? decryptCredential(server.oauth_client_secret) : null;
+  const body = new URLSearchParams({ ...params, resource: metadata.resource });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  if (clientSecret && metadata.token_endpoint_auth_method === 'client_secret_basic') {
+    const credentials = `${encodeURIComponent(server.oauth_client_id)}:${encodeURIComponent(clientSecret)}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', server.oauth_client_id);
+    if (clientSecret && metadata.token_endpoint_auth_method === 'client_secret_post') {
+      body.set('client_secret', clientSecret);
+    }
+  }
+
+  const response = await fetchFn(metadata.token_endpoint, { method: 'POST', headers, body });
+  const data = (await response.json().catch(() => ({}))) as Partial<MCPOAuthTokens> & {
+    error?: string;
+    error_description?: string;
+  };
+
+  if (!response.ok || !data.access_token) {
+    const errorCode = data.error ?? null;
+    return {
+      tokens: null,
+      error: `Token request failed (${response.status}): ${data.error_description ?? errorCode ?? 'no access token'}`,
+      errorCode,
+    };
+  }
+
+  return { tokens: data as MCPOAuthTokens, error: null, errorCode: null };
+}
+
+/**
+ * Exchange the authorization code from the callback for tokens
+ */
+export function exchangeAuthorizationCode(
+  server: Pick<MCPServerConfig, 'oauth_client_id' | 'oauth_client_secret' | 'oauth_metadata'>,
+  code: string,
+  verifier: string,
+  fetchFn: FetchFn = fetch
+): Promise<MCPOAuthTokenResult> {
+  return requestTokens(
+    server,
+    {
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: verifier,
+      redirect_uri: server.oauth_metadata?.redirect_uri ?? '',
+    },
+    fetchFn
+  );
+}
+
+export function refreshAccessToken(
+  server: Pick<MCPServerConfig, 'oauth_client_id' | 'oauth_client_secret' | 'oauth_metadata' | 'oauth_refresh_token'>,
+  fetchFn: FetchFn = fetch
+): Promise<MCPOAuthTokenResult> {
+  if (!server.oauth_refresh_token) {
+    return Promise.resolve({ tokens: null, error: 'MCP server has no refresh token', errorCode: null });
+  }
+  return requestTokens(
+    server,
+    { grant_type: 'refresh_token', refresh_token: decryptCredential(server.oauth_refresh_token) },
+    fetchFn
+  );
+}
+
+/**
+ * Column values for saving new tokens. Authorization servers that don't rotate refresh
+ * tokens omit them on refresh, so the stored one is kept.
+ */
+export function oauthTokenColumns(
+  stored: Pick<MCPServerConfig, (typeof MCP_CREDENTIAL_COLUMNS)[number]>,
+  tokens: MCPOAuthTokens,
+  now: number = Date.now()
+) {
+  return {
+    ...updatedCredentialColumns(stored, {
+      oauth_access_token: tokens.access_token,
+      ...(tokens.refresh_token ? { oauth_refresh_token: tokens.refresh_token } : {}),
+    }),
+    oauth_expires_at: tokens.expires_in ? new Date(now + tokens.expires_in * 1000).toISOString() : null,
+  };
+}
+
+/**
+ * Whether the server's OAuth access token has expired (or is about to) and can be refreshed
+ */
+export function needsOAuthRefresh(server: MCPServerConfig, now: number = Date.now()): boolean {
+  return (
+    (server.auth_type === 'oauth' || server.auth_type === 'smithery') &&
+    !!server.oauth_refresh_token &&
+    !!server.oauth_metadata &&
+    !!server.oauth_expires_at &&
+    new Date(server.oauth_expires_at).getTime() - EXPIRY_SKEW_MS <= now
+  );
+}
+
+const refreshes = new Map<string, Promise<MCPServerConfig>>();
+
+/**
+ * Refresh an expired access token and save the new tokens. Concurrent connections to the
+ * same server share one refresh, and a token refreshed meanwhile by another instance is
+ * used as it is. A refresh token the authorization server rejects is cleared, so the
+ * server shows as disconnected until someone reconnects it.
+ */
+export function refreshMCPServerTokens(
+  supabase: SupabaseClient,
+  server: MCPServerConfig,
+  options: { fetch?: FetchFn; now?: number } = {}
+): Promise<MCPServerConfig> {
+  const pending = refreshes.get(server.id);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    const { data: stored, error } = await supabase
+      .from('mcp_servers')
+      .select(`${MCP_CREDENTIAL_COLUMNS.join(', ')}, oauth_client_id, oauth_expires_at, oauth_metadata, auth_type`)
+      .eq('id', server.id)
+      .single();
+
+    if (error || !stored) {
+      throw new Error(`Database error: ${error?.message ?? 'MCP server not found'}`);
+    }
+
+    const current = { ...server, ...(stored as unknown as Partial<MCPServerConfig>) };
+    const now = options.now ?? Date.now();
+    if (!needsOAuthRefresh(current, now)) {
+      return current;
+    }
+
+    const { tokens, error: refreshError, errorCode } = await refreshAccessToken(current, options.fetch);
+    if (!tokens) {
+      if (errorCode === 'invalid_grant') {
+        await supabase
+          .from('mcp_servers')
+          .update({
+            ...updatedCredentialColumns(current, { oauth_access_token: null, oauth_refresh_token: null }),
+            oauth_expires_at: null,
+          })
+          .eq('id', server.id);
+      }
+      throw new Error(`Failed to refresh OAuth token of ${server.name}: ${refreshError}`);
+    }
+
+    const columns = oauthTokenColumns(current, tokens, now);
+    const { error: updateError } = await supabase.from('mcp_servers').update(columns).eq('id', server.id);
+    if (updateError) {
+      throw new Error(`Database error: ${updateError.message}`);
+    }
+
+    return { ...current, ...columns };
+  })();
+
+  refreshes.set(server.id, refresh);
+  return refresh.finally(() => refreshes.delete(server.id));
+}
@@ -0,0 +1,248 @@
+// Approval of MCP tool calls
+// Servers set a policy per tool (mcp_servers.tool_policies). Calls of "ask" tools are
+// recorded in mcp_tool_approvals and wait, with the reply's stream open, until someone
+// with the ai:approve_tool_calls permission approves or rejects the exact arguments, or
+// the approval expires. Only approved calls run; otherwise the model is told the call
+// didn't happen and carries on with its answer.
+//
+// Server-only: expects a service-role client.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MCPServerConfig, MCPToolApproval, MCPToolApprovalStatus, MCPToolPolicy, MCPToolSource } from './types';
+
+export interface ToolApprovalUpdate {
+  toolCallId: string;
+  toolName: string;
+  mcpSource?: MCPToolSource;
+  input: Record<string, unknown>;
+  approval: { id: string; status: MCPToolApprovalStatus; expiresAt: string };
+}
+
+export interface ToolApprovalOptions {
+  brandId: string;
+  conversationId: string | null;
+  /** Assistant message making the calls */
+  messageId: string;
+  /** User whose message led to the calls */
+  requestedBy: string;
+  getToolSource: (chatToolName: string) => MCPToolSource | null;
+  getToolPolicy: (chatToolName: string) => MCPToolPolicy;
+  /** Called when an approval is requested and when it is decided */
+  onUpdate: (update: ToolApprovalUpdate) => void;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+type ToolExecute = (args: unknown, options: { toolCallId: string; abortSignal?: AbortSignal }) => Promise<unknown>;
+
+// Less than the time after which a reply still marked streaming is considered dead
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+const POLL_INTERVAL_MS = 1000;
+
+// What the model gets instead of a result when a call doesn't run
+const NOT_RUN_RESULTS: Record<Exclude<MCPToolApprovalStatus, 'pending' | 'approved'>, string> = {
+  rejected: 'The user rejected this tool call, so it was not run. Do not retry it; tell the user what it would have done.',
+  expired: 'Nobody approved this tool call in time, so it was not run. Tell the user it needs their approval.',
+  cancelled: 'This tool call was cancelled before it was approved, so it was not run.',
+};
+
+export function getMCPToolPolicy(config: Pick<MCPServerConfig, 'tool_policies'>, toolName: string): MCPToolPolicy {
+  return config.tool_policies?.[toolName] ?? 'auto';
+}
+
+function toUpdate(approval: MCPToolApproval, mcpSource: MCPToolSource | null): ToolApprovalUpdate {
+  return {
+    toolCallId: approval.tool_call_id,
+    toolName: approval.chat_tool_name,
+    ...(mcpSource ? { mcpSource } : {}),
+    input: approval.arguments,
+    approval: { id: approval.id, status: approval.status, expiresAt: approval.expires_at },
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+export async function getToolApproval(
+  supabase: SupabaseClient,
+  approvalId: string
+): Promise<{ approval: MCPToolApproval | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('mcp_tool_approvals')
+    .select('*')
+    .eq('id', approvalId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load tool approval:', error);
+    return { approval: null, error: 'Failed to load tool approval' };
+  }
+  if (!data) {
+    return { approval: null, error: 'Tool approval not found' };
+  }
+  return { approval: data as MCPToolApproval, error: null };
+}
+
+/**
+ * Settle a pending approval. Fails when it was already decided or has expired, so
+ * concurrent decisions can't both win.
+ */
+export async function decideToolApproval(
+  supabase: SupabaseClient,
+  approvalId: string,
+  decision: Exclude<MCPToolApprovalStatus, 'pending'>,
+  options: { decidedBy?: string | null; now?: number } = {}
+): Promise<{ approval: MCPToolApproval | null; error: string | null }> {
+  const now = new Date(options.now ?? Date.now()).toISOString();
+  let query = supabase
+    .from('mcp_tool_approvals')
+    .update({ status: decision, decided_by: options.decidedBy ?? null, decided_at: now })
+    .eq('id', approvalId)
+    .eq('status', 'pending');
+  // Calls can only be approved or rejected before the deadline
+  if (decision === 'approved' || decision === 'rejected') {
+    query = query.gt('expires_at', now);
+  }
+
+  const { data, error } = await query.select('*').maybeSingle();
+
+  if (error) {
+    console.error('Failed to decide tool approval:', error);
+    return { approval: null, error: 'Failed to decide tool approval' };
+  }
+  if (!data) {
+    return { approval: null, error: 'This tool call is no longer waiting for approval' };
+  }
+
+  const approval = data as MCPToolApproval;
+  console.log(
+    `Tool approval ${approval.id} (${approval.server_name}/${approval.tool_name}) ${decision}` +
+      (approval.decided_by ? ` by ${approval.decided_by}` : '')
+  );
+  return { approval, error: null };
+}
+
+/**
+ * Cancel the approvals a reply is still waiting for, e.g. when it is stopped
+ */
+export async function cancelToolApprovals(supabase: SupabaseClient, messageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('mcp_tool_approvals')
+    .update({ status: 'cancelled', decided_at: new Date().toISOString() })
+    .eq('message_id', messageId)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Failed to cancel tool approvals:', error);
+  }
+}
+
+/**
+ * Wait until an approval is decided. Expires it once its deadline passes and cancels it
+ * when `signal` aborts.
+ */
+export async function waitForToolApproval(
+  supabase: SupabaseClient,
+  approval: MCPToolApproval,
+  options: { signal?: AbortSignal; pollIntervalMs?: number; now?: () => number } = {}
+): Promise<MCPToolApproval> {
+  const now = options.now ?? Date.now;
+  const pollIntervalMs = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+  let current = approval;
+
+  while (current.status === 'pending') {
+    const timedOut = now() >= Date.parse(current.expires_at);
+    if (timedOut || options.signal?.aborted) {
+      const { approval: decided, error } = await decideToolApproval(
+        supabase,
+        current.id,
+        timedOut ? 'expired' : 'cancelled',
+        { now: now() }
+      );
+      if (decided) return decided;
+
+      // Someone decided it just now, unless the update failed
+      const { approval: latest } = await getToolApproval(supabase, current.id);
+      if (!latest || latest.status === 'pending') {
+        throw new Error(`Database error: ${error}`);
+      }
+      return latest;
+    }
+
+    await sleep(pollIntervalMs, options.signal);
+    const { approval: latest, error } = await getToolApproval(supabase, current.id);
+    if (!latest) {
+      throw new Error(`Database error: ${error}`);
+    }
+    current = latest;
+  }
+
+  return current;
+}
+
+/**
+ * Make calls of "ask" tools wait for approval before they run. Other tools are returned
+ * as they are.
+ */
+export function withToolApprovals(
+  supabase: SupabaseClient,
+  tools: Record<string, unknown>,
+  options: ToolApprovalOptions
+): Record<string, unknown> {
+  const timeoutMs = options.timeoutMs ?? APPROVAL_TIMEOUT_MS;
+
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, tool]) => {
+      const execute = (tool as { execute?: ToolExecute }).execute;
+      if (!execute || options.getToolPolicy(name) !== 'ask') return [name, tool];
+
+      const executeAfterApproval: ToolExecute = async (args, callOptions) => {
+        const source = options.getToolSource(name);
+        const { data, error } = await supabase
+          .from('mcp_tool_approvals')
+          .insert({
+            brand_id: options.brandId,
+            conversation_id: options.conversationId,
+            message_id: options.messageId,
+            server_id: source?.serverId ?? null,
+            server_name: source?.serverName ?? name,
+            tool_name: source?.toolName ?? name,
+            chat_tool_name: name,
+            tool_call_id: callOptions.toolCallId,
+            arguments: args ?? {},
+            requested_by: options.requestedBy,
+            expires_at: new Date(Date.now() + timeoutMs).toISOString(),
+          })
+          .select('*')
+          .single();
+
+        if (error || !data) {
+          throw new Error(`Database error: ${error?.message ?? 'Failed to request tool approval'}`);
+        }
+
+        options.onUpdate(toUpdate(data as MCPToolApproval, source));
+        const decided = await waitForToolApproval(supabase, data as MCPToolApproval, {
+          signal: callOptions.abortSignal,
+          pollIntervalMs: options.pollIntervalMs,
+        });
+        options.onUpdate(toUpdate(decided, source));
+
+        if (decided.status === 'approved') {
+          return execute(args, callOptions);
+        }
+        return NOT_RUN_RESULTS[decided.status as keyof typeof NOT_RUN_RESULTS];
+      };
+
+      return [name, { ...(tool as object), execute: executeAfterApproval }];
+    })
+  );
+}
@@ -0,0 +1,86 @@
+// Names MCP tools are exposed to the model under
+// Every server gets a namespace derived from its name, and its tools are prefixed with it
+// (`notion__search`), so two servers exposing `search` no longer shadow each other. Names
+// stay within what every provider accepts for tool names. Pure functions, safe to import
+// from client components.
+
+import type { MCPServerConfig, MCPToolInfo } from './types';
+
+export const MCP_TOOL_SEPARATOR = '__';
+
+// Anthropic, OpenAI and Gemini all accept [a-zA-Z0-9_-] up to 64 characters
+const MAX_TOOL_NAME_LENGTH = 64;
+const MAX_NAMESPACE_LENGTH = 24;
+
+export interface MCPToolCollision {
+  toolName: string;
+  servers: { id: string; name: string; chatToolName: string }[];
+}
+
+// FNV-1a, to shorten names without pulling node:crypto into the client bundle
+function shortHash(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function slugify(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, MAX_NAMESPACE_LENGTH)
+    .replace(/_+$/, '');
+  // Gemini wants names to start with a letter or underscore
+  return /^[a-z]/.test(slug) ? slug : `mcp${slug ? `_${slug}` : ''}`;
+}
+
+/**
+ * Namespaces of servers, by server id. Servers whose names slugify the same all get a
+ * suffix from their id, so the result doesn't depend on the order servers are listed in.
+ */
+export function getMCPToolNamespaces(servers: Pick<MCPServerConfig, 'id' | 'name'>[]): Map<string, string> {
+  const slugs = new Map(servers.map((server) => [server.id, slugify(server.name)]));
+  const counts = new Map<string, number>();
+  for (const slug of slugs.values()) {
+    counts.set(slug, (counts.get(slug) ?? 0) + 1);
+  }
+
+  return new Map(
+    Array.from(slugs, ([id, slug]) => [
+      id,
+      counts.get(slug)! > 1 ? `${slug}_${id.replace(/[^a-zA-Z0-9]/g, '').slice(0, 6).toLowerCase()}` : slug,
+    ])
+  );
+}
+
+/**
+ * Name a server's tool is exposed to the model under, e.g. `notion__search`
+ */
+export function toMCPChatToolName(namespace: string, toolName: string): string {
+  const name = `${namespace}${MCP_TOOL_SEPARATOR}${toolName.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+  if (name.length <= MAX_TOOL_NAME_LENGTH) return name;
+
+  // Keep long names unique by ending them with a hash of the full name
+  const hash = shortHash(`${namespace}${MCP_TOOL_SEPARATOR}${toolName}`);
+  return `${name.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+/**
+ * Tool names exposed by more than one server. Both stay available to the model under
+ * their namespaced names, but the model has to tell them apart by server.
+ */
+export function findMCPToolCollisions(tools: MCPToolInfo[]): MCPToolCollision[] {
+  const byName = new Map<string, MCPToolInfo[]>();
+  for (const tool of tools) {
+    byName.set(tool.toolName, [...(byName.get(tool.toolName) ?? []), tool]);
+  }
+
+  return Array.from(byName, ([toolName, sameName]) => ({
+    toolName,
+    servers: sameName.map((tool) => ({ id: tool.serverId, name: tool.serverName, chatToolName: tool.chatToolName })),
+  })).filter((collision) => new Set(collision.servers.map((server) => server.id)).size > 1);
+}
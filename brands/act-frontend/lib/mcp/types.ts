@@ -2,6 +2,9 @@
 
 export type MCPTransportType = 'http' | 'sse' | 'stdio';
 export type MCPAuthType = 'none' | 'bearer' | 'api_key' | 'oauth' | 'smithery';
+/** auto runs the tool, ask waits for someone to approve the call, deny hides the tool */
+export type MCPToolPolicy = 'auto' | 'ask' | 'deny';
+export type MCPToolApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled';
 
 export interface MCPServerConfig {
   id: string;
@@ -15,16 +18,22 @@ export interface MCPServerConfig {
   command?: string | null;
   args?: string[] | null;
   
-  // Auth
+  // Auth (tokens are encrypted, see credentials.ts)
   auth_type?: MCPAuthType | null;
   auth_header?: string | null;
   auth_token_encrypted?: string | null;
   
   // OAuth / Smithery
   oauth_client_id?: string | null;
+  /** Set when the authorization server issued a confidential client at registration */
+  oauth_client_secret?: string | null;
   oauth_access_token?: string | null;
   oauth_refresh_token?: string | null;
   oauth_expires_at?: string | null;
+  /** Authorization server the client is registered with, see oauth.ts */
+  oauth_metadata?: MCPOAuthMetadata | null;
+  /** Master key version the credentials are encrypted with */
+  credentials_key_version?: number | null;
   
   // Config
   enabled: boolean;
@@ -34,6 +43,8 @@ export interface MCPServerConfig {
   // Tool filtering
   allowed_tools?: string[] | null;
   blocked_tools?: string[] | null;
+  /** Policy per tool name; tools not listed are auto */
+  tool_policies?: Record<string, MCPToolPolicy> | null;
   
   // Metadata
   created_at: string;
@@ -41,6 +52,32 @@ export interface MCPServerConfig {
   created_by?: string | null;
 }
 
+// Authorization server endpoints and registration details saved when an OAuth
+// connection is started, so tokens can be exchanged and refreshed without rediscovery
+export interface MCPOAuthMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint?: string | null;
+  /** How the client authenticates at the token endpoint: none, client_secret_basic or client_secret_post */
+  token_endpoint_auth_method: string;
+  /** Redirect URI the client was registered with */
+  redirect_uri: string;
+  /** Canonical MCP server URI, sent as the RFC 8707 resource parameter */
+  resource: string;
+  scope?: string | null;
+}
+
+// Server as returned by the API: credentials never leave the server, only a masked hint
+export type PublicMCPServerConfig = Omit<
+  MCPServerConfig,
+  'auth_token_encrypted' | 'oauth_client_secret' | 'oauth_access_token' | 'oauth_refresh_token'
+> & {
+  /** e.g. "••••a1b2"; null when no token is stored */
+  auth_token_masked: string | null;
+  oauth_connected: boolean;
+};
+
 export interface MCPServerInput {
   name: string;
   description?: string;
@@ -56,6 +93,7 @@ export interface MCPServerInput {
   timeout_ms?: number;
   allowed_tools?: string[];
   blocked_tools?: string[];
+  tool_policies?: Record<string, MCPToolPolicy>;
 }
 
 export interface MCPToolResult {
@@ -64,6 +102,41 @@ export interface MCPToolResult {
   tools: Record<string, unknown>;
 }
 
+// Where a namespaced tool the model called comes from, for showing it in the chat
+export interface MCPToolSource {
+  serverId: string;
+  serverName: string;
+  /** Name of the tool on its server, e.g. "search" for "notion__search" */
+  toolName: string;
+}
+
+// A server's tool as listed by /api/mcp/tools
+export interface MCPToolInfo extends MCPToolSource {
+  /** Name the model sees, see tool-names.ts */
+  chatToolName: string;
+  description?: string;
+}
+
+// A tool call that needed approval, and what became of it (mcp_tool_approvals)
+export interface MCPToolApproval {
+  id: string;
+  brand_id: string;
+  conversation_id: string | null;
+  message_id: string;
+  server_id: string | null;
+  server_name: string;
+  tool_name: string;
+  chat_tool_name: string;
+  tool_call_id: string;
+  arguments: Record<string, unknown>;
+  status: MCPToolApprovalStatus;
+  requested_by: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
 export interface MCPConnectionStatus {
   serverId: string;
   serverName: string;
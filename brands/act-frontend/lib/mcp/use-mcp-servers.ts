@@ -1,31 +1,36 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import type { MCPServerConfig, MCPServerInput } from './types';
+import type { MCPServerInput, MCPToolInfo, PublicMCPServerConfig } from './types';
 
 interface UseMCPServersProps {
   brandId: string;
 }
 
 interface UseMCPServersReturn {
-  servers: MCPServerConfig[];
+  servers: PublicMCPServerConfig[];
   isLoading: boolean;
   error: string | null;
   fetchServers: () => Promise<void>;
-  createServer: (input: MCPServerInput) => Promise<MCPServerConfig | null>;
-  updateServer: (serverId: string, updates: Partial<MCPServerInput>) => Promise<MCPServerConfig | null>;
+  createServer: (input: MCPServerInput) => Promise<PublicMCPServerConfig | null>;
+  updateServer: (serverId: string, updates: Partial<MCPServerInput>) => Promise<PublicMCPServerConfig | null>;
   deleteServer: (serverId: string) => Promise<boolean>;
-  testConnection: (config: Partial<MCPServerConfig>) => Promise<{
+  /** Test a saved server with its stored credentials */
+  testConnection: (serverId: string) => Promise<{
     success: boolean;
     toolCount?: number;
     tools?: string[];
     error?: string;
     message: string;
   }>;
+  /** Start the OAuth flow of a server; resolves with an error, otherwise the page navigates away */
+  connectOAuth: (serverId: string) => Promise<{ error?: string }>;
+  /** Tools of enabled servers, with the names the chat exposes them under */
+  fetchTools: (serverIds: string[]) => Promise<{ tools: MCPToolInfo[]; error?: string }>;
 }
 
 export function useMCPServers({ brandId }: UseMCPServersProps): UseMCPServersReturn {
-  const [servers, setServers] = useState<MCPServerConfig[]>([]);
+  const [servers, setServers] = useState<PublicMCPServerConfig[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -53,7 +58,7 @@ export function useMCPServers({ brandId }: UseMCPServersProps): UseMCPServersRet
     }
   }, [brandId]);
 
-  const createServer = useCallback(async (input: MCPServerInput): Promise<MCPServerConfig | null> => {
+  const createServer = useCallback(async (input: MCPServerInput): Promise<PublicMCPServerConfig | null> => {
     setError(null);
 
     try {
@@ -84,7 +89,7 @@ export function useMCPServers({ brandId }: UseMCPServersProps): UseMCPServersRet
   const updateServer = useCallback(async (
     serverId: string,
     updates: Partial<MCPServerInput>
-  ): Promise<MCPServerConfig | null> => {
+  ): Promise<PublicMCPServerConfig | null> => {
     setError(null);
 
     try {
@@ -139,12 +144,12 @@ export function useMCPServers({ brandId }: UseMCPServersProps): UseMCPServersRet
     }
   }, []);
 
-  const testConnection = useCallback(async (config: Partial<MCPServerConfig>) => {
+  const testConnection = useCallback(async (serverId: string) => {
     try {
       const response = await fetch('/api/mcp/test', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ server: config }),
+        body: JSON.stringify({ serverId, brandId }),
       });
 
       const data = await response.json();
@@ -156,7 +161,47 @@ export function useMCPServers({ brandId }: UseMCPServersProps): UseMCPServersRet
         message: 'Failed to test connection',
       };
     }
-  }, []);
+  }, [brandId]);
+
+  const connectOAuth = useCallback(async (serverId: string) => {
+    try {
+      const response = await fetch('/api/mcp/oauth/initiate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serverId, brandId, returnTo: window.location.pathname }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.authUrl) {
+        throw new Error(data.error || 'Failed to start OAuth connection');
+      }
+
+      window.location.assign(data.authUrl);
+      return {};
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to start OAuth connection';
+      console.error('Failed to start MCP OAuth:', err);
+      return { error: message };
+    }
+  }, [brandId]);
+
+  const fetchTools = useCallback(async (serverIds: string[]) => {
+    try {
+      const response = await fetch(`/api/mcp/tools?brandId=${brandId}&serverIds=${serverIds.join(',')}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch MCP tools');
+      }
+
+      return { tools: (data.tools || []) as MCPToolInfo[] };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch MCP tools';
+      console.error('Failed to fetch MCP tools:', err);
+      return { tools: [], error: message };
+    }
+  }, [brandId]);
 
   // Fetch servers on mount and when brandId changes
   useEffect(() => {
@@ -172,5 +217,7 @@ export function useMCPServers({ brandId }: UseMCPServersProps): UseMCPServersRet
     updateServer,
     deleteServer,
     testConnection,
+    connectOAuth,
+    fetchTools,
   };
 }
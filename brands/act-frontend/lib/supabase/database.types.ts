@@ -212,6 +212,7 @@ export type Database = {
           metadata: Json | null
           model: string
           role: string
+          status: string
           tokens_used: number | null
         }
         Insert: {
@@ -222,6 +223,7 @@ export type Database = {
           metadata?: Json | null
           model: string
           role: string
+          status?: string
           tokens_used?: number | null
         }
         Update: {
@@ -232,6 +234,7 @@ export type Database = {
           metadata?: Json | null
           model?: string
           role?: string
+          status?: string
           tokens_used?: number | null
         }
         Relationships: [
@@ -19,7 +19,6 @@ const PUBLIC_ROUTES = [
   '/auth',
   '/marketing',
   '/api/auth',
-  '/api/chat',
   '/brand',
   '/_next',
   '/favicon.ico',
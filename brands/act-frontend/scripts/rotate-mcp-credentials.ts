@@ -0,0 +1,48 @@
+/**
+ * Re-encrypt MCP server credentials with the current master key
+ *
+ * Usage (from brands/act-frontend, with NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ * and MCP_CREDENTIALS_KEYS set):
+ *
+ *   pnpm mcp:rotate-credentials                 # re-encrypt every row not on the newest key
+ *   pnpm mcp:rotate-credentials --generate-key  # print a new random master key
+ *
+ * To rotate: generate a key, append it to MCP_CREDENTIALS_KEYS with the next version
+ * (e.g. "1:<old>,2:<new>"), deploy, then run this. Remove the old version once it reports
+ * no failures.
+ */
+
+import { randomBytes } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { getCredentialKeyring, rotateMCPCredentials } from '../lib/mcp/credentials';
+
+async function main() {
+  if (process.argv.includes('--generate-key')) {
+    console.log(randomBytes(32).toString('base64'));
+    return;
+  }
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+  }
+
+  const keyring = getCredentialKeyring();
+  console.log(`Re-encrypting MCP credentials with key version ${keyring.currentVersion}…`);
+
+  const { rotated, failed } = await rotateMCPCredentials(createClient(url, serviceKey), keyring);
+
+  console.log(`Re-encrypted ${rotated} ${rotated === 1 ? 'server' : 'servers'}.`);
+  for (const { id, error } of failed) {
+    console.error(`Failed to re-encrypt server ${id}: ${error}`);
+  }
+  if (failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
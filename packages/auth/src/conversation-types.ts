@@ -10,6 +10,8 @@ export type AIModel =
   | 'claude-3-sonnet'
   | 'claude-3-haiku';
 
+export type MessageStatus = 'complete' | 'interrupted';
+
 export type MessageRole = 'system' | 'user' | 'assistant' | 'function';
 
 export interface ConversationSettings {
@@ -44,6 +46,8 @@ export interface Message {
   model: string;
   metadata: Record<string, any>;
   created_at: string;
+  /** 'interrupted' when the reply was cut short before the model finished */
+  status?: MessageStatus;
 }
 
 export interface CreateConversationParams {
@@ -0,0 +1,118 @@
+/**
+ * Typed client for the search-documents edge function: hybrid keyword + vector search
+ * over a brand's documents (reciprocal rank fusion), with optional reranking
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface DocumentSearchFilters {
+  /** brand_documents.file_type values, e.g. ['pdf', 'docx'] */
+  fileTypes?: string[];
+  /** Documents with any of these tags */
+  tags?: string[];
+  /** ISO dates compared with the document's upload date */
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+export interface DocumentSearchOptions {
+  brandId: string;
+  query: string;
+  /** Defaults to 5 */
+  matchCount?: number;
+  /** Drops vector matches below this cosine similarity; keyword matches are kept */
+  minSimilarity?: number;
+  filters?: DocumentSearchFilters;
+  /** Rerank the fused results with a model: slower, but better at picking the best few */
+  rerank?: boolean;
+}
+
+// Body of a search-documents request
+export interface DocumentSearchRequest {
+  query: string;
+  brand_id: string;
+  match_count?: number;
+  min_similarity?: number | null;
+  filters?: {
+    file_types?: string[];
+    tags?: string[];
+    created_after?: string;
+    created_before?: string;
+  };
+  rerank?: boolean;
+}
+
+export interface DocumentSearchResult {
+  /** document_embeddings chunk id */
+  id: string;
+  document_id: string;
+  document_name: string;
+  file_type: string;
+  tags: string[];
+  document_created_at: string;
+  content: string;
+  metadata: Record<string, any> | null;
+  /** Cosine similarity to the query */
+  similarity: number;
+  /** Full-text rank, null when the chunk only matched semantically */
+  keyword_rank: number | null;
+  /** Reciprocal rank fusion score */
+  score: number;
+  /** 0-10, set when the results were reranked */
+  rerank_score: number | null;
+}
+
+export interface DocumentSearchResponse {
+  success: true;
+  results: DocumentSearchResult[];
+  query: string;
+  brand_id: string;
+  /** False when reranking was asked for but failed; results keep the fused order */
+  reranked: boolean;
+}
+
+/**
+ * Build the search-documents request body for the options
+ */
+export function toDocumentSearchRequest(options: DocumentSearchOptions): DocumentSearchRequest {
+  const { filters = {} } = options;
+  return {
+    query: options.query,
+    brand_id: options.brandId,
+    match_count: options.matchCount ?? 5,
+    min_similarity: options.minSimilarity ?? null,
+    filters: {
+      ...(filters.fileTypes?.length ? { file_types: filters.fileTypes } : {}),
+      ...(filters.tags?.length ? { tags: filters.tags } : {}),
+      ...(filters.createdAfter ? { created_after: filters.createdAfter } : {}),
+      ...(filters.createdBefore ? { created_before: filters.createdBefore } : {}),
+    },
+    rerank: options.rerank ?? false,
+  };
+}
+
+/**
+ * Search a brand's documents through the search-documents edge function. The client
+ * must be signed in as a member of the brand.
+ */
+export async function searchDocuments(
+  supabase: SupabaseClient<any, any, any>,
+  options: DocumentSearchOptions
+): Promise<{ data: DocumentSearchResponse | null; error: Error | null }> {
+  try {
+    const { data, error } = await supabase.functions.invoke<DocumentSearchResponse>('search-documents', {
+      body: toDocumentSearchRequest(options),
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: error instanceof Error ? error : new Error('Document search failed'),
+    };
+  }
+}
@@ -3,6 +3,7 @@ export * from "./types";
 export * from "./validation";
 export * from "./n8n-utils";
 export * from "./rag-utils";
+export * from "./document-search";
 export * from "./env";
 export * from "./permissions";
 export * from "./storage-utils";
@@ -51,7 +51,8 @@ export type Permission =
   
   // AI permissions
   | 'ai:use'
-  | 'ai:train_models';
+  | 'ai:train_models'
+  | 'ai:approve_tool_calls';
 
 /**
  * Role hierarchy (higher roles inherit permissions from lower roles)
@@ -99,6 +100,7 @@ export const ROLE_PERMISSIONS: Record<BrandRole, Permission[]> = {
     'email:view_logs',
     'ai:use',
     'ai:train_models',
+    'ai:approve_tool_calls',
   ],
   
   // Company Admin: ACT superadmin - can manage all brands and quotas
@@ -131,6 +133,7 @@ export const ROLE_PERMISSIONS: Record<BrandRole, Permission[]> = {
     'email:view_logs',
     'ai:use',
     'ai:train_models',
+    'ai:approve_tool_calls',
   ],
   
   // Creator: Can create and edit content, manage documents
@@ -3,7 +3,7 @@
  * Quota management utilities for brand token limits
  */
 
-import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
 
 export type QuotaType = 'prompt_tokens' | 'image_generation' | 'workflow_executions';
 
@@ -42,7 +42,7 @@ export interface QuotaTransaction {
  * Get brand quota information
  */
 export async function getBrandQuota(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   brandId: string
 ): Promise<{ quota: BrandQuota | null; error: Error | null }> {
   try {
@@ -69,7 +69,7 @@ export async function getBrandQuota(
  * Check if brand has enough quota
  */
 export async function checkQuota(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   brandId: string,
   quotaType: QuotaType,
   amount: number
@@ -112,20 +112,34 @@ export async function checkQuota(
   }
 }
 
+export interface UseQuotaOptions {
+  description?: string;
+  metadata?: Record<string, any>;
+  /** Attribute the transaction to a user when called with the service role */
+  performedBy?: string;
+  /** Record usage that has already been incurred even if it exceeds the limit */
+  allowOverage?: boolean;
+}
+
 /**
  * Use quota (via database function)
  */
 export async function useQuota(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   brandId: string,
   quotaType: QuotaType,
-  amount: number
+  amount: number,
+  options: UseQuotaOptions = {}
 ): Promise<{ success: boolean; error: Error | null }> {
   try {
     const { data, error } = await supabase.rpc('check_and_use_quota', {
       p_brand_id: brandId,
       p_quota_type: quotaType,
       p_amount: amount,
+      p_description: options.description ?? null,
+      p_metadata: options.metadata ?? {},
+      p_performed_by: options.performedBy ?? null,
+      p_allow_overage: options.allowOverage ?? false,
     });
 
     if (error) {
@@ -149,7 +163,7 @@ export async function useQuota(
  * Top up quota (Company Admin only)
  */
 export async function topupQuota(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   brandId: string,
   quotaType: QuotaType,
   amount: number,
@@ -180,7 +194,7 @@ export async function topupQuota(
  * Get quota usage history
  */
 export async function getQuotaTransactions(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   brandId: string,
   options?: {
     quotaType?: QuotaType;
@@ -271,7 +285,7 @@ export function formatQuota(value: number, type: QuotaType): string {
  * Get quota status summary
  */
 export async function getQuotaStatus(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   brandId: string
 ): Promise<{
   status: {
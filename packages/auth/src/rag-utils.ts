@@ -1,16 +1,26 @@
 // @ts-nocheck
-import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Created lazily so importing @act/auth doesn't require an OpenAI key
+let openai: OpenAI | null = null;
+
+function getOpenAI(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openai;
+}
 
 /**
- * Generate embeddings for text using OpenAI
+ * Generate embeddings for text using OpenAI. Used for search queries; documents are
+ * chunked and embedded by the process-document and process-project-file edge functions
+ * (supabase/functions/_shared/indexing.ts), with the same model.
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
+  const response = await getOpenAI().embeddings.create({
     model: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
     input: text,
   });
@@ -19,10 +29,12 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 }
 
 /**
- * Search for similar documents in a brand's knowledge base
+ * Search a brand's knowledge base with hybrid keyword + vector search
+ * (hybrid_search_brand_documents). Matches below the similarity threshold are still
+ * returned when their text matches the query, so exact names and codes are found.
  */
 export async function searchBrandDocuments(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   brandId: string,
   query: string,
   matchThreshold: number = 0.7,
@@ -31,12 +43,12 @@ export async function searchBrandDocuments(
   // Generate embedding for the query
   const queryEmbedding = await generateEmbedding(query);
 
-  // Search using the match_brand_documents function
-  const { data, error } = await supabase.rpc('match_brand_documents', {
+  const { data, error } = await supabase.rpc('hybrid_search_brand_documents', {
+    query_text: query,
     query_embedding: queryEmbedding,
     query_brand_id: brandId,
-    match_threshold: matchThreshold,
     match_count: matchCount,
+    min_similarity: matchThreshold,
   });
 
   if (error) {
@@ -46,75 +58,3 @@ export async function searchBrandDocuments(
 
   return data;
 }
-
-/**
- * Chunk text into smaller pieces for embedding
- */
-export function chunkText(
-  text: string,
-  chunkSize: number = 1000,
-  overlap: number = 200
-): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    chunks.push(text.slice(start, end));
-    start = end - overlap;
-  }
-
-  return chunks;
-}
-
-/**
- * Process a document: chunk it and create embeddings
- */
-export async function processDocument(
-  supabase: ReturnType<typeof createClient>,
-  documentId: string,
-  brandId: string,
-  content: string
-) {
-  // Chunk the document
-  const chunks = chunkText(content);
-
-  // Generate embeddings for each chunk
-  const embeddings = await Promise.all(
-    chunks.map(async (chunk, index) => {
-      const embedding = await generateEmbedding(chunk);
-
-      return {
-        brand_id: brandId,
-        document_id: documentId,
-        chunk_index: index,
-        content: chunk,
-        content_length: chunk.length,
-        embedding,
-      };
-    })
-  );
-
-  // Insert embeddings into database
-  const { error } = await supabase
-    .from('document_embeddings')
-    .insert(embeddings);
-
-  if (error) {
-    console.error('Error inserting embeddings:', error);
-    throw error;
-  }
-
-  // Update document status
-  await supabase
-    .from('brand_documents')
-    .update({
-      is_indexed: true,
-      chunk_count: chunks.length,
-      status: 'processed',
-      processed_at: new Date().toISOString(),
-    })
-    .eq('id', documentId);
-
-  return { chunkCount: chunks.length };
-}
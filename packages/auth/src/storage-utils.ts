@@ -3,7 +3,7 @@
  * Files are organized as: {brand_id}/{category}/{filename}
  */
 
-import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
 
 export type StorageBucket = 
   | 'brand-documents'
@@ -20,13 +20,14 @@ export type FileCategory =
   | 'training'
   | 'generated'
   | 'exports'
+  | 'thumbnails'
   | 'temp';
 
 /**
  * Upload a file to brand-specific storage
  */
 export async function uploadBrandFile(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   options: {
     bucket: StorageBucket;
     brandId: string;
@@ -78,7 +79,7 @@ export async function uploadBrandFile(
  * Upload multiple files
  */
 export async function uploadBrandFiles(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   options: {
     bucket: StorageBucket;
     brandId: string;
@@ -99,7 +100,7 @@ export async function uploadBrandFiles(
  * Get signed URL for private file
  */
 export async function getSignedUrl(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   bucket: StorageBucket,
   filePath: string,
   expiresIn: number = 3600 // 1 hour default
@@ -126,7 +127,7 @@ export async function getSignedUrl(
  * Download a file
  */
 export async function downloadBrandFile(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   bucket: StorageBucket,
   filePath: string
 ): Promise<{ data: Blob | null; error: Error | null }> {
@@ -152,7 +153,7 @@ export async function downloadBrandFile(
  * List files in a brand's folder
  */
 export async function listBrandFiles(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   bucket: StorageBucket,
   brandId: string,
   category?: FileCategory
@@ -185,7 +186,7 @@ export async function listBrandFiles(
  * Delete a file
  */
 export async function deleteBrandFile(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   bucket: StorageBucket,
   filePath: string
 ): Promise<{ success: boolean; error: Error | null }> {
@@ -211,7 +212,7 @@ export async function deleteBrandFile(
  * Delete multiple files
  */
 export async function deleteBrandFiles(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   bucket: StorageBucket,
   filePaths: string[]
 ): Promise<{ success: boolean; error: Error | null }> {
@@ -237,7 +238,7 @@ export async function deleteBrandFiles(
  * Get file metadata
  */
 export async function getBrandFileMetadata(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   bucket: StorageBucket,
   filePath: string
 ): Promise<{ metadata: any | null; error: Error | null }> {
@@ -266,7 +267,7 @@ export async function getBrandFileMetadata(
  * Move/rename a file
  */
 export async function moveBrandFile(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   bucket: StorageBucket,
   fromPath: string,
   toPath: string
@@ -293,7 +294,7 @@ export async function moveBrandFile(
  * Get storage usage for a brand
  */
 export async function getBrandStorageUsage(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient<any, any, any>,
   brandId: string
 ): Promise<{ sizeBytes: number; fileCount: number; error: Error | null }> {
   try {
@@ -8,8 +8,8 @@ import type {
   CreateConversationInput,
   SendMessageInput,
   BrandContext,
-  ChatModel,
 } from '../types';
+import { DEFAULT_MODEL_ID } from '@act/models';
 import { useConversations } from './use-conversations';
 import { useMessages } from './use-messages';
 
@@ -59,7 +59,6 @@ export function useChat({
     conversations,
     isLoading: isLoadingConversations,
     createConversation: createConv,
-    updateConversation,
     deleteConversation: deleteConv,
     archiveConversation: archiveConv,
   } = useConversations({
@@ -158,7 +157,7 @@ export function useChat({
     if (!conversation) {
       conversation = await createConversation({
         title: content.slice(0, 50) + (content.length > 50 ? '...' : ''),
-        model: 'gpt-4' as ChatModel,
+        model: DEFAULT_MODEL_ID,
       });
     }
 
@@ -177,10 +176,6 @@ export function useChat({
       setIsStreaming(true);
       abortControllerRef.current = new AbortController();
 
-      // Create a placeholder for the assistant message
-      const assistantMessageId = crypto.randomUUID();
-      let assistantContent = '';
-
       // Call the API for streaming response
       const response = await fetch(apiEndpoint, {
         method: 'POST',
@@ -210,33 +205,34 @@ export function useChat({
       }
 
       const decoder = new TextDecoder();
+      let buffer = '';
 
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        const chunk = decoder.decode(value, { stream: true });
-        assistantContent += chunk;
-
-        // Update assistant message in real-time (local state only during streaming)
-        // The final message will be saved to the database
+        // The API streams server-sent events, one JSON event per `data:` line
+        buffer += decoder.decode(value, { stream: true });
+        const frames = buffer.split('\n\n');
+        buffer = frames.pop() ?? '';
+
+        for (const frame of frames) {
+          if (!frame.startsWith('data:')) continue;
+          try {
+            const event = JSON.parse(frame.slice(5));
+            if (event.type === 'error') {
+              throw new Error(event.message);
+            }
+          } catch (parseError) {
+            if (parseError instanceof SyntaxError) continue;
+            throw parseError;
+          }
+        }
       }
 
-      // Save the complete assistant message to the database
-      await addMessage({
-        conversation_id: conversation.id,
-        role: 'assistant',
-        content: assistantContent,
-        tokens_used: 0, // TODO: Calculate tokens
-        model: conversation.model,
-        metadata: {},
-      });
-
-      // Update conversation's last_message_at
-      await updateConversation(conversation.id, {
-        last_message_at: new Date().toISOString(),
-      });
-
+      // The API saves the assistant message and bumps last_message_at once the
+      // stream ends; it arrives through the messages subscription, so the stream is
+      // only read here for errors
     } catch (err) {
       if (err instanceof Error && err.name === 'AbortError') {
         // User cancelled the request
@@ -256,7 +252,6 @@ export function useChat({
     messages,
     apiEndpoint,
     brandContext,
-    updateConversation,
   ]);
 
   // Regenerate the last assistant response
@@ -2,7 +2,8 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { Conversation, CreateConversationInput, ChatModel } from '../types';
+import type { Conversation, CreateConversationInput } from '../types';
+import { DEFAULT_MODEL_ID } from '@act/models';
 
 interface UseConversationsProps {
   supabase: SupabaseClient;
@@ -76,7 +77,7 @@ export function useConversations({
       user_id: userId,
       project_id: input.project_id || null,
       title: input.title,
-      model: input.model || 'gpt-4' as ChatModel,
+      model: input.model || DEFAULT_MODEL_ID,
       system_prompt: input.system_prompt || null,
       settings: { ...defaultSettings, ...input.settings },
     };
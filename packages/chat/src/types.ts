@@ -2,6 +2,8 @@
  * Chat types with brand isolation support
  */
 
+import type { ModelId, StoredModelId } from '@act/models';
+
 // Project types for organizing conversations
 export interface Project {
   id: string;
@@ -41,6 +43,7 @@ export interface Conversation {
   model: ChatModel;
   system_prompt: string | null;
   style_preset: StylePreset;
+  brand_voice_enabled: boolean;
   settings: ChatSettings;
   total_tokens_used: number;
   total_cost_usd: number;
@@ -59,25 +62,16 @@ export interface Message {
   model: string;
   metadata: MessageMetadata;
   created_at: string;
+  /** 'interrupted' when the reply was cut short before the model finished */
+  status?: MessageStatus;
 }
 
+export type MessageStatus = 'complete' | 'interrupted';
+
 export type MessageRole = 'system' | 'user' | 'assistant' | 'function';
 
-export type ChatModel = 
-  // Legacy models (backward compatibility)
-  | 'gpt-4'
-  | 'gpt-4-turbo'
-  | 'gpt-3.5-turbo'
-  | 'claude-3-opus'
-  | 'claude-3-sonnet'
-  | 'claude-3-haiku'
-  // New model IDs
-  | 'claude-4.5'
-  | 'gpt-5.2'
-  | 'gemini-3.1'
-  | 'gpt-4o'
-  | 'gpt-4o-mini'
-  | 'gemini-pro';
+// Canonical registry ids plus the legacy ids still stored on older conversations
+export type ChatModel = StoredModelId;
 
 export type StylePreset = 'normal' | 'learning' | 'concise' | 'explanatory' | 'formal';
 
@@ -111,7 +105,7 @@ export interface BrandContext {
   brandId: string;
   brandName?: string;
   systemPrompt?: string;
-  allowedModels?: ChatModel[];
+  allowedModels?: ModelId[];
 }
 
 // Chat state
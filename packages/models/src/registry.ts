@@ -0,0 +1,139 @@
+import type { ModelDefinition } from './types';
+
+export const MODEL_IDS = [
+  'claude-sonnet-4-5',
+  'gpt-4o',
+  'gpt-4o-mini',
+  'gemini-2.0-flash',
+  'gemini-1.5-pro',
+] as const;
+
+export type ModelId = typeof MODEL_IDS[number];
+
+export const DEFAULT_MODEL_ID: ModelId = 'claude-sonnet-4-5';
+
+export const MODELS: Record<ModelId, ModelDefinition<ModelId>> = {
+  'claude-sonnet-4-5': {
+    id: 'claude-sonnet-4-5',
+    name: 'Claude Sonnet 4.5',
+    provider: 'anthropic',
+    upstreamId: 'claude-sonnet-4-5',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    pricing: { input: 3, output: 15 },
+    capabilities: { vision: true, pdf: true, webSearch: false, thinking: true },
+  },
+  'gpt-4o': {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'openai',
+    upstreamId: 'gpt-4o',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    pricing: { input: 2.5, output: 10 },
+    capabilities: { vision: true, pdf: true, webSearch: true, thinking: false },
+  },
+  'gpt-4o-mini': {
+    id: 'gpt-4o-mini',
+    name: 'GPT-4o mini',
+    provider: 'openai',
+    upstreamId: 'gpt-4o-mini',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    pricing: { input: 0.15, output: 0.6 },
+    capabilities: { vision: true, pdf: true, webSearch: true, thinking: false },
+  },
+  'gemini-2.0-flash': {
+    id: 'gemini-2.0-flash',
+    name: 'Gemini 2.0 Flash',
+    provider: 'google',
+    upstreamId: 'gemini-2.0-flash',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 8_192,
+    pricing: { input: 0.1, output: 0.4 },
+    capabilities: { vision: true, pdf: true, webSearch: true, thinking: false },
+  },
+  'gemini-1.5-pro': {
+    id: 'gemini-1.5-pro',
+    name: 'Gemini 1.5 Pro',
+    provider: 'google',
+    upstreamId: 'gemini-1.5-pro',
+    contextWindow: 2_097_152,
+    maxOutputTokens: 8_192,
+    pricing: { input: 1.25, output: 5 },
+    capabilities: { vision: true, pdf: true, webSearch: true, thinking: false },
+    deprecated: true,
+  },
+};
+
+// Model ids stored on existing conversations and messages before the registry existed
+export const MODEL_ALIASES = {
+  'claude-4.5': 'claude-sonnet-4-5',
+  'claude-3-opus': 'claude-sonnet-4-5',
+  'claude-3-sonnet': 'claude-sonnet-4-5',
+  'claude-3-haiku': 'claude-sonnet-4-5',
+  'gpt-5.2': 'gpt-4o',
+  'gpt-4': 'gpt-4o',
+  'gpt-4-turbo': 'gpt-4o',
+  'gpt-3.5-turbo': 'gpt-4o-mini',
+  'gemini-3.1': 'gemini-2.0-flash',
+  'gemini-pro': 'gemini-1.5-pro',
+} as const satisfies Record<string, ModelId>;
+
+export type ModelAlias = keyof typeof MODEL_ALIASES;
+
+/** Every value the conversations/messages model CHECK constraints accept */
+export type StoredModelId = ModelId | ModelAlias;
+
+export const STORED_MODEL_IDS: StoredModelId[] = [
+  ...MODEL_IDS,
+  ...(Object.keys(MODEL_ALIASES) as ModelAlias[]),
+];
+
+export function isModelId(id: string): id is ModelId {
+  return (MODEL_IDS as readonly string[]).includes(id);
+}
+
+/**
+ * Resolve a canonical id or legacy alias to a registry id
+ */
+export function resolveModelId(id: string | null | undefined): ModelId | null {
+  if (!id) return null;
+  if (isModelId(id)) return id;
+  return MODEL_ALIASES[id as ModelAlias] ?? null;
+}
+
+export function getModelDefinition(id: string | null | undefined): ModelDefinition<ModelId> | null {
+  const modelId = resolveModelId(id);
+  return modelId ? MODELS[modelId] : null;
+}
+
+/**
+ * Find the model a provider response came from. Providers may report dated
+ * snapshots (e.g. gpt-4o-2024-08-06), so the longest matching prefix wins.
+ */
+export function getModelByUpstreamId(upstreamId: string): ModelDefinition<ModelId> | null {
+  const match = Object.values(MODELS)
+    .sort((a, b) => b.upstreamId.length - a.upstreamId.length)
+    .find(model => upstreamId === model.upstreamId || upstreamId.startsWith(`${model.upstreamId}-`));
+  return match ?? null;
+}
+
+/**
+ * Models a brand may pick. `allowedModels` is the brand's allow-list (aliases are
+ * accepted); when it's empty or missing every non-deprecated model is available.
+ */
+export function getAvailableModels(allowedModels?: readonly string[] | null): ModelDefinition<ModelId>[] {
+  const selectable = MODEL_IDS.map(id => MODELS[id]).filter(model => !model.deprecated);
+  if (!allowedModels || allowedModels.length === 0) {
+    return selectable;
+  }
+
+  const allowed = new Set(allowedModels.map(resolveModelId).filter((id): id is ModelId => id !== null));
+  return selectable.filter(model => allowed.has(model.id));
+}
+
+export function isModelAvailable(id: string, allowedModels?: readonly string[] | null): boolean {
+  const modelId = resolveModelId(id);
+  return !!modelId && getAvailableModels(allowedModels).some(model => model.id === modelId);
+}
@@ -0,0 +1,36 @@
+/**
+ * Model registry types
+ */
+
+export type ModelProvider = 'anthropic' | 'openai' | 'google';
+
+export interface ModelCapabilities {
+  /** Image inputs */
+  vision: boolean;
+  /** PDF file inputs */
+  pdf: boolean;
+  /** Native provider web search tool */
+  webSearch: boolean;
+  /** Extended thinking / reasoning mode (used for deep research) */
+  thinking: boolean;
+}
+
+/** USD per 1M tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelDefinition<Id extends string = string> {
+  id: Id;
+  name: string;
+  provider: ModelProvider;
+  /** Model id sent to the provider API */
+  upstreamId: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  pricing: ModelPricing;
+  capabilities: ModelCapabilities;
+  /** Still resolvable for existing conversations, but not offered in the picker */
+  deprecated?: boolean;
+}
@@ -0,0 +1,65 @@
+// Brand access checks shared by the edge functions that act on a caller's behalf.
+// Functions run with the service role, so RLS doesn't scope their queries.
+
+// Minimal surface of a Supabase client, so either runtime's client can be passed in
+export interface BrandAccessClient {
+  from(table: string): {
+    select(columns: string): {
+      eq(column: string, value: string): PromiseLike<{
+        data: { brand_id: string; role: string }[] | null;
+        error: { message: string } | null;
+      }>;
+    };
+  };
+}
+
+// Brand roles with the documents:edit permission (see ROLE_PERMISSIONS in @act/auth)
+const DOCUMENT_EDITOR_ROLES = ["owner", "company_admin", "creator"];
+
+async function getMemberships(
+  supabase: BrandAccessClient,
+  userId: string,
+): Promise<{ brand_id: string; role: string }[]> {
+  const { data: memberships, error } = await supabase
+    .from("brand_users")
+    .select("brand_id, role")
+    .eq("user_id", userId);
+
+  if (error || !memberships) {
+    console.error("Failed to fetch brand memberships:", error);
+    return [];
+  }
+
+  return memberships;
+}
+
+function isCompanyAdmin(membership: { brand_id: string; role: string }): boolean {
+  return membership.brand_id === "act" && membership.role === "company_admin";
+}
+
+/**
+ * Brand members, and company admins (members of the ACT brand) for every brand
+ */
+export async function canAccessBrand(
+  supabase: BrandAccessClient,
+  userId: string,
+  brandId: string,
+): Promise<boolean> {
+  const memberships = await getMemberships(supabase, userId);
+  return memberships.some((m) => m.brand_id === brandId || isCompanyAdmin(m));
+}
+
+/**
+ * Members allowed to change the brand's documents, e.g. upload a new version or roll
+ * one back, and company admins for every brand
+ */
+export async function canEditBrandDocuments(
+  supabase: BrandAccessClient,
+  userId: string,
+  brandId: string,
+): Promise<boolean> {
+  const memberships = await getMemberships(supabase, userId);
+  return memberships.some((m) =>
+    (m.brand_id === brandId && DOCUMENT_EDITOR_ROLES.includes(m.role)) || isCompanyAdmin(m)
+  );
+}
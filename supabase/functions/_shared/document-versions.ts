@@ -0,0 +1,138 @@
+// Version history for brand documents and project files (document_versions).
+// Each upload of a file is a version with its extracted text and a diff against the
+// version it replaced; the parent row points at the active version, which is the only
+// one indexed. Rolling back re-indexes a stored version instead of re-uploading it.
+
+import { diffText } from "./text-diff.ts";
+
+export type VersionedDocumentKind = "brand_document" | "project_file";
+
+// document_versions column pointing at each kind of parent
+const PARENT_COLUMN: Record<VersionedDocumentKind, string> = {
+  brand_document: "brand_document_id",
+  project_file: "project_file_id",
+};
+
+/** Stored file of a version, as uploaded */
+export interface VersionFile {
+  file_path: string;
+  name: string;
+  file_type: string;
+  file_size: number | null;
+}
+
+export interface DocumentVersion extends VersionFile {
+  id: string;
+  version: number;
+  extracted_text: string;
+}
+
+export interface RecordVersionInput {
+  kind: VersionedDocumentKind;
+  documentId: string;
+  brandId: string;
+  /** Version being replaced, diffed against the new text */
+  activeVersionId: string | null;
+  file: VersionFile;
+  extractedText: string;
+  uploadedBy: string | null;
+}
+
+// Minimal surface of a Supabase client, so either runtime's client can be passed in
+interface VersionsResult<T> {
+  data: T | null;
+  error: { message: string } | null;
+}
+
+interface VersionsQuery<T> {
+  eq(column: string, value: string): VersionsQuery<T>;
+  order(column: string, options: { ascending: boolean }): VersionsQuery<T>;
+  limit(count: number): VersionsQuery<T>;
+  maybeSingle(): PromiseLike<VersionsResult<T>>;
+  single(): PromiseLike<VersionsResult<T>>;
+}
+
+// Rows only have the selected columns
+export interface VersionsClient {
+  from(table: string): {
+    select(columns: string): VersionsQuery<DocumentVersion>;
+    insert(row: Record<string, unknown>): {
+      select(columns: string): VersionsQuery<DocumentVersion>;
+    };
+  };
+}
+
+/**
+ * Find a version of the document, e.g. to roll back to it
+ */
+export async function getDocumentVersion(
+  supabase: VersionsClient,
+  kind: VersionedDocumentKind,
+  documentId: string,
+  versionId: string,
+): Promise<DocumentVersion | null> {
+  const { data, error } = await supabase
+    .from("document_versions")
+    .select("id, version, file_path, name, file_type, file_size, extracted_text")
+    .eq("id", versionId)
+    .eq(PARENT_COLUMN[kind], documentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Store the next version of a document. The caller makes it active once it is indexed.
+ */
+export async function recordDocumentVersion(
+  supabase: VersionsClient,
+  input: RecordVersionInput,
+): Promise<{ id: string; version: number }> {
+  const column = PARENT_COLUMN[input.kind];
+
+  const { data: latest, error: latestError } = await supabase
+    .from("document_versions")
+    .select("version")
+    .eq(column, input.documentId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    throw new Error(`Database error: ${latestError.message}`);
+  }
+
+  let previousText: string | null = null;
+  if (input.activeVersionId) {
+    const { data: previous } = await supabase
+      .from("document_versions")
+      .select("extracted_text")
+      .eq("id", input.activeVersionId)
+      .maybeSingle();
+    previousText = previous?.extracted_text ?? null;
+  }
+
+  const { data: version, error: insertError } = await supabase
+    .from("document_versions")
+    .insert({
+      brand_id: input.brandId,
+      [column]: input.documentId,
+      version: (latest?.version ?? 0) + 1,
+      ...input.file,
+      extracted_text: input.extractedText,
+      text_diff: previousText === null ? null : diffText(previousText, input.extractedText),
+      uploaded_by: input.uploadedBy,
+    })
+    .select("id, version")
+    .single();
+
+  if (insertError || !version) {
+    throw new Error(`Database error: ${insertError?.message ?? "Failed to record version"}`);
+  }
+
+  return version;
+}
@@ -0,0 +1,533 @@
+// Text extraction shared by the document processing functions
+import { extractImages, extractText, getDocumentProxy } from "npm:unpdf";
+import JSZip from "npm:jszip@3.10.1";
+import {
+  describeImage,
+  encodePng,
+  hasScannedPages,
+  imageMimeType,
+  recognizePdfPages,
+  type ImageCaptioner,
+  type OcrEngine,
+  type OcrImage,
+} from "./ocr.ts";
+import {
+  docxToMarkdown,
+  parseDocxHeadingStyles,
+  parsePresentationSlides,
+  parseRelationships,
+  parseSharedStrings,
+  parseWorkbookSheets,
+  resolvePartPath,
+  sheetToMarkdown,
+  slideToMarkdown,
+} from "./office-markdown.ts";
+
+export interface ExtractOptions {
+  /** Reads images and scanned PDF pages; without it they yield a placeholder */
+  ocr?: OcrEngine | null;
+  /** Adds a description of what an image shows */
+  captioner?: ImageCaptioner | null;
+}
+
+/**
+ * Extract the text of an uploaded file, picking the extractor from its MIME type or
+ * extension. Binary files we can't read yield a short placeholder.
+ */
+export async function extractFileText(
+  fileData: Blob,
+  mimeType: string | null | undefined,
+  name: string | null | undefined,
+  options: ExtractOptions = {}
+): Promise<string> {
+  const fileType = mimeType?.toLowerCase() || "";
+  const fileName = name?.toLowerCase() || "";
+  const fileExtension = fileName.split(".").pop() || "";
+
+  const imageType = imageMimeType(fileType, fileName);
+
+  console.log("Extracting text:", { name, fileType, fileExtension, ocr: options.ocr?.name ?? null });
+
+  if (fileType.includes("text/plain") || fileType.includes("text/markdown") || fileExtension === "txt" || fileExtension === "md") {
+    // Plain text or markdown - read directly
+    return await fileData.text();
+  } else if (fileType.includes("text/csv") || fileExtension === "csv") {
+    // CSV - read as text
+    return await fileData.text();
+  } else if (fileType.includes("application/json") || fileExtension === "json") {
+    // JSON - format nicely
+    const jsonText = await fileData.text();
+    try {
+      const parsed = JSON.parse(jsonText);
+      return JSON.stringify(parsed, null, 2);
+    } catch {
+      return jsonText;
+    }
+  } else if (fileType.includes("pdf") || fileExtension === "pdf") {
+    // PDF - extract text, OCR'ing scanned pages
+    console.log("Detected PDF file");
+    const arrayBuffer = await fileData.arrayBuffer();
+    return await extractTextFromPDF(new Uint8Array(arrayBuffer), options.ocr);
+  } else if (imageType) {
+    // Images - OCR, plus a description when captions are on
+    console.log("Detected image file");
+    if (!options.ocr) {
+      return `[Image: ${name}]\nNo OCR engine is configured, so the text in this image could not be read.`;
+    }
+    const arrayBuffer = await fileData.arrayBuffer();
+    return await describeImage(
+      { data: new Uint8Array(arrayBuffer), mimeType: imageType },
+      options.ocr,
+      options.captioner
+    );
+  } else if (
+    fileType.includes("msword") ||
+    fileType.includes("wordprocessingml") ||
+    fileExtension === "docx" ||
+    fileExtension === "doc"
+  ) {
+    // Word documents - extract text
+    console.log("Detected Word document, using DOCX extractor");
+    const arrayBuffer = await fileData.arrayBuffer();
+    return await extractTextFromDocx(new Uint8Array(arrayBuffer));
+  } else if (
+    fileType.includes("ms-excel") ||
+    fileType.includes("spreadsheetml") ||
+    fileExtension === "xlsx" ||
+    fileExtension === "xls"
+  ) {
+    // Excel - extract text from XLSX
+    console.log("Detected Excel file");
+    const arrayBuffer = await fileData.arrayBuffer();
+    return await extractTextFromXlsx(new Uint8Array(arrayBuffer));
+  } else if (
+    fileType.includes("ms-powerpoint") ||
+    fileType.includes("presentationml") ||
+    fileExtension === "pptx" ||
+    fileExtension === "ppt"
+  ) {
+    // PowerPoint - extract text from PPTX
+    console.log("Detected PowerPoint file");
+    const arrayBuffer = await fileData.arrayBuffer();
+    return await extractTextFromPptx(new Uint8Array(arrayBuffer));
+  } else {
+    // Unknown type - try reading as text
+    try {
+      return await fileData.text();
+    } catch {
+      return `[Binary file: ${name}]\nCould not extract text content.`;
+    }
+  }
+}
+
+// Production-grade PDF text extraction using unpdf
+async function extractTextFromPDF(data: Uint8Array, ocr?: OcrEngine | null): Promise<string> {
+  try {
+    // Use unpdf for production-grade PDF text extraction (on a copy: pdf.js may detach
+    // the buffer, which the fallback still needs)
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    const result = await extractText(pdf, { mergePages: false });
+
+    console.log('unpdf extraction result:', {
+      totalPages: result.totalPages,
+      textLength: result.text.reduce((sum, page) => sum + page.length, 0)
+    });
+
+    // Scanned pages have no text layer: OCR them and keep every page's number
+    if (ocr && hasScannedPages(result.text.map(text => ({ text })))) {
+      console.log(`Scanned pages found, running OCR (${ocr.name})`);
+      const text = await recognizePdfPages(
+        result.text.map((text, i) => ({ page: i + 1, text, image: () => pageScan(pdf, i + 1) })),
+        ocr
+      );
+      if (text.trim()) return text;
+    }
+
+    const mergedText = result.text.join('\n');
+    if (mergedText.trim().length > 50) {
+      // Clean up the extracted text
+      const cleanedText = mergedText
+        .replace(/\n{3,}/g, '\n\n')
+        .replace(/[ \t]+/g, ' ')
+        .trim();
+      
+      console.log(`Successfully extracted ${cleanedText.length} characters from ${result.totalPages} pages`);
+      return cleanedText;
+    }
+    
+    // If unpdf didn't get much text, try fallback
+    console.log('unpdf returned minimal text, trying fallback extraction');
+    return await extractTextFromPDFFallback(data);
+    
+  } catch (error) {
+    console.error('unpdf extraction failed:', error);
+    // Fall back to manual extraction
+    return await extractTextFromPDFFallback(data);
+  }
+}
+
+// The largest image on a page, which on a scanned page is the scan itself
+async function pageScan(
+  pdf: Awaited<ReturnType<typeof getDocumentProxy>>,
+  page: number
+): Promise<OcrImage | null> {
+  const images = await extractImages(pdf, page);
+  const scan = images.sort((a, b) => b.width * b.height - a.width * a.height)[0];
+  if (!scan) return null;
+  return { data: await encodePng(scan), mimeType: "image/png" };
+}
+
+// Fallback PDF extraction for edge cases
+async function extractTextFromPDFFallback(data: Uint8Array): Promise<string> {
+  const decoder = new TextDecoder('latin1');
+  const pdfString = decoder.decode(data);
+  
+  const textParts: string[] = [];
+  
+  // Try to decompress and extract from FlateDecode streams
+  const streamRegex = /<<([^>]*)\/FlateDecode([^>]*)>>\s*stream\r?\n/g;
+  const endstreamRegex = /\r?\nendstream/g;
+  
+  let streamMatch;
+  while ((streamMatch = streamRegex.exec(pdfString)) !== null) {
+    const streamStart = streamMatch.index + streamMatch[0].length;
+    endstreamRegex.lastIndex = streamStart;
+    const endMatch = endstreamRegex.exec(pdfString);
+    if (!endMatch) continue;
+    
+    const streamEnd = endMatch.index;
+    const streamData = data.slice(streamStart, streamEnd);
+    
+    try {
+      // Try to decompress using DecompressionStream
+      const ds = new DecompressionStream('deflate');
+      const writer = ds.writable.getWriter();
+      const reader = ds.readable.getReader();
+      
+      writer.write(streamData);
+      writer.close();
+      
+      const chunks: Uint8Array[] = [];
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value) chunks.push(value);
+      }
+      
+      const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+      const decompressed = new Uint8Array(totalLength);
+      let offset = 0;
+      for (const chunk of chunks) {
+        decompressed.set(chunk, offset);
+        offset += chunk.length;
+      }
+      
+      const content = new TextDecoder('latin1').decode(decompressed);
+      
+      // Extract text from Tj/TJ operators
+      const tjRegex = /\(([^)]*(?:\\.[^)]*)*)\)\s*Tj/g;
+      let tjMatch;
+      while ((tjMatch = tjRegex.exec(content)) !== null) {
+        if (tjMatch[1]) {
+          const text = tjMatch[1]
+            .replace(/\\n/g, '\n')
+            .replace(/\\r/g, '')
+            .replace(/\\\(/g, '(')
+            .replace(/\\\)/g, ')')
+            .replace(/\\\\/g, '\\');
+          if (text.trim()) textParts.push(text);
+        }
+      }
+    } catch {
+      // Decompression failed, continue
+    }
+  }
+  
+  // Also extract any uncompressed text
+  const simpleTextRegex = /\(([^)]{3,})\)\s*Tj/g;
+  let simpleMatch;
+  while ((simpleMatch = simpleTextRegex.exec(pdfString)) !== null) {
+    if (simpleMatch[1]) {
+      const text = simpleMatch[1].replace(/\\([nrt()])/g, (_, c) => {
+        const escapes: Record<string, string> = { n: '\n', r: '', t: '\t', '(': '(', ')': ')' };
+        return escapes[c] || c;
+      });
+      if (text.trim() && !textParts.includes(text)) {
+        textParts.push(text);
+      }
+    }
+  }
+  
+  // Extract metadata
+  const titleMatch = pdfString.match(/\/Title\s*\(([^)]+)\)/);
+  const authorMatch = pdfString.match(/\/Author\s*\(([^)]+)\)/);
+  
+  let metadata = '';
+  if (titleMatch?.[1]) metadata += `Title: ${titleMatch[1]}\n`;
+  if (authorMatch?.[1]) metadata += `Author: ${authorMatch[1]}\n`;
+  
+  const result = textParts
+    .filter(t => t && t.trim().length > 1)
+    .filter(t => {
+      const printable = (t.match(/[\x20-\x7E]/g) || []).length;
+      return printable / t.length > 0.7;
+    })
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  
+  if (result.length < 50) {
+    return `[PDF file - limited extraction]\n${metadata}\nThe PDF uses compression or fonts that couldn't be fully processed.\n\nPartial content:\n${result.substring(0, 500)}`;
+  }
+  
+  return metadata ? `${metadata}\n${result}` : result;
+}
+
+// DOCX as markdown: headings, lists and tables (see office-markdown.ts)
+async function extractTextFromDocx(data: Uint8Array): Promise<string> {
+  try {
+    // DOCX files are ZIP archives containing XML files
+    const zip = await JSZip.loadAsync(data);
+    
+    // The main document content is in word/document.xml
+    const documentXml = zip.file("word/document.xml");
+    
+    if (!documentXml) {
+      console.error("No document.xml found in DOCX");
+      return "[Word document - invalid format]\nCould not find document content in the DOCX file.";
+    }
+    
+    // Heading styles, so headings with localised style names are recognised
+    const stylesXml = await zip.file("word/styles.xml")?.async("string");
+    const markdown = docxToMarkdown(
+      await documentXml.async("string"),
+      stylesXml ? parseDocxHeadingStyles(stylesXml) : undefined
+    );
+    
+    if (markdown.length > 50) {
+      console.log(`Successfully extracted ${markdown.length} characters from DOCX`);
+      return markdown;
+    }
+    
+    return `[Word document - minimal content]\nExtracted text: ${markdown.substring(0, 500)}`;
+    
+  } catch (error) {
+    console.error("DOCX extraction failed:", error);
+    return await extractTextFromDocxFallback(data);
+  }
+}
+
+// Fallback DOCX extraction for corrupted or non-standard files
+async function extractTextFromDocxFallback(data: Uint8Array): Promise<string> {
+  try {
+    // Try to decode raw bytes and look for text patterns
+    const decoder = new TextDecoder("utf-8", { fatal: false });
+    const content = decoder.decode(data);
+    
+    const textParts: string[] = [];
+    
+    // Look for Word text elements in raw data
+    const textRegex = /<w:t[^>]*>([^<]+)<\/w:t>/g;
+    let match;
+    while ((match = textRegex.exec(content)) !== null) {
+      const text = match[1].trim();
+      if (text && text.length > 0) {
+        textParts.push(text);
+      }
+    }
+    
+    // If no Word XML found, try generic text extraction
+    if (textParts.length === 0) {
+      const asciiRegex = /[\x20-\x7E]{10,}/g;
+      while ((match = asciiRegex.exec(content)) !== null) {
+        const text = match[0].trim();
+        if (text && !text.includes("<?xml") && !text.includes("xmlns") && !text.includes("Content-Type")) {
+          textParts.push(text);
+        }
+      }
+    }
+    
+    const result = textParts.join(" ").replace(/\s+/g, " ").trim();
+    
+    if (result.length < 100) {
+      return `[Word document - limited extraction]\nThe document structure couldn't be fully parsed.\n\nExtracted content: ${result.substring(0, 500)}`;
+    }
+    
+    return result;
+  } catch (error) {
+    return `[Word document - extraction failed]\nUnable to extract text from this Word document. Please try saving as PDF or plain text.`;
+  }
+}
+
+// XLSX as markdown: a "# Sheet: Name" section with a table per sheet
+async function extractTextFromXlsx(data: Uint8Array): Promise<string> {
+  try {
+    // XLSX files are ZIP archives containing XML files
+    const zip = await JSZip.loadAsync(data);
+    
+    // Text values are stored once in the shared strings and referenced by index
+    const sharedStringsXml = await zip.file("xl/sharedStrings.xml")?.async("string");
+    const sharedStrings = sharedStringsXml ? parseSharedStrings(sharedStringsXml) : [];
+    
+    // Sheet names and order come from the workbook
+    const workbookXml = await zip.file("xl/workbook.xml")?.async("string");
+    const workbookRelsXml = await zip.file("xl/_rels/workbook.xml.rels")?.async("string");
+    let sheets = workbookXml && workbookRelsXml ? parseWorkbookSheets(workbookXml, workbookRelsXml) : [];
+    if (sheets.length === 0) {
+      sheets = numberedParts(zip, "xl/worksheets/sheet").map((path, i) => ({ name: `Sheet ${i + 1}`, path }));
+    }
+    
+    const sections: string[] = [];
+    for (const sheet of sheets) {
+      const sheetXml = await zip.file(sheet.path)?.async("string");
+      if (!sheetXml) continue;
+      const section = sheetToMarkdown(sheet.name, sheetXml, sharedStrings);
+      if (section) sections.push(section);
+    }
+    
+    if (sections.length > 0) {
+      const result = sections.join("\n\n");
+      console.log(`Successfully extracted ${result.length} characters from XLSX with ${sheets.length} sheets`);
+      return result;
+    }
+    
+    // If structured extraction failed, return shared strings as fallback
+    if (sharedStrings.length > 0) {
+      const result = `[Excel spreadsheet]\n\nExtracted text values:\n${sharedStrings.join("\n")}`;
+      console.log(`Extracted ${sharedStrings.length} shared strings from XLSX`);
+      return result;
+    }
+    
+    return "[Excel spreadsheet - minimal content]\nNo text content could be extracted from this spreadsheet.";
+    
+  } catch (error) {
+    console.error("XLSX extraction failed:", error);
+    return await extractTextFromXlsxFallback(data);
+  }
+}
+
+// Fallback XLSX extraction for corrupted or non-standard files
+async function extractTextFromXlsxFallback(data: Uint8Array): Promise<string> {
+  try {
+    const decoder = new TextDecoder("utf-8", { fatal: false });
+    const content = decoder.decode(data);
+    
+    const textParts: string[] = [];
+    
+    // Look for text in <t> tags
+    const textRegex = /<t[^>]*>([^<]+)<\/t>/g;
+    let match;
+    while ((match = textRegex.exec(content)) !== null) {
+      const text = match[1]?.trim();
+      if (text && text.length > 0 && !text.startsWith("<?xml")) {
+        textParts.push(text);
+      }
+    }
+    
+    // Look for cell values
+    const valueRegex = /<v>([^<]+)<\/v>/g;
+    while ((match = valueRegex.exec(content)) !== null) {
+      const value = match[1]?.trim();
+      if (value && !textParts.includes(value)) {
+        textParts.push(value);
+      }
+    }
+    
+    if (textParts.length > 0) {
+      const result = `[Excel spreadsheet]\n\n${textParts.join("\n")}`;
+      return result;
+    }
+    
+    return "[Excel spreadsheet - extraction failed]\nUnable to extract text from this Excel file. Please try saving as CSV.";
+  } catch (error) {
+    return "[Excel spreadsheet - extraction failed]\nUnable to extract text from this Excel file. Please try saving as CSV.";
+  }
+}
+
+// PPTX as markdown: a "# Slide N: Title" section per slide, with its speaker notes
+async function extractTextFromPptx(data: Uint8Array): Promise<string> {
+  try {
+    // PPTX files are ZIP archives containing XML files
+    const zip = await JSZip.loadAsync(data);
+    
+    // Slides in presentation order (reordered decks don't match the part names)
+    const presentationXml = await zip.file("ppt/presentation.xml")?.async("string");
+    const presentationRelsXml = await zip.file("ppt/_rels/presentation.xml.rels")?.async("string");
+    let slidePaths = presentationXml && presentationRelsXml
+      ? parsePresentationSlides(presentationXml, presentationRelsXml)
+      : [];
+    if (slidePaths.length === 0) {
+      slidePaths = numberedParts(zip, "ppt/slides/slide");
+    }
+    
+    const sections: string[] = [];
+    for (let i = 0; i < slidePaths.length; i++) {
+      const slideXml = await zip.file(slidePaths[i])?.async("string");
+      if (!slideXml) continue;
+      sections.push(slideToMarkdown(i + 1, slideXml, await slideNotesXml(zip, slidePaths[i])));
+    }
+    
+    const result = sections.join("\n\n");
+    if (result.length > 50) {
+      console.log(`Successfully extracted ${result.length} characters from PPTX with ${slidePaths.length} slides`);
+      return result;
+    }
+    
+    return "[PowerPoint presentation - minimal content]\nNo text content could be extracted from this presentation.";
+    
+  } catch (error) {
+    console.error("PPTX extraction failed:", error);
+    return await extractTextFromPptxFallback(data);
+  }
+}
+
+// The notes slide linked from a slide's relationships
+async function slideNotesXml(zip: JSZip, slidePath: string): Promise<string | null> {
+  const dir = slidePath.slice(0, slidePath.lastIndexOf("/"));
+  const relsXml = await zip.file(`${dir}/_rels/${slidePath.slice(dir.length + 1)}.rels`)?.async("string");
+  if (!relsXml) return null;
+  
+  for (const relationship of parseRelationships(relsXml).values()) {
+    if (relationship.type.endsWith("/notesSlide")) {
+      return (await zip.file(resolvePartPath(dir, relationship.target))?.async("string")) ?? null;
+    }
+  }
+  return null;
+}
+
+// Numbered parts in numeric order, e.g. slide2.xml before slide10.xml
+function numberedParts(zip: JSZip, prefix: string): string[] {
+  const number = (name: string) => parseInt(name.slice(prefix.length), 10) || 0;
+  return Object.keys(zip.files)
+    .filter(name => name.startsWith(prefix) && name.endsWith(".xml"))
+    .sort((a, b) => number(a) - number(b));
+}
+
+// Fallback PPTX extraction for corrupted or non-standard files
+async function extractTextFromPptxFallback(data: Uint8Array): Promise<string> {
+  try {
+    const decoder = new TextDecoder("utf-8", { fatal: false });
+    const content = decoder.decode(data);
+    
+    const textParts: string[] = [];
+    
+    // Look for text in <a:t> tags
+    const textRegex = /<a:t>([^<]+)<\/a:t>/g;
+    let match;
+    while ((match = textRegex.exec(content)) !== null) {
+      const text = match[1]?.trim();
+      if (text && text.length > 0) {
+        textParts.push(text);
+      }
+    }
+    
+    if (textParts.length > 0) {
+      const result = `[PowerPoint presentation]\n\n${textParts.join("\n")}`;
+      return result;
+    }
+    
+    return "[PowerPoint presentation - extraction failed]\nUnable to extract text from this PowerPoint file.";
+  } catch (error) {
+    return "[PowerPoint presentation - extraction failed]\nUnable to extract text from this PowerPoint file.";
+  }
+}
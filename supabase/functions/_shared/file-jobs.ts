@@ -0,0 +1,84 @@
+// Background processing of project files (file_processing_jobs). The process-file-jobs
+// worker claims due jobs, records how far each attempt got and schedules failed ones for
+// another attempt with exponential backoff, dead-lettering a job once it runs out of
+// attempts.
+//
+// No imports and no Deno APIs, so the same module runs in the edge runtime and under
+// Node (see the frontend tests).
+
+export type FileJobStatus = "queued" | "running" | "retrying" | "succeeded" | "dead";
+
+export type FileJobStage = "queued" | "downloading" | "extracting" | "embedding" | "saving" | "done";
+
+export interface FileProcessingJob {
+  id: string;
+  project_file_id: string;
+  project_id: string;
+  brand_id: string;
+  status: FileJobStatus;
+  stage: FileJobStage;
+  /** Overall progress of the current attempt, 0-100 */
+  progress: number;
+  /** Attempts started so far, including the running one */
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+// The first retry waits 30 seconds, each one after that twice as long, up to an hour.
+// claim_file_processing_jobs uses the same backoff for jobs whose worker timed out.
+export const RETRY_BASE_DELAY_MS = 30_000;
+export const RETRY_MAX_DELAY_MS = 60 * 60_000;
+
+// Where each stage starts in the overall progress; extraction and embedding take longest
+const STAGE_PROGRESS: [FileJobStage, number][] = [
+  ["queued", 0],
+  ["downloading", 5],
+  ["extracting", 15],
+  ["embedding", 50],
+  ["saving", 95],
+  ["done", 100],
+];
+
+/**
+ * How long to wait before the next attempt after `attempts` failed ones
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Overall progress (0-100) of a job that is `fraction` of the way through `stage`
+ */
+export function stageProgress(stage: FileJobStage, fraction: number = 0): number {
+  const index = STAGE_PROGRESS.findIndex(([name]) => name === stage);
+  const start = STAGE_PROGRESS[index][1];
+  const end = STAGE_PROGRESS[index + 1]?.[1] ?? start;
+  return Math.round(start + (end - start) * Math.min(Math.max(fraction, 0), 1));
+}
+
+/**
+ * Update for a job whose attempt failed: another attempt once the backoff has passed, or
+ * the dead-letter state when it has no attempts left
+ */
+export function failedJobUpdate(
+  job: Pick<FileProcessingJob, "attempts" | "max_attempts">,
+  error: string,
+  now: Date = new Date(),
+): Pick<FileProcessingJob, "status" | "next_attempt_at" | "locked_at" | "last_error" | "completed_at" | "updated_at"> {
+  const dead = job.attempts >= job.max_attempts;
+  return {
+    status: dead ? "dead" : "retrying",
+    next_attempt_at: new Date(now.getTime() + (dead ? 0 : retryDelayMs(job.attempts))).toISOString(),
+    locked_at: null,
+    last_error: error,
+    completed_at: dead ? now.toISOString() : null,
+    updated_at: now.toISOString(),
+  };
+}
@@ -0,0 +1,391 @@
+// Document indexing shared by the edge functions that embed text (process-document,
+// process-project-file): structure-aware chunking, batched embeddings and re-indexing
+// that replaces a document's previous chunks.
+//
+// No imports and no Deno APIs, so the same module runs in the edge runtime and under
+// Node (the frontend tests index with the local embedder below).
+
+export const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+// Matches the vector(1536) embedding columns
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  /** Stored with each chunk so mixed-model indexes can be found later */
+  model: string;
+  /** Most inputs accepted per embed() call */
+  maxBatchSize: number;
+  /** One embedding per input, in input order */
+  embed(inputs: string[]): Promise<number[][]>;
+}
+
+export interface TextChunk {
+  content: string;
+  /** Offsets of the chunk in the indexed text */
+  start: number;
+  end: number;
+  /** Heading path of the section, e.g. "Pricing > Enterprise" */
+  heading: string | null;
+  tokens: number;
+}
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  /** Trailing paragraphs or sentences repeated at the start of the next chunk */
+  overlapTokens?: number;
+}
+
+// Minimal surface of a Supabase client, so either runtime's client can be passed in
+interface QueryResult {
+  error: { message: string } | null;
+}
+
+export interface IndexingClient {
+  rpc(fn: string, args: Record<string, unknown>): PromiseLike<QueryResult>;
+}
+
+export interface IndexDocumentInput {
+  /** Embeddings table: document_embeddings or project_file_embeddings */
+  table: string;
+  /** Column that identifies the document's rows, e.g. document_id */
+  documentColumn: string;
+  documentId: string;
+  /** Stored on every row, e.g. brand_id */
+  columns: Record<string, unknown>;
+  text: string;
+  /** Merged into every row's metadata, e.g. the document version */
+  metadata?: Record<string, unknown>;
+  /** Called as chunks are embedded, e.g. to report progress */
+  onProgress?: (embedded: number, total: number) => void | Promise<void>;
+}
+
+const DEFAULT_MAX_TOKENS = 300;
+const DEFAULT_OVERLAP_TOKENS = 50;
+// Keeps a request well under the embeddings API's per-request token limit
+const MAX_BATCH_TOKENS = 100_000;
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// Page and image markers written by extractFileText, e.g. "=== Page 3 ==="
+const SECTION_MARKER = /^===\s*(.+?)\s*===$/;
+
+/**
+ * Approximate token count (about four characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+interface Unit {
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+interface Section {
+  heading: string | null;
+  units: Unit[];
+  /** Whether the section has anything besides its headings */
+  hasBody: boolean;
+}
+
+function unit(start: number, end: number, text: string): Unit {
+  return { start, end, tokens: estimateTokens(text.slice(start, end)) };
+}
+
+// Split an oversized paragraph at line breaks (table rows, list items), then at sentence
+// ends, then at whitespace
+function splitParagraph(text: string, start: number, end: number, maxTokens: number): Unit[] {
+  const units: Unit[] = [];
+  let lineStart = start;
+
+  for (const line of text.slice(start, end).split("\n")) {
+    const lineEnd = lineStart + line.length;
+    const lineUnit = unit(lineStart, lineEnd, text);
+    units.push(...(lineUnit.tokens > maxTokens ? splitSentences(text, lineStart, lineEnd, maxTokens) : [lineUnit]));
+    lineStart = lineEnd + 1;
+  }
+
+  return units;
+}
+
+function splitSentences(text: string, start: number, end: number, maxTokens: number): Unit[] {
+  const units: Unit[] = [];
+  const maxChars = maxTokens * 4;
+
+  for (const match of text.slice(start, end).matchAll(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g)) {
+    let from = start + match.index!;
+    const to = from + match[0].length;
+
+    while (to - from > maxChars) {
+      const window = text.slice(from, from + maxChars);
+      const breakAt = window.lastIndexOf(" ");
+      const cut = breakAt > maxChars / 2 ? from + breakAt + 1 : from + maxChars;
+      units.push(unit(from, cut, text));
+      from = cut;
+    }
+    if (to > from) units.push(unit(from, to, text));
+  }
+
+  return units;
+}
+
+function splitSections(text: string, maxTokens: number): Section[] {
+  const sections: Section[] = [];
+  const headings: { level: number; title: string }[] = [];
+  let current: Section = { heading: null, units: [], hasBody: false };
+  let paragraphStart = -1;
+  let paragraphEnd = -1;
+
+  const flushParagraph = () => {
+    if (paragraphStart === -1) return;
+    const paragraph = unit(paragraphStart, paragraphEnd, text);
+    current.units.push(
+      ...(paragraph.tokens > maxTokens ? splitParagraph(text, paragraphStart, paragraphEnd, maxTokens) : [paragraph])
+    );
+    current.hasBody = true;
+    paragraphStart = -1;
+  };
+
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+    const trimmed = line.trim();
+
+    const markdown = trimmed.match(MARKDOWN_HEADING);
+    const marker = markdown ? null : trimmed.match(SECTION_MARKER);
+    if (markdown || marker) {
+      flushParagraph();
+      const level = markdown ? markdown[1].length : 1;
+      const title = (markdown ? markdown[2] : marker![1]).trim();
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      headings.push({ level, title });
+
+      // Consecutive headings share a section, so a heading is never a chunk on its own
+      if (current.hasBody) {
+        sections.push(current);
+        current = { heading: null, units: [], hasBody: false };
+      }
+      current.heading = headings.map((h) => h.title).join(" > ");
+      current.units.push(unit(lineStart, lineEnd, text));
+      continue;
+    }
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+    if (paragraphStart === -1) paragraphStart = lineStart;
+    paragraphEnd = lineEnd;
+  }
+  flushParagraph();
+  sections.push(current);
+
+  return sections.filter((section) => section.units.length > 0);
+}
+
+/**
+ * Split text into chunks of at most `maxTokens` that follow the document's structure:
+ * chunks never span headings (markdown headings, e.g. a sheet or slide, or page markers),
+ * break between paragraphs where they can and only split a paragraph at line breaks (so
+ * table rows stay whole) or sentence ends.
+ */
+export function chunkDocument(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const overlapTokens = options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS;
+  const chunks: TextChunk[] = [];
+
+  for (const section of splitSections(text, maxTokens)) {
+    const { units } = section;
+    let first = 0;
+
+    while (first < units.length) {
+      // Units are contiguous, so the chunk's size is its span of the text
+      const size = (last: number) => estimateTokens(text.slice(units[first].start, units[last].end));
+      let last = first;
+      while (last + 1 < units.length && size(last + 1) <= maxTokens) last++;
+
+      const content = text.slice(units[first].start, units[last].end).trim();
+      if (content) {
+        const start = text.indexOf(content, units[first].start);
+        chunks.push({
+          content,
+          start,
+          end: start + content.length,
+          heading: section.heading,
+          tokens: estimateTokens(content),
+        });
+      }
+      if (last === units.length - 1) break;
+
+      // Start the next chunk with the trailing units that fit in the overlap
+      let next = last + 1;
+      while (
+        next - 1 > first &&
+        estimateTokens(text.slice(units[next - 1].start, units[last].end)) <= overlapTokens
+      ) {
+        next--;
+      }
+      first = next;
+    }
+  }
+
+  return chunks;
+}
+
+// The heading gives the embedding the context a chunk from the middle of a section lacks;
+// a chunk that opens with its only heading already has it
+function embeddingInput(chunk: TextChunk): string {
+  if (!chunk.heading) return chunk.content;
+  const firstLine = chunk.content.split("\n", 1)[0];
+  return !chunk.heading.includes(" > ") && firstLine.includes(chunk.heading)
+    ? chunk.content
+    : `${chunk.heading}\n\n${chunk.content}`;
+}
+
+/**
+ * Embed inputs in as few provider calls as the batch size and token budget allow,
+ * reporting how many are embedded after each call
+ */
+export async function embedInBatches(
+  provider: EmbeddingProvider,
+  inputs: string[],
+  onProgress?: (embedded: number, total: number) => void | Promise<void>,
+): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  let batch: string[] = [];
+  let batchTokens = 0;
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const result = await provider.embed(batch);
+    if (result.length !== batch.length) {
+      throw new Error(`Embedding provider returned ${result.length} embeddings for ${batch.length} inputs`);
+    }
+    embeddings.push(...result);
+    await onProgress?.(embeddings.length, inputs.length);
+    batch = [];
+    batchTokens = 0;
+  };
+
+  for (const input of inputs) {
+    const tokens = estimateTokens(input);
+    if (batch.length >= provider.maxBatchSize || (batch.length > 0 && batchTokens + tokens > MAX_BATCH_TOKENS)) {
+      await flush();
+    }
+    batch.push(input);
+    batchTokens += tokens;
+  }
+  await flush();
+
+  return embeddings;
+}
+
+/**
+ * Chunk, embed and store a document, replacing any chunks from an earlier run, so
+ * re-indexing the same document is safe. The earlier chunks are swapped for the new ones
+ * in one transaction (replace_document_chunks), so they stay searchable if embedding or
+ * storing fails.
+ */
+export async function indexDocument(
+  client: IndexingClient,
+  provider: EmbeddingProvider,
+  input: IndexDocumentInput,
+  options: ChunkOptions = {},
+): Promise<{ chunkCount: number }> {
+  const chunks = chunkDocument(input.text, options);
+  const embeddings = await embedInBatches(provider, chunks.map(embeddingInput), input.onProgress);
+
+  const rows = chunks.map((chunk, i) => ({
+    ...input.columns,
+    [input.documentColumn]: input.documentId,
+    chunk_index: i,
+    content: chunk.content,
+    content_length: chunk.content.length,
+    embedding: embeddings[i],
+    metadata: {
+      start_offset: chunk.start,
+      end_offset: chunk.end,
+      heading: chunk.heading,
+      token_count: chunk.tokens,
+      embedding_model: provider.model,
+      ...input.metadata,
+    },
+  }));
+
+  const { error } = await client.rpc("replace_document_chunks", {
+    p_table: input.table,
+    p_document_id: input.documentId,
+    p_rows: rows,
+  });
+
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return { chunkCount: rows.length };
+}
+
+/**
+ * OpenAI embeddings, up to 100 inputs per request
+ */
+export function createOpenAIEmbeddingProvider(
+  apiKey: string,
+  model: string = DEFAULT_EMBEDDING_MODEL,
+): EmbeddingProvider {
+  return {
+    model,
+    maxBatchSize: 100,
+    async embed(inputs) {
+      const response = await fetch("https://api.openai.com/v1/embeddings", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model, input: inputs }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI API error: ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      // Results are not guaranteed to come back in input order
+      const sorted = [...data.data].sort((a: { index: number }, b: { index: number }) => a.index - b.index);
+      return sorted.map((d: { embedding: number[] }) => d.embedding);
+    },
+  };
+}
+
+// FNV-1a
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic embeddings from hashed word counts, for tests and local development.
+ * Texts sharing words get similar vectors; no network access or API key needed.
+ */
+export function createLocalEmbeddingProvider(dimensions: number = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  return {
+    model: `local-hash-${dimensions}`,
+    maxBatchSize: 100,
+    async embed(inputs) {
+      return inputs.map((input) => {
+        const vector: number[] = new Array(dimensions).fill(0);
+        for (const token of input.toLowerCase().match(/[^\s.,;:!?"'()[\]{}<>]+/g) ?? []) {
+          const hash = hashToken(token);
+          vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm > 0 ? vector.map((v) => v / norm) : vector;
+      });
+    },
+  };
+}
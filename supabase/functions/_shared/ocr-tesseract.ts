@@ -0,0 +1,21 @@
+// Local OCR with Tesseract (WASM): no API key or model calls, so it can be used in
+// tests and local development. Select it with OCR_ENGINE=tesseract.
+import { createWorker, type Worker } from "npm:tesseract.js@5";
+import type { OcrEngine } from "./ocr.ts";
+
+/**
+ * Tesseract OCR for the given languages, e.g. "eng" or "eng+deu". The worker (and its
+ * language data) is loaded on first use and reused for later pages.
+ */
+export function createTesseractOcrEngine(languages = "eng"): OcrEngine {
+  let worker: Promise<Worker> | null = null;
+
+  return {
+    name: `tesseract-${languages}`,
+    async recognize(image) {
+      worker ??= createWorker(languages);
+      const { data } = await (await worker).recognize(new Blob([image.data], { type: image.mimeType }));
+      return data.text;
+    },
+  };
+}
@@ -0,0 +1,263 @@
+// OCR and image descriptions for files without a usable text layer: scanned PDFs and
+// images (moodboards, screenshots, photographed contracts). Scanned pages are OCR'd one
+// by one and written under "=== Page N ===" markers, which chunkDocument turns into the
+// chunks' headings, so citations keep their page numbers.
+//
+// No imports and no Deno APIs, so the same module runs in the edge runtime and under
+// Node. Engines: OpenAI vision here, Tesseract (local, no API key) in ocr-tesseract.ts.
+
+export interface OcrImage {
+  data: Uint8Array;
+  /** e.g. image/png */
+  mimeType: string;
+}
+
+export interface OcrEngine {
+  /** For logs, e.g. "openai-gpt-4o-mini" or "tesseract-eng" */
+  name: string;
+  /** Text found in the image in reading order, empty when there is none */
+  recognize(image: OcrImage): Promise<string>;
+}
+
+export interface ImageCaptioner {
+  /** Short description of what the image shows */
+  caption(image: OcrImage): Promise<string>;
+}
+
+export interface PdfPage {
+  /** 1-based page number */
+  page: number;
+  /** Text layer of the page */
+  text: string;
+  /** Loads the page's scan, null when the page has none */
+  image: () => Promise<OcrImage | null>;
+}
+
+export interface RawImage {
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+  /** 1 = grey, 3 = RGB, 4 = RGBA */
+  channels: number;
+}
+
+// Pages with less text than this are treated as scanned
+const MIN_PAGE_TEXT_LENGTH = 20;
+// Keeps OCR of a long scan within the function's time limit
+export const MAX_OCR_PAGES = 50;
+const OPENAI_VISION_MODEL = "gpt-4o-mini";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+/**
+ * The image MIME type of a file, or null when it isn't an image we can OCR
+ */
+export function imageMimeType(mimeType: string | null | undefined, name: string | null | undefined): string | null {
+  const type = mimeType?.toLowerCase() || "";
+  if (Object.values(IMAGE_EXTENSIONS).includes(type)) return type;
+  const extension = name?.toLowerCase().split(".").pop() || "";
+  return IMAGE_EXTENSIONS[extension] ?? null;
+}
+
+/**
+ * Whether any page lacks a text layer, i.e. the PDF (or part of it) is a scan
+ */
+export function hasScannedPages(pages: Pick<PdfPage, "text">[]): boolean {
+  return pages.some((page) => page.text.trim().length < MIN_PAGE_TEXT_LENGTH);
+}
+
+/**
+ * Text of each page under its page marker, OCR'ing the scanned ones
+ */
+export async function recognizePdfPages(pages: PdfPage[], engine: OcrEngine): Promise<string> {
+  const sections: string[] = [];
+  let ocrPages = 0;
+
+  for (const page of pages) {
+    let text = page.text.trim();
+    if (text.length < MIN_PAGE_TEXT_LENGTH && ocrPages < MAX_OCR_PAGES) {
+      const image = await page.image();
+      if (image) {
+        ocrPages++;
+        text = (await engine.recognize(image)).trim() || text;
+      }
+    }
+    if (text) sections.push(`=== Page ${page.page} ===\n${text}`);
+  }
+
+  const scanned = pages.filter((page) => page.text.trim().length < MIN_PAGE_TEXT_LENGTH).length;
+  if (scanned > MAX_OCR_PAGES) {
+    sections.push(`[Only the first ${MAX_OCR_PAGES} of ${scanned} scanned pages were read]`);
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Text found in an image, with a description of it when a captioner is given
+ */
+export async function describeImage(
+  image: OcrImage,
+  engine: OcrEngine,
+  captioner?: ImageCaptioner | null,
+): Promise<string> {
+  const [text, caption] = await Promise.all([
+    engine.recognize(image),
+    captioner ? captioner.caption(image) : Promise.resolve(""),
+  ]);
+
+  const sections: string[] = [];
+  if (caption.trim()) sections.push(`=== Image description ===\n${caption.trim()}`);
+  sections.push(`=== Text in image ===\n${text.trim() || "[No text found]"}`);
+  return sections.join("\n\n");
+}
+
+// PNG colour type per channel count: greyscale, RGB, RGBA
+const PNG_COLOR_TYPES: Record<number, number | undefined> = { 1: 0, 3: 2, 4: 6 };
+
+// CRC-32 as used by PNG chunks
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Encode raw pixels (e.g. a scanned page pulled out of a PDF) as a PNG for OCR
+ */
+export async function encodePng(image: RawImage): Promise<Uint8Array> {
+  const colorType = PNG_COLOR_TYPES[image.channels];
+  if (colorType === undefined) {
+    throw new Error(`Unsupported image with ${image.channels} channels`);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, image.width);
+  view.setUint32(4, image.height);
+  header.set([8, colorType, 0, 0, 0], 8);
+
+  // Each row starts with filter type 0 (none)
+  const stride = image.width * image.channels;
+  const rows = new Uint8Array((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    rows.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  // "deflate" is the zlib format PNG expects
+  const compressed = new Blob([rows]).stream().pipeThrough(new CompressionStream("deflate"));
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", new Uint8Array(await new Response(compressed).arrayBuffer())),
+    pngChunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+function toDataUrl(image: OcrImage): string {
+  let binary = "";
+  for (let i = 0; i < image.data.length; i += 0x8000) {
+    binary += String.fromCharCode(...image.data.subarray(i, i + 0x8000));
+  }
+  return `data:${image.mimeType};base64,${btoa(binary)}`;
+}
+
+async function askVisionModel(apiKey: string, model: string, prompt: string, image: OcrImage): Promise<string> {
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model,
+      temperature: 0,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            { type: "image_url", image_url: { url: toDataUrl(image), detail: "high" } },
+          ],
+        },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI API error: ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content ?? "";
+}
+
+/**
+ * OCR with an OpenAI vision model
+ */
+export function createOpenAIVisionOcrEngine(apiKey: string, model: string = OPENAI_VISION_MODEL): OcrEngine {
+  return {
+    name: `openai-${model}`,
+    async recognize(image) {
+      const text = await askVisionModel(
+        apiKey,
+        model,
+        "Transcribe all text in this image exactly as written, in reading order. Keep line breaks and " +
+          "table rows. Do not describe the image or add commentary. If there is no text, reply with NO_TEXT.",
+        image,
+      );
+      return text.trim() === "NO_TEXT" ? "" : text;
+    },
+  };
+}
+
+/**
+ * Image descriptions from an OpenAI vision model
+ */
+export function createOpenAIImageCaptioner(apiKey: string, model: string = OPENAI_VISION_MODEL): ImageCaptioner {
+  return {
+    caption(image) {
+      return askVisionModel(
+        apiKey,
+        model,
+        "Describe this image in 2-4 sentences for someone searching a project's files: what it shows, " +
+          "its layout, notable colours, logos or products, and what kind of asset it is " +
+          "(e.g. moodboard, screenshot, photo, chart).",
+        image,
+      );
+    },
+  };
+}
@@ -0,0 +1,366 @@
+// Office documents (DOCX, XLSX, PPTX) as structured markdown: headings as "#", tables
+// as markdown tables, one "# Sheet: Name" section per sheet and one "# Slide N: Title"
+// section per slide including its speaker notes. chunkDocument keeps chunks within
+// these sections, so citations point at a heading, sheet or slide.
+//
+// Works on the XML parts of the (unzipped) file. No imports and no Deno APIs, so the
+// same module runs in the edge runtime and under Node (see the frontend tests).
+
+// Sheets are cut off here so one huge export doesn't crowd out the rest of a project
+const MAX_SHEET_ROWS = 2000;
+const MAX_SHEET_COLUMNS = 50;
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+export function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+/**
+ * Elements with the given tag names that aren't nested in one another, in document
+ * order (e.g. the paragraphs and tables of a document body, but not the paragraphs
+ * inside those tables)
+ */
+export function topLevelElements(xml: string, names: string[]): { name: string; xml: string }[] {
+  const pattern = new RegExp(`<(/?)(${names.join("|")})(?=[\\s>/])[^>]*?(/?)>`, "g");
+  const elements: { name: string; xml: string }[] = [];
+  let depth = 0;
+  let start = 0;
+  let name = "";
+
+  for (const match of xml.matchAll(pattern)) {
+    const [tag, closing, tagName, selfClosing] = match;
+    const index = match.index!;
+    if (closing) {
+      depth--;
+      if (depth === 0) elements.push({ name, xml: xml.slice(start, index + tag.length) });
+    } else if (selfClosing) {
+      if (depth === 0) elements.push({ name: tagName, xml: tag });
+    } else {
+      if (depth === 0) {
+        start = index;
+        name = tagName;
+      }
+      depth++;
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Rows as a markdown table; the first row is the header
+ */
+export function markdownTable(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (width === 0) return "";
+
+  const cell = (value: string | undefined) => (value ?? "").replace(/\s+/g, " ").replace(/\|/g, "\\|").trim();
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(" | ")} |`;
+
+  return [line(rows[0]), `|${" --- |".repeat(width)}`, ...rows.slice(1).map(line)].join("\n");
+}
+
+/**
+ * Package relationships (a .rels part) by id
+ */
+export function parseRelationships(relsXml: string): Map<string, { type: string; target: string }> {
+  const relationships = new Map<string, { type: string; target: string }>();
+  for (const [tag] of relsXml.matchAll(/<Relationship\s[^>]*>/g)) {
+    const id = attribute(tag, "Id");
+    const target = attribute(tag, "Target");
+    if (id && target) relationships.set(id, { type: attribute(tag, "Type") ?? "", target });
+  }
+  return relationships;
+}
+
+/**
+ * Path of a relationship's target inside the package, e.g. ("ppt/slides",
+ * "../notesSlides/notesSlide1.xml") -> "ppt/notesSlides/notesSlide1.xml"
+ */
+export function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = baseDir.split("/").filter(Boolean);
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+// --- DOCX ---
+
+/**
+ * Heading level of each paragraph style that is a title or heading (styles.xml), so
+ * documents with localised style ids ("berschrift1") still get their headings
+ */
+export function parseDocxHeadingStyles(stylesXml: string): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const { xml } of topLevelElements(stylesXml, ["w:style"])) {
+    const id = attribute(xml.match(/<w:style\s[^>]*>/)?.[0] ?? "", "w:styleId");
+    const name = attribute(xml.match(/<w:name\s[^>]*>/)?.[0] ?? "", "w:val")?.toLowerCase() ?? "";
+    const outline = attribute(xml.match(/<w:outlineLvl\s[^>]*>/)?.[0] ?? "", "w:val");
+    if (!id) continue;
+
+    const heading = name.match(/^heading (\d)$/);
+    if (name === "title") levels.set(id, 1);
+    else if (heading) levels.set(id, Number(heading[1]));
+    else if (outline !== null && Number(outline) < 9) levels.set(id, Number(outline) + 1);
+  }
+  return levels;
+}
+
+function docxHeadingLevel(paragraphXml: string, headingStyles: Map<string, number>): number | null {
+  const style = attribute(paragraphXml.match(/<w:pStyle\s[^>]*>/)?.[0] ?? "", "w:val");
+  if (style && headingStyles.has(style)) return headingStyles.get(style)!;
+  if (style === "Title") return 1;
+  const heading = style?.match(/^Heading(\d)$/i);
+  if (heading) return Number(heading[1]);
+  const outline = attribute(paragraphXml.match(/<w:outlineLvl\s[^>]*>/)?.[0] ?? "", "w:val");
+  return outline !== null && Number(outline) < 9 ? Number(outline) + 1 : null;
+}
+
+function docxParagraphText(paragraphXml: string): string {
+  let text = "";
+  for (const [token, content] of paragraphXml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:(?:br|cr)(?:\s[^>]*)?\/>/g)) {
+    if (content !== undefined) text += decodeXml(content);
+    else text += token.startsWith("<w:tab") ? "\t" : "\n";
+  }
+  return text.trim();
+}
+
+function docxTable(tableXml: string): string {
+  const inner = tableXml.replace(/^<w:tbl[^>]*>|<\/w:tbl>$/g, "");
+  const rows = topLevelElements(inner, ["w:tr"]).map(({ xml: rowXml }) => {
+    const cells: string[] = [];
+    for (const { xml: cellXml } of topLevelElements(rowXml.replace(/^<w:tr[^>]*>|<\/w:tr>$/g, ""), ["w:tc"])) {
+      const paragraphs = [...cellXml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)].map(([p]) => docxParagraphText(p));
+      cells.push(paragraphs.filter(Boolean).join(" "));
+      // Merged cells keep the columns of the rows above and below aligned
+      const span = Number(attribute(cellXml.match(/<w:gridSpan\s[^>]*>/)?.[0] ?? "", "w:val") ?? 1);
+      for (let i = 1; i < span; i++) cells.push("");
+    }
+    return cells;
+  });
+  return markdownTable(rows.filter((row) => row.some(Boolean)));
+}
+
+/**
+ * The body of a Word document (word/document.xml) as markdown
+ */
+export function docxToMarkdown(documentXml: string, headingStyles: Map<string, number> = new Map()): string {
+  const body = documentXml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? documentXml;
+  const blocks: { text: string; listItem: boolean }[] = [];
+
+  for (const element of topLevelElements(body, ["w:p", "w:tbl"])) {
+    if (element.name === "w:tbl") {
+      const table = docxTable(element.xml);
+      if (table) blocks.push({ text: table, listItem: false });
+      continue;
+    }
+
+    const text = docxParagraphText(element.xml);
+    if (!text) continue;
+
+    const level = docxHeadingLevel(element.xml, headingStyles);
+    if (level !== null) {
+      blocks.push({ text: `${"#".repeat(Math.min(level, 6))} ${text.replace(/\s+/g, " ")}`, listItem: false });
+    } else if (element.xml.includes("<w:numPr>")) {
+      const indent = Number(attribute(element.xml.match(/<w:ilvl\s[^>]*>/)?.[0] ?? "", "w:val") ?? 0);
+      blocks.push({ text: `${"  ".repeat(indent)}- ${text}`, listItem: true });
+    } else {
+      blocks.push({ text, listItem: false });
+    }
+  }
+
+  // List items stay together; everything else is its own paragraph
+  return blocks
+    .map((block, i) => (i === 0 ? "" : block.listItem && blocks[i - 1].listItem ? "\n" : "\n\n") + block.text)
+    .join("");
+}
+
+// --- XLSX ---
+
+/**
+ * Text of each shared string (xl/sharedStrings.xml), including rich text runs
+ */
+export function parseSharedStrings(sharedStringsXml: string): string[] {
+  return topLevelElements(sharedStringsXml, ["si"]).map(({ xml }) =>
+    [...xml.replace(/<rPh[\s\S]*?<\/rPh>/g, "").matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)]
+      .map(([, text]) => decodeXml(text))
+      .join("")
+  );
+}
+
+/**
+ * Sheets in workbook order with the path of their part (xl/workbook.xml and its rels)
+ */
+export function parseWorkbookSheets(workbookXml: string, relsXml: string): { name: string; path: string }[] {
+  const relationships = parseRelationships(relsXml);
+  const sheets: { name: string; path: string }[] = [];
+  for (const [tag] of workbookXml.matchAll(/<sheet\s[^>]*>/g)) {
+    const name = attribute(tag, "name");
+    const target = relationships.get(attribute(tag, "r:id") ?? "")?.target;
+    if (name && target) sheets.push({ name, path: resolvePartPath("xl", target) });
+  }
+  return sheets;
+}
+
+// "B12" -> 1
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const letter of reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "") {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+function sheetCellValue(cellXml: string, sharedStrings: string[]): string {
+  const type = attribute(cellXml.match(/^<c[^>]*>/)?.[0] ?? "", "t");
+  if (type === "inlineStr") {
+    return [...cellXml.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)].map(([, text]) => decodeXml(text)).join("");
+  }
+  const value = cellXml.match(/<v>([^<]*)<\/v>/)?.[1];
+  if (value === undefined) return "";
+  if (type === "s") return sharedStrings[Number(value)] ?? "";
+  if (type === "b") return value === "1" ? "TRUE" : "FALSE";
+  return decodeXml(value);
+}
+
+/**
+ * A worksheet as a "# Sheet: Name" section with its cells as a markdown table. Empty
+ * rows and columns around the data are dropped; cell positions are kept.
+ */
+export function sheetToMarkdown(name: string, sheetXml: string, sharedStrings: string[]): string {
+  const grid = new Map<number, Map<number, string>>();
+  let minColumn = Infinity;
+  let maxColumn = -1;
+
+  for (const { xml: rowXml } of topLevelElements(sheetXml, ["row"])) {
+    const rowNumber = Number(attribute(rowXml.match(/^<row[^>]*>/)?.[0] ?? "", "r") ?? grid.size + 1);
+    let nextColumn = 0;
+    for (const { xml: cellXml } of topLevelElements(rowXml, ["c"])) {
+      const reference = attribute(cellXml.match(/^<c[^>]*>/)?.[0] ?? "", "r");
+      const column = reference ? columnIndex(reference) : nextColumn;
+      nextColumn = column + 1;
+      const value = sheetCellValue(cellXml, sharedStrings).trim();
+      if (!value || column >= MAX_SHEET_COLUMNS) continue;
+
+      if (!grid.has(rowNumber)) grid.set(rowNumber, new Map());
+      grid.get(rowNumber)!.set(column, value);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+    }
+  }
+
+  if (grid.size === 0) return "";
+
+  const rowNumbers = [...grid.keys()].sort((a, b) => a - b);
+  const rows = rowNumbers.slice(0, MAX_SHEET_ROWS).map((rowNumber) =>
+    Array.from({ length: maxColumn - minColumn + 1 }, (_, i) => grid.get(rowNumber)!.get(minColumn + i) ?? "")
+  );
+
+  let section = `# Sheet: ${name}\n\n${markdownTable(rows)}`;
+  if (rowNumbers.length > MAX_SHEET_ROWS) {
+    section += `\n\n[${rowNumbers.length - MAX_SHEET_ROWS} more rows not shown]`;
+  }
+  return section;
+}
+
+// --- PPTX ---
+
+/**
+ * Slide part paths in presentation order (ppt/presentation.xml and its rels)
+ */
+export function parsePresentationSlides(presentationXml: string, relsXml: string): string[] {
+  const relationships = parseRelationships(relsXml);
+  const paths: string[] = [];
+  for (const [tag] of presentationXml.matchAll(/<p:sldId\s[^>]*>/g)) {
+    const target = relationships.get(attribute(tag, "r:id") ?? "")?.target;
+    if (target) paths.push(resolvePartPath("ppt", target));
+  }
+  return paths;
+}
+
+function drawingParagraphs(xml: string): { text: string; level: number }[] {
+  return [...xml.matchAll(/<a:p(?:\s[^>]*)?>[\s\S]*?<\/a:p>/g)]
+    .map(([paragraph]) => {
+      let text = "";
+      for (const [, content] of paragraph.matchAll(/<a:t>([^<]*)<\/a:t>|<a:br(?:\s[^>]*)?\/?>/g)) {
+        text += content !== undefined ? decodeXml(content) : " ";
+      }
+      const level = Number(attribute(paragraph.match(/<a:pPr\s[^>]*>/)?.[0] ?? "", "lvl") ?? 0);
+      return { text: text.trim(), level };
+    })
+    .filter((paragraph) => paragraph.text);
+}
+
+function drawingTable(tableXml: string): string {
+  const rows = topLevelElements(tableXml, ["a:tr"]).map(({ xml: rowXml }) =>
+    topLevelElements(rowXml.replace(/^<a:tr[^>]*>|<\/a:tr>$/g, ""), ["a:tc"]).map(({ xml: cellXml }) =>
+      drawingParagraphs(cellXml).map((p) => p.text).join(" ")
+    )
+  );
+  return markdownTable(rows.filter((row) => row.some(Boolean)));
+}
+
+// Placeholders that repeat on every slide
+const SKIPPED_PLACEHOLDERS = new Set(["sldNum", "dt", "ftr", "hdr", "sldImg"]);
+
+function placeholderType(shapeXml: string): string | null {
+  const placeholder = shapeXml.match(/<p:ph(?:\s[^>]*)?\/?>/)?.[0];
+  if (!placeholder) return null;
+  // A placeholder without a type is a content (body) placeholder
+  return attribute(placeholder, "type") ?? "body";
+}
+
+/**
+ * A slide as a "# Slide N: Title" section: its text (body placeholders as bullets),
+ * tables and speaker notes (the notes slide's body)
+ */
+export function slideToMarkdown(number: number, slideXml: string, notesXml: string | null): string {
+  let title = "";
+  const blocks: string[] = [];
+
+  for (const shape of topLevelElements(slideXml, ["p:sp", "p:graphicFrame"])) {
+    if (shape.name === "p:graphicFrame") {
+      const table = shape.xml.includes("<a:tbl>") ? drawingTable(shape.xml) : "";
+      if (table) blocks.push(table);
+      continue;
+    }
+
+    const type = placeholderType(shape.xml);
+    if (type && SKIPPED_PLACEHOLDERS.has(type)) continue;
+    const paragraphs = drawingParagraphs(shape.xml);
+    if (paragraphs.length === 0) continue;
+
+    if ((type === "title" || type === "ctrTitle") && !title) {
+      title = paragraphs.map((p) => p.text).join(" ");
+    } else if (type === "body" || type === "obj") {
+      blocks.push(paragraphs.map((p) => `${"  ".repeat(p.level)}- ${p.text}`).join("\n"));
+    } else {
+      blocks.push(paragraphs.map((p) => p.text).join("\n"));
+    }
+  }
+
+  if (notesXml) {
+    const notes = topLevelElements(notesXml, ["p:sp"])
+      .filter((shape) => placeholderType(shape.xml) === "body")
+      .flatMap((shape) => drawingParagraphs(shape.xml).map((p) => p.text));
+    if (notes.length > 0) blocks.push(`Speaker notes:\n${notes.join("\n")}`);
+  }
+
+  const heading = `# Slide ${number}${title ? `: ${title}` : ""}`;
+  return [heading, ...blocks].join("\n\n");
+}
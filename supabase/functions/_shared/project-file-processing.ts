@@ -0,0 +1,200 @@
+// Processing of a project file: extract its text, record it as a version, index it and
+// make it the file's active version. Shared by process-project-file (new versions and
+// rollbacks, on request) and process-file-jobs (uploads, from the job queue).
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { extractFileText, type ExtractOptions } from "./extract-text.ts";
+import { recordDocumentVersion, type DocumentVersion, type VersionFile } from "./document-versions.ts";
+import type { FileJobStage } from "./file-jobs.ts";
+import { createOpenAIEmbeddingProvider, indexDocument } from "./indexing.ts";
+import { createOpenAIImageCaptioner, createOpenAIVisionOcrEngine } from "./ocr.ts";
+import { createTesseractOcrEngine } from "./ocr-tesseract.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface ProjectFileRecord {
+  id: string;
+  project_id: string;
+  brand_id: string;
+  name: string;
+  file_path: string;
+  file_type: string;
+  file_size: number;
+  active_version_id: string | null;
+}
+
+export interface ProcessProjectFileOptions {
+  /** Stored version to roll back to; its text is re-indexed as it is */
+  restore?: DocumentVersion;
+  /** New upload replacing the file */
+  newVersion?: VersionFile;
+  /** Recorded as the uploader of the version */
+  userId: string | null;
+  /** Called as processing moves through its stages, with the share of the stage done */
+  onProgress?: (stage: FileJobStage, fraction: number) => void | Promise<void>;
+}
+
+export interface ProcessedProjectFile {
+  version: { id: string; version: number };
+  textLength: number;
+  chunkCount: number;
+}
+
+/**
+ * Process a file's upload, a new version or a rollback. Throws when the file can't be
+ * downloaded, read or saved; if only indexing fails the file is still usable, since
+ * chat falls back to its extracted text.
+ */
+export async function processProjectFile(
+  supabase: SupabaseClient,
+  fileRecord: ProjectFileRecord,
+  options: ProcessProjectFileOptions
+): Promise<ProcessedProjectFile> {
+  let version: { id: string; version: number };
+  let file: VersionFile;
+  let extractedText: string;
+
+  if (options.restore) {
+    const { id, version: number, extracted_text, ...storedFile } = options.restore;
+    version = { id, version: number };
+    file = storedFile;
+    extractedText = extracted_text;
+  } else {
+    file = options.newVersion ?? {
+      file_path: fileRecord.file_path,
+      name: fileRecord.name,
+      file_type: fileRecord.file_type,
+      file_size: fileRecord.file_size,
+    };
+
+    // A new version or rollback leaves the active version in place until it succeeds, so
+    // only a file's first run shows on the file
+    if (!fileRecord.active_version_id && !options.newVersion) {
+      await supabase
+        .from("project_files")
+        .update({ status: "processing" })
+        .eq("id", fileRecord.id);
+    }
+
+    // Download file from storage
+    await options.onProgress?.("downloading", 0);
+    const { data: fileData, error: downloadError } = await supabase.storage
+      .from("project-files")
+      .download(file.file_path);
+
+    if (downloadError || !fileData) {
+      throw new Error(`Failed to download file${downloadError ? `: ${downloadError.message}` : ""}`);
+    }
+
+    // Extract text based on file type
+    console.log("Processing file:", { name: file.name, size: fileData.size });
+    await options.onProgress?.("extracting", 0);
+
+    try {
+      extractedText = await extractFileText(fileData, file.file_type, file.name, createExtractOptions());
+    } catch (extractError) {
+      const errorMessage = extractError instanceof Error ? extractError.message : "Unknown extraction error";
+      throw new Error(`Failed to extract text: ${errorMessage}`);
+    }
+
+    version = await recordDocumentVersion(supabase, {
+      kind: "project_file",
+      documentId: fileRecord.id,
+      brandId: fileRecord.brand_id,
+      activeVersionId: fileRecord.active_version_id,
+      file,
+      extractedText,
+      uploadedBy: options.userId,
+    });
+  }
+
+  // Chunk and embed the full text so chat can retrieve the relevant parts.
+  // If indexing fails the file is still usable: chat falls back to extracted_text.
+  await options.onProgress?.("embedding", 0);
+  let chunkCount = 0;
+  try {
+    chunkCount = await indexProjectFile(
+      supabase,
+      fileRecord,
+      extractedText,
+      version,
+      (embedded, total) => options.onProgress?.("embedding", embedded / total)
+    );
+  } catch (indexError) {
+    console.error("Failed to index file:", indexError);
+    // Chunks of the previous version would otherwise still be retrieved
+    await supabase.from("project_file_embeddings").delete().eq("file_id", fileRecord.id);
+  }
+
+  // The file now serves the version's upload and text
+  await options.onProgress?.("saving", 0);
+  const { error: updateError } = await supabase
+    .from("project_files")
+    .update({
+      name: file.name,
+      file_path: file.file_path,
+      file_type: file.file_type,
+      file_size: file.file_size,
+      active_version_id: version.id,
+      status: "ready",
+      extracted_text: extractedText,
+      chunk_count: chunkCount,
+      error_message: null,
+    })
+    .eq("id", fileRecord.id);
+
+  if (updateError) {
+    throw new Error(`Failed to save extracted text: ${updateError.message}`);
+  }
+
+  console.log("Successfully extracted and saved text for file:", fileRecord.id, "version:", version.version, "length:", extractedText.length);
+
+  return { version, textLength: extractedText.length, chunkCount };
+}
+
+// Images and scanned PDFs are OCR'd with an OpenAI vision model, or locally with
+// Tesseract when OCR_ENGINE=tesseract (OCR_LANGUAGES, default "eng"). Images also get a
+// model-written description unless IMAGE_CAPTIONS=false.
+function createExtractOptions(): ExtractOptions {
+  const openaiKey = Deno.env.get("OPENAI_API_KEY");
+  const ocr = Deno.env.get("OCR_ENGINE") === "tesseract"
+    ? createTesseractOcrEngine(Deno.env.get("OCR_LANGUAGES") || "eng")
+    : openaiKey
+      ? createOpenAIVisionOcrEngine(openaiKey)
+      : null;
+  const captioner = openaiKey && Deno.env.get("IMAGE_CAPTIONS") !== "false"
+    ? createOpenAIImageCaptioner(openaiKey)
+    : null;
+
+  return { ocr, captioner };
+}
+
+// Replace a file's chunks in project_file_embeddings with the version's, returns the chunk count
+async function indexProjectFile(
+  supabase: SupabaseClient,
+  fileRecord: { id: string; project_id: string; brand_id: string },
+  text: string,
+  version: { id: string; version: number },
+  onProgress?: (embedded: number, total: number) => void | Promise<void>
+): Promise<number> {
+  const openaiKey = Deno.env.get("OPENAI_API_KEY");
+  if (!openaiKey) {
+    throw new Error("Missing OPENAI_API_KEY");
+  }
+
+  const { chunkCount } = await indexDocument(
+    supabase,
+    createOpenAIEmbeddingProvider(openaiKey),
+    {
+      table: "project_file_embeddings",
+      documentColumn: "file_id",
+      documentId: fileRecord.id,
+      columns: { brand_id: fileRecord.brand_id, project_id: fileRecord.project_id },
+      text,
+      metadata: { version: version.version, version_id: version.id },
+      onProgress,
+    },
+  );
+
+  console.log(`Indexed ${chunkCount} chunks for file:`, fileRecord.id);
+  return chunkCount;
+}
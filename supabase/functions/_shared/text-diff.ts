@@ -0,0 +1,205 @@
+// Line diff of two extracted texts, stored with each document version so users can see
+// what changed between uploads.
+//
+// No imports and no Deno APIs, so the same module runs in the edge runtime and under
+// Node (see the frontend tests).
+
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  text: string;
+}
+
+export interface DiffHunk {
+  /** 1-based line numbers where the hunk starts in the old and new text */
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export interface TextDiff {
+  /** Lines added and removed over the whole text */
+  added: number;
+  removed: number;
+  hunks: DiffHunk[];
+  /** Hunks were cut short (or left out) to keep the diff small; counts are still complete */
+  truncated: boolean;
+}
+
+export interface DiffOptions {
+  /** Unchanged lines shown around each change */
+  context?: number;
+  /** Beyond this many line edits the texts are summarised without hunks */
+  maxEdits?: number;
+  /** Most lines kept across all hunks */
+  maxLines?: number;
+}
+
+const DEFAULT_CONTEXT = 2;
+const DEFAULT_MAX_EDITS = 2000;
+const DEFAULT_MAX_LINES = 500;
+const MAX_LINE_LENGTH = 500;
+
+interface Op extends DiffLine {
+  oldLine: number;
+  newLine: number;
+}
+
+// Myers' shortest edit script. Returns a snapshot of V taken before each step, or null
+// when the texts need more than maxEdits edits.
+function shortestEdit(a: string[], b: string[], maxEdits: number): Int32Array[] | null {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, maxEdits); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return trace;
+    }
+  }
+
+  return null;
+}
+
+// Walk the trace back from the end to get the edit script in order
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const at = (k: number) => trace[d][k + d];
+    let prevX = 0;
+    let prevY = 0;
+    if (d > 0) {
+      const k = x - y;
+      const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+      prevX = at(prevK);
+      prevY = prevX - prevK;
+    }
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: "context", text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      lines.push(x === prevX ? { type: "added", text: b[prevY] } : { type: "removed", text: a[prevX] });
+      x = prevX;
+      y = prevY;
+    }
+  }
+
+  return lines.reverse();
+}
+
+// Line counts only, for texts too different to diff line by line
+function summarise(a: string[], b: string[]): TextDiff {
+  const counts = new Map<string, number>();
+  for (const line of a) counts.set(line, (counts.get(line) ?? 0) + 1);
+
+  let added = 0;
+  for (const line of b) {
+    const count = counts.get(line) ?? 0;
+    if (count > 0) counts.set(line, count - 1);
+    else added++;
+  }
+  const removed = [...counts.values()].reduce((sum, count) => sum + count, 0);
+
+  return { added, removed, hunks: [], truncated: added + removed > 0 };
+}
+
+function clip(text: string): string {
+  return text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH)}…` : text;
+}
+
+/**
+ * Diff two texts line by line. Large rewrites are summarised by their line counts and
+ * long diffs keep their first `maxLines` lines, so the result is always small enough
+ * to store.
+ */
+export function diffText(before: string, after: string, options: DiffOptions = {}): TextDiff {
+  const context = options.context ?? DEFAULT_CONTEXT;
+  const maxEdits = options.maxEdits ?? DEFAULT_MAX_EDITS;
+  const maxLines = options.maxLines ?? DEFAULT_MAX_LINES;
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // Unchanged leading and trailing lines don't need the diff
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const trace = shortestEdit(oldMiddle, newMiddle, maxEdits);
+  if (!trace) return summarise(oldMiddle, newMiddle);
+
+  const edits = [
+    ...a.slice(0, prefix).map((text): DiffLine => ({ type: "context", text })),
+    ...backtrack(oldMiddle, newMiddle, trace),
+    ...a.slice(a.length - suffix).map((text): DiffLine => ({ type: "context", text })),
+  ];
+
+  const ops: Op[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const edit of edits) {
+    ops.push({ ...edit, oldLine, newLine });
+    if (edit.type !== "added") oldLine++;
+    if (edit.type !== "removed") newLine++;
+  }
+
+  // Group changes that are close enough to share their context
+  const ranges: { first: number; last: number }[] = [];
+  ops.forEach((op, i) => {
+    if (op.type === "context") return;
+    const current = ranges[ranges.length - 1];
+    if (current && i - current.last <= 2 * context + 1) current.last = i;
+    else ranges.push({ first: i, last: i });
+  });
+
+  const diff: TextDiff = {
+    added: ops.filter((op) => op.type === "added").length,
+    removed: ops.filter((op) => op.type === "removed").length,
+    hunks: [],
+    truncated: false,
+  };
+
+  let budget = maxLines;
+  for (const range of ranges) {
+    if (budget <= 0) {
+      diff.truncated = true;
+      break;
+    }
+    const hunkOps = ops.slice(Math.max(0, range.first - context), Math.min(ops.length, range.last + context + 1));
+    if (hunkOps.length > budget) diff.truncated = true;
+    const kept = hunkOps.slice(0, budget);
+    budget -= kept.length;
+    diff.hunks.push({
+      oldStart: kept[0].oldLine,
+      newStart: kept[0].newLine,
+      lines: kept.map(({ type, text }) => ({ type, text: clip(text) })),
+    });
+  }
+
+  return diff;
+}
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractFileText } from "../_shared/extract-text.ts";
+import { canAccessBrand, canEditBrandDocuments } from "../_shared/brand-access.ts";
+import { getDocumentVersion, recordDocumentVersion, type VersionFile } from "../_shared/document-versions.ts";
+import { createOpenAIEmbeddingProvider, indexDocument } from "../_shared/indexing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -44,89 +48,170 @@ serve(async (req) => {
       });
     }
 
-    const { document_id, brand_id, content } = await req.json();
-
-    if (!document_id || !brand_id || !content) {
+    const {
+      document_id,
+      brand_id,
+      content: providedContent,
+      version_id,
+      new_version,
+    }: {
+      document_id?: string;
+      brand_id?: string;
+      content?: string;
+      /** Roll back to a stored version */
+      version_id?: string;
+      /** New upload replacing the document's file */
+      new_version?: VersionFile;
+    } = await req.json();
+
+    if (!document_id || !brand_id) {
       return new Response("Missing required fields", {
         status: 400,
         headers: corsHeaders,
       });
     }
 
-    // Chunk the content
-    const chunkSize = 1000;
-    const overlap = 200;
-    const chunks: string[] = [];
-    let start = 0;
+    if (!(await canAccessBrand(supabase, user.id, brand_id))) {
+      return new Response("Forbidden", {
+        status: 403,
+        headers: corsHeaders,
+      });
+    }
 
-    while (start < content.length) {
-      const end = Math.min(start + chunkSize, content.length);
-      chunks.push(content.slice(start, end));
-      start = end - overlap;
+    if (new_version && !new_version.file_path?.startsWith(`${brand_id}/`)) {
+      return new Response("New version must be uploaded to the brand's folder", {
+        status: 400,
+        headers: corsHeaders,
+      });
     }
 
-    // Generate embeddings for each chunk
-    const openaiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiKey) {
-      return new Response("Missing OPENAI_API_KEY", {
-        status: 500,
+    const { data: document, error: documentError } = await supabase
+      .from("brand_documents")
+      .select("id, brand_id, name, file_url, file_type, file_size, active_version_id")
+      .eq("id", document_id)
+      .eq("brand_id", brand_id)
+      .single();
+
+    if (documentError || !document) {
+      return new Response("Document not found", {
+        status: 404,
         headers: corsHeaders,
       });
     }
 
-    const embeddings = [];
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-
-      // Call OpenAI embeddings API
-      const embeddingResponse = await fetch(
-        "https://api.openai.com/v1/embeddings",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${openaiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "text-embedding-3-small",
-            input: chunk,
-          }),
-        }
-      );
+    // Any run after the first, and any run with supplied text, replaces what the whole
+    // brand retrieves from. Members may only run a document's first upload as is.
+    const changesDocument = !!(document.active_version_id || providedContent || new_version || version_id);
+    if (changesDocument && !(await canEditBrandDocuments(supabase, user.id, brand_id))) {
+      return new Response("Your role does not allow changing brand documents", {
+        status: 403,
+        headers: corsHeaders,
+      });
+    }
 
-      if (!embeddingResponse.ok) {
-        throw new Error(`OpenAI API error: ${await embeddingResponse.text()}`);
+    // A failed new version or rollback leaves the active version indexed, so only a
+    // document's first run reports its progress on the document
+    const isFirstVersion = !document.active_version_id && !new_version && !version_id;
+
+    let version: { id: string; version: number };
+    let file: VersionFile;
+    let content = providedContent ?? "";
+
+    if (version_id) {
+      const stored = await getDocumentVersion(supabase, "brand_document", document_id, version_id);
+      if (!stored) {
+        return new Response("Version not found", {
+          status: 404,
+          headers: corsHeaders,
+        });
       }
+      const { id, version: number, extracted_text, ...storedFile } = stored;
+      version = { id, version: number };
+      file = storedFile;
+      content = extracted_text;
+    } else {
+      file = new_version ?? {
+        file_path: document.file_url,
+        name: document.name,
+        file_type: document.file_type,
+        file_size: document.file_size,
+      };
+
+      // Without content, read the uploaded file from storage (brand book uploads)
+      if (!content) {
+        if (isFirstVersion) {
+          await supabase
+            .from("brand_documents")
+            .update({ status: "processing", processing_error: null })
+            .eq("id", document_id);
+        }
 
-      const embeddingData = await embeddingResponse.json();
-      const embedding = embeddingData.data[0].embedding;
+        const { data: fileData, error: downloadError } = await supabase.storage
+          .from("brand-documents")
+          .download(file.file_path);
+
+        if (downloadError || !fileData) {
+          if (isFirstVersion) {
+            await supabase
+              .from("brand_documents")
+              .update({ status: "failed", processing_error: "Failed to download file" })
+              .eq("id", document_id);
+          }
+          throw new Error(`Failed to download file: ${downloadError?.message}`);
+        }
 
-      embeddings.push({
-        brand_id,
-        document_id,
-        chunk_index: i,
-        content: chunk,
-        content_length: chunk.length,
-        embedding,
+        content = await extractFileText(fileData, file.file_type, file.name);
+      }
+
+      // Recorded before indexing: if indexing fails the version is kept, inactive, and
+      // can be restored later
+      version = await recordDocumentVersion(supabase, {
+        kind: "brand_document",
+        documentId: document_id,
+        brandId: brand_id,
+        activeVersionId: document.active_version_id,
+        file,
+        extractedText: content,
+        uploadedBy: user.id,
       });
     }
 
-    // Insert embeddings into database
-    const { error: insertError } = await supabase
-      .from("document_embeddings")
-      .insert(embeddings);
-
-    if (insertError) {
-      throw new Error(`Database error: ${insertError.message}`);
+    const openaiKey = Deno.env.get("OPENAI_API_KEY");
+    if (!openaiKey) {
+      return new Response("Missing OPENAI_API_KEY", {
+        status: 500,
+        headers: corsHeaders,
+      });
     }
 
-    // Update document status
+    // Replaces the chunks of the previously active version
+    const { chunkCount } = await indexDocument(
+      supabase,
+      createOpenAIEmbeddingProvider(openaiKey),
+      {
+        table: "document_embeddings",
+        documentColumn: "document_id",
+        documentId: document_id,
+        columns: { brand_id },
+        text: content,
+        metadata: { version: version.version, version_id: version.id },
+      },
+    );
+
+    // The document now serves the indexed version's file and text
     const { error: updateError } = await supabase
       .from("brand_documents")
       .update({
+        name: file.name,
+        file_url: file.file_path,
+        file_type: file.file_type,
+        file_size: file.file_size,
+        active_version_id: version.id,
         is_indexed: true,
-        chunk_count: chunks.length,
+        chunk_count: chunkCount,
+        extracted_text: content,
         status: "processed",
+        processing_error: null,
         processed_at: new Date().toISOString(),
       })
       .eq("id", document_id);
@@ -138,8 +223,11 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         success: true,
-        chunk_count: chunks.length,
+        chunk_count: chunkCount,
+        text_length: content.length,
         document_id,
+        version: version.version,
+        version_id: version.id,
       }),
       {
         headers: {
@@ -0,0 +1,136 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import {
+  failedJobUpdate,
+  stageProgress,
+  type FileJobStage,
+  type FileProcessingJob,
+} from "../_shared/file-jobs.ts";
+import { processProjectFile } from "../_shared/project-file-processing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Jobs claimed per run, so a run stays within the function's time limit; the schedule
+// picks up the rest
+const JOBS_PER_RUN = 3;
+
+// Worker for file_processing_jobs: runs on a schedule (with the service role key) and
+// right after an upload (kicked by the uploader), so new files don't wait for the schedule
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    if (token !== supabaseServiceKey) {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser(token);
+
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const { data: jobs, error: claimError } = await supabase.rpc("claim_file_processing_jobs", {
+      p_limit: JOBS_PER_RUN,
+    });
+
+    if (claimError) {
+      throw new Error(`Database error: ${claimError.message}`);
+    }
+
+    const results: { job_id: string; status: string; error?: string }[] = [];
+    for (const job of (jobs ?? []) as FileProcessingJob[]) {
+      results.push(await runJob(supabase, job));
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, jobs: results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
+
+// One attempt at a claimed job; failures are scheduled for a retry or dead-lettered
+async function runJob(
+  supabase: ReturnType<typeof createClient>,
+  job: FileProcessingJob
+): Promise<{ job_id: string; status: string; error?: string }> {
+  const updateJob = async (values: Partial<FileProcessingJob>) => {
+    const { error } = await supabase
+      .from("file_processing_jobs")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", job.id);
+
+    if (error) {
+      console.error("Failed to update job:", job.id, error.message);
+    }
+  };
+
+  console.log("Running file processing job:", { job: job.id, file: job.project_file_id, attempt: job.attempts });
+
+  try {
+    const { data: fileRecord, error: fetchError } = await supabase
+      .from("project_files")
+      .select("*")
+      .eq("id", job.project_file_id)
+      .single();
+
+    if (fetchError || !fileRecord) {
+      throw new Error(`File not found${fetchError ? `: ${fetchError.message}` : ""}`);
+    }
+
+    await processProjectFile(supabase, fileRecord, {
+      userId: job.created_by,
+      onProgress: (stage: FileJobStage, fraction: number) =>
+        updateJob({ stage, progress: stageProgress(stage, fraction) }),
+    });
+
+    await updateJob({
+      status: "succeeded",
+      stage: "done",
+      progress: 100,
+      locked_at: null,
+      last_error: null,
+      completed_at: new Date().toISOString(),
+    });
+
+    return { job_id: job.id, status: "succeeded" };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("File processing job failed:", job.id, errorMessage);
+
+    const update = failedJobUpdate(job, errorMessage);
+    await updateJob(update);
+
+    // The file shows as failed only once no attempts are left
+    if (update.status === "dead") {
+      await supabase
+        .from("project_files")
+        .update({ status: "error", error_message: errorMessage })
+        .eq("id", job.project_file_id);
+    }
+
+    return { job_id: job.id, status: update.status, error: errorMessage };
+  }
+}
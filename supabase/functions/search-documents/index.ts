@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { canAccessBrand } from "../_shared/brand-access.ts";
+import { createOpenAIEmbeddingProvider } from "../_shared/indexing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,6 +9,92 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+// Request and result shapes mirror DocumentSearchRequest/DocumentSearchResult in @act/auth
+interface SearchRequest {
+  query: string;
+  brand_id: string;
+  match_count?: number;
+  min_similarity?: number | null;
+  match_threshold?: number | null;
+  filters?: {
+    file_types?: string[];
+    tags?: string[];
+    created_after?: string;
+    created_before?: string;
+  };
+  rerank?: boolean;
+}
+
+interface SearchResult {
+  id: string;
+  document_id: string;
+  document_name: string;
+  file_type: string;
+  tags: string[];
+  document_created_at: string;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  similarity: number;
+  keyword_rank: number | null;
+  score: number;
+  rerank_score: number | null;
+}
+
+const RERANK_MODEL = "gpt-4o-mini";
+// Fused candidates fetched per requested result when reranking
+const RERANK_CANDIDATE_FACTOR = 3;
+const MAX_RERANK_CANDIDATES = 30;
+// Characters of each candidate shown to the reranker
+const RERANK_PASSAGE_CHARS = 1500;
+
+// Score each candidate's relevance to the query with a model and sort by it
+async function rerankResults(
+  query: string,
+  results: SearchResult[],
+  openaiKey: string,
+): Promise<SearchResult[]> {
+  const passages = results
+    .map((r, i) => `[${i}] ${r.content.slice(0, RERANK_PASSAGE_CHARS)}`)
+    .join("\n\n");
+
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${openaiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: RERANK_MODEL,
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content:
+            "You rank search results. Score how well each passage answers the query, from 0 (irrelevant) to 10 (answers it directly). " +
+            "Exact matches of product names, SKUs and codes in the query are highly relevant. " +
+            'Reply with JSON {"scores": [...]}, one number per passage in passage order.',
+        },
+        { role: "user", content: `Query: ${query}\n\nPassages:\n${passages}` },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI API error: ${await response.text()}`);
+  }
+
+  const completion = await response.json();
+  const { scores } = JSON.parse(completion.choices[0].message.content);
+  if (!Array.isArray(scores) || scores.length !== results.length) {
+    throw new Error("Reranker returned the wrong number of scores");
+  }
+
+  return results
+    .map((r, i) => ({ ...r, rerank_score: Number(scores[i]) || 0 }))
+    .sort((a, b) => b.rerank_score - a.rerank_score || b.score - a.score);
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -44,7 +132,16 @@ serve(async (req) => {
       });
     }
 
-    const { query, brand_id, match_threshold = 0.7, match_count = 5 } = await req.json();
+    const {
+      query,
+      brand_id,
+      match_count = 5,
+      min_similarity = null,
+      // Older callers' name for min_similarity
+      match_threshold = null,
+      filters = {},
+      rerank = false,
+    } = (await req.json()) as SearchRequest;
 
     if (!query || !brand_id) {
       return new Response("Missing query or brand_id", {
@@ -53,7 +150,13 @@ serve(async (req) => {
       });
     }
 
-    // Generate embedding for the query
+    if (!(await canAccessBrand(supabase, user.id, brand_id))) {
+      return new Response("Forbidden", {
+        status: 403,
+        headers: corsHeaders,
+      });
+    }
+
     const openaiKey = Deno.env.get("OPENAI_API_KEY");
     if (!openaiKey) {
       return new Response("Missing OPENAI_API_KEY", {
@@ -62,46 +165,53 @@ serve(async (req) => {
       });
     }
 
-    const embeddingResponse = await fetch(
-      "https://api.openai.com/v1/embeddings",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${openaiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "text-embedding-3-small",
-          input: query,
-        }),
-      }
-    );
-
-    if (!embeddingResponse.ok) {
-      throw new Error(`OpenAI API error: ${await embeddingResponse.text()}`);
-    }
+    // Same model the documents were indexed with
+    const [queryEmbedding] = await createOpenAIEmbeddingProvider(openaiKey).embed([query]);
 
-    const embeddingData = await embeddingResponse.json();
-    const queryEmbedding = embeddingData.data[0].embedding;
+    // Reranking picks from a wider pool of fused candidates
+    const candidateCount = rerank
+      ? Math.min(match_count * RERANK_CANDIDATE_FACTOR, MAX_RERANK_CANDIDATES)
+      : match_count;
 
-    // Search using the match_brand_documents function
-    const { data, error } = await supabase.rpc("match_brand_documents", {
+    const { data, error } = await supabase.rpc("hybrid_search_brand_documents", {
+      query_text: query,
       query_embedding: queryEmbedding,
       query_brand_id: brand_id,
-      match_threshold,
-      match_count,
+      match_count: candidateCount,
+      min_similarity: min_similarity ?? match_threshold,
+      filter_file_types: filters.file_types?.length ? filters.file_types : null,
+      filter_tags: filters.tags?.length ? filters.tags : null,
+      filter_created_after: filters.created_after ?? null,
+      filter_created_before: filters.created_before ?? null,
     });
 
     if (error) {
       throw new Error(`Database error: ${error.message}`);
     }
 
+    let results: SearchResult[] = (data ?? []).map((row: Omit<SearchResult, "rerank_score">) => ({
+      ...row,
+      rerank_score: null,
+    }));
+    let reranked = false;
+
+    if (rerank && results.length > 1) {
+      try {
+        results = await rerankResults(query, results, openaiKey);
+        reranked = true;
+      } catch (rerankError) {
+        // Fall back to the fused order
+        console.error("Rerank failed:", rerankError);
+      }
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
-        results: data,
+        results: results.slice(0, match_count),
         query,
         brand_id,
+        reranked,
       }),
       {
         headers: {
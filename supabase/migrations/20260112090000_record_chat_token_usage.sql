@@ -0,0 +1,97 @@
+-- Record real token usage from /api/chat against brand quotas
+-- Extends check_and_use_quota so callers can attach a description/metadata to the
+-- logged transaction, attribute it to a user when running with the service role,
+-- and record usage that has already been incurred even if it overshoots the limit.
+
+DROP FUNCTION IF EXISTS public.check_and_use_quota(TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.check_and_use_quota(
+  p_brand_id TEXT,
+  p_quota_type TEXT,
+  p_amount INTEGER,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb,
+  p_performed_by UUID DEFAULT NULL,
+  p_allow_overage BOOLEAN DEFAULT FALSE
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_current_used INTEGER;
+  v_current_limit INTEGER;
+  v_quota_id UUID;
+BEGIN
+  -- Get current quota (locked so concurrent requests don't lose updates)
+  SELECT id,
+    CASE
+      WHEN p_quota_type = 'prompt_tokens' THEN prompt_tokens_used
+      WHEN p_quota_type = 'image_generation' THEN image_generation_used
+      WHEN p_quota_type = 'workflow_executions' THEN workflow_executions_used
+    END,
+    CASE
+      WHEN p_quota_type = 'prompt_tokens' THEN prompt_tokens_limit
+      WHEN p_quota_type = 'image_generation' THEN image_generation_limit
+      WHEN p_quota_type = 'workflow_executions' THEN workflow_executions_limit
+    END
+  INTO v_quota_id, v_current_used, v_current_limit
+  FROM public.brand_quotas
+  WHERE brand_id = p_brand_id
+  FOR UPDATE;
+
+  -- Check if brand has quota record
+  IF v_quota_id IS NULL THEN
+    RAISE EXCEPTION 'No quota record found for brand %', p_brand_id;
+  END IF;
+
+  -- Check if within limit (usage that already happened is always recorded)
+  IF NOT p_allow_overage AND v_current_used + p_amount > v_current_limit THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Update quota
+  UPDATE public.brand_quotas
+  SET
+    prompt_tokens_used = CASE WHEN p_quota_type = 'prompt_tokens' THEN prompt_tokens_used + p_amount ELSE prompt_tokens_used END,
+    image_generation_used = CASE WHEN p_quota_type = 'image_generation' THEN image_generation_used + p_amount ELSE image_generation_used END,
+    workflow_executions_used = CASE WHEN p_quota_type = 'workflow_executions' THEN workflow_executions_used + p_amount ELSE workflow_executions_used END,
+    updated_at = NOW()
+  WHERE brand_id = p_brand_id;
+
+  -- Log transaction
+  INSERT INTO public.quota_transactions (
+    brand_id,
+    transaction_type,
+    quota_type,
+    amount,
+    previous_value,
+    new_value,
+    performed_by,
+    description,
+    metadata
+  ) VALUES (
+    p_brand_id,
+    'usage',
+    p_quota_type,
+    -p_amount,
+    v_current_used,
+    v_current_used + p_amount,
+    COALESCE(p_performed_by, auth.uid()),
+    p_description,
+    COALESCE(p_metadata, '{}'::jsonb)
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Accumulate the cost of a chat turn on its conversation.
+-- Token totals are already maintained by update_conversation_tokens when the
+-- assistant message is inserted; cost is only known server-side.
+CREATE OR REPLACE FUNCTION public.add_conversation_cost(
+  p_conversation_id UUID,
+  p_cost_usd DECIMAL
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE public.conversations
+  SET total_cost_usd = COALESCE(total_cost_usd, 0) + p_cost_usd
+  WHERE id = p_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,90 @@
+-- Chunked embeddings for project files
+-- Mirrors document_embeddings so chat can retrieve only the relevant parts of a
+-- project's files instead of inlining (and truncating) every file's full text.
+
+CREATE TABLE IF NOT EXISTS public.project_file_embeddings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  brand_id TEXT NOT NULL REFERENCES public.brands(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES public.project_files(id) ON DELETE CASCADE,
+
+  -- Chunk data
+  chunk_index INTEGER NOT NULL, -- Order of chunk in file
+  content TEXT NOT NULL, -- The actual text chunk
+  content_length INTEGER, -- Character count
+
+  -- Vector embedding (1536 dimensions for OpenAI text-embedding-3-small)
+  embedding vector(1536),
+
+  -- Location of the chunk in extracted_text (start_offset, end_offset)
+  metadata JSONB,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(file_id, chunk_index)
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_project_file_embeddings_brand_id ON public.project_file_embeddings(brand_id);
+CREATE INDEX IF NOT EXISTS idx_project_file_embeddings_project_id ON public.project_file_embeddings(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_file_embeddings_file_id ON public.project_file_embeddings(file_id);
+
+-- Vector similarity search index (HNSW for fast approximate search)
+CREATE INDEX IF NOT EXISTS idx_project_file_embeddings_vector
+  ON public.project_file_embeddings
+  USING hnsw (embedding vector_cosine_ops);
+
+-- Enable RLS (writes happen through the service role in process-project-file)
+ALTER TABLE public.project_file_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view project file embeddings from their brands"
+  ON public.project_file_embeddings FOR SELECT
+  USING (
+    brand_id IN (
+      SELECT brand_id FROM public.brand_users WHERE user_id = auth.uid()
+    )
+  );
+
+-- Number of indexed chunks per file (0 = not indexed, chat falls back to extracted_text)
+ALTER TABLE public.project_files
+ADD COLUMN IF NOT EXISTS chunk_count INTEGER DEFAULT 0;
+
+-- Function for similarity search within a project (brand-isolated)
+CREATE OR REPLACE FUNCTION match_project_files(
+  query_embedding vector(1536),
+  query_brand_id TEXT,
+  query_project_id UUID,
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INT DEFAULT 8
+)
+RETURNS TABLE (
+  id UUID,
+  file_id UUID,
+  file_name TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    project_file_embeddings.id,
+    project_file_embeddings.file_id,
+    project_files.name AS file_name,
+    project_file_embeddings.chunk_index,
+    project_file_embeddings.content,
+    project_file_embeddings.metadata,
+    1 - (project_file_embeddings.embedding <=> query_embedding) AS similarity
+  FROM public.project_file_embeddings
+  JOIN public.project_files ON project_files.id = project_file_embeddings.file_id
+  WHERE project_file_embeddings.brand_id = query_brand_id
+    AND project_file_embeddings.project_id = query_project_id
+    AND project_files.status = 'ready'
+    AND 1 - (project_file_embeddings.embedding <=> query_embedding) > match_threshold
+  ORDER BY project_file_embeddings.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
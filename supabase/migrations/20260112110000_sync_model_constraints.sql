@@ -0,0 +1,32 @@
+-- Model constraints generated from the model registry (packages/models)
+-- Accepts the registry's canonical ids plus the legacy ids existing rows still use.
+-- Keep this list in sync with STORED_MODEL_IDS; __tests__/model-registry.test.ts checks it.
+
+ALTER TABLE public.conversations DROP CONSTRAINT IF EXISTS valid_model;
+
+ALTER TABLE public.conversations ADD CONSTRAINT valid_model CHECK (
+  model IN (
+    -- Registry models
+    'claude-sonnet-4-5', 'gpt-4o', 'gpt-4o-mini', 'gemini-2.0-flash', 'gemini-1.5-pro',
+    -- Legacy ids (resolved to a registry model)
+    'claude-4.5', 'claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku',
+    'gpt-5.2', 'gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo',
+    'gemini-3.1', 'gemini-pro'
+  )
+);
+
+-- Messages also record 'system' for share/invite notices. NOT VALID so rows written
+-- before the constraint existed are left alone.
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS valid_message_model;
+
+ALTER TABLE public.messages ADD CONSTRAINT valid_message_model CHECK (
+  model IN (
+    'system',
+    -- Registry models
+    'claude-sonnet-4-5', 'gpt-4o', 'gpt-4o-mini', 'gemini-2.0-flash', 'gemini-1.5-pro',
+    -- Legacy ids (resolved to a registry model)
+    'claude-4.5', 'claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku',
+    'gpt-5.2', 'gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo',
+    'gemini-3.1', 'gemini-pro'
+  )
+) NOT VALID;
@@ -0,0 +1,16 @@
+-- Assistant replies are saved by /api/chat when the stream ends. Replies cut short by
+-- a dropped connection, a stop or a provider error are kept as 'interrupted' so they
+-- can be regenerated.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'complete';
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS valid_message_status;
+
+ALTER TABLE public.messages ADD CONSTRAINT valid_message_status CHECK (
+  status IN ('complete', 'interrupted')
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_interrupted
+  ON public.messages(conversation_id)
+  WHERE status = 'interrupted';
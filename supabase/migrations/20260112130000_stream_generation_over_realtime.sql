@@ -0,0 +1,32 @@
+-- Live generation for collaborative chats
+-- /api/chat now creates the assistant reply as 'streaming' when generation starts and
+-- keeps it up to date, so the row can be empty until the first text arrives. Snapshots
+-- of the reply are broadcast on the private Realtime topic chat-generation:<conversation id>.
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS valid_message_status;
+
+ALTER TABLE public.messages ADD CONSTRAINT valid_message_status CHECK (
+  status IN ('streaming', 'complete', 'interrupted')
+);
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS non_empty_content;
+
+ALTER TABLE public.messages ADD CONSTRAINT non_empty_content CHECK (
+  LENGTH(content) > 0 OR status = 'streaming'
+);
+
+-- Participants may listen to a conversation's generation topic when they can read the
+-- conversation (the subquery runs under the conversations RLS policies)
+DROP POLICY IF EXISTS "Conversation participants can receive generation broadcasts" ON realtime.messages;
+
+CREATE POLICY "Conversation participants can receive generation broadcasts"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() LIKE 'chat-generation:%'
+    AND EXISTS (
+      SELECT 1 FROM public.conversations c
+      WHERE c.id::text = split_part(realtime.topic(), ':', 2)
+    )
+  );
@@ -0,0 +1,39 @@
+-- Structured brand guidelines
+-- process-document now stores a brand book's text in brand_documents.extracted_text and
+-- /api/brand-guidelines/extract writes the guidelines found in it to extracted_data.
+-- Once reviewed, guidelines are saved as a new version of the brand's profile; the
+-- latest version is the authoritative brand profile.
+
+ALTER TABLE public.brand_documents
+ADD COLUMN IF NOT EXISTS extracted_text TEXT;
+
+CREATE TABLE IF NOT EXISTS public.brand_profiles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  brand_id TEXT NOT NULL REFERENCES public.brands(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+
+  -- Palette, typography, logo rules, tone of voice, banned words, taglines
+  -- (validated against brandGuidelinesSchema in lib/brand-guidelines.ts)
+  guidelines JSONB NOT NULL,
+
+  -- Brand book the guidelines were extracted from, if any
+  source_document_id UUID REFERENCES public.brand_documents(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(brand_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_brand_profiles_brand_version
+  ON public.brand_profiles(brand_id, version DESC);
+
+-- Enable RLS (versions are written through the service role in /api/brand-guidelines)
+ALTER TABLE public.brand_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view profiles of their brands"
+  ON public.brand_profiles FOR SELECT
+  USING (
+    brand_id IN (
+      SELECT brand_id FROM public.brand_users WHERE user_id = auth.uid()
+    )
+  );
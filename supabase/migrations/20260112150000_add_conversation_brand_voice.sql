@@ -0,0 +1,8 @@
+-- Add brand_voice_enabled column to conversations table
+-- When on, /api/chat adds the brand profile's voice to the system prompt
+
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS brand_voice_enabled BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.conversations.brand_voice_enabled IS
+'Whether the brand voice from the latest brand_profiles version is added to the system prompt';
@@ -0,0 +1,113 @@
+-- Hybrid (keyword + vector) search over brand documents
+-- match_brand_documents only ranks by cosine similarity above a fixed threshold, which
+-- misses exact product names, SKUs and campaign codes. Full-text and vector candidates
+-- are fused with reciprocal rank fusion (RRF) instead.
+
+-- Free-form labels for filtering searches, e.g. 'campaign', 'legal'
+ALTER TABLE public.brand_documents
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_brand_documents_tags
+  ON public.brand_documents USING gin (tags);
+
+-- 'english' stems words and drops stop words; codes like "SKU-1042" also keep their
+-- full token, so exact codes still match
+ALTER TABLE public.document_embeddings
+ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_content_tsv
+  ON public.document_embeddings USING gin (content_tsv);
+
+-- Each side contributes weight / (rrf_k + rank) for its top candidates; a chunk found by
+-- both ranks highest. min_similarity only limits the vector candidates.
+CREATE OR REPLACE FUNCTION hybrid_search_brand_documents(
+  query_text TEXT,
+  query_embedding vector(1536),
+  query_brand_id TEXT,
+  match_count INT DEFAULT 10,
+  min_similarity FLOAT DEFAULT NULL,
+  filter_file_types TEXT[] DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  keyword_weight FLOAT DEFAULT 1,
+  semantic_weight FLOAT DEFAULT 1,
+  rrf_k INT DEFAULT 60
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  file_type TEXT,
+  tags TEXT[],
+  document_created_at TIMESTAMP WITH TIME ZONE,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT,
+  keyword_rank FLOAT,
+  score FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT e.id, e.embedding, e.content_tsv
+    FROM public.document_embeddings e
+    JOIN public.brand_documents d ON d.id = e.document_id
+    WHERE e.brand_id = query_brand_id
+      AND (filter_file_types IS NULL OR d.file_type = ANY (filter_file_types))
+      AND (filter_tags IS NULL OR d.tags && filter_tags)
+      AND (filter_created_after IS NULL OR d.created_at >= filter_created_after)
+      AND (filter_created_before IS NULL OR d.created_at < filter_created_before)
+  ),
+  -- Any of the query's terms; chunks matching more of them rank higher
+  keyword_query AS (
+    SELECT NULLIF(replace(plainto_tsquery('english', query_text)::text, ' & ', ' | '), '')::tsquery AS q
+  ),
+  keyword AS (
+    SELECT
+      c.id,
+      ts_rank_cd(c.content_tsv, k.q)::float AS keyword_rank,
+      row_number() OVER (ORDER BY ts_rank_cd(c.content_tsv, k.q) DESC) AS rank_ix
+    FROM candidates c, keyword_query k
+    WHERE c.content_tsv @@ k.q
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  ),
+  semantic AS (
+    SELECT
+      c.id,
+      row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+    FROM candidates c
+    WHERE min_similarity IS NULL OR 1 - (c.embedding <=> query_embedding) > min_similarity
+    ORDER BY rank_ix
+    LIMIT match_count * 4
+  ),
+  fused AS (
+    SELECT
+      COALESCE(k.id, s.id) AS id,
+      k.keyword_rank,
+      COALESCE(keyword_weight / (rrf_k + k.rank_ix), 0)
+        + COALESCE(semantic_weight / (rrf_k + s.rank_ix), 0) AS score
+    FROM keyword k
+    FULL OUTER JOIN semantic s ON s.id = k.id
+  )
+  SELECT
+    e.id,
+    e.document_id,
+    d.name AS document_name,
+    d.file_type,
+    d.tags,
+    d.created_at AS document_created_at,
+    e.content,
+    e.metadata,
+    1 - (e.embedding <=> query_embedding) AS similarity,
+    f.keyword_rank,
+    f.score
+  FROM fused f
+  JOIN public.document_embeddings e ON e.id = f.id
+  JOIN public.brand_documents d ON d.id = e.document_id
+  ORDER BY f.score DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,83 @@
+-- Version history for brand documents and project files
+-- Uploading a new version of a file keeps the earlier ones (who uploaded them, when,
+-- their extracted text and a diff against the version they replaced). Only the active
+-- version is indexed; rolling back re-indexes a stored version.
+
+CREATE TABLE IF NOT EXISTS public.document_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  brand_id TEXT NOT NULL REFERENCES public.brands(id) ON DELETE CASCADE,
+
+  -- Exactly one parent
+  brand_document_id UUID REFERENCES public.brand_documents(id) ON DELETE CASCADE,
+  project_file_id UUID REFERENCES public.project_files(id) ON DELETE CASCADE,
+
+  version INTEGER NOT NULL,
+
+  -- File as uploaded (kept in storage so the version can be restored)
+  name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_size INTEGER,
+
+  extracted_text TEXT NOT NULL,
+  -- Line diff against the version this one replaced ({ added, removed, hunks, truncated },
+  -- see supabase/functions/_shared/text-diff.ts); NULL for the first version
+  text_diff JSONB,
+
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT document_versions_one_parent CHECK (
+    (brand_document_id IS NOT NULL)::int + (project_file_id IS NOT NULL)::int = 1
+  ),
+  UNIQUE(brand_document_id, version),
+  UNIQUE(project_file_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_brand_id ON public.document_versions(brand_id);
+CREATE INDEX IF NOT EXISTS idx_document_versions_brand_document
+  ON public.document_versions(brand_document_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_document_versions_project_file
+  ON public.document_versions(project_file_id, version DESC);
+
+-- Enable RLS (versions are written through the service role in process-document and
+-- process-project-file)
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view document versions from their brands"
+  ON public.document_versions FOR SELECT
+  USING (
+    brand_id IN (
+      SELECT brand_id FROM public.brand_users WHERE user_id = auth.uid()
+    )
+  );
+
+-- Version whose text is indexed
+ALTER TABLE public.brand_documents
+ADD COLUMN IF NOT EXISTS active_version_id UUID REFERENCES public.document_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.project_files
+ADD COLUMN IF NOT EXISTS active_version_id UUID REFERENCES public.document_versions(id) ON DELETE SET NULL;
+
+-- Processed files become version 1
+INSERT INTO public.document_versions
+  (brand_id, brand_document_id, version, name, file_path, file_type, file_size, extracted_text, uploaded_by, created_at)
+SELECT brand_id, id, 1, name, file_url, file_type, file_size, extracted_text, user_id, created_at
+FROM public.brand_documents
+WHERE extracted_text IS NOT NULL AND brand_id IS NOT NULL AND active_version_id IS NULL;
+
+UPDATE public.brand_documents d
+SET active_version_id = v.id
+FROM public.document_versions v
+WHERE v.brand_document_id = d.id AND v.version = 1 AND d.active_version_id IS NULL;
+
+INSERT INTO public.document_versions
+  (brand_id, project_file_id, version, name, file_path, file_type, file_size, extracted_text, uploaded_by, created_at)
+SELECT brand_id, id, 1, name, file_path, file_type, file_size, extracted_text, user_id, created_at
+FROM public.project_files
+WHERE extracted_text IS NOT NULL AND active_version_id IS NULL;
+
+UPDATE public.project_files f
+SET active_version_id = v.id
+FROM public.document_versions v
+WHERE v.project_file_id = f.id AND v.version = 1 AND f.active_version_id IS NULL;
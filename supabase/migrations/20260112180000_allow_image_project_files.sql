@@ -0,0 +1,21 @@
+-- Images as project files
+-- process-project-file now OCRs images (and scanned PDFs) and describes what they show,
+-- so moodboards, screenshots and photographed documents can be used as project context.
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/pdf',
+  'application/json',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/gif'
+]
+WHERE id = 'project-files';
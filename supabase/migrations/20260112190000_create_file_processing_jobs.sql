@@ -0,0 +1,184 @@
+-- Background processing of project files
+-- Uploading a file enqueues a job; the process-file-jobs edge function claims due jobs,
+-- extracts and embeds the file and records each stage's progress on the job, which the
+-- chat page follows over Realtime. Failed attempts are retried with exponential backoff
+-- (scheduled by the worker through next_attempt_at). After max_attempts the job is
+-- dead-lettered until someone retries it.
+--
+-- Status: queued -> running -> succeeded
+--                           -> retrying -> running -> ... -> dead
+
+CREATE TABLE IF NOT EXISTS public.file_processing_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_file_id UUID NOT NULL REFERENCES public.project_files(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  brand_id TEXT NOT NULL REFERENCES public.brands(id) ON DELETE CASCADE,
+
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'retrying', 'succeeded', 'dead')),
+  -- Stage of the current attempt and overall progress through it (0-100)
+  stage TEXT NOT NULL DEFAULT 'queued'
+    CHECK (stage IN ('queued', 'downloading', 'extracting', 'embedding', 'saving', 'done')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- When a worker claimed the job; running jobs locked for too long are reclaimed
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_processing_jobs_due
+  ON public.file_processing_jobs(next_attempt_at)
+  WHERE status IN ('queued', 'retrying');
+CREATE INDEX IF NOT EXISTS idx_file_processing_jobs_project_id ON public.file_processing_jobs(project_id);
+CREATE INDEX IF NOT EXISTS idx_file_processing_jobs_brand_id ON public.file_processing_jobs(brand_id);
+
+-- A file has at most one job in flight
+CREATE UNIQUE INDEX IF NOT EXISTS idx_file_processing_jobs_active_file
+  ON public.file_processing_jobs(project_file_id)
+  WHERE status IN ('queued', 'running', 'retrying');
+
+-- Enable RLS (jobs are written through the functions below and the service role)
+ALTER TABLE public.file_processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view file processing jobs in their brand"
+  ON public.file_processing_jobs FOR SELECT
+  TO authenticated
+  USING (
+    brand_id IN (
+      SELECT brand_id FROM public.brand_users WHERE user_id = auth.uid()
+    )
+  );
+
+-- Progress is pushed to the chat page
+ALTER PUBLICATION supabase_realtime ADD TABLE public.file_processing_jobs;
+
+-- Enqueue processing of a file the caller can see; returns the file's job in flight if
+-- it already has one
+CREATE OR REPLACE FUNCTION public.enqueue_file_processing_job(p_file_id UUID)
+RETURNS public.file_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_file public.project_files;
+  v_job public.file_processing_jobs;
+BEGIN
+  SELECT * INTO v_file FROM public.project_files WHERE id = p_file_id;
+
+  IF v_file.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.brand_users WHERE user_id = auth.uid() AND brand_id = v_file.brand_id
+  ) THEN
+    RAISE EXCEPTION 'File not found';
+  END IF;
+
+  SELECT * INTO v_job FROM public.file_processing_jobs
+  WHERE project_file_id = p_file_id AND status IN ('queued', 'running', 'retrying');
+
+  IF v_job.id IS NOT NULL THEN
+    RETURN v_job;
+  END IF;
+
+  INSERT INTO public.file_processing_jobs (project_file_id, project_id, brand_id, created_by)
+  VALUES (v_file.id, v_file.project_id, v_file.brand_id, auth.uid())
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
+
+-- Re-enqueue a dead-lettered job (or one waiting for its next attempt) with a fresh set
+-- of attempts
+CREATE OR REPLACE FUNCTION public.retry_file_processing_job(p_job_id UUID)
+RETURNS public.file_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.file_processing_jobs;
+BEGIN
+  UPDATE public.file_processing_jobs j
+  SET status = 'queued',
+      stage = 'queued',
+      progress = 0,
+      attempts = 0,
+      next_attempt_at = NOW(),
+      locked_at = NULL,
+      last_error = NULL,
+      completed_at = NULL,
+      updated_at = NOW()
+  WHERE j.id = p_job_id
+    AND j.status IN ('dead', 'retrying')
+    AND j.brand_id IN (SELECT brand_id FROM public.brand_users WHERE user_id = auth.uid())
+  RETURNING * INTO v_job;
+
+  IF v_job.id IS NULL THEN
+    RAISE EXCEPTION 'Job not found or not failed';
+  END IF;
+
+  UPDATE public.project_files
+  SET status = 'pending', error_message = NULL
+  WHERE id = v_job.project_file_id AND status = 'error';
+
+  RETURN v_job;
+END;
+$$;
+
+-- Claim up to p_limit due jobs for a worker (service role only). Running jobs whose
+-- worker died (locked longer than p_lock_timeout) are first put back for a retry, or
+-- dead-lettered when they are out of attempts.
+CREATE OR REPLACE FUNCTION public.claim_file_processing_jobs(
+  p_limit INTEGER DEFAULT 1,
+  p_lock_timeout INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF public.file_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH expired AS (
+    UPDATE public.file_processing_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'retrying' END,
+        completed_at = CASE WHEN attempts >= max_attempts THEN NOW() END,
+        last_error = 'Processing timed out',
+        locked_at = NULL,
+        updated_at = NOW()
+    WHERE status = 'running' AND locked_at < NOW() - p_lock_timeout
+    RETURNING project_file_id, status
+  )
+  UPDATE public.project_files f
+  SET status = 'error', error_message = 'Processing timed out'
+  FROM expired e
+  WHERE f.id = e.project_file_id AND e.status = 'dead';
+
+  RETURN QUERY
+  UPDATE public.file_processing_jobs j
+  SET status = 'running',
+      stage = 'queued',
+      progress = 0,
+      attempts = j.attempts + 1,
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM public.file_processing_jobs
+    WHERE status IN ('queued', 'retrying') AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_file_processing_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_file_processing_jobs(INTEGER, INTERVAL) TO service_role;
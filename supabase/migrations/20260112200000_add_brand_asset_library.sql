@@ -0,0 +1,110 @@
+-- Brand asset library
+-- The asset library page browses brand_assets as a grid with type/tag filters and
+-- full-text search, spots re-uploads of the same file by content hash and shows
+-- thumbnails generated on upload.
+
+-- SHA-256 of the file's bytes (hex), set on upload
+ALTER TABLE public.brand_assets
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- Storage path of a downscaled preview in brand-assets; NULL when the file is shown as
+-- is (SVG) or has no preview (fonts, archives)
+ALTER TABLE public.brand_assets
+ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+
+-- One copy of a file per brand; assets uploaded before hashing have no hash
+CREATE UNIQUE INDEX IF NOT EXISTS idx_brand_assets_content_hash
+  ON public.brand_assets(brand_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+-- to_tsvector is immutable but array_to_string isn't, so the generated column goes
+-- through this wrapper. Names and tags weigh more than descriptions.
+CREATE OR REPLACE FUNCTION brand_asset_search_vector(
+  asset_name TEXT,
+  asset_description TEXT,
+  asset_tags TEXT[]
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(asset_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(asset_tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(asset_description, '')), 'B');
+$$;
+
+ALTER TABLE public.brand_assets
+ADD COLUMN IF NOT EXISTS search_tsv tsvector
+  GENERATED ALWAYS AS (brand_asset_search_vector(name, description, tags)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_brand_assets_search_tsv
+  ON public.brand_assets USING gin (search_tsv);
+
+-- Editors tag and describe any of the brand's assets, not only their own uploads
+CREATE POLICY "Editors can update brand assets"
+  ON public.brand_assets FOR UPDATE
+  USING (
+    brand_id IN (
+      SELECT brand_id FROM public.brand_users
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin', 'editor')
+    )
+  );
+
+-- Thumbnails are PNG; WebP and GIF images can now be kept in the library too
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/svg+xml',
+  'application/zip',
+  'font/ttf',
+  'font/otf',
+  'font/woff',
+  'font/woff2'
+]
+WHERE id = 'brand-assets';
+
+-- Library search. search_query is a to_tsquery expression (the page sends prefix terms,
+-- e.g. 'logo:* & dark:*'); without one the newest assets come first. An asset must have
+-- every tag in filter_tags. Runs with the caller's rights, so RLS applies.
+CREATE OR REPLACE FUNCTION search_brand_assets(
+  query_brand_id TEXT,
+  search_query TEXT DEFAULT NULL,
+  filter_asset_types TEXT[] DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  match_count INT DEFAULT 60,
+  match_offset INT DEFAULT 0
+)
+RETURNS SETOF public.brand_assets
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT a.*
+  FROM public.brand_assets a
+  WHERE a.brand_id = query_brand_id
+    AND (filter_asset_types IS NULL OR a.asset_type = ANY (filter_asset_types))
+    AND (filter_tags IS NULL OR a.tags @> filter_tags)
+    AND (search_query IS NULL OR a.search_tsv @@ to_tsquery('english', search_query))
+  ORDER BY
+    CASE WHEN search_query IS NULL THEN 0
+      ELSE ts_rank_cd(a.search_tsv, to_tsquery('english', search_query)) END DESC,
+    a.created_at DESC
+  LIMIT match_count
+  OFFSET match_offset;
+$$;
+
+-- Tags in use across the brand's assets, for the tag filter
+CREATE OR REPLACE FUNCTION list_brand_asset_tags(query_brand_id TEXT)
+RETURNS TABLE (tag TEXT, asset_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.tag, count(*) AS asset_count
+  FROM public.brand_assets a, unnest(a.tags) AS t(tag)
+  WHERE a.brand_id = query_brand_id
+  GROUP BY t.tag
+  ORDER BY asset_count DESC, t.tag;
+$$;
@@ -0,0 +1,19 @@
+-- Encrypted MCP credentials
+-- auth_token_encrypted and the OAuth tokens are now encrypted by the app server
+-- (lib/mcp/credentials.ts) with envelope encryption under a versioned master key
+-- (MCP_CREDENTIALS_KEYS). Rows saved before this hold plaintext until
+-- `pnpm mcp:rotate-credentials` is run, which also moves rows to a new key version.
+
+-- Master key version the row's credentials are encrypted with; NULL until the row is
+-- encrypted
+ALTER TABLE mcp_servers
+ADD COLUMN IF NOT EXISTS credentials_key_version INTEGER;
+
+-- Finds rows still on an old key (or unencrypted) during rotation
+CREATE INDEX IF NOT EXISTS idx_mcp_servers_credentials_key_version
+  ON mcp_servers(credentials_key_version);
+
+COMMENT ON COLUMN mcp_servers.auth_token_encrypted IS 'Bearer token or API key, envelope-encrypted (enc:v1:<key version>:...)';
+COMMENT ON COLUMN mcp_servers.oauth_access_token IS 'OAuth access token, envelope-encrypted (enc:v1:<key version>:...)';
+COMMENT ON COLUMN mcp_servers.oauth_refresh_token IS 'OAuth refresh token, envelope-encrypted (enc:v1:<key version>:...)';
+COMMENT ON COLUMN mcp_servers.credentials_key_version IS 'Version of the MCP_CREDENTIALS_KEYS master key the credentials are encrypted with';
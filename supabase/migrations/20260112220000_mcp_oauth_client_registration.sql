@@ -0,0 +1,19 @@
+-- Generic MCP OAuth (lib/mcp/oauth.ts)
+-- Replaces the hard-coded Smithery exchange with the MCP authorization flow: the app
+-- discovers each server's authorization server, registers itself as a client there
+-- (dynamic client registration) and refreshes expired access tokens. The registered
+-- client and the authorization server's endpoints are kept per server.
+
+-- Secret of the registered client, only when the authorization server issued one;
+-- envelope-encrypted like the other credentials
+ALTER TABLE mcp_servers
+ADD COLUMN IF NOT EXISTS oauth_client_secret TEXT;
+
+-- Authorization server endpoints, client authentication method, redirect URI and
+-- resource the client was registered with
+ALTER TABLE mcp_servers
+ADD COLUMN IF NOT EXISTS oauth_metadata JSONB;
+
+COMMENT ON COLUMN mcp_servers.oauth_client_id IS 'OAuth client ID, from dynamic client registration with the server''s authorization server';
+COMMENT ON COLUMN mcp_servers.oauth_client_secret IS 'OAuth client secret, envelope-encrypted (enc:v1:<key version>:...); NULL for public clients';
+COMMENT ON COLUMN mcp_servers.oauth_metadata IS 'Authorization server metadata and registration details used for token exchange and refresh';
@@ -0,0 +1,56 @@
+-- Human approval of MCP tool calls
+-- Each server sets a policy per tool: auto (run right away, the default), ask (wait for
+-- someone with the ai:approve_tool_calls permission to approve the exact arguments) or
+-- deny (never offered to the model). Every call that needed approval is recorded here
+-- together with its outcome, which makes the table the log of approval decisions.
+--
+-- Status: pending -> approved
+--                 -> rejected
+--                 -> expired (nobody decided in time)
+--                 -> cancelled (the reply was stopped while waiting)
+
+ALTER TABLE public.mcp_servers
+  ADD COLUMN IF NOT EXISTS tool_policies JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.mcp_servers.tool_policies IS
+  'Policy per tool name: auto, ask or deny. Tools not listed run automatically.';
+
+CREATE TABLE IF NOT EXISTS public.mcp_tool_approvals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  brand_id TEXT NOT NULL REFERENCES public.brands(id) ON DELETE CASCADE,
+  -- Null for chats that aren't saved
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  -- Assistant message that made the call; not a foreign key since replies without any
+  -- text are never saved
+  message_id UUID NOT NULL,
+  server_id UUID REFERENCES public.mcp_servers(id) ON DELETE SET NULL,
+  server_name TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  -- Namespaced name the model called, e.g. notion__create_page
+  chat_tool_name TEXT NOT NULL,
+  tool_call_id TEXT NOT NULL,
+  arguments JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'cancelled')),
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mcp_tool_approvals_brand_id ON public.mcp_tool_approvals(brand_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mcp_tool_approvals_message_id ON public.mcp_tool_approvals(message_id);
+
+-- Enable RLS (approvals are requested and decided through the API with the service role)
+ALTER TABLE public.mcp_tool_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tool approvals in their brand"
+  ON public.mcp_tool_approvals FOR SELECT
+  TO authenticated
+  USING (
+    brand_id IN (
+      SELECT brand_id FROM public.brand_users WHERE user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,11 @@
+-- Only the API may record chat usage
+-- check_and_use_quota and add_conversation_cost are SECURITY DEFINER, so anyone able to
+-- call them over PostgREST could skip the quota with p_allow_overage, log usage under
+-- another user with p_performed_by or add cost to any conversation. All callers use the
+-- service role.
+
+REVOKE EXECUTE ON FUNCTION public.check_and_use_quota(TEXT, TEXT, INTEGER, TEXT, JSONB, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_and_use_quota(TEXT, TEXT, INTEGER, TEXT, JSONB, UUID, BOOLEAN) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.add_conversation_cost(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_conversation_cost(UUID, DECIMAL) TO service_role;
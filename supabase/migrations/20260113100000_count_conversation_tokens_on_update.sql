@@ -0,0 +1,23 @@
+-- Keep conversations.total_tokens_used up to date for replies saved server-side
+-- /api/chat inserts the assistant reply with tokens_used = 0 when generation starts and
+-- writes the real count once the model finishes. The trigger only ran on INSERT, so
+-- those tokens never reached the conversation. Updates now add the difference.
+
+CREATE OR REPLACE FUNCTION public.update_conversation_tokens()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.conversations
+  SET total_tokens_used = COALESCE(total_tokens_used, 0)
+    + COALESCE(NEW.tokens_used, 0)
+    - CASE WHEN TG_OP = 'UPDATE' THEN COALESCE(OLD.tokens_used, 0) ELSE 0 END
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_conversation_tokens_on_update ON public.messages;
+CREATE TRIGGER trigger_update_conversation_tokens_on_update
+  AFTER UPDATE OF tokens_used ON public.messages
+  FOR EACH ROW
+  WHEN (NEW.tokens_used IS DISTINCT FROM OLD.tokens_used)
+  EXECUTE FUNCTION public.update_conversation_tokens();
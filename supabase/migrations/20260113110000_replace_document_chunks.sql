@@ -0,0 +1,52 @@
+-- Replace a document's chunks in one transaction
+-- Re-indexing used to delete the old chunks and insert the new ones in two requests, so
+-- a failed insert left the document without chunks and it dropped out of search. The
+-- old chunks now stay until the new ones are stored.
+
+-- p_rows are embedding rows as JSON; every row has the same columns (service role only)
+CREATE OR REPLACE FUNCTION public.replace_document_chunks(
+  p_table TEXT,
+  p_document_id UUID,
+  p_rows JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_document_column TEXT;
+  v_columns TEXT;
+BEGIN
+  v_document_column := CASE p_table
+    WHEN 'document_embeddings' THEN 'document_id'
+    WHEN 'project_file_embeddings' THEN 'file_id'
+  END;
+
+  IF v_document_column IS NULL THEN
+    RAISE EXCEPTION 'Unknown embeddings table %', p_table;
+  END IF;
+
+  EXECUTE format('DELETE FROM public.%I WHERE %I = $1', p_table, v_document_column)
+  USING p_document_id;
+
+  IF jsonb_array_length(COALESCE(p_rows, '[]'::jsonb)) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT string_agg(quote_ident(key), ', ')
+  INTO v_columns
+  FROM jsonb_object_keys(p_rows->0) AS key;
+
+  EXECUTE format(
+    'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $1)',
+    p_table,
+    v_columns
+  )
+  USING p_rows;
+
+  RETURN jsonb_array_length(p_rows);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_document_chunks(TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_document_chunks(TEXT, UUID, JSONB) TO service_role;
@@ -0,0 +1,57 @@
+-- Back off before retrying file processing jobs whose worker timed out
+-- claim_file_processing_jobs put timed-out jobs back as retrying without moving
+-- next_attempt_at, which was already in the past, so the same call claimed them again
+-- straight away. They now wait like any failed attempt: 30 seconds after the first,
+-- twice as long after each one after that, up to an hour (retryDelayMs in
+-- supabase/functions/_shared/file-jobs.ts).
+
+CREATE OR REPLACE FUNCTION public.claim_file_processing_jobs(
+  p_limit INTEGER DEFAULT 1,
+  p_lock_timeout INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF public.file_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH expired AS (
+    UPDATE public.file_processing_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'retrying' END,
+        completed_at = CASE WHEN attempts >= max_attempts THEN NOW() END,
+        next_attempt_at = NOW() + LEAST(
+          INTERVAL '30 seconds' * POWER(2, LEAST(GREATEST(attempts - 1, 0), 8)),
+          INTERVAL '1 hour'
+        ),
+        last_error = 'Processing timed out',
+        locked_at = NULL,
+        updated_at = NOW()
+    WHERE status = 'running' AND locked_at < NOW() - p_lock_timeout
+    RETURNING project_file_id, status
+  )
+  UPDATE public.project_files f
+  SET status = 'error', error_message = 'Processing timed out'
+  FROM expired e
+  WHERE f.id = e.project_file_id AND e.status = 'dead';
+
+  RETURN QUERY
+  UPDATE public.file_processing_jobs j
+  SET status = 'running',
+      stage = 'queued',
+      progress = 0,
+      attempts = j.attempts + 1,
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM public.file_processing_jobs
+    WHERE status IN ('queued', 'retrying') AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_file_processing_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_file_processing_jobs(INTEGER, INTERVAL) TO service_role;
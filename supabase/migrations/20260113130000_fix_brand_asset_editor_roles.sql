@@ -0,0 +1,14 @@
+-- Let creators and company admins tag and describe any of the brand's assets
+-- "Editors can update brand assets" checked the roles 'admin' and 'editor', which
+-- 20251201141400 had already replaced with 'creator', so only owners got the new rights.
+-- It now uses the brand roles that can edit documents (owner, company_admin, creator).
+
+DROP POLICY IF EXISTS "Editors can update brand assets" ON public.brand_assets;
+CREATE POLICY "Editors can update brand assets"
+  ON public.brand_assets FOR UPDATE
+  USING (
+    brand_id IN (
+      SELECT brand_id FROM public.brand_users
+      WHERE user_id = auth.uid() AND role IN ('owner', 'company_admin', 'creator')
+    )
+  );
@@ -24,6 +24,7 @@ export default defineConfig({
   resolve: {
     alias: {
       "@act/auth": path.resolve(__dirname, "./packages/auth/src"),
+      "@act/models": path.resolve(__dirname, "./packages/models/src"),
       "@act/tenant-config": path.resolve(__dirname, "./packages/tenant-config/src"),
       "@act/ui": path.resolve(__dirname, "./packages/ui/src"),
     },